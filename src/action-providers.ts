@@ -2,8 +2,9 @@ import * as vscode from "vscode";
 
 import { RefactoringWithActionProvider } from "./types";
 import * as t from "./ast";
-import { Selection } from "./editor/selection";
+import { findApplicableRefactorings } from "./applicable-refactorings";
 import { createVSCodeEditor } from "./editor/adapters/create-vscode-editor";
+import { ParseErrorDiagnostics } from "./parse-error-diagnostics";
 import {
   getIgnoredFolders,
   shouldShowInQuickFix
@@ -14,7 +15,11 @@ export { RefactoringActionProvider };
 type Refactoring = RefactoringWithActionProvider;
 
 class RefactoringActionProvider implements vscode.CodeActionProvider {
-  constructor(private refactorings: Refactoring[]) {}
+  constructor(
+    private refactorings: Refactoring[],
+    private parseErrors: ParseErrorDiagnostics,
+    private syntaxes?: t.Syntax[]
+  ) {}
 
   provideCodeActions(
     document: vscode.TextDocument
@@ -29,82 +34,41 @@ class RefactoringActionProvider implements vscode.CodeActionProvider {
     if (!editor) return NO_ACTION;
 
     try {
-      const ast = t.parse(editor.code);
+      // Quick fixes don't modify the AST, commands can use it after.
+      const ast = t.parseCache.read(editor.code);
+      this.parseErrors.clear(editor);
 
-      return this.findApplicableRefactorings(
+      // Detected from the document, since languages can't tell Flow apart.
+      if (!this.isWrittenWithSupportedSyntax(ast)) return NO_ACTION;
+
+      const refactoringsToCheck = this.refactorings.filter(
+        ({ command: { key } }) => shouldShowInQuickFix(key)
+      );
+
+      return findApplicableRefactorings(
         ast,
-        editor.selection
+        editor.selection,
+        refactoringsToCheck
       ).map((refactoring) => this.buildCodeActionFor(refactoring));
-    } catch {
-      // Silently fail, we don't care why it failed (e.g. code can't be parsed).
+    } catch (error) {
+      // Don't bother users, unless they want to know why code can't be parsed.
+      this.parseErrors.report(editor, error);
       return NO_ACTION;
     }
   }
 
+  private isWrittenWithSupportedSyntax(ast: t.AST): boolean {
+    if (!this.syntaxes) return true;
+
+    return this.syntaxes.includes(t.getProgramSyntax(ast.program));
+  }
+
   private isNavigatingAnIgnoredFile(filePath: string): boolean {
     return getIgnoredFolders().some((ignored) =>
       filePath.includes(`/${ignored}/`)
     );
   }
 
-  private findApplicableRefactorings(
-    ast: t.File,
-    selection: Selection
-  ): Refactoring[] {
-    const applicableRefactorings = new Map<string, Refactoring>();
-
-    const refactoringsToCheck = this.refactorings.filter(
-      ({ command: { key } }) => shouldShowInQuickFix(key)
-    );
-
-    t.traverseAST(ast, {
-      enter: (path) => {
-        /**
-         * Hint for perf improvement
-         * =========================
-         *
-         * It seems we're trying each refactoring on each Node of the AST.
-         * We could filter nodes for which selection isn't inside!
-         */
-        refactoringsToCheck.forEach((refactoring) => {
-          const {
-            actionProvider,
-            command: { key }
-          } = refactoring;
-
-          const visitor = actionProvider.createVisitor(
-            selection,
-            (visitedPath) => {
-              if (actionProvider.updateMessage) {
-                actionProvider.message = actionProvider.updateMessage(
-                  visitedPath
-                );
-              }
-
-              applicableRefactorings.set(key, refactoring);
-            }
-          );
-
-          this.visit(visitor, path);
-        });
-      }
-    });
-
-    return Array.from(applicableRefactorings.values());
-  }
-
-  private visit(visitor: t.Visitor, path: t.NodePath) {
-    if (typeof visitor.enter === "function") {
-      visitor.enter(path, path.state);
-    }
-
-    const visitorNode = visitor[path.node.type];
-    if (typeof visitorNode === "function") {
-      // @ts-expect-error visitor can expect `NodePath<File>` but `path` is typed as `NodePath<Node>`. It should be OK at runtime.
-      visitorNode.bind(visitor)(path, path.state);
-    }
-  }
-
   private buildCodeActionFor(refactoring: Refactoring) {
     const action = new vscode.CodeAction(
       `${refactoring.actionProvider.message} ✨`,
@@ -0,0 +1,193 @@
+import { Code } from "./editor/editor";
+import { Selection } from "./editor/selection";
+import { RefactoringWithActionProvider } from "./types";
+import { refactorings } from "./refactorings";
+import * as t from "./ast";
+
+import { findApplicableRefactorings } from "./applicable-refactorings";
+
+describe("Find Applicable Refactorings", () => {
+  const allRefactorings = Object.values(refactorings).flatMap(
+    ({ withActionProvider }) => withActionProvider
+  );
+
+  it("should find the same refactorings than running them one by one", () => {
+    const code = createFixture(1);
+    const ast = t.parse(code);
+
+    code.split("\n").forEach((line, lineIndex) => {
+      const characters = [0, line.search(/\S/), Math.floor(line.length / 2)];
+
+      characters.forEach((character) => {
+        const selection = Selection.cursorAt(lineIndex, Math.max(character, 0));
+
+        const result = findApplicableRefactorings(
+          ast,
+          selection,
+          allRefactorings
+        );
+
+        expect(getKeys(result)).toEqual(
+          getKeys(findOneByOne(ast, selection, allRefactorings))
+        );
+      });
+    });
+  });
+
+  it("should find refactorings for a selection", () => {
+    const code = createFixture(1);
+    const ast = t.parse(code);
+    const selection = new Selection([4, 6], [4, 24]);
+
+    const result = findApplicableRefactorings(ast, selection, allRefactorings);
+
+    expect(getKeys(result)).toEqual(
+      getKeys(findOneByOne(ast, selection, allRefactorings))
+    );
+  });
+
+  it("should visit nodes once for all refactorings", () => {
+    const ast = t.parse(createFixture(1));
+    const selection = Selection.cursorAt(4, 8);
+    const visitedNodes: t.Node[] = [];
+    const countingRefactorings = ["first", "second"].map((key) =>
+      createCountingRefactoring(key, (path) => visitedNodes.push(path.node))
+    );
+
+    findApplicableRefactorings(ast, selection, countingRefactorings);
+
+    const nodesOfOneRefactoring = visitedNodes.filter((_, i) => i % 2 === 0);
+    expect(nodesOfOneRefactoring.length).toBeGreaterThan(0);
+    expect(visitedNodes).toEqual(
+      nodesOfOneRefactoring.flatMap((node) => [node, node])
+    );
+  });
+
+  it("should only visit nodes that contain the selection", () => {
+    const code = createFixture(100);
+    expect(code.split("\n").length).toBeGreaterThan(3000);
+    const ast = t.parse(code);
+    const selection = Selection.cursorAt(1504, 8);
+    const visitedPaths: t.NodePath[] = [];
+    const countingRefactoring = createCountingRefactoring("counting", (path) =>
+      visitedPaths.push(path)
+    );
+
+    findApplicableRefactorings(ast, selection, [countingRefactoring]);
+
+    const selectableVisitedPaths = visitedPaths.filter((path) =>
+      t.isSelectableNode(path.node)
+    );
+    expect(selectableVisitedPaths.length).toBeGreaterThan(0);
+    expect(
+      selectableVisitedPaths.every((path) => selection.isInsidePath(path))
+    ).toBe(true);
+  });
+
+  it("should visit less nodes than unpruned traversals on large files", () => {
+    const ast = t.parse(createFixture(100));
+    const selection = Selection.cursorAt(1504, 8);
+    let visitedNodesCount = 0;
+    const countingRefactoring = createCountingRefactoring("counting", () => {
+      visitedNodesCount++;
+    });
+
+    const result = findApplicableRefactorings(ast, selection, [
+      ...allRefactorings,
+      countingRefactoring
+    ]);
+    const prunedCount = visitedNodesCount;
+
+    visitedNodesCount = 0;
+    const unprunedResult = findOneByOne(ast, selection, [
+      ...allRefactorings,
+      countingRefactoring
+    ]);
+    const unprunedCount = visitedNodesCount;
+
+    expect(prunedCount).toBeGreaterThan(0);
+    expect(prunedCount).toBeLessThan(unprunedCount);
+    expect(getKeys(result)).toEqual(getKeys(unprunedResult));
+  });
+});
+
+function findOneByOne(
+  ast: t.File,
+  selection: Selection,
+  refactorings: RefactoringWithActionProvider[]
+): RefactoringWithActionProvider[] {
+  return refactorings.filter(({ actionProvider }) => {
+    let isApplicable = false;
+    t.traverseAST(
+      ast,
+      actionProvider.createVisitor(selection, () => {
+        isApplicable = true;
+      })
+    );
+    return isApplicable;
+  });
+}
+
+function getKeys(refactorings: RefactoringWithActionProvider[]): string[] {
+  return refactorings.map(({ command }) => command.key).sort();
+}
+
+function createCountingRefactoring(
+  key: string,
+  onVisit: (path: t.NodePath) => void
+): RefactoringWithActionProvider {
+  return {
+    command: { key, title: key, operation: async () => {} },
+    actionProvider: {
+      message: key,
+      createVisitor: () => ({
+        enter(path) {
+          onVisit(path);
+        }
+      })
+    }
+  };
+}
+
+function createFixture(copies: number): Code {
+  return Array.from({ length: copies }, (_, i) => createModule(i)).join("\n");
+}
+
+function createModule(id: number): Code {
+  return `function Greeter${id}(name) {
+  this.name = name;
+}
+
+Greeter${id}.prototype.greet = function (greeting) {
+  let message = greeting + " " + this.name;
+  if (this.isPolite) {
+    if (this.isLoud) {
+      message = message.toUpperCase();
+    }
+  } else {
+    return;
+  }
+  return this.isFriendly ? message + "!" : message;
+};
+
+const format${id} = (value) => {
+  return value && value.label ? "Label: " + value.label : "None";
+};
+
+export class Store${id} {
+  items = [];
+
+  load(items) {
+    for (let i = 0; i < items.length; i++) {
+      this.items.push(items[i]);
+    }
+    switch (items.length) {
+      case 0:
+        return "empty";
+      default:
+        return "loaded";
+    }
+  }
+}
+`;
+}
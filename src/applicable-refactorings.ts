@@ -0,0 +1,80 @@
+import { RefactoringWithActionProvider } from "./types";
+import * as t from "./ast";
+import { Selection } from "./editor/selection";
+
+export { findApplicableRefactorings };
+
+type Refactoring = RefactoringWithActionProvider;
+
+function findApplicableRefactorings(
+  ast: t.File,
+  selection: Selection,
+  refactorings: Refactoring[]
+): Refactoring[] {
+  const applicableRefactorings = new Map<string, Refactoring>();
+
+  const visitors = refactorings.map((refactoring) => {
+    const {
+      actionProvider,
+      command: { key }
+    } = refactoring;
+
+    return actionProvider.createVisitor(selection, (visitedPath) => {
+      if (actionProvider.updateMessage) {
+        actionProvider.message = actionProvider.updateMessage(visitedPath);
+      }
+
+      applicableRefactorings.set(key, refactoring);
+    });
+  });
+
+  t.traverseAST(ast, mergeVisitors(visitors, selection));
+
+  return Array.from(applicableRefactorings.values());
+}
+
+/**
+ * Run all visitors in a single traversal, skipping the nodes that don't
+ * contain the selection: refactorings can't apply to these.
+ */
+function mergeVisitors(visitors: t.Visitor[], selection: Selection): t.Visitor {
+  return {
+    enter(path, state) {
+      // Nodes without location (e.g. default exports) may still contain it.
+      if (t.isSelectableNode(path.node) && !selection.isInsidePath(path)) {
+        path.skip();
+        return;
+      }
+
+      visitors.forEach((visitor) => visit(visitor, "enter", path, state));
+    },
+
+    exit(path, state) {
+      visitors.forEach((visitor) => visit(visitor, "exit", path, state));
+    }
+  };
+}
+
+function visit(
+  visitor: t.Visitor,
+  key: "enter" | "exit",
+  path: t.NodePath,
+  state: {}
+) {
+  const visitAnyNode = visitor[key];
+  if (visitAnyNode) visitAnyNode.call(state, path, state);
+
+  Object.entries(visitor).forEach(([types, visitNode]) => {
+    if (types === "enter" || types === "exit") return;
+
+    // Types can be aliases (e.g. `Statement`) or a list (e.g. `A|B`).
+    const isVisited = types.split("|").some((type) => t.is(type, path.node));
+    if (!isVisited) return;
+
+    const visitNodeFunction =
+      typeof visitNode === "function"
+        ? key === "enter" && visitNode
+        : visitNode[key];
+    if (visitNodeFunction) visitNodeFunction.call(state, path, state);
+  });
+}
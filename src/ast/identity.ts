@@ -183,6 +183,7 @@ function areEquivalent(nodeA: t.Node | null, nodeB: t.Node | null): boolean {
   // Member Expressions
   if (t.isMemberExpression(nodeA) && t.isMemberExpression(nodeB)) {
     return (
+      nodeA.computed === nodeB.computed &&
       areEquivalent(nodeA.property, nodeB.property) &&
       areEquivalent(nodeA.object, nodeB.object)
     );
@@ -232,6 +233,22 @@ function areEquivalent(nodeA: t.Node | null, nodeB: t.Node | null): boolean {
     return nodeA.typeAnnotation.type === nodeB.typeAnnotation.type;
   }
 
+  // Flow types
+  if (t.isGenericTypeAnnotation(nodeA) && t.isGenericTypeAnnotation(nodeB)) {
+    return (
+      areEquivalent(nodeA.id, nodeB.id) &&
+      areAllEqual(
+        nodeA.typeParameters ? nodeA.typeParameters.params : [],
+        nodeB.typeParameters ? nodeB.typeParameters.params : []
+      )
+    );
+  }
+  if (t.isFlowType(nodeA) && t.isFlowType(nodeB)) {
+    return "value" in nodeA && "value" in nodeB
+      ? nodeA.value === nodeB.value
+      : nodeA.type === nodeB.type;
+  }
+
   // Primitive values
   return "value" in nodeA && "value" in nodeB && nodeA.value === nodeB.value;
 }
@@ -5,6 +5,7 @@ export * from "./scope";
 export * from "./selection";
 export * from "./siblings";
 export * from "./switch";
+export * from "./syntax";
 export * from "./template-literal";
 // templateElement is exported by ./domain too, make it explicit
 export { templateElement } from "./template-literal";
@@ -0,0 +1,111 @@
+import { ParseCache, DocumentVersion } from "./parse-cache";
+import { parse } from "./transformation";
+
+describe("Parse Cache", () => {
+  const code = `const hello = "world";`;
+  const document: DocumentVersion = {
+    uri: "file:///src/hello.ts",
+    version: 1,
+    syntax: "typescript"
+  };
+
+  let parseCode: jest.Mock;
+  let cache: ParseCache;
+
+  beforeEach(() => {
+    parseCode = jest.fn((code, syntax) => parse(code, syntax));
+    cache = new ParseCache(parseCode);
+  });
+
+  it("should parse the code of the document once", () => {
+    cache.open(document, code);
+
+    const firstAST = cache.read(code);
+    const secondAST = cache.read(code);
+
+    expect(secondAST).toBe(firstAST);
+    expect(parseCode).toBeCalledTimes(1);
+  });
+
+  it("should give the cached AST to transformations", () => {
+    cache.open(document, code);
+
+    const readAST = cache.read(code);
+    const takenAST = cache.take(code);
+
+    expect(takenAST).toBe(readAST);
+    expect(parseCode).toBeCalledTimes(1);
+  });
+
+  it("should parse again after a transformation took the AST", () => {
+    cache.open(document, code);
+
+    const takenAST = cache.take(code);
+    const readAST = cache.read(code);
+
+    expect(readAST).not.toBe(takenAST);
+    expect(parseCode).toBeCalledTimes(2);
+  });
+
+  it("should parse again when document version changes", () => {
+    cache.open(document, code);
+    cache.read(code);
+
+    const newCode = `const hello = "you";`;
+    cache.open({ ...document, version: 2 }, newCode);
+    cache.read(newCode);
+
+    expect(parseCode).toBeCalledTimes(2);
+  });
+
+  it("should parse again when document syntax changes", () => {
+    cache.open(document, code);
+    cache.read(code);
+
+    cache.open({ ...document, syntax: "flow" }, code);
+    cache.read(code);
+
+    expect(parseCode).toBeCalledTimes(2);
+    expect(parseCode).toHaveBeenLastCalledWith(code, "flow");
+  });
+
+  it("should parse other code with the syntax of the document", () => {
+    cache.open({ ...document, syntax: "javascript" }, code);
+
+    const otherCode = `const other = "file";`;
+    cache.read(otherCode);
+
+    expect(parseCode).toBeCalledWith(otherCode, "javascript");
+  });
+
+  it("should keep the cached AST if the same version is opened again", () => {
+    cache.open(document, code);
+    cache.read(code);
+
+    cache.open(document, code);
+    cache.read(code);
+
+    expect(parseCode).toBeCalledTimes(1);
+  });
+
+  it("should not cache code of other documents", () => {
+    cache.open(document, code);
+
+    const otherCode = `const other = "file";`;
+    cache.read(otherCode);
+    cache.read(otherCode);
+
+    expect(parseCode).toBeCalledTimes(2);
+  });
+
+  it("should cache parsing failures", () => {
+    const invalidCode = `const hello = ;`;
+    cache.open(document, invalidCode);
+
+    expect(() => cache.read(invalidCode)).toThrow();
+    expect(() => cache.read(invalidCode)).toThrow();
+    expect(() => cache.take(invalidCode)).toThrow();
+
+    expect(parseCode).toBeCalledTimes(1);
+  });
+});
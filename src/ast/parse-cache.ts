@@ -0,0 +1,108 @@
+import * as t from "@babel/types";
+
+import { Code } from "../editor/editor";
+import { Syntax, syntaxOf } from "./syntax";
+
+export { ParseCache, DocumentVersion };
+
+/**
+ * Parsing a large file takes time. VS Code asks for quick fixes every time
+ * the cursor moves, and commands usually run on the same document.
+ *
+ * We keep the result of the last parse of the active document, until its
+ * version or its syntax changes. Failures are cached too, so we don't parse
+ * code with syntax errors over and over.
+ */
+class ParseCache {
+  private document: CachedDocument | null = null;
+
+  constructor(private parseCode: (code: Code, syntax: Syntax) => t.File) {}
+
+  /**
+   * Other code (e.g. a modified version of the document) is parsed with
+   * the syntax of the opened document. Code of other files should be
+   * parsed with their own syntax instead.
+   */
+  open(version: DocumentVersion, code: Code) {
+    const { document } = this;
+    const isSameVersion =
+      document !== null &&
+      document.uri === version.uri &&
+      document.version === version.version &&
+      document.syntax === version.syntax &&
+      document.code === code;
+    if (isSameVersion) return;
+
+    this.document = { ...version, code, result: null };
+  }
+
+  close() {
+    this.document = null;
+  }
+
+  /**
+   * Use it if you don't modify the AST, so it can be used again.
+   */
+  read(code: Code): t.File {
+    const document = this.documentOf(code);
+    if (!document) return this.parse(code);
+
+    if (!document.result) {
+      document.result = this.tryToParse(code);
+    }
+
+    return unwrap(document.result);
+  }
+
+  /**
+   * Transformations modify the AST: it can't be used again after that.
+   */
+  take(code: Code): t.File {
+    const document = this.documentOf(code);
+    if (!document) return this.parse(code);
+
+    const result = document.result || this.tryToParse(code);
+    document.result = "error" in result ? result : null;
+
+    return unwrap(result);
+  }
+
+  private documentOf(code: Code): CachedDocument | null {
+    const { document } = this;
+    return document && document.code === code ? document : null;
+  }
+
+  private tryToParse(code: Code): ParseResult {
+    try {
+      return { ast: this.parse(code) };
+    } catch (error) {
+      return { error };
+    }
+  }
+
+  private parse(code: Code): t.File {
+    const { document } = this;
+    return this.parseCode(
+      code,
+      syntaxOf(code, document ? document.syntax : undefined)
+    );
+  }
+}
+
+function unwrap(result: ParseResult): t.File {
+  if ("error" in result) throw result.error;
+  return result.ast;
+}
+
+type DocumentVersion = {
+  uri: string;
+  version: number;
+  syntax: Syntax;
+};
+
+type CachedDocument = DocumentVersion & {
+  code: Code;
+  result: ParseResult | null;
+};
+
+type ParseResult = { ast: t.File } | { error: Error };
@@ -134,13 +134,13 @@ function referencesInScope(path: NodePath<t.FunctionDeclaration>): NodePath[] {
 }
 
 function getReferencedImportDeclarations(
-  functionPath: NodePath<t.FunctionDeclaration>,
+  declarationPath: NodePath,
   programPath: NodePath<t.Program>
 ): t.ImportDeclaration[] {
   let result: t.ImportDeclaration[] = [];
 
   const importDeclarations = getImportDeclarations(programPath);
-  functionPath.get("body").traverse({
+  declarationPath.traverse({
     Identifier(path) {
       if (!path.isReferenced()) return;
 
@@ -163,26 +163,35 @@ function getReferencedImportDeclarations(
 }
 
 function hasReferencesDefinedInSameScope(
-  functionPath: NodePath<t.FunctionDeclaration>,
+  declarationPath: NodePath,
   programPath: NodePath<t.Program>
 ): boolean {
   let result = false;
 
-  const scopeReferencesNames = bindingNamesInScope(functionPath);
-  const importDeclarations = getImportDeclarations(programPath);
-  const importReferencesNames = importDeclarations
-    .flatMap(({ specifiers }) => specifiers)
-    .map(({ local }) => local.name);
-  const functionParamsNames = functionPath.node.params.flatMap(getNames);
-  const referencesDefinedInSameScope = scopeReferencesNames
-    .filter((name) => !importReferencesNames.includes(name))
-    .filter((name) => !functionParamsNames.includes(name));
-
-  functionPath.get("body").traverse({
+  // Types are not registered as bindings, we need to find them ourselves.
+  const typeNamesInProgram = programPath.node.body
+    .map((statement) =>
+      t.isExportNamedDeclaration(statement) ? statement.declaration : statement
+    )
+    .filter(
+      (node): node is t.TSTypeAliasDeclaration | t.TSInterfaceDeclaration =>
+        t.isTSTypeAliasDeclaration(node) || t.isTSInterfaceDeclaration(node)
+    )
+    .filter((node) => node !== declarationPath.node)
+    .map(({ id }) => id.name);
+
+  declarationPath.traverse({
     Identifier(path) {
       if (!path.isReferenced()) return;
 
-      if (referencesDefinedInSameScope.includes(path.node.name)) {
+      const binding = path.scope.getBinding(path.node.name);
+      const isDefinedInProgram = binding
+        ? binding.scope === programPath.scope &&
+          binding.kind !== "module" &&
+          !isDeclaredIn(declarationPath, binding.path)
+        : typeNamesInProgram.includes(path.node.name);
+
+      if (isDefinedInProgram) {
         result = true;
         path.stop();
       }
@@ -192,12 +201,9 @@ function hasReferencesDefinedInSameScope(
   return result;
 }
 
-function getNames(node: t.Node | null): string[] {
-  if (t.isArrayPattern(node)) return node.elements.flatMap(getNames);
-  if (t.isAssignmentPattern(node)) return getNames(node.left);
-  if (t.isIdentifier(node)) return [node.name];
-  if (t.isRestElement(node)) return getNames(node.argument);
-  if (t.isObjectPattern(node)) return node.properties.flatMap(getNames);
-  if (t.isObjectProperty(node)) return getNames(node.key);
-  return [];
+function isDeclaredIn(declarationPath: NodePath, path: NodePath): boolean {
+  return (
+    path.node === declarationPath.node ||
+    path.findParent(({ node }) => node === declarationPath.node) !== null
+  );
 }
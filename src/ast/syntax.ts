@@ -0,0 +1,65 @@
+import { NodePath } from "@babel/traverse";
+import * as t from "@babel/types";
+
+import { Code } from "../editor/editor";
+
+export {
+  Syntax,
+  syntaxOf,
+  syntaxOfFile,
+  rememberSyntax,
+  getSyntax,
+  getProgramSyntax
+};
+
+/**
+ * Babel can't parse Flow and TypeScript annotations at the same time.
+ *
+ * JavaScript is parsed like TypeScript, but it can't have annotations:
+ * refactorings shouldn't add some.
+ */
+type Syntax = "typescript" | "flow" | "javascript";
+
+/**
+ * Editors know which language the code is written in.
+ * We use it for code that doesn't tell (e.g. no `@flow` pragma).
+ */
+function syntaxOf(code: Code, documentSyntax: Syntax = "typescript"): Syntax {
+  return hasFlowPragma(code) ? "flow" : documentSyntax;
+}
+
+/**
+ * Other files of the workspace don't share the syntax of the document.
+ * We can only tell from their extension and the `@flow` pragma.
+ */
+function syntaxOfFile(fileName: string, code: Code): Syntax {
+  return /\.tsx?$/.test(fileName) ? "typescript" : syntaxOf(code, "javascript");
+}
+
+/**
+ * Flow only looks for the pragma in the comments at the top of the file.
+ */
+function hasFlowPragma(code: Code): boolean {
+  const [leadingComments] = code.match(
+    /^(#!.*)?(\s*(\/\/.*|\/\*[\s\S]*?\*\/))*/
+  ) || [""];
+
+  return /@(no)?flow\b/.test(leadingComments);
+}
+
+const programSyntaxes = new WeakMap<t.Program, Syntax>();
+
+function rememberSyntax(ast: t.File, syntax: Syntax) {
+  programSyntaxes.set(ast.program, syntax);
+}
+
+function getSyntax(path: NodePath): Syntax {
+  const programPath = path.scope.getProgramParent().path;
+  if (!programPath.isProgram()) return "typescript";
+
+  return getProgramSyntax(programPath.node);
+}
+
+function getProgramSyntax(program: t.Program): Syntax {
+  return programSyntaxes.get(program) || "typescript";
+}
@@ -1,5 +1,5 @@
 import * as t from "./domain";
-import { parse, transform } from "./transformation";
+import { parse, transform, parseCache, ParseError } from "./transformation";
 
 describe("Transformation", () => {
   describe("transform", () => {
@@ -111,5 +111,44 @@ function test() {}`);
 
       expect(() => parse(code)).toThrow();
     });
+
+    it("should tell where the syntax error is", () => {
+      const code = `const hello = "world";
+function { console.log('missing }'); `;
+
+      let error: ParseError | null = null;
+      try {
+        parse(code);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ParseError);
+      expect(error?.location).toEqual({ line: 2, column: 9 });
+    });
+
+    describe("Flow", () => {
+      const code = `function hello(name: ?string) {}`;
+
+      afterEach(() => parseCache.close());
+
+      it("should parse Flow code with an @flow pragma", () => {
+        expect(() => parse(`/**\n * @flow\n */\n${code}`)).not.toThrow();
+      });
+
+      it("should parse Flow code if the document is written with Flow", () => {
+        parseCache.open({ uri: "hello.js", version: 1, syntax: "flow" }, code);
+
+        expect(() => parse(code)).not.toThrow();
+      });
+
+      it("should not parse Flow code by default", () => {
+        expect(() => parse(code)).toThrow();
+      });
+
+      it("should not look for the pragma after the first comments", () => {
+        expect(() => parse(`const a = 1;\n// @flow\n${code}`)).toThrow();
+      });
+    });
   });
 });
@@ -10,6 +10,9 @@ import * as recast from "recast";
 
 import { Code } from "../editor/editor";
 import { findScopePath } from "./scope";
+import { ParseCache } from "./parse-cache";
+import { ASTPosition } from "./selection";
+import { Syntax, rememberSyntax } from "./syntax";
 
 const traverseNode = t.traverse;
 const traversePath = traverse;
@@ -22,6 +25,8 @@ export {
   traverseAST,
   parseAndTraverseCode,
   parse,
+  parseCache,
+  ParseError,
   transform,
   transformAST,
   transformCopy,
@@ -105,9 +110,15 @@ function parseAndTraverseCode(code: Code, opts: TraverseOptions): AST {
   return traverseAST(parse(code), opts);
 }
 
-function parse(code: Code): AST {
+const parseCache = new ParseCache(parseCode);
+
+function parse(code: Code, syntax?: Syntax): AST {
+  return syntax ? parseCode(code, syntax) : parseCache.take(code);
+}
+
+function parseCode(code: Code, syntax: Syntax): AST {
   try {
-    return recast.parse(code, {
+    const ast: AST = recast.parse(code, {
       parser: {
         parse: (source: Code) =>
           babelParse(source, {
@@ -134,8 +145,7 @@ function parse(code: Code): AST {
               // "estree",
               "exportDefaultFrom",
               "exportNamespaceFrom",
-              // Not compatible with "typescript"
-              // "flow",
+              // Recast would print types of comments as real annotations
               // "flowComments",
               "functionBind",
               "functionSent",
@@ -152,7 +162,8 @@ function parse(code: Code): AST {
               "placeholders",
               "throwExpressions",
               "topLevelAwait",
-              "typescript"
+              // "flow" and "typescript" are not compatible
+              syntax === "flow" ? ["flow", { all: true }] : "typescript"
               // Not compatible with "placeholders"
               // "v8intrinsic"
             ]
@@ -161,13 +172,27 @@ function parse(code: Code): AST {
       // VS Code considers tabs to be of size 1
       tabWidth: 1
     });
+    rememberSyntax(ast, syntax);
+
+    return ast;
   } catch (e) {
-    throw new Error(
-      `I can't build the AST from the source code. This may be due to a syntax error that you can fix. Here's what went wrong: ${e.message}`
+    throw new ParseError(
+      `I can't build the AST from the source code. This may be due to a syntax error that you can fix. Here's what went wrong: ${e.message}`,
+      e.loc || null
     );
   }
 }
 
+/**
+ * Babel tells us where it failed. We keep it so we can show it to users.
+ */
+class ParseError extends Error {
+  constructor(message: string, readonly location: ASTPosition | null) {
+    super(message);
+    this.name = "ParseError";
+  }
+}
+
 function traverseAST(ast: AST, opts: TraverseOptions): AST {
   traverse(ast, opts);
   return ast;
@@ -0,0 +1,265 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { Selection } from "../editor/selection";
+
+import { runCli, parseSelection, Output, ExitCode } from "./cli";
+
+describe("CLI", () => {
+  let folder: string;
+  let output: Output;
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), "abracadabra-cli-"));
+    output = { log: jest.fn(), error: jest.fn() };
+  });
+
+  afterEach(() => {
+    fs.rmdirSync(folder, { recursive: true });
+  });
+
+  it("should run the refactoring on the given file", async () => {
+    writeFile(
+      "a.ts",
+      `if (!isValid) {
+  doSomething();
+} else {
+  doSomethingElse();
+}`
+    );
+
+    const exitCode = await runCli(
+      ["run", "flipIfElse", "--file", "a.ts", "--selection", "1:5"],
+      output,
+      folder
+    );
+
+    expect(exitCode).toBe(ExitCode.Success);
+    expect(readFile("a.ts")).toBe(`if (isValid) {
+  doSomethingElse();
+} else {
+  doSomething();
+}`);
+  });
+
+  it("should answer user input from flags", async () => {
+    writeFile("a.ts", `console.log("Hello world");`);
+
+    await runCli(
+      [
+        "run",
+        "extract",
+        "--file",
+        "a.ts",
+        "--selection",
+        "1:13-1:26",
+        "--input",
+        "greeting"
+      ],
+      output,
+      folder
+    );
+
+    expect(readFile("a.ts")).toBe(`const greeting = "Hello world";
+console.log(greeting);`);
+  });
+
+  it("should answer user choices from an answers file", async () => {
+    writeFile(
+      "a.ts",
+      `console.log("Hello");
+console.log("Hello");`
+    );
+    writeFile(
+      "answers.json",
+      JSON.stringify({ choices: ["Replace this occurrence only"] })
+    );
+
+    await runCli(
+      [
+        "run",
+        "extract",
+        "--file",
+        "a.ts",
+        "--selection",
+        "1:13",
+        "--answers",
+        "answers.json"
+      ],
+      output,
+      folder
+    );
+
+    expect(readFile("a.ts")).toBe(`const hello = "Hello";
+console.log(hello);
+console.log("Hello");`);
+  });
+
+  it("should fail if an answer doesn't match any choice", async () => {
+    writeFile(
+      "a.ts",
+      `console.log("Hello");
+console.log("Hello");`
+    );
+
+    const exitCode = await runCli(
+      [
+        "run",
+        "extract",
+        "--file",
+        "a.ts",
+        "--selection",
+        "1:13",
+        "--choice",
+        "Unknown"
+      ],
+      output,
+      folder
+    );
+
+    expect(exitCode).toBe(ExitCode.Failure);
+    expect(output.error).toBeCalledWith(
+      expect.stringContaining(`"Unknown" doesn't match any choice`)
+    );
+  });
+
+  it("should report refactoring errors", async () => {
+    const code = `console.log("Hello");`;
+    writeFile("a.ts", code);
+
+    const exitCode = await runCli(
+      ["run", "flipIfElse", "--file", "a.ts", "--selection", "1:1"],
+      output,
+      folder
+    );
+
+    expect(exitCode).toBe(ExitCode.Failure);
+    expect(output.error).toBeCalledWith(
+      "I didn't find an if statement to flip from current selection 🤔"
+    );
+    expect(readFile("a.ts")).toBe(code);
+  });
+
+  it("should report refactoring information", async () => {
+    writeFile("a.ts", `export function doNothing() {}`);
+    writeFile("b.ts", `import { doNothing } from "./a";`);
+    writeFile("c.ts", "");
+
+    const exitCode = await runCli(
+      [
+        "run",
+        "moveToExistingFile",
+        "--file",
+        "a.ts",
+        "--selection",
+        "1:17",
+        "--choice",
+        "c.ts"
+      ],
+      output,
+      folder
+    );
+
+    expect(exitCode).toBe(ExitCode.Success);
+    expect(readFile("b.ts")).toBe(`import { doNothing } from "./c";`);
+    expect(output.log).toBeCalledWith("Updated imports in 1 file: ./b.ts");
+  });
+
+  it("should fail on an unknown refactoring", async () => {
+    writeFile("a.ts", "");
+
+    const exitCode = await runCli(
+      ["run", "unknown", "--file", "a.ts", "--selection", "1:1"],
+      output,
+      folder
+    );
+
+    expect(exitCode).toBe(ExitCode.Failure);
+    expect(output.error).toBeCalledWith(
+      expect.stringContaining(`Unknown refactoring "unknown"`)
+    );
+  });
+
+  it("should replay an exported refactoring history", async () => {
+    writeFile(
+      "a.ts",
+      `if (!isValid) {
+  console.log("Hello");
+} else {
+  console.log("Hello");
+}`
+    );
+    writeFile(
+      "history.json",
+      JSON.stringify([
+        {
+          key: "flipIfElse",
+          file: "a.ts",
+          selection: {
+            start: { line: 0, character: 4 },
+            end: { line: 0, character: 4 }
+          },
+          answers: { inputs: [], choices: [] },
+          timestamp: "2021-01-01T12:00:00.000Z"
+        },
+        {
+          key: "extract",
+          file: "a.ts",
+          selection: {
+            start: { line: 1, character: 14 },
+            end: { line: 1, character: 14 }
+          },
+          answers: {
+            inputs: ["greeting"],
+            choices: ["Replace all 2 occurrences"]
+          },
+          timestamp: "2021-01-01T12:01:00.000Z"
+        }
+      ])
+    );
+
+    const exitCode = await runCli(["replay", "history.json"], output, folder);
+
+    expect(exitCode).toBe(ExitCode.Success);
+    expect(readFile("a.ts")).toBe(`const greeting = "Hello";
+if (isValid) {
+  console.log(greeting);
+} else {
+  console.log(greeting);
+}`);
+  });
+
+  it("should list all refactorings", async () => {
+    const exitCode = await runCli(["list"], output, folder);
+
+    expect(exitCode).toBe(ExitCode.Success);
+    expect(output.log).toBeCalledWith("flipIfElse");
+    expect(output.log).toBeCalledWith("extract");
+  });
+
+  describe("parse selection", () => {
+    it("should parse a cursor", () => {
+      expect(parseSelection("12:4")).toEqual(Selection.cursorAt(11, 3));
+    });
+
+    it("should parse a selection", () => {
+      expect(parseSelection("12:4-13:30")).toEqual(
+        new Selection([11, 3], [12, 29])
+      );
+    });
+
+    it("should throw on invalid selection", () => {
+      expect(() => parseSelection("12")).toThrow();
+      expect(() => parseSelection("0:1")).toThrow();
+    });
+  });
+
+  function writeFile(fileName: string, code: string) {
+    fs.writeFileSync(path.join(folder, fileName), code);
+  }
+
+  function readFile(fileName: string): string {
+    return fs.readFileSync(path.join(folder, fileName), "utf-8");
+  }
+});
@@ -0,0 +1,244 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import { refactorings } from "../refactorings";
+import { Refactoring } from "../types";
+import { Editor, errorReasonToString } from "../editor/editor";
+import { Selection } from "../editor/selection";
+import { AbsolutePath } from "../editor/path";
+import { detectSyntax } from "../editor/syntax";
+import { parseCache, Syntax } from "../ast";
+import {
+  FileSystemEditor,
+  Answers
+} from "../editor/adapters/file-system-editor";
+import { parseHistory, replayHistory, selectionOf } from "../history/history";
+
+export { runCli, parseSelection, Output, ExitCode };
+
+const USAGE = `Usage:
+  abracadabra run <refactoring> --file <path> --selection <selection> [options]
+  abracadabra replay <history> [--root <path>]
+  abracadabra list
+
+Options:
+  --file <path>          File to refactor.
+  --selection <range>    Where to run the refactoring. Lines and columns start at 1.
+                         A cursor: "12:4". A selection: "12:4-12:30".
+  --input <value>        Answer the next input prompt (e.g. a new name). Repeatable.
+  --choice <label>       Answer the next choice prompt with this label. Repeatable.
+  --answers <path>       JSON file with answers: { "inputs": [], "choices": [] }.
+  --root <path>          Workspace folder (defaults to the current directory).
+
+When a prompt has no answer, the default value is used (first choice, or default input).
+
+"replay" runs the refactorings of a history exported from VS Code, in order.
+Files of the history are relative to --root.`;
+
+interface Output {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+enum ExitCode {
+  Success = 0,
+  Failure = 1
+}
+
+async function runCli(
+  args: string[],
+  output: Output = console,
+  cwd: string = process.cwd()
+): Promise<ExitCode> {
+  const [command, ...rest] = args;
+
+  try {
+    switch (command) {
+      case "run":
+        return await run(rest, output, cwd);
+
+      case "replay":
+        return await replay(rest, output, cwd);
+
+      case "list":
+        allRefactorings().forEach(({ command }) => output.log(command.key));
+        return ExitCode.Success;
+
+      default:
+        output.log(USAGE);
+        return command ? ExitCode.Failure : ExitCode.Success;
+    }
+  } catch (err) {
+    output.error(`😅 I'm sorry, something went wrong: ${err.message}`);
+    return ExitCode.Failure;
+  }
+}
+
+async function run(
+  args: string[],
+  output: Output,
+  cwd: string
+): Promise<ExitCode> {
+  const { positionals, options } = parseOptions(args);
+
+  const [key] = positionals;
+  if (!key) throw new Error(`Missing refactoring to run.\n\n${USAGE}`);
+
+  const refactoring = allRefactorings().find(
+    ({ command }) => command.key === key
+  );
+  if (!refactoring) {
+    throw new Error(
+      `Unknown refactoring "${key}". Run "abracadabra list" to see all of them.`
+    );
+  }
+
+  const [file] = options.file || [];
+  if (!file) throw new Error(`Missing --file option.\n\n${USAGE}`);
+
+  const [selection] = options.selection || [];
+  if (!selection) throw new Error(`Missing --selection option.\n\n${USAGE}`);
+
+  const [root] = options.root || [];
+  const filePath = new AbsolutePath(path.resolve(cwd, file));
+  const rootPath = path.resolve(cwd, root || ".");
+  const editor = new FileSystemEditor(
+    filePath,
+    parseSelection(selection),
+    readAnswers(options, cwd),
+    rootPath
+  );
+  openDocument(filePath, editor, detectSyntax(filePath, rootPath));
+
+  await refactoring.command.operation(editor);
+
+  editor.reportedInformation.forEach((message) => output.log(message));
+  editor.reportedErrors.forEach((reason) =>
+    output.error(errorReasonToString(reason))
+  );
+
+  return editor.reportedErrors.length > 0 ? ExitCode.Failure : ExitCode.Success;
+}
+
+async function replay(
+  args: string[],
+  output: Output,
+  cwd: string
+): Promise<ExitCode> {
+  const { positionals, options } = parseOptions(args);
+
+  const [historyFile] = positionals;
+  if (!historyFile) throw new Error(`Missing history to replay.\n\n${USAGE}`);
+
+  const entries = parseHistory(
+    fs.readFileSync(path.resolve(cwd, historyFile), "utf-8")
+  );
+
+  const [root] = options.root || [];
+  const rootPath = path.resolve(cwd, root || ".");
+  const editors: FileSystemEditor[] = [];
+
+  await replayHistory(entries, allRefactorings(), (entry) => {
+    const filePath = new AbsolutePath(path.resolve(rootPath, entry.file));
+    const editor = new FileSystemEditor(
+      filePath,
+      selectionOf(entry),
+      {},
+      rootPath
+    );
+    openDocument(filePath, editor, detectSyntax(filePath, rootPath));
+
+    editors.push(editor);
+    return editor;
+  });
+
+  editors.forEach((editor) => {
+    editor.reportedInformation.forEach((message) => output.log(message));
+    editor.reportedErrors.forEach((reason) =>
+      output.error(errorReasonToString(reason))
+    );
+  });
+
+  const hasErrors = editors.some(({ reportedErrors }) => reportedErrors.length);
+  return hasErrors ? ExitCode.Failure : ExitCode.Success;
+}
+
+function allRefactorings(): Refactoring[] {
+  return Object.values(
+    refactorings
+  ).flatMap(({ withoutActionProvider, withActionProvider }) => [
+    ...withoutActionProvider,
+    ...withActionProvider
+  ]);
+}
+
+function openDocument(filePath: AbsolutePath, editor: Editor, syntax: Syntax) {
+  // Files are read once, there is a single version of them.
+  parseCache.open({ uri: filePath.value, version: 0, syntax }, editor.code);
+}
+
+function parseSelection(value: string): Selection {
+  const match = value.match(/^(\d+):(\d+)(?:-(\d+):(\d+))?$/);
+  if (!match) {
+    throw new Error(
+      `Invalid selection "${value}". Expected "line:column" or "line:column-line:column".`
+    );
+  }
+
+  const [, startLine, startColumn, endLine, endColumn] = match.map(Number);
+  if ([startLine, startColumn].some((value) => value < 1)) {
+    throw new Error(
+      `Invalid selection "${value}". Lines and columns start at 1.`
+    );
+  }
+
+  // Selection is 0-based, while users count from 1 (like in editors).
+  const start = [startLine - 1, startColumn - 1];
+  const end = match[3] ? [endLine - 1, endColumn - 1] : start;
+
+  return new Selection(start, end);
+}
+
+function readAnswers(options: Options, cwd: string): Answers {
+  const [answersFile] = options.answers || [];
+  const fileAnswers: Answers = answersFile
+    ? JSON.parse(fs.readFileSync(path.resolve(cwd, answersFile), "utf-8"))
+    : {};
+
+  return {
+    inputs: [...(fileAnswers.inputs || []), ...(options.input || [])],
+    choices: [...(fileAnswers.choices || []), ...(options.choice || [])]
+  };
+}
+
+function parseOptions(
+  args: string[]
+): {
+  positionals: string[];
+  options: Options;
+} {
+  const positionals: string[] = [];
+  const options: Options = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const name = arg.slice(2);
+    const value = args[i + 1];
+    if (value === undefined) {
+      throw new Error(`Missing value for option ${arg}.`);
+    }
+
+    options[name] = [...(options[name] || []), value];
+    i++;
+  }
+
+  return { positionals, options };
+}
+
+type Options = { [name: string]: string[] | undefined };
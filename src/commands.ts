@@ -2,19 +2,67 @@ import * as vscode from "vscode";
 
 import { Operation } from "./types";
 import { createVSCodeEditor } from "./editor/adapters/create-vscode-editor";
+import { PreviewingEditor } from "./editor/adapters/previewing-editor";
+import { RecordingEditor } from "./editor/adapters/recording-editor";
+import { RefactoringHistory, createEntry } from "./history/history";
+import { ParseErrorDiagnostics } from "./parse-error-diagnostics";
+import { shouldPreviewChanges } from "./vscode-configuration";
 
 export { createCommand, executeSafely };
 
-function createCommand(execute: Operation) {
+function createCommand(
+  key: string,
+  execute: Operation,
+  parseErrors: ParseErrorDiagnostics,
+  history: RefactoringHistory
+) {
   return async () => {
     const editor = createVSCodeEditor();
     if (!editor) return;
 
-    await executeSafely(() => execute(editor));
+    const onError = (error: Error) => parseErrors.report(editor, error);
+    const selection = editor.selection;
+    const recordingEditor = new RecordingEditor(editor);
+
+    let isApplied = false;
+    if (!shouldPreviewChanges(key)) {
+      await executeSafely(async () => {
+        await execute(recordingEditor);
+        isApplied = recordingEditor.hasWritten;
+      }, onError);
+    } else {
+      const previewingEditor = new PreviewingEditor(
+        recordingEditor,
+        (changes) => editor.previewChanges(changes),
+        async (changes, newCursorPosition) => {
+          await editor.writeAll(changes, newCursorPosition);
+          isApplied = true;
+        }
+      );
+      await executeSafely(async () => {
+        await execute(previewingEditor);
+        await previewingEditor.commit();
+      }, onError);
+    }
+
+    // Failed, cancelled or declined refactorings have nothing to replay.
+    if (!isApplied) return;
+
+    await history.record(
+      createEntry(
+        key,
+        vscode.workspace.asRelativePath(editor.uri, false),
+        selection,
+        recordingEditor.answers
+      )
+    );
   };
 }
 
-async function executeSafely(command: () => Promise<any>): Promise<void> {
+async function executeSafely(
+  command: () => Promise<any>,
+  onError: (error: Error) => void = () => {}
+): Promise<void> {
   try {
     await command();
   } catch (err) {
@@ -24,6 +72,7 @@ async function executeSafely(command: () => Promise<any>): Promise<void> {
       return;
     }
 
+    onError(err);
     vscode.window.showErrorMessage(
       `😅 I'm sorry, something went wrong: ${err.message}`
     );
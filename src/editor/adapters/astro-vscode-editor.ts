@@ -0,0 +1,15 @@
+import * as vscode from "vscode";
+
+import { findFrontmatter } from "../embedded-script";
+import { EmbeddedScriptVSCodeEditor } from "./embedded-script-vscode-editor";
+
+export { AstroVSCodeEditor };
+
+/**
+ * Components have their script in the frontmatter, between `---` fences.
+ */
+class AstroVSCodeEditor extends EmbeddedScriptVSCodeEditor {
+  constructor(editor: vscode.TextEditor) {
+    super(editor, findFrontmatter);
+  }
+}
@@ -26,6 +26,34 @@ describe("AttemptingEditor", () => {
 
       expect(attemptingEditor.attemptSucceeded).toBe(false);
     });
+
+    it("should tell which expected reason made the attempt fail", async () => {
+      const editor = new InMemoryEditor("// irrelevant");
+      spyOn(editor, "showError");
+      const attemptingEditor = new AttemptingEditor(editor, [
+        ANY_OTHER_REASON,
+        EXPECTED_REASON
+      ]);
+
+      attemptingEditor.showError(EXPECTED_REASON);
+
+      expect(editor.showError).not.toBeCalled();
+      expect(attemptingEditor.attemptSucceeded).toBe(false);
+      expect(attemptingEditor.failedReason).toBe(EXPECTED_REASON);
+    });
+
+    it("should say attempt didn't succeeded in a transaction", async () => {
+      const editor = new InMemoryEditor("// irrelevant");
+      spyOn(editor, "showError");
+      const attemptingEditor = new AttemptingEditor(editor, EXPECTED_REASON);
+
+      await attemptingEditor.transaction(async (transaction) => {
+        await transaction.showError(EXPECTED_REASON);
+      });
+
+      expect(editor.showError).not.toBeCalled();
+      expect(attemptingEditor.attemptSucceeded).toBe(false);
+    });
   });
 
   describe("reason is not expected", () => {
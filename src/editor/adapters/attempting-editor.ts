@@ -14,8 +14,16 @@ export { AttemptingEditor };
 
 class AttemptingEditor implements Editor {
   attemptSucceeded = true;
+  failedReason: ErrorReason | null = null;
 
-  constructor(private editor: Editor, private expectedReason: ErrorReason) {}
+  constructor(
+    private editor: Editor,
+    private expectedReason: ErrorReason | ErrorReason[]
+  ) {}
+
+  get fileName(): string {
+    return this.editor.fileName;
+  }
 
   workspaceFiles(): Promise<RelativePath[]> {
     return this.editor.workspaceFiles();
@@ -58,14 +66,20 @@ class AttemptingEditor implements Editor {
   }
 
   async showError(reason: ErrorReason) {
-    if (reason === this.expectedReason) {
+    const expectedReasons = ([] as ErrorReason[]).concat(this.expectedReason);
+    if (expectedReasons.includes(reason)) {
       this.attemptSucceeded = false;
+      this.failedReason = reason;
       return Promise.resolve();
     }
 
     await this.editor.showError(reason);
   }
 
+  showInformation(message: string) {
+    return this.editor.showInformation(message);
+  }
+
   askUserChoice<T>(
     choices: Choice<T>[],
     placeHolder?: string
@@ -80,4 +94,23 @@ class AttemptingEditor implements Editor {
   moveCursorTo(position: Position): Promise<void> {
     return this.editor.moveCursorTo(position);
   }
+
+  select(selection: Selection): Promise<void> {
+    return this.editor.select(selection);
+  }
+
+  transaction(operation: (editor: Editor) => Promise<void>): Promise<void> {
+    return this.editor.transaction(async (editor) => {
+      const attemptingEditor = new AttemptingEditor(
+        editor,
+        this.expectedReason
+      );
+      await operation(attemptingEditor);
+
+      if (!attemptingEditor.attemptSucceeded) {
+        this.attemptSucceeded = false;
+        this.failedReason = attemptingEditor.failedReason;
+      }
+    });
+  }
 }
@@ -1,15 +1,90 @@
+import * as path from "path";
 import * as vscode from "vscode";
 
 import { VSCodeEditor } from "./vscode-editor";
+import { EmbeddedScriptVSCodeEditor } from "./embedded-script-vscode-editor";
 import { VueVSCodeEditor } from "./vue-vscode-editor";
+import { SvelteVSCodeEditor } from "./svelte-vscode-editor";
+import { AstroVSCodeEditor } from "./astro-vscode-editor";
+import { MarkdownVSCodeEditor } from "./markdown-vscode-editor";
+import { MdxVSCodeEditor } from "./mdx-vscode-editor";
+import { AbsolutePath } from "../path";
+import { SyntaxDetector } from "../syntax";
+import { parseCache, Syntax } from "../../ast";
 
-export { createVSCodeEditor };
+export { createVSCodeEditor, watchFlowConfigs };
+
+const syntaxDetector = new SyntaxDetector();
 
 function createVSCodeEditor(): VSCodeEditor | undefined {
   const activeTextEditor = vscode.window.activeTextEditor;
   if (!activeTextEditor) return;
 
-  return activeTextEditor.document.languageId === "vue"
-    ? new VueVSCodeEditor(activeTextEditor)
-    : new VSCodeEditor(activeTextEditor);
+  const { document } = activeTextEditor;
+  const editor = createEditorFor(activeTextEditor);
+
+  // Share the parsed AST between quick fixes and commands of this version.
+  parseCache.open(
+    {
+      uri: document.uri.toString(),
+      version: document.version,
+      syntax: isTypeScriptScript(editor)
+        ? "typescript"
+        : detectDocumentSyntax(document)
+    },
+    editor.code
+  );
+
+  return editor;
+}
+
+function createEditorFor(editor: vscode.TextEditor): VSCodeEditor {
+  switch (editor.document.languageId) {
+    case "vue":
+      return new VueVSCodeEditor(editor);
+    case "svelte":
+      return new SvelteVSCodeEditor(editor);
+    case "astro":
+      return new AstroVSCodeEditor(editor);
+    case "markdown":
+      return new MarkdownVSCodeEditor(editor);
+    case "mdx":
+      return new MdxVSCodeEditor(editor);
+    default:
+      return new VSCodeEditor(editor);
+  }
+}
+
+function isTypeScriptScript(editor: VSCodeEditor): boolean {
+  return editor instanceof EmbeddedScriptVSCodeEditor && editor.isTypeScript;
+}
+
+function detectDocumentSyntax(document: vscode.TextDocument): Syntax {
+  if (document.uri.scheme !== "file") {
+    return document.languageId.startsWith("typescript")
+      ? "typescript"
+      : "javascript";
+  }
+
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+  return syntaxDetector.detect(
+    new AbsolutePath(document.uri.path),
+    workspaceFolder ? workspaceFolder.uri.path : path.dirname(document.uri.path)
+  );
+}
+
+function watchFlowConfigs(): vscode.Disposable {
+  const watcher = vscode.workspace.createFileSystemWatcher("**/.flowconfig");
+  const clearDetectedSyntax = (uri: vscode.Uri) => {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    syntaxDetector.clear(
+      workspaceFolder ? workspaceFolder.uri.path : undefined
+    );
+  };
+
+  watcher.onDidCreate(clearDetectedSyntax);
+  watcher.onDidChange(clearDetectedSyntax);
+  watcher.onDidDelete(clearDetectedSyntax);
+
+  return watcher;
 }
@@ -0,0 +1,153 @@
+import * as vscode from "vscode";
+
+import { Code, Command, Modification, Result } from "../editor";
+import { Position } from "../position";
+import { Selection } from "../selection";
+import {
+  FindScriptRegions,
+  ScriptRegion,
+  isTypeScript,
+  positionAt
+} from "../embedded-script";
+import { VSCodeEditor } from "./vscode-editor";
+
+export { EmbeddedScriptVSCodeEditor };
+
+/**
+ * Works on the script region that contains the cursor, as if it was the
+ * whole document. Language-specific editors tell where the regions are.
+ */
+class EmbeddedScriptVSCodeEditor extends VSCodeEditor {
+  private regionIndex: number;
+
+  constructor(
+    editor: vscode.TextEditor,
+    private findRegions: FindScriptRegions
+  ) {
+    super(editor);
+
+    const cursor = super.selection.start;
+    const documentCode = super.code;
+    this.regionIndex = Math.max(
+      0,
+      findRegions(documentCode).findIndex(
+        ({ start, end }) =>
+          !cursor.isBefore(positionAt(documentCode, start)) &&
+          !cursor.isAfter(positionAt(documentCode, end))
+      )
+    );
+  }
+
+  get code(): Code {
+    const { start, end } = this.region;
+    return super.code.slice(start, end);
+  }
+
+  get selection(): Selection {
+    const { start, end } = super.selection;
+    return Selection.fromPositions(
+      this.toScriptPosition(start),
+      this.toScriptPosition(end)
+    );
+  }
+
+  /**
+   * Scripts can be written in TypeScript, e.g. `<script lang="ts">`.
+   */
+  get isTypeScript(): boolean {
+    return isTypeScript(this.region);
+  }
+
+  async delegate(command: Command) {
+    if (command === Command.RenameSymbol) {
+      return Result.NotSupported;
+    }
+
+    return super.delegate(command);
+  }
+
+  async write(code: Code, newCursorPosition?: Position): Promise<void> {
+    return super.write(
+      code,
+      newCursorPosition && this.offsetPosition(newCursorPosition)
+    );
+  }
+
+  protected get editRange(): vscode.Range {
+    return this.toDocumentRange(this.region);
+  }
+
+  protected get documentCode(): Code {
+    return super.code;
+  }
+
+  protected toDocumentRange({ start, end }: ScriptRegion): vscode.Range {
+    const startPosition = positionAt(super.code, start);
+    const endPosition = positionAt(super.code, end);
+
+    return new vscode.Range(
+      new vscode.Position(startPosition.line, startPosition.character),
+      new vscode.Position(endPosition.line, endPosition.character)
+    );
+  }
+
+  async readThenWrite(
+    selection: Selection,
+    getModifications: (code: Code) => Modification[],
+    newCursorPosition?: Position
+  ): Promise<void> {
+    const getOffsetModifications = (code: Code) => {
+      return getModifications(code).map(({ code, selection }) => ({
+        code,
+        selection: this.offsetSelection(selection)
+      }));
+    };
+
+    return super.readThenWrite(
+      this.offsetSelection(selection),
+      getOffsetModifications,
+      newCursorPosition && this.offsetPosition(newCursorPosition)
+    );
+  }
+
+  moveCursorTo(position: Position) {
+    return super.moveCursorTo(this.offsetPosition(position));
+  }
+
+  select(selection: Selection) {
+    return super.select(this.offsetSelection(selection));
+  }
+
+  toDocumentPosition(position: Position): vscode.Position {
+    return super.toDocumentPosition(this.offsetPosition(position));
+  }
+
+  protected get region(): ScriptRegion {
+    const NO_REGION = { start: 0, end: 0 };
+    return this.findRegions(super.code)[this.regionIndex] || NO_REGION;
+  }
+
+  private offsetSelection(selection: Selection): Selection {
+    return Selection.fromPositions(
+      this.offsetPosition(selection.start),
+      this.offsetPosition(selection.end)
+    );
+  }
+
+  private offsetPosition(position: Position): Position {
+    const regionStart = positionAt(super.code, this.region.start);
+
+    // Script starts in the middle of the line (e.g. after `<script>`).
+    return position.line === 0
+      ? regionStart.addCharacters(position.character)
+      : position.addLines(regionStart.line);
+  }
+
+  private toScriptPosition(position: Position): Position {
+    const regionStart = positionAt(super.code, this.region.start);
+
+    return position.isSameLineThan(regionStart)
+      ? new Position(0, position.character - regionStart.character)
+      : position.removeLines(regionStart.line);
+  }
+}
@@ -0,0 +1,51 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { suite } from "mocha";
+
+import { createEditorContractTests } from "../editor-contract-test";
+import { AbsolutePath } from "../path";
+import { Position } from "../position";
+import { Selection } from "../selection";
+import { FileSystemEditor } from "./file-system-editor";
+
+class TestableFileSystemEditor extends FileSystemEditor {
+  constructor(filePath: AbsolutePath, position: Position) {
+    super(filePath, Selection.cursorAtPosition(position));
+  }
+
+  /**
+   * Contract tests expect all files to be returned,
+   * not only the ones we can refactor.
+   */
+  protected async findFilePaths(): Promise<string[]> {
+    return listFilesIn(PLAYGROUND_FOLDER);
+  }
+}
+
+const PLAYGROUND_FOLDER = path.join(
+  os.tmpdir(),
+  "abracadabra-file-system-editor-tests"
+);
+
+suite("File System Editor", () => {
+  createEditorContractTests(
+    async (code, position = new Position(0, 0)) => {
+      fs.mkdirSync(PLAYGROUND_FOLDER, { recursive: true });
+      const filePath = path.join(PLAYGROUND_FOLDER, "abracadabra-tests.ts");
+      fs.writeFileSync(filePath, code);
+
+      return new TestableFileSystemEditor(new AbsolutePath(filePath), position);
+    },
+    async () => {
+      fs.rmdirSync(PLAYGROUND_FOLDER, { recursive: true });
+    }
+  );
+});
+
+function listFilesIn(folder: string): string[] {
+  return fs.readdirSync(folder, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(folder, entry.name);
+    return entry.isDirectory() ? listFilesIn(entryPath) : [entryPath];
+  });
+}
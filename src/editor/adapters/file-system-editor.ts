@@ -0,0 +1,194 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  Editor,
+  Code,
+  Modification,
+  Command,
+  ErrorReason,
+  Choice,
+  Result
+} from "../editor";
+import { Selection } from "../selection";
+import { applyModifications } from "../apply-modifications";
+import { Position } from "../position";
+import { AbsolutePath, RelativePath } from "../path";
+import { runInTransaction } from "./previewing-editor";
+
+export { FileSystemEditor, Answers };
+
+const DEFAULT_IGNORED_FOLDERS = ["node_modules", "dist", "build"];
+const SUPPORTED_EXTENSIONS = [".js", ".jsx", ".ts", ".tsx", ".vue"];
+
+/**
+ * An `Editor` that works on files, outside of VS Code.
+ *
+ * Questions asked to the user are answered with the given `Answers`.
+ * If there is no answer left, it falls back on the default value
+ * (= first choice, or the default input).
+ */
+class FileSystemEditor implements Editor {
+  readonly reportedErrors: ErrorReason[] = [];
+  readonly reportedInformation: string[] = [];
+  private _code: Code;
+  private _selection: Selection;
+  private inputs: string[];
+  private choices: string[];
+
+  constructor(
+    private filePath: AbsolutePath,
+    selection: Selection,
+    answers: Answers = {},
+    private workspaceRoot: string = path.dirname(filePath.value)
+  ) {
+    this._code = fs.readFileSync(filePath.value, "utf-8");
+    this._selection = selection;
+    this.inputs = [...(answers.inputs || [])];
+    this.choices = [...(answers.choices || [])];
+  }
+
+  get fileName(): string {
+    return this.filePath.fileName;
+  }
+
+  async workspaceFiles(): Promise<RelativePath[]> {
+    const filePaths = await this.findFilePaths();
+
+    return filePaths
+      .map((filePath) => new AbsolutePath(filePath))
+      .filter((filePath) => !filePath.equals(this.filePath.value))
+      .filter((filePath) => !filePath.fileName.endsWith(".d.ts"))
+      .map((filePath) => filePath.relativeTo(this.filePath));
+  }
+
+  protected async findFilePaths(): Promise<string[]> {
+    return findFilesIn(this.workspaceRoot, (filePath) =>
+      SUPPORTED_EXTENSIONS.includes(path.extname(filePath))
+    );
+  }
+
+  get code(): Code {
+    return this._code;
+  }
+
+  async codeOf(relativePath: RelativePath): Promise<Code> {
+    const filePath = relativePath.absoluteFrom(this.filePath.value);
+
+    try {
+      return await fs.promises.readFile(filePath.value, "utf-8");
+    } catch {
+      return "";
+    }
+  }
+
+  get selection(): Selection {
+    return this._selection;
+  }
+
+  async write(code: Code, newCursorPosition?: Position): Promise<void> {
+    this._code = code;
+    await fs.promises.writeFile(this.filePath.value, code);
+
+    if (newCursorPosition) {
+      this._selection = Selection.cursorAtPosition(newCursorPosition);
+    }
+  }
+
+  async writeIn(relativePath: RelativePath, code: Code): Promise<void> {
+    const filePath = relativePath.absoluteFrom(this.filePath.value);
+
+    await fs.promises.mkdir(path.dirname(filePath.value), { recursive: true });
+    await fs.promises.writeFile(filePath.value, code);
+  }
+
+  async readThenWrite(
+    selection: Selection,
+    getModifications: (code: Code) => Modification[],
+    newCursorPosition?: Position
+  ): Promise<void> {
+    await this.write(
+      applyModifications(this.code, selection, getModifications),
+      newCursorPosition
+    );
+  }
+
+  async delegate(_command: Command) {
+    // There is no editor to delegate to. Refactorings will use their fallback.
+    return Result.NotSupported;
+  }
+
+  async transaction(
+    operation: (editor: Editor) => Promise<void>
+  ): Promise<void> {
+    // Files are only written if the whole operation succeeds.
+    await runInTransaction(this, operation);
+  }
+
+  async showError(reason: ErrorReason) {
+    this.reportedErrors.push(reason);
+  }
+
+  async showInformation(message: string) {
+    this.reportedInformation.push(message);
+  }
+
+  async askUserChoice<T>(
+    choices: Choice<T>[],
+    _placeHolder?: string
+  ): Promise<Choice<T> | undefined> {
+    const answer = this.choices.shift();
+    if (answer === undefined) return choices[0];
+
+    const choice = choices.find(({ label }) => label === answer);
+    if (!choice) {
+      const labels = choices.map(({ label }) => `"${label}"`).join(", ");
+      throw new Error(
+        `"${answer}" doesn't match any choice. Possible choices are: ${labels}`
+      );
+    }
+
+    return choice;
+  }
+
+  async askUserInput(defaultValue?: string) {
+    const answer = this.inputs.shift();
+    return answer === undefined ? defaultValue : answer;
+  }
+
+  async moveCursorTo(position: Position) {
+    this._selection = Selection.cursorAtPosition(position);
+  }
+
+  async select(selection: Selection) {
+    this._selection = selection;
+  }
+}
+
+type Answers = {
+  inputs?: string[];
+  choices?: string[];
+};
+
+async function findFilesIn(
+  folder: string,
+  isMatching: (filePath: string) => boolean
+): Promise<string[]> {
+  const entries = await fs.promises.readdir(folder, { withFileTypes: true });
+
+  const filePaths = await Promise.all(
+    entries.map(async (entry) => {
+      const entryPath = path.join(folder, entry.name);
+
+      if (entry.isDirectory()) {
+        return DEFAULT_IGNORED_FOLDERS.includes(entry.name)
+          ? []
+          : findFilesIn(entryPath, isMatching);
+      }
+
+      return isMatching(entryPath) ? [entryPath] : [];
+    })
+  );
+
+  return filePaths.flat();
+}
@@ -10,6 +10,7 @@ import {
 } from "../editor";
 import { Selection } from "../selection";
 import { Position } from "../position";
+import { applyOneByOne, runInTransaction } from "./previewing-editor";
 
 export { InMemoryEditor };
 
@@ -21,9 +22,12 @@ const SELECTION_START = "[start]";
 const SELECTION_END = "[end]";
 
 class InMemoryEditor implements Editor {
+  readonly fileName: string = "abracadabra.ts";
   private codeMatrix: CodeMatrix = [];
   private _selection: Selection = Selection.cursorAt(0, 0);
-  private otherFiles = new Map<RelativePath, Editor>();
+  private otherFiles = new Map<string, Editor>();
+  private undoSteps: UndoStep[] = [];
+  private isApplyingTransaction = false;
 
   constructor(code: Code, position: Position = new Position(0, 0)) {
     this.setCodeMatrix(code);
@@ -31,7 +35,9 @@ class InMemoryEditor implements Editor {
   }
 
   async workspaceFiles(): Promise<RelativePath[]> {
-    return Array.from(this.otherFiles.keys());
+    return Array.from(this.otherFiles.keys()).map(
+      (value) => new RelativePath(value)
+    );
   }
 
   get code(): Code {
@@ -39,7 +45,7 @@ class InMemoryEditor implements Editor {
   }
 
   async codeOf(path: RelativePath): Promise<Code> {
-    const otherFile = this.otherFiles.get(path);
+    const otherFile = this.otherFiles.get(path.value);
     if (!otherFile) return "";
 
     return otherFile.code;
@@ -54,6 +60,7 @@ class InMemoryEditor implements Editor {
   }
 
   write(code: Code, newCursorPosition?: Position): Promise<void> {
+    this.saveUndoStep();
     this.setCodeMatrix(code);
     if (newCursorPosition) {
       this._selection = Selection.cursorAtPosition(newCursorPosition);
@@ -62,7 +69,8 @@ class InMemoryEditor implements Editor {
   }
 
   async writeIn(path: RelativePath, code: Code): Promise<void> {
-    this.otherFiles.set(path, new InMemoryEditor(code));
+    this.saveUndoStep();
+    this.otherFiles.set(path.value, new InMemoryEditor(code));
   }
 
   readThenWrite(
@@ -70,6 +78,7 @@ class InMemoryEditor implements Editor {
     getModifications: (code: Code) => Modification[],
     newCursorPosition?: Position
   ): Promise<void> {
+    this.saveUndoStep();
     if (newCursorPosition) {
       this._selection = Selection.cursorAtPosition(newCursorPosition);
     }
@@ -143,6 +152,10 @@ class InMemoryEditor implements Editor {
     return Promise.resolve();
   }
 
+  showInformation(_message: string) {
+    return Promise.resolve();
+  }
+
   askUserChoice<T>(
     choices: Choice<T>[],
     _placeHolder?: string
@@ -158,6 +171,46 @@ class InMemoryEditor implements Editor {
     return Promise.resolve();
   }
 
+  select(selection: Selection) {
+    this._selection = selection;
+    return Promise.resolve();
+  }
+
+  async transaction(
+    operation: (editor: Editor) => Promise<void>
+  ): Promise<void> {
+    await runInTransaction(this, operation, async (...args) => {
+      this.saveUndoStep();
+      this.isApplyingTransaction = true;
+      try {
+        await applyOneByOne(this)(...args);
+      } finally {
+        this.isApplyingTransaction = false;
+      }
+    });
+  }
+
+  /**
+   * Revert the last edit of the current file and the other files, like the
+   * "Undo" of an editor would do.
+   */
+  async undo(): Promise<void> {
+    const undoStep = this.undoSteps.pop();
+    if (!undoStep) return;
+
+    this.setCodeMatrix(undoStep.code);
+    this.otherFiles = undoStep.otherFiles;
+  }
+
+  private saveUndoStep() {
+    if (this.isApplyingTransaction) return;
+
+    this.undoSteps.push({
+      code: this.code,
+      otherFiles: new Map(this.otherFiles)
+    });
+  }
+
   private setCodeMatrix(code: Code) {
     this.codeMatrix = code
       .split(LINE_SEPARATOR)
@@ -208,6 +261,11 @@ class InMemoryEditor implements Editor {
   }
 }
 
+type UndoStep = {
+  code: Code;
+  otherFiles: Map<string, Editor>;
+};
+
 type CodeMatrix = Line[];
 type Line = Char[];
 type Char = string;
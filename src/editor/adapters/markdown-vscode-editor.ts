@@ -0,0 +1,15 @@
+import * as vscode from "vscode";
+
+import { findFencedCodeBlocks } from "../markdown";
+import { EmbeddedScriptVSCodeEditor } from "./embedded-script-vscode-editor";
+
+export { MarkdownVSCodeEditor };
+
+/**
+ * Documentation has code examples in fenced code blocks, e.g. ```ts
+ */
+class MarkdownVSCodeEditor extends EmbeddedScriptVSCodeEditor {
+  constructor(editor: vscode.TextEditor) {
+    super(editor, findFencedCodeBlocks);
+  }
+}
@@ -0,0 +1,15 @@
+import * as vscode from "vscode";
+
+import { findMdxScripts } from "../markdown";
+import { EmbeddedScriptVSCodeEditor } from "./embedded-script-vscode-editor";
+
+export { MdxVSCodeEditor };
+
+/**
+ * Like Markdown, with top-level `import` and `export` statements too.
+ */
+class MdxVSCodeEditor extends EmbeddedScriptVSCodeEditor {
+  constructor(editor: vscode.TextEditor) {
+    super(editor, findMdxScripts);
+  }
+}
@@ -0,0 +1,162 @@
+import { InMemoryEditor } from "./in-memory-editor";
+import { PreviewingEditor, Change } from "./previewing-editor";
+import { Command, RelativePath, Result } from "../editor";
+import { Position } from "../position";
+import { Selection } from "../selection";
+
+describe("PreviewingEditor", () => {
+  const otherFile = new RelativePath("./other-file.ts");
+
+  it("should not write until changes are committed", async () => {
+    const editor = new InMemoryEditor("const a = 1;");
+    const previewingEditor = new PreviewingEditor(editor, confirm);
+
+    await previewingEditor.write("const b = 2;");
+
+    expect(editor.code).toBe("const a = 1;");
+    expect(previewingEditor.code).toBe("const b = 2;");
+  });
+
+  it("should write all changes if user confirms", async () => {
+    const editor = new InMemoryEditor("const a = 1;");
+    const previewingEditor = new PreviewingEditor(editor, confirm);
+
+    await previewingEditor.write("const b = 2;");
+    await previewingEditor.writeIn(otherFile, "export const c = 3;");
+    await previewingEditor.commit();
+
+    expect(editor.code).toBe("const b = 2;");
+    expect(await editor.codeOf(otherFile)).toBe("export const c = 3;");
+  });
+
+  it("should not write anything if user doesn't confirm", async () => {
+    const editor = new InMemoryEditor("const a = 1;");
+    const previewingEditor = new PreviewingEditor(editor, cancel);
+
+    await previewingEditor.write("const b = 2;");
+    await previewingEditor.writeIn(otherFile, "export const c = 3;");
+    await previewingEditor.commit();
+
+    expect(editor.code).toBe("const a = 1;");
+    expect(await editor.workspaceFiles()).toEqual([]);
+  });
+
+  it("should show all changes with their previous code", async () => {
+    const editor = new InMemoryEditor("const a = 1;");
+    await editor.writeIn(otherFile, "// Other file");
+    const confirmChanges = jest.fn(confirm);
+    const previewingEditor = new PreviewingEditor(editor, confirmChanges);
+
+    await previewingEditor.write("const b = 2;");
+    await previewingEditor.writeIn(otherFile, "// Updated other file");
+    await previewingEditor.commit();
+
+    const expectedChanges: Change[] = [
+      { previousCode: "const a = 1;", code: "const b = 2;" },
+      {
+        path: otherFile,
+        previousCode: "// Other file",
+        code: "// Updated other file"
+      }
+    ];
+    expect(confirmChanges).toBeCalledWith(expectedChanges);
+  });
+
+  it("should not ask for confirmation if there is no change", async () => {
+    const editor = new InMemoryEditor("const a = 1;");
+    const confirmChanges = jest.fn(confirm);
+    const previewingEditor = new PreviewingEditor(editor, confirmChanges);
+
+    await previewingEditor.commit();
+
+    expect(confirmChanges).not.toBeCalled();
+  });
+
+  it("should read then write on pending code", async () => {
+    const editor = new InMemoryEditor("const a = 1;");
+    const previewingEditor = new PreviewingEditor(editor, confirm);
+
+    await previewingEditor.write("const b = 2;");
+    await previewingEditor.readThenWrite(Selection.cursorAt(0, 0), () => [
+      { code: "c", selection: new Selection([0, 6], [0, 7]) }
+    ]);
+
+    expect(previewingEditor.code).toBe("const c = 2;");
+  });
+
+  it("should read pending code of other files", async () => {
+    const editor = new InMemoryEditor("const a = 1;");
+    const previewingEditor = new PreviewingEditor(editor, confirm);
+
+    await previewingEditor.writeIn(otherFile, "// Other file");
+
+    expect(await previewingEditor.codeOf(otherFile)).toBe("// Other file");
+  });
+
+  it("should move cursor once changes are written", async () => {
+    const editor = new InMemoryEditor("const a = 1;");
+    const previewingEditor = new PreviewingEditor(editor, confirm);
+
+    await previewingEditor.write("const b = 2;", new Position(0, 6));
+
+    expect(editor.selection).toEqual(Selection.cursorAt(0, 0));
+    expect(previewingEditor.selection).toEqual(Selection.cursorAt(0, 6));
+
+    await previewingEditor.commit();
+
+    expect(editor.selection).toEqual(Selection.cursorAt(0, 6));
+  });
+
+  it("should select once changes are written", async () => {
+    const editor = new InMemoryEditor("const a = 1;");
+    const previewingEditor = new PreviewingEditor(editor, confirm);
+    const selection = new Selection([0, 6], [0, 7]);
+
+    await previewingEditor.write("const b = 2;");
+    await previewingEditor.select(selection);
+
+    expect(editor.selection).toEqual(Selection.cursorAt(0, 0));
+    expect(previewingEditor.selection).toEqual(selection);
+
+    await previewingEditor.commit();
+
+    expect(editor.selection).toEqual(selection);
+  });
+
+  it("should apply changes with the given function", async () => {
+    const editor = new InMemoryEditor("const a = 1;");
+    const apply = jest.fn();
+    const previewingEditor = new PreviewingEditor(editor, confirm, apply);
+
+    await previewingEditor.write("const b = 2;", new Position(0, 6));
+    await previewingEditor.commit();
+
+    expect(apply).toBeCalledWith(
+      [{ previousCode: "const a = 1;", code: "const b = 2;" }],
+      new Position(0, 6)
+    );
+    expect(editor.code).toBe("const a = 1;");
+  });
+
+  it("should not delegate commands on pending changes", async () => {
+    const editor = new InMemoryEditor("const a = 1;");
+    const previewingEditor = new PreviewingEditor(editor, confirm);
+    expect(await previewingEditor.delegate(Command.RenameSymbol)).toBe(
+      Result.OK
+    );
+
+    await previewingEditor.write("const b = 2;");
+
+    expect(await previewingEditor.delegate(Command.RenameSymbol)).toBe(
+      Result.NotSupported
+    );
+  });
+});
+
+async function confirm() {
+  return true;
+}
+
+async function cancel() {
+  return false;
+}
@@ -0,0 +1,228 @@
+import {
+  Choice,
+  Code,
+  Command,
+  Editor,
+  ErrorReason,
+  Modification,
+  RelativePath,
+  Result
+} from "../editor";
+import { Position } from "../position";
+import { Selection } from "../selection";
+import { applyModifications } from "../apply-modifications";
+
+export {
+  PreviewingEditor,
+  Change,
+  ConfirmChanges,
+  ApplyChanges,
+  applyOneByOne,
+  runInTransaction
+};
+
+/**
+ * Collect all writes instead of applying them.
+ *
+ * Once the operation is done, `commit()` shows the changes to the user.
+ * They are applied all at once, only if the user confirms.
+ */
+class PreviewingEditor implements Editor {
+  private pendingCode: Code | undefined;
+  private pendingFiles = new Map<string, { path: RelativePath; code: Code }>();
+  private newCursorPosition: Position | undefined;
+  private newSelection: Selection | undefined;
+
+  constructor(
+    private editor: Editor,
+    private confirm: ConfirmChanges,
+    private apply: ApplyChanges = applyOneByOne(editor)
+  ) {}
+
+  get hasChanges(): boolean {
+    return this.pendingCode !== undefined || this.pendingFiles.size > 0;
+  }
+
+  async commit(): Promise<void> {
+    if (!this.hasChanges) return;
+
+    const changes = await this.changes();
+    const isConfirmed = await this.confirm(changes);
+    if (!isConfirmed) return;
+
+    await this.apply(changes, this.newCursorPosition);
+    if (this.newSelection) {
+      await this.editor.select(this.newSelection);
+    }
+  }
+
+  private async changes(): Promise<Change[]> {
+    const changes: Change[] = [];
+
+    if (this.pendingCode !== undefined) {
+      changes.push({
+        previousCode: this.editor.code,
+        code: this.pendingCode
+      });
+    }
+
+    for (const { path, code } of this.pendingFiles.values()) {
+      changes.push({
+        path,
+        previousCode: await this.editor.codeOf(path),
+        code
+      });
+    }
+
+    return changes;
+  }
+
+  get fileName(): string {
+    return this.editor.fileName;
+  }
+
+  workspaceFiles(): Promise<RelativePath[]> {
+    return this.editor.workspaceFiles();
+  }
+
+  get code(): Code {
+    return this.pendingCode !== undefined ? this.pendingCode : this.editor.code;
+  }
+
+  codeOf(path: RelativePath): Promise<Code> {
+    const pendingFile = this.pendingFiles.get(path.value);
+    if (pendingFile) return Promise.resolve(pendingFile.code);
+
+    return this.editor.codeOf(path);
+  }
+
+  get selection(): Selection {
+    if (this.newSelection) return this.newSelection;
+
+    return this.newCursorPosition
+      ? Selection.cursorAtPosition(this.newCursorPosition)
+      : this.editor.selection;
+  }
+
+  async write(code: Code, newCursorPosition?: Position): Promise<void> {
+    this.pendingCode = code;
+
+    if (newCursorPosition) {
+      this.newCursorPosition = newCursorPosition;
+    }
+  }
+
+  async writeIn(path: RelativePath, code: Code): Promise<void> {
+    this.pendingFiles.set(path.value, { path, code });
+  }
+
+  readThenWrite(
+    selection: Selection,
+    getModifications: (code: Code) => Modification[],
+    newCursorPosition?: Position
+  ): Promise<void> {
+    return this.write(
+      applyModifications(this.code, selection, getModifications),
+      newCursorPosition
+    );
+  }
+
+  async delegate(command: Command) {
+    // Delegated commands would run on the code that is still unchanged.
+    // Refactorings will use their fallback instead.
+    if (this.hasChanges) return Result.NotSupported;
+
+    return this.editor.delegate(command);
+  }
+
+  showError(reason: ErrorReason): Promise<void> {
+    return this.editor.showError(reason);
+  }
+
+  showInformation(message: string): Promise<void> {
+    return this.editor.showInformation(message);
+  }
+
+  askUserChoice<T>(
+    choices: Choice<T>[],
+    placeHolder?: string
+  ): Promise<Choice<T> | undefined> {
+    return this.editor.askUserChoice(choices, placeHolder);
+  }
+
+  askUserInput(defaultValue?: string) {
+    return this.editor.askUserInput(defaultValue);
+  }
+
+  async moveCursorTo(position: Position): Promise<void> {
+    if (this.hasChanges) {
+      this.newCursorPosition = position;
+      return;
+    }
+
+    await this.editor.moveCursorTo(position);
+  }
+
+  async select(selection: Selection): Promise<void> {
+    if (this.hasChanges) {
+      this.newSelection = selection;
+      return;
+    }
+
+    await this.editor.select(selection);
+  }
+
+  async transaction(
+    operation: (editor: Editor) => Promise<void>
+  ): Promise<void> {
+    // Writes are already applied all at once.
+    await operation(this);
+  }
+}
+
+/**
+ * A change to apply. Without a path, it's a change of the current file.
+ */
+type Change = {
+  path?: RelativePath;
+  previousCode: Code;
+  code: Code;
+};
+
+type ConfirmChanges = (changes: Change[]) => Promise<boolean>;
+
+type ApplyChanges = (
+  changes: Change[],
+  newCursorPosition?: Position
+) => Promise<void>;
+
+function applyOneByOne(editor: Editor): ApplyChanges {
+  return async (changes, newCursorPosition) => {
+    for (const { path, code } of changes) {
+      if (path) {
+        await editor.writeIn(path, code);
+      } else {
+        await editor.write(code, newCursorPosition);
+      }
+    }
+
+    const hasChangedCurrentFile = changes.some(({ path }) => !path);
+    if (!hasChangedCurrentFile && newCursorPosition) {
+      await editor.moveCursorTo(newCursorPosition);
+    }
+  };
+}
+
+/**
+ * Collect the writes of the operation, then apply them all at once.
+ * There is nothing to confirm.
+ */
+async function runInTransaction(
+  editor: Editor,
+  operation: (editor: Editor) => Promise<void>,
+  apply: ApplyChanges = applyOneByOne(editor)
+): Promise<void> {
+  const transaction = new PreviewingEditor(editor, async () => true, apply);
+  await operation(transaction);
+  await transaction.commit();
+}
@@ -0,0 +1,90 @@
+import { InMemoryEditor } from "./in-memory-editor";
+import { RecordingEditor } from "./recording-editor";
+
+describe("RecordingEditor", () => {
+  const choices = [
+    { label: "First", value: 1 },
+    { label: "Second", value: 2 }
+  ];
+
+  it("should record answers of the user", async () => {
+    const editor = new InMemoryEditor("// irrelevant");
+    jest.spyOn(editor, "askUserInput").mockResolvedValue("greeting");
+    jest.spyOn(editor, "askUserChoice").mockResolvedValue(choices[1]);
+    const recordingEditor = new RecordingEditor(editor);
+
+    await recordingEditor.askUserInput("extracted");
+    await recordingEditor.askUserChoice(choices);
+
+    expect(recordingEditor.answers).toEqual({
+      inputs: ["greeting"],
+      choices: ["Second"]
+    });
+  });
+
+  it("should record the label of the choice, not the one shown", async () => {
+    const editor = new InMemoryEditor("// irrelevant");
+    jest
+      .spyOn(editor, "askUserChoice")
+      .mockResolvedValue({ label: "$(file) Second", value: 2 });
+    const recordingEditor = new RecordingEditor(editor);
+
+    await recordingEditor.askUserChoice(choices);
+
+    expect(recordingEditor.answers.choices).toEqual(["Second"]);
+  });
+
+  it("should not record cancelled prompts", async () => {
+    const editor = new InMemoryEditor("// irrelevant");
+    jest.spyOn(editor, "askUserInput").mockResolvedValue(undefined);
+    jest.spyOn(editor, "askUserChoice").mockResolvedValue(undefined);
+    const recordingEditor = new RecordingEditor(editor);
+
+    await recordingEditor.askUserInput();
+    await recordingEditor.askUserChoice(choices);
+
+    expect(recordingEditor.answers).toEqual({ inputs: [], choices: [] });
+  });
+
+  it("should record answers in a transaction", async () => {
+    const editor = new InMemoryEditor("// irrelevant");
+    jest.spyOn(editor, "askUserInput").mockResolvedValue("greeting");
+    const recordingEditor = new RecordingEditor(editor);
+
+    await recordingEditor.transaction(async (transaction) => {
+      await transaction.askUserInput();
+    });
+
+    expect(recordingEditor.answers.inputs).toEqual(["greeting"]);
+  });
+
+  it("should tell if the code was changed", async () => {
+    const editor = new InMemoryEditor("const a = 1;");
+    const recordingEditor = new RecordingEditor(editor);
+
+    await recordingEditor.write("const b = 1;");
+
+    expect(recordingEditor.hasWritten).toBe(true);
+  });
+
+  it("should tell if the code was changed in a transaction", async () => {
+    const editor = new InMemoryEditor("const a = 1;");
+    const recordingEditor = new RecordingEditor(editor);
+
+    await recordingEditor.transaction(async (transaction) => {
+      await transaction.write("const b = 1;");
+    });
+
+    expect(recordingEditor.hasWritten).toBe(true);
+  });
+
+  it("should not tell the code was changed if it's the same", async () => {
+    const editor = new InMemoryEditor("const a = 1;");
+    const recordingEditor = new RecordingEditor(editor);
+
+    await recordingEditor.write("const a = 1;");
+    await recordingEditor.readThenWrite(editor.selection, () => []);
+
+    expect(recordingEditor.hasWritten).toBe(false);
+  });
+});
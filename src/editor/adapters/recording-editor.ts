@@ -0,0 +1,142 @@
+import {
+  Choice,
+  Code,
+  Command,
+  Editor,
+  ErrorReason,
+  Modification,
+  RelativePath,
+  Result
+} from "../editor";
+import { Position } from "../position";
+import { Selection } from "../selection";
+import { Answers } from "./file-system-editor";
+
+export { RecordingEditor };
+
+/**
+ * Records the answers given by the user, so we can replay them later.
+ *
+ * Cancelled prompts are not recorded.
+ * It also tells if the code was changed, refactorings that didn't change
+ * anything don't need to be replayed.
+ */
+class RecordingEditor implements Editor {
+  private _hasWritten = false;
+
+  constructor(
+    private editor: Editor,
+    readonly answers: Required<Answers> = { inputs: [], choices: [] }
+  ) {}
+
+  get hasWritten(): boolean {
+    return this._hasWritten;
+  }
+
+  get fileName(): string {
+    return this.editor.fileName;
+  }
+
+  workspaceFiles(): Promise<RelativePath[]> {
+    return this.editor.workspaceFiles();
+  }
+
+  get code(): Code {
+    return this.editor.code;
+  }
+
+  codeOf(path: RelativePath): Promise<Code> {
+    return this.editor.codeOf(path);
+  }
+
+  get selection(): Selection {
+    return this.editor.selection;
+  }
+
+  async write(code: Code, newCursorPosition?: Position): Promise<void> {
+    const hasChanged = code !== this.editor.code;
+    await this.editor.write(code, newCursorPosition);
+    if (hasChanged) this._hasWritten = true;
+  }
+
+  async writeIn(path: RelativePath, code: Code): Promise<void> {
+    await this.editor.writeIn(path, code);
+    this._hasWritten = true;
+  }
+
+  async readThenWrite(
+    selection: Selection,
+    getModifications: (code: Code) => Modification[],
+    newCursorPosition?: Position
+  ): Promise<void> {
+    let hasModifications = false;
+    await this.editor.readThenWrite(
+      selection,
+      (code) => {
+        const modifications = getModifications(code);
+        hasModifications = modifications.length > 0;
+        return modifications;
+      },
+      newCursorPosition
+    );
+    if (hasModifications) this._hasWritten = true;
+  }
+
+  async delegate(command: Command) {
+    const result = await this.editor.delegate(command);
+    if (result === Result.OK) this._hasWritten = true;
+
+    return result;
+  }
+
+  showError(reason: ErrorReason) {
+    return this.editor.showError(reason);
+  }
+
+  showInformation(message: string) {
+    return this.editor.showInformation(message);
+  }
+
+  async askUserChoice<T>(
+    choices: Choice<T>[],
+    placeHolder?: string
+  ): Promise<Choice<T> | undefined> {
+    const choice = await this.editor.askUserChoice(choices, placeHolder);
+    if (choice) {
+      // Editors may decorate the label they show (e.g. with an icon).
+      const { label } =
+        choices.find(({ value }) => value === choice.value) || choice;
+      this.answers.choices.push(label);
+    }
+
+    return choice;
+  }
+
+  async askUserInput(defaultValue?: string) {
+    const input = await this.editor.askUserInput(defaultValue);
+    if (input !== undefined) this.answers.inputs.push(input);
+
+    return input;
+  }
+
+  moveCursorTo(position: Position): Promise<void> {
+    return this.editor.moveCursorTo(position);
+  }
+
+  select(selection: Selection): Promise<void> {
+    return this.editor.select(selection);
+  }
+
+  async transaction(
+    operation: (editor: Editor) => Promise<void>
+  ): Promise<void> {
+    let transactionEditor: RecordingEditor | undefined;
+    await this.editor.transaction((editor) => {
+      transactionEditor = new RecordingEditor(editor, this.answers);
+      return operation(transactionEditor);
+    });
+    if (transactionEditor && transactionEditor.hasWritten) {
+      this._hasWritten = true;
+    }
+  }
+}
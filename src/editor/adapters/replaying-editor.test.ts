@@ -0,0 +1,53 @@
+import { InMemoryEditor } from "./in-memory-editor";
+import { ReplayingEditor } from "./replaying-editor";
+
+describe("ReplayingEditor", () => {
+  const choices = [
+    { label: "First", value: 1 },
+    { label: "Second", value: 2 }
+  ];
+
+  it("should answer with the given answers, in order", async () => {
+    const editor = new InMemoryEditor("// irrelevant");
+    const replayingEditor = new ReplayingEditor(editor, {
+      inputs: ["greeting", "message"],
+      choices: ["Second"]
+    });
+
+    expect(await replayingEditor.askUserInput()).toBe("greeting");
+    expect(await replayingEditor.askUserInput()).toBe("message");
+    expect(await replayingEditor.askUserChoice(choices)).toBe(choices[1]);
+  });
+
+  it("should ask the editor when there is no answer left", async () => {
+    const editor = new InMemoryEditor("// irrelevant");
+    const replayingEditor = new ReplayingEditor(editor, {});
+
+    expect(await replayingEditor.askUserInput("extracted")).toBe("extracted");
+    expect(await replayingEditor.askUserChoice(choices)).toBe(choices[0]);
+  });
+
+  it("should throw if an answer doesn't match any choice", async () => {
+    const editor = new InMemoryEditor("// irrelevant");
+    const replayingEditor = new ReplayingEditor(editor, {
+      choices: ["Unknown"]
+    });
+
+    await expect(replayingEditor.askUserChoice(choices)).rejects.toThrow(
+      `"Unknown" doesn't match any choice`
+    );
+  });
+
+  it("should keep consuming answers after a transaction", async () => {
+    const editor = new InMemoryEditor("// irrelevant");
+    const replayingEditor = new ReplayingEditor(editor, {
+      inputs: ["greeting", "message"]
+    });
+
+    await replayingEditor.transaction(async (transaction) => {
+      expect(await transaction.askUserInput()).toBe("greeting");
+    });
+
+    expect(await replayingEditor.askUserInput()).toBe("message");
+  });
+});
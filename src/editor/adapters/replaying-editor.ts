@@ -0,0 +1,130 @@
+import {
+  Choice,
+  Code,
+  Command,
+  Editor,
+  ErrorReason,
+  Modification,
+  RelativePath
+} from "../editor";
+import { Position } from "../position";
+import { Selection } from "../selection";
+import { Answers } from "./file-system-editor";
+
+export { ReplayingEditor };
+
+/**
+ * Answers the questions asked to the user with the given `Answers`, in order.
+ * If there is no answer left, it asks the user (or its default answer).
+ */
+class ReplayingEditor implements Editor {
+  private inputs: string[];
+  private choices: string[];
+
+  constructor(private editor: Editor, answers: Answers) {
+    this.inputs = [...(answers.inputs || [])];
+    this.choices = [...(answers.choices || [])];
+  }
+
+  get fileName(): string {
+    return this.editor.fileName;
+  }
+
+  workspaceFiles(): Promise<RelativePath[]> {
+    return this.editor.workspaceFiles();
+  }
+
+  get code(): Code {
+    return this.editor.code;
+  }
+
+  codeOf(path: RelativePath): Promise<Code> {
+    return this.editor.codeOf(path);
+  }
+
+  get selection(): Selection {
+    return this.editor.selection;
+  }
+
+  write(code: Code, newCursorPosition?: Position): Promise<void> {
+    return this.editor.write(code, newCursorPosition);
+  }
+
+  writeIn(path: RelativePath, code: Code): Promise<void> {
+    return this.editor.writeIn(path, code);
+  }
+
+  readThenWrite(
+    selection: Selection,
+    getModifications: (code: Code) => Modification[],
+    newCursorPosition?: Position
+  ): Promise<void> {
+    return this.editor.readThenWrite(
+      selection,
+      getModifications,
+      newCursorPosition
+    );
+  }
+
+  delegate(command: Command) {
+    return this.editor.delegate(command);
+  }
+
+  showError(reason: ErrorReason) {
+    return this.editor.showError(reason);
+  }
+
+  showInformation(message: string) {
+    return this.editor.showInformation(message);
+  }
+
+  async askUserChoice<T>(
+    choices: Choice<T>[],
+    placeHolder?: string
+  ): Promise<Choice<T> | undefined> {
+    const answer = this.choices.shift();
+    if (answer === undefined) {
+      return this.editor.askUserChoice(choices, placeHolder);
+    }
+
+    const choice = choices.find(({ label }) => label === answer);
+    if (!choice) {
+      const labels = choices.map(({ label }) => `"${label}"`).join(", ");
+      throw new Error(
+        `"${answer}" doesn't match any choice. Possible choices are: ${labels}`
+      );
+    }
+
+    return choice;
+  }
+
+  async askUserInput(defaultValue?: string) {
+    const answer = this.inputs.shift();
+    return answer === undefined
+      ? this.editor.askUserInput(defaultValue)
+      : answer;
+  }
+
+  moveCursorTo(position: Position): Promise<void> {
+    return this.editor.moveCursorTo(position);
+  }
+
+  select(selection: Selection): Promise<void> {
+    return this.editor.select(selection);
+  }
+
+  async transaction(
+    operation: (editor: Editor) => Promise<void>
+  ): Promise<void> {
+    await this.editor.transaction(async (editor) => {
+      const replayingEditor = new ReplayingEditor(editor, {
+        inputs: this.inputs,
+        choices: this.choices
+      });
+      await operation(replayingEditor);
+
+      this.inputs = replayingEditor.inputs;
+      this.choices = replayingEditor.choices;
+    });
+  }
+}
@@ -0,0 +1,15 @@
+import * as vscode from "vscode";
+
+import { findScriptTags } from "../embedded-script";
+import { EmbeddedScriptVSCodeEditor } from "./embedded-script-vscode-editor";
+
+export { SvelteVSCodeEditor };
+
+/**
+ * Components can have an instance `<script>` and a `<script context="module">`.
+ */
+class SvelteVSCodeEditor extends EmbeddedScriptVSCodeEditor {
+  constructor(editor: vscode.TextEditor) {
+    super(editor, findScriptTags);
+  }
+}
@@ -14,6 +14,8 @@ import {
 import { Selection } from "../selection";
 import { Position } from "../position";
 import { AbsolutePath, RelativePath } from "../path";
+import { Change, runInTransaction } from "./previewing-editor";
+import { confirmChanges } from "./vscode-preview";
 
 export { VSCodeEditor };
 
@@ -26,6 +28,14 @@ class VSCodeEditor implements Editor {
     this.document = editor.document;
   }
 
+  get fileName(): string {
+    return new AbsolutePath(this.document.uri.path).fileName;
+  }
+
+  get uri(): vscode.Uri {
+    return this.document.uri;
+  }
+
   async workspaceFiles(): Promise<RelativePath[]> {
     const uris = await this.findFileUris();
 
@@ -39,7 +49,7 @@ class VSCodeEditor implements Editor {
   protected async findFileUris(): Promise<vscode.Uri[]> {
     const ignoredFoldersGlobPattern = `{${getIgnoredFolders().join(",")}}`;
     return vscode.workspace.findFiles(
-      "**/*.{js,jsx,ts,tsx}",
+      "**/*.{js,jsx,ts,tsx,vue}",
       `**/${ignoredFoldersGlobPattern}/**`
     );
   }
@@ -59,6 +69,13 @@ class VSCodeEditor implements Editor {
     return createSelectionFromVSCode(this.editor.selection);
   }
 
+  /**
+   * Positions in `code` may not match the ones of the document.
+   */
+  toDocumentPosition(position: Position): vscode.Position {
+    return toVSCodePosition(position);
+  }
+
   async write(code: Code, newCursorPosition?: Position): Promise<void> {
     // We need to register initial position BEFORE we update the document.
     const cursorAtInitialStartPosition = new vscode.Selection(
@@ -90,10 +107,6 @@ class VSCodeEditor implements Editor {
     await VSCodeEditor.ensureFileExists(fileUri);
 
     const edit = new vscode.WorkspaceEdit();
-    const WHOLE_DOCUMENT = new vscode.Range(
-      new vscode.Position(0, 0),
-      new vscode.Position(Number.MAX_SAFE_INTEGER, 0)
-    );
     edit.set(fileUri, [new vscode.TextEdit(WHOLE_DOCUMENT, code)]);
     await vscode.workspace.applyEdit(edit);
 
@@ -101,6 +114,65 @@ class VSCodeEditor implements Editor {
     await updatedDocument.save();
   }
 
+  async previewChanges(changes: Change[]): Promise<boolean> {
+    return confirmChanges(
+      changes.map(({ path, previousCode, code }) => ({
+        uri: path ? this.fileUriAt(path) : this.document.uri,
+        previousCode,
+        code
+      }))
+    );
+  }
+
+  /**
+   * Apply all changes as a single edit, so they can be undone at once.
+   */
+  async writeAll(changes: Change[], newCursorPosition?: Position) {
+    const cursorAtInitialStartPosition = new vscode.Selection(
+      this.editor.selection.start,
+      this.editor.selection.start
+    );
+
+    const edit = new vscode.WorkspaceEdit();
+    const otherFileUris: vscode.Uri[] = [];
+    changes.forEach(({ path, code }) => {
+      if (!path) {
+        edit.replace(this.document.uri, this.editRange, code);
+        return;
+      }
+
+      const fileUri = this.fileUriAt(path);
+      edit.createFile(fileUri, { ignoreIfExists: true });
+      edit.replace(fileUri, WHOLE_DOCUMENT, code);
+      otherFileUris.push(fileUri);
+    });
+    await vscode.workspace.applyEdit(edit);
+
+    for (const fileUri of otherFileUris) {
+      const updatedDocument = await vscode.workspace.openTextDocument(fileUri);
+      await updatedDocument.save();
+    }
+
+    if (!newCursorPosition) {
+      this.editor.selection = cursorAtInitialStartPosition;
+      return;
+    }
+
+    await this.moveCursorTo(newCursorPosition);
+    this.editor.revealRange(
+      new vscode.Range(this.editor.selection.start, this.editor.selection.end),
+      vscode.TextEditorRevealType.Default
+    );
+  }
+
+  async transaction(
+    operation: (editor: Editor) => Promise<void>
+  ): Promise<void> {
+    await runInTransaction(this, operation, (changes, newCursorPosition) =>
+      this.writeAll(changes, newCursorPosition)
+    );
+  }
+
   static async ensureFileExists(fileUri: vscode.Uri) {
     try {
       await vscode.workspace.fs.readFile(fileUri);
@@ -165,6 +237,10 @@ class VSCodeEditor implements Editor {
     await vscode.window.showErrorMessage(errorReasonToString(reason));
   }
 
+  async showInformation(message: string) {
+    await vscode.window.showInformationMessage(message);
+  }
+
   async askUserChoice<T>(choices: Choice<T>[], placeHolder?: string) {
     return await vscode.window.showQuickPick(
       choices.map(({ label, value, description, icon }) => ({
@@ -184,8 +260,18 @@ class VSCodeEditor implements Editor {
     this.editor.selection = toVSCodeCursor(position);
     return Promise.resolve();
   }
+
+  select(selection: Selection) {
+    this.editor.selection = toVSCodeSelection(selection);
+    return Promise.resolve();
+  }
 }
 
+const WHOLE_DOCUMENT = new vscode.Range(
+  new vscode.Position(0, 0),
+  new vscode.Position(Number.MAX_SAFE_INTEGER, 0)
+);
+
 function createSelectionFromVSCode(
   selection: vscode.Selection | vscode.Range
 ): Selection {
@@ -202,6 +288,13 @@ function toVSCodeCursor(position: Position): vscode.Selection {
   );
 }
 
+function toVSCodeSelection(selection: Selection): vscode.Selection {
+  return new vscode.Selection(
+    toVSCodePosition(selection.start),
+    toVSCodePosition(selection.end)
+  );
+}
+
 function toVSCodePosition(position: Position): vscode.Position {
   return new vscode.Position(position.line, position.character);
 }
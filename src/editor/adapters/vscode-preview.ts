@@ -0,0 +1,63 @@
+import * as vscode from "vscode";
+
+import { Code } from "../editor";
+
+export { PREVIEW_SCHEME, previewContentProvider, confirmChanges, UriChange };
+
+const PREVIEW_SCHEME = "abracadabra-preview";
+
+/**
+ * Serves the code of previewed changes, so VS Code can diff them.
+ */
+class PreviewContentProvider implements vscode.TextDocumentContentProvider {
+  private contents = new Map<string, Code>();
+  private onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.onDidChangeEmitter.event;
+
+  set(uri: vscode.Uri, code: Code) {
+    this.contents.set(uri.toString(), code);
+    // Documents may already be opened from a previous preview.
+    this.onDidChangeEmitter.fire(uri);
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): Code {
+    return this.contents.get(uri.toString()) || "";
+  }
+}
+
+const previewContentProvider = new PreviewContentProvider();
+
+async function confirmChanges(changes: UriChange[]): Promise<boolean> {
+  for (const { uri, previousCode, code } of changes) {
+    const before = uri.with({ scheme: PREVIEW_SCHEME, query: "before" });
+    const after = uri.with({ scheme: PREVIEW_SCHEME, query: "after" });
+    previewContentProvider.set(before, previousCode);
+    previewContentProvider.set(after, code);
+
+    const fileName = uri.path.split("/").pop();
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      before,
+      after,
+      `${fileName} (Preview)`,
+      { preview: false }
+    );
+  }
+
+  const APPLY = "Apply";
+  const filesCount =
+    changes.length === 1 ? "1 file" : `${changes.length} files`;
+  const answer = await vscode.window.showInformationMessage(
+    `Apply these changes to ${filesCount}?`,
+    { modal: true },
+    APPLY
+  );
+
+  return answer === APPLY;
+}
+
+type UriChange = {
+  uri: vscode.Uri;
+  previousCode: Code;
+  code: Code;
+};
@@ -1,106 +1,57 @@
 import * as vscode from "vscode";
 
-import { Code, Command, Modification, Result } from "../editor";
-import { Position } from "../position";
-import { Selection } from "../selection";
-import { VSCodeEditor } from "./vscode-editor";
+import { Code } from "../editor";
+import {
+  findVueRegions,
+  findVueScript,
+  VueComponentEditor,
+  VueScript
+} from "../vue";
+import {
+  findTemplateExpressions,
+  findTemplateScopedVariables
+} from "../vue-template";
+import { EmbeddedScriptVSCodeEditor } from "./embedded-script-vscode-editor";
 
 export { VueVSCodeEditor };
 
-class VueVSCodeEditor extends VSCodeEditor {
-  get code(): Code {
-    return super.code.slice(this.openingTagOffset, this.closingTagOffset);
+/**
+ * Components can have a `<script>` and a `<script setup>`.
+ * Expressions of the template can be refactored too.
+ */
+class VueVSCodeEditor
+  extends EmbeddedScriptVSCodeEditor
+  implements VueComponentEditor {
+  constructor(editor: vscode.TextEditor) {
+    super(editor, findVueRegions);
   }
 
-  get selection(): Selection {
-    return this.offsetEditorSelection(super.selection);
-  }
-
-  async delegate(command: Command) {
-    if (command === Command.RenameSymbol) {
-      return Result.NotSupported;
-    }
-
-    return super.delegate(command);
-  }
-
-  async write(code: Code, newCursorPosition?: Position): Promise<void> {
-    return super.write(
-      code,
-      newCursorPosition && this.offsetPosition(newCursorPosition)
-    );
-  }
-
-  protected get editRange(): vscode.Range {
-    return new vscode.Range(
-      new vscode.Position(
-        this.toOffsetLinesCount(this.openingTagOffset),
-        this.openingTag.length
-      ),
-      new vscode.Position(this.toOffsetLinesCount(this.closingTagOffset), 0)
+  get isInTemplate(): boolean {
+    return findTemplateExpressions(this.documentCode).some(
+      ({ start }) => start === this.region.start
     );
   }
 
-  async readThenWrite(
-    selection: Selection,
-    getModifications: (code: Code) => Modification[],
-    newCursorPosition?: Position
-  ): Promise<void> {
-    const getOffsetModifications = (code: Code) => {
-      return getModifications(code).map(({ code, selection }) => ({
-        code,
-        selection: this.offsetSelection(selection)
-      }));
-    };
-
-    return super.readThenWrite(
-      this.offsetSelection(selection),
-      getOffsetModifications,
-      newCursorPosition && this.offsetPosition(newCursorPosition)
-    );
+  get templateScopedVariables(): string[] {
+    return findTemplateScopedVariables(this.documentCode);
   }
 
-  moveCursorTo(position: Position) {
-    return super.moveCursorTo(this.offsetPosition(position));
-  }
-
-  private offsetEditorSelection(selection: Selection): Selection {
-    const offsetLinesCount = this.toOffsetLinesCount(this.openingTagOffset);
+  get script(): VueScript | null {
+    const vueScript = findVueScript(this.documentCode);
+    if (!vueScript) return null;
 
-    return Selection.fromPositions(
-      selection.start.removeLines(offsetLinesCount),
-      selection.end.removeLines(offsetLinesCount)
-    );
-  }
-
-  private offsetSelection(selection: Selection): Selection {
-    const offsetLinesCount = this.toOffsetLinesCount(this.openingTagOffset);
-
-    return Selection.fromPositions(
-      selection.start.addLines(offsetLinesCount),
-      selection.end.addLines(offsetLinesCount)
-    );
-  }
-
-  private offsetPosition(position: Position): Position {
-    return position.addLines(this.toOffsetLinesCount(this.openingTagOffset));
-  }
-
-  private toOffsetLinesCount(offset: Offset): number {
-    return super.code.slice(0, offset).split("\n").length - 1;
-  }
-
-  private get openingTagOffset(): Offset {
-    return super.code.indexOf(this.openingTag) + this.openingTag.length;
+    return {
+      code: this.documentCode.slice(vueScript.start, vueScript.end),
+      isSetup: vueScript.isSetup
+    };
   }
 
-  private get openingTag(): string {
-    return "<script>";
-  }
+  async writeScript(code: Code): Promise<void> {
+    const vueScript = findVueScript(this.documentCode);
+    if (!vueScript) return;
 
-  private get closingTagOffset(): Offset {
-    return super.code.indexOf("</script>");
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(this.uri, this.toDocumentRange(vueScript), code);
+    await vscode.workspace.applyEdit(edit);
   }
 }
-
-type Offset = number;
@@ -0,0 +1,58 @@
+import { Code, Modification } from "./editor";
+import { Selection } from "./selection";
+import { Position } from "./position";
+
+export { applyModifications };
+
+/**
+ * Apply modifications on the code, like `Editor.readThenWrite()` does.
+ *
+ * Modifications are applied on the original code, all at once.
+ */
+function applyModifications(
+  code: Code,
+  selection: Selection,
+  getModifications: (code: Code) => Modification[]
+): Code {
+  const lines = code.split("\n");
+  const toOffset = (position: Position) =>
+    toOffsetIn(lines, position.line, position.character);
+
+  const readCode = code.slice(
+    toOffset(selection.start),
+    toOffset(selection.end)
+  );
+
+  const edits = getModifications(readCode)
+    .map(({ code, selection }, index) => ({
+      code,
+      start: toOffset(selection.start),
+      end: toOffset(selection.end),
+      index
+    }))
+    .sort((a, b) => a.start - b.start || a.index - b.index);
+
+  let newCode = "";
+  let offset = 0;
+  edits.forEach(({ code: editCode, start, end }) => {
+    newCode += code.slice(offset, Math.max(offset, start)) + editCode;
+    offset = Math.max(offset, end);
+  });
+  newCode += code.slice(offset);
+
+  return newCode;
+}
+
+function toOffsetIn(lines: string[], line: number, character: number): number {
+  // Like VS Code, positions out of the document are capped.
+  const cappedLine = Math.min(line, lines.length - 1);
+  const lineLength = lines[cappedLine].length;
+  const cappedCharacter =
+    line > cappedLine ? lineLength : Math.min(character, lineLength);
+
+  return (
+    lines
+      .slice(0, cappedLine)
+      .reduce((offset, { length }) => offset + length + 1, 0) + cappedCharacter
+  );
+}
@@ -358,6 +358,36 @@ console.log(extracted);`
     });
   });
 
+  suite("transaction", () => {
+    test("should apply writes once the operation is done", async () => {
+      const editor = await createEditorOn("const a = 1;");
+      const filePath = new RelativePath("./transaction.ts");
+
+      await editor.transaction(async (transaction) => {
+        await transaction.writeIn(filePath, "const b = 2;");
+        await transaction.write("const a = 2;");
+
+        assert.strictEqual(editor.code, "const a = 1;");
+      });
+
+      assert.strictEqual(editor.code, "const a = 2;");
+      assert.strictEqual(await editor.codeOf(filePath), "const b = 2;");
+    });
+
+    test("should read pending writes during the operation", async () => {
+      const editor = await createEditorOn("const a = 1;");
+      const filePath = new RelativePath("./transaction.ts");
+
+      await editor.transaction(async (transaction) => {
+        await transaction.writeIn(filePath, "const b = 2;");
+        await transaction.write("const a = 2;");
+
+        assert.strictEqual(transaction.code, "const a = 2;");
+        assert.strictEqual(await transaction.codeOf(filePath), "const b = 2;");
+      });
+    });
+  });
+
   test("should write in a given file", async () => {
     const editor = await createEditorOn("");
     const filePath = new RelativePath("./some-file.ts");
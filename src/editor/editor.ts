@@ -17,6 +17,7 @@ export {
 };
 
 interface Editor {
+  readonly fileName: string;
   workspaceFiles(): Promise<RelativePath[]>;
   readonly selection: Selection;
   readonly code: Code;
@@ -30,12 +31,19 @@ interface Editor {
   ): Promise<void>;
   delegate(command: Command): Promise<Result>;
   showError(reason: ErrorReason): Promise<void>;
+  showInformation(message: string): Promise<void>;
   askUserInput(defaultValue?: string): Promise<string | undefined>;
   askUserChoice<T>(
     choices: Choice<T>[],
     placeHolder?: string
   ): Promise<Choice<T> | undefined>;
   moveCursorTo(position: Position): Promise<void>;
+  select(selection: Selection): Promise<void>;
+  /**
+   * Writes of the operation are applied all at once, when it's done.
+   * They can be undone in a single step.
+   */
+  transaction(operation: (editor: Editor) => Promise<void>): Promise<void>;
 }
 
 type Modification = {
@@ -0,0 +1,93 @@
+import { Position } from "./position";
+import {
+  findScriptTags,
+  findFrontmatter,
+  isTypeScript,
+  positionAt
+} from "./embedded-script";
+
+describe("Embedded Script", () => {
+  describe("find script tags", () => {
+    it("should find script tags, with attributes", () => {
+      const code = `<script context="module">
+  export const prerender = true;
+</script>
+
+<script>
+  let count = 0;
+</script>
+
+<button on:click={() => count++}>{count}</button>`;
+
+      const regions = findScriptTags(code);
+
+      expect(regions.map(({ start, end }) => code.slice(start, end))).toEqual([
+        `\n  export const prerender = true;\n`,
+        `\n  let count = 0;\n`
+      ]);
+    });
+
+    it("should tell the language of script tags", () => {
+      const code = `<script lang="ts">
+export const name = "Hello";
+</script>
+
+<script setup lang='tsx'>
+const message = "Hello";
+</script>
+
+<script>
+const count = 0;
+</script>`;
+
+      const regions = findScriptTags(code);
+
+      expect(regions.map(({ lang }) => lang)).toEqual(["ts", "tsx", undefined]);
+      expect(regions.map(isTypeScript)).toEqual([true, true, false]);
+    });
+
+    it("should not find unclosed script tags", () => {
+      expect(findScriptTags(`<script>\nlet count = 0;`)).toEqual([]);
+    });
+
+    it("should not confuse other tags with script tags", () => {
+      expect(findScriptTags(`<scripts>\n</script>`)).toEqual([]);
+    });
+  });
+
+  describe("find frontmatter", () => {
+    it("should find the code between fences", () => {
+      const code = `---
+const title = "Hello";
+---
+
+<h1>{title}</h1>
+<hr />
+---`;
+
+      const regions = findFrontmatter(code);
+
+      expect(regions.map(({ start, end }) => code.slice(start, end))).toEqual([
+        `\nconst title = "Hello";\n`
+      ]);
+    });
+
+    it("should not find frontmatter if it's not at the top", () => {
+      expect(findFrontmatter(`<h1>Hello</h1>\n---\nconst a = 1;\n---`)).toEqual(
+        []
+      );
+    });
+
+    it("should not find frontmatter without a closing fence", () => {
+      expect(findFrontmatter(`---\nconst a = 1;`)).toEqual([]);
+    });
+  });
+
+  it("should give the position of an offset", () => {
+    const code = `<template></template>\n\n<script>\nconst a = 1;`;
+
+    expect(positionAt(code, code.indexOf("<script>") + 8)).toEqual(
+      new Position(2, 8)
+    );
+  });
+});
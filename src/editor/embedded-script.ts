@@ -0,0 +1,75 @@
+import { Code } from "./editor";
+import { Position } from "./position";
+
+export {
+  ScriptRegion,
+  FindScriptRegions,
+  findScriptTags,
+  findFrontmatter,
+  isTypeScript,
+  positionAt
+};
+
+/**
+ * Single-file components (Vue, Svelte, Astro…) embed JavaScript in another
+ * language. Offsets of the region tell where this code is in the document.
+ */
+interface ScriptRegion {
+  start: Offset;
+  end: Offset;
+  lang?: string;
+}
+
+type FindScriptRegions = (code: Code) => ScriptRegion[];
+
+type Offset = number;
+
+const CLOSING_TAG = "</script>";
+
+/**
+ * Tags may have attributes, e.g. `<script context="module">`.
+ * The `lang` attribute tells which language the script is written in.
+ */
+function findScriptTags(code: Code): ScriptRegion[] {
+  const regions: ScriptRegion[] = [];
+  const openingTag = /<script\b[^>]*>/g;
+
+  let match = openingTag.exec(code);
+  while (match) {
+    const start = match.index + match[0].length;
+    const end = code.indexOf(CLOSING_TAG, start);
+    if (end < 0) break;
+
+    const [, lang] = match[0].match(/\blang=["']?([\w-]+)/) || [];
+    regions.push(lang ? { start, end, lang } : { start, end });
+    openingTag.lastIndex = end + CLOSING_TAG.length;
+    match = openingTag.exec(code);
+  }
+
+  return regions;
+}
+
+/**
+ * The script is between `---` fences, at the top of the document.
+ */
+function findFrontmatter(code: Code): ScriptRegion[] {
+  const FENCE = "---";
+  if (!code.startsWith(FENCE)) return [];
+
+  const start = FENCE.length;
+  const closingFenceOffset = code.indexOf(`\n${FENCE}`, start);
+  if (closingFenceOffset < 0) return [];
+
+  return [{ start, end: closingFenceOffset + 1 }];
+}
+
+function isTypeScript(region: ScriptRegion): boolean {
+  return region.lang === "ts" || region.lang === "tsx";
+}
+
+function positionAt(code: Code, offset: Offset): Position {
+  const lines = code.slice(0, offset).split("\n");
+  const lastLine = lines[lines.length - 1];
+
+  return new Position(lines.length - 1, lastLine.length);
+}
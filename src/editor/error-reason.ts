@@ -2,19 +2,61 @@ export { ErrorReason, toString };
 
 enum ErrorReason {
   DidNotFindTypeToExtract,
+  DidNotFindStatementsToExtract,
+  CantExtractFunctionWithReturn,
+  CantExtractFunctionWithYield,
+  CantExtractFunctionWithBreakOrContinue,
+  CantExtractFunctionUsingThis,
+  CantExtractFunctionUsingArguments,
+  CantExtractFromTemplateWithoutScript,
+  CantExtractTemplateScopedVariables,
+  CantExtractUndeclaredTemplateVariables,
   DidNotFindMultipleDeclarationsToSplit,
   CantImportReferences,
   DidNotFindOtherFiles,
   DidNotFindCodeToMove,
+  CantMoveToNewFileThatAlreadyExists,
   CanNotExtractClass,
   DidNotFindFunctionDeclarationToConvert,
   CantConvertFunctionDeclarationBecauseUsedBefore,
+  DidNotFindConstructorFunctionToConvert,
+  DidNotFindClassToConvert,
   DidNotFindLetToConvertToConst,
   DidNotFindSwitchToConvert,
   DidNotFindJsxAttributeToAddBracesTo,
   DidNotFindBracesToRemove,
   DidNotFindClassToExtractInterface,
   DidNotFindReactComponent,
+  DidNotFindReactClassComponent,
+  CantConvertErrorBoundary,
+  CantConvertComponentWithLegacyLifecycle,
+  CantConvertComponentThatSkipsRenders,
+  CantConvertComponentWithDerivedState,
+  CantConvertComponentWithSnapshot,
+  CantConvertComponentDidUpdateUsingPreviousValues,
+  CantConvertSetStateCallback,
+  CantConvertDynamicState,
+  CantConvertComponentConstructor,
+  CantConvertComponentMember,
+  CantConvertComponentThisUsage,
+  CantConvertComponentWithConflictingNames,
+  CantConvertMountEffectReadingStaleValues,
+  DidNotFindJsxToExtract,
+  CantExtractComponentThatUsesThis,
+  CantExtractComponentThatReassignsVariables,
+  CantExtractComponentWithExistingName,
+  CantExtractComponentInExistingFile,
+  DidNotFindHookCallsToExtract,
+  CantExtractCustomHookThatReassignsVariables,
+  DidNotFindHookToInline,
+  CantInlineHookCalledOutsideOfComponent,
+  CantInlineHookWithConflictingNames,
+  DidNotFindJsxToWrap,
+  DidNotFindJsxElementToUnwrap,
+  CantUnwrapJsxThatNeedsAParent,
+  DidNotFindJsxAndToConvert,
+  DidNotFindJsxTernaryToConvert,
+  DidNotFindIfReturnToConvert,
   DidNotFindIfStatementToAddBraces,
   DidNotFindDeadCode,
   DidNotFindForLoopToConvert,
@@ -38,10 +80,9 @@ enum ErrorReason {
   DidNotFindIfStatementsToMerge,
   DidNotFindDeclarationToSplit,
   DidNotFindStringToConvert,
+  DidNotFindOptionalChainToConvert,
   CantMoveStatementUp,
-  CantMoveMultiLinesStatementUp,
   CantMoveStatementDown,
-  CantMoveMultiLinesStatementDown,
   CantInlineExportedVariables,
   CantInlineRedeclaredVariables,
   CantRemoveBracesFromArrowFunction,
@@ -56,6 +97,41 @@ function toString(reason: ErrorReason): string {
     case ErrorReason.DidNotFindTypeToExtract:
       return didNotFind("a type to extract");
 
+    case ErrorReason.DidNotFindStatementsToExtract:
+      return didNotFind("statements to extract into a function");
+
+    case ErrorReason.CantExtractFunctionWithReturn:
+      return cantDoIt("extract a function from statements that return");
+
+    case ErrorReason.CantExtractFunctionWithYield:
+      return cantDoIt("extract a function from statements that yield");
+
+    case ErrorReason.CantExtractFunctionWithBreakOrContinue:
+      return cantDoIt(
+        "extract a function from statements that break or continue an outer loop"
+      );
+
+    case ErrorReason.CantExtractFunctionUsingThis:
+      return cantDoIt("extract a function that uses `this` outside of a class");
+
+    case ErrorReason.CantExtractFunctionUsingArguments:
+      return cantDoIt("extract a function that uses `arguments`");
+
+    case ErrorReason.CantExtractFromTemplateWithoutScript:
+      return cantDoIt(
+        "extract from the template of a component without script"
+      );
+
+    case ErrorReason.CantExtractTemplateScopedVariables:
+      return cantDoIt(
+        "extract an expression that uses variables of the template (e.g. `v-for` items)"
+      );
+
+    case ErrorReason.CantExtractUndeclaredTemplateVariables:
+      return cantDoIt(
+        "extract an expression that uses variables I can't find in `<script setup>`"
+      );
+
     case ErrorReason.DidNotFindMultipleDeclarationsToSplit:
       return didNotFind("multiple variable declarations to split");
 
@@ -70,6 +146,9 @@ function toString(reason: ErrorReason): string {
     case ErrorReason.DidNotFindCodeToMove:
       return didNotFind("the code to move");
 
+    case ErrorReason.CantMoveToNewFileThatAlreadyExists:
+      return cantDoIt("move this to a new file, the file already exists");
+
     case ErrorReason.CanNotExtractClass:
       return didNotFind("a class to extract");
 
@@ -79,6 +158,12 @@ function toString(reason: ErrorReason): string {
     case ErrorReason.CantConvertFunctionDeclarationBecauseUsedBefore:
       return cantDoIt("convert this function declaration, it's used before");
 
+    case ErrorReason.DidNotFindConstructorFunctionToConvert:
+      return didNotFind("a constructor function to convert into a class");
+
+    case ErrorReason.DidNotFindClassToConvert:
+      return didNotFind("a class to convert into a constructor function");
+
     case ErrorReason.DidNotFindLetToConvertToConst:
       return didNotFind(
         "a variable declared as let that could be converted to const"
@@ -99,6 +184,140 @@ function toString(reason: ErrorReason): string {
     case ErrorReason.DidNotFindReactComponent:
       return didNotFind("a React component to convert");
 
+    case ErrorReason.DidNotFindReactClassComponent:
+      return didNotFind("a React class component to convert");
+
+    case ErrorReason.CantConvertErrorBoundary:
+      return cantDoIt(
+        "convert an error boundary (`componentDidCatch`, `getDerivedStateFromError`), React needs it to be a class"
+      );
+
+    case ErrorReason.CantConvertComponentWithLegacyLifecycle:
+      return cantDoIt(
+        "convert `componentWillMount`, `componentWillReceiveProps` or `componentWillUpdate`, they have no hook equivalent"
+      );
+
+    case ErrorReason.CantConvertComponentThatSkipsRenders:
+      return cantDoIt(
+        "convert a component that skips renders (`shouldComponentUpdate`, `PureComponent`), you may wrap it with `React.memo()` once converted"
+      );
+
+    case ErrorReason.CantConvertComponentWithDerivedState:
+      return cantDoIt(
+        "convert `getDerivedStateFromProps`, state derived from props should be computed during render"
+      );
+
+    case ErrorReason.CantConvertComponentWithSnapshot:
+      return cantDoIt(
+        "convert `getSnapshotBeforeUpdate`, it has no hook equivalent"
+      );
+
+    case ErrorReason.CantConvertComponentDidUpdateUsingPreviousValues:
+      return cantDoIt(
+        "convert `componentDidUpdate`, it uses previous props or state in a way I can't turn into effect dependencies (e.g. `if (prevProps.id !== this.props.id)`)"
+      );
+
+    case ErrorReason.CantConvertSetStateCallback:
+      return cantDoIt(
+        "convert `setState()` with a callback, move the callback into `componentDidUpdate` first"
+      );
+
+    case ErrorReason.CantConvertDynamicState:
+      return cantDoIt(
+        "convert this state, it should be an object literal and only be updated through `setState()`"
+      );
+
+    case ErrorReason.CantConvertComponentConstructor:
+      return cantDoIt(
+        "convert a constructor that does more than initializing state and fields, or binding methods"
+      );
+
+    case ErrorReason.CantConvertComponentMember:
+      return cantDoIt(
+        "convert getters, setters or members with computed names into hooks"
+      );
+
+    case ErrorReason.CantConvertComponentThisUsage:
+      return cantDoIt(
+        "convert this use of `this` (e.g. `this.forceUpdate()`, `this.context`, or passing `this` around)"
+      );
+
+    case ErrorReason.CantConvertComponentWithConflictingNames:
+      return cantDoIt(
+        "convert this component, some state, fields or methods have the same name as other variables it uses. Rename them first"
+      );
+
+    case ErrorReason.CantConvertMountEffectReadingStaleValues:
+      return cantDoIt(
+        "convert `componentDidMount` or `componentWillUnmount`, their callbacks read props or state that would be stale in an effect. Read them with a functional update (e.g. `this.setState(state => …)`) first"
+      );
+
+    case ErrorReason.DidNotFindJsxToExtract:
+      return didNotFind("a JSX element to extract");
+
+    case ErrorReason.CantExtractComponentThatUsesThis:
+      return cantDoIt(
+        "extract JSX that uses `this` into a component. Convert to a function component first"
+      );
+
+    case ErrorReason.CantExtractComponentThatReassignsVariables:
+      return cantDoIt(
+        "extract JSX that reassigns variables into a component, props can't be reassigned"
+      );
+
+    case ErrorReason.CantExtractComponentWithExistingName:
+      return cantDoIt("extract the component, this name is already used");
+
+    case ErrorReason.CantExtractComponentInExistingFile:
+      return cantDoIt(
+        "extract the component in a new file, the file already exists"
+      );
+
+    case ErrorReason.DidNotFindHookCallsToExtract:
+      return didNotFind(
+        "hook calls to extract, select statements that call hooks"
+      );
+
+    case ErrorReason.CantExtractCustomHookThatReassignsVariables:
+      return cantDoIt(
+        "extract a custom hook from statements that reassign variables of the component"
+      );
+
+    case ErrorReason.DidNotFindHookToInline:
+      return didNotFind("a custom hook to inline");
+
+    case ErrorReason.CantInlineHookCalledOutsideOfComponent:
+      return cantDoIt(
+        "inline a hook that isn't called at the top level of a component, like `const value = useSomething()`"
+      );
+
+    case ErrorReason.CantInlineHookWithConflictingNames:
+      return cantDoIt(
+        "inline this hook, some of its variables have the same name as variables where it's called. Rename them first"
+      );
+
+    case ErrorReason.DidNotFindJsxToWrap:
+      return didNotFind("JSX to wrap");
+
+    case ErrorReason.DidNotFindJsxElementToUnwrap:
+      return didNotFind("a JSX element with children to unwrap");
+
+    case ErrorReason.CantUnwrapJsxThatNeedsAParent:
+      return cantDoIt(
+        "unwrap this fragment, its children need a parent element"
+      );
+
+    case ErrorReason.DidNotFindJsxAndToConvert:
+      return didNotFind("a `condition && <Jsx />` to convert");
+
+    case ErrorReason.DidNotFindJsxTernaryToConvert:
+      return didNotFind("a `condition ? <Jsx /> : null` to convert");
+
+    case ErrorReason.DidNotFindIfReturnToConvert:
+      return didNotFind(
+        "an `if` returning JSX, followed by a `return`, to convert"
+      );
+
     case ErrorReason.DidNotFindIfStatementToAddBraces:
       return didNotFind("a valid if statement to add braces to");
 
@@ -168,18 +387,15 @@ function toString(reason: ErrorReason): string {
     case ErrorReason.DidNotFindStringToConvert:
       return didNotFind("a string to convert into template literal");
 
+    case ErrorReason.DidNotFindOptionalChainToConvert:
+      return didNotFind("guards to convert into optional chaining");
+
     case ErrorReason.CantMoveStatementUp:
       return cantDoIt("move this statement up");
 
-    case ErrorReason.CantMoveMultiLinesStatementUp:
-      return cantDoIt("move up a multi-lines selection yet");
-
     case ErrorReason.CantMoveStatementDown:
       return cantDoIt("move this statement down");
 
-    case ErrorReason.CantMoveMultiLinesStatementDown:
-      return cantDoIt("move down a multi-lines selection yet");
-
     case ErrorReason.CantInlineExportedVariables:
       return cantDoIt("inline exported variables yet");
 
@@ -0,0 +1,114 @@
+import { Code } from "./editor";
+import { ScriptRegion } from "./embedded-script";
+import { findFencedCodeBlocks, findMdxScripts } from "./markdown";
+
+describe("Markdown", () => {
+  describe("find fenced code blocks", () => {
+    it("should find JavaScript and TypeScript code blocks", () => {
+      const code = `# Usage
+
+\`\`\`ts
+const name: string = "World";
+\`\`\`
+
+Then, in a React component:
+
+~~~jsx
+const Hello = () => <h1>Hello</h1>;
+~~~`;
+
+      const regions = findFencedCodeBlocks(code);
+
+      expect(slices(code, regions)).toEqual([
+        `const name: string = "World";\n`,
+        `const Hello = () => <h1>Hello</h1>;\n`
+      ]);
+      expect(regions.map(({ lang }) => lang)).toEqual(["ts", "jsx"]);
+    });
+
+    it("should normalize the language of code blocks", () => {
+      const code = `\`\`\`typescript title="hello.ts"
+const a = 1;
+\`\`\`
+
+\`\`\`JavaScript
+const b = 2;
+\`\`\``;
+
+      const regions = findFencedCodeBlocks(code);
+
+      expect(regions.map(({ lang }) => lang)).toEqual(["ts", "js"]);
+    });
+
+    it("should ignore code blocks of other languages", () => {
+      const code = `\`\`\`bash
+npm install
+\`\`\`
+
+\`\`\`
+const a = 1;
+\`\`\``;
+
+      expect(findFencedCodeBlocks(code)).toEqual([]);
+    });
+
+    it("should not close a code block with a shorter fence", () => {
+      const code = `\`\`\`\`md
+\`\`\`js
+const a = 1;
+\`\`\`
+\`\`\`\`
+
+\`\`\`js
+const b = 2;
+\`\`\``;
+
+      const regions = findFencedCodeBlocks(code);
+
+      expect(slices(code, regions)).toEqual([`const b = 2;\n`]);
+    });
+
+    it("should not find unclosed code blocks", () => {
+      expect(findFencedCodeBlocks("```js\nconst a = 1;")).toEqual([]);
+    });
+  });
+
+  describe("find MDX scripts", () => {
+    it("should find top-level imports and exports, and code blocks", () => {
+      const code = `import { Chart } from "../components/chart";
+import Layout from "../components/layout";
+
+export const meta = {
+  title: "Hello"
+};
+
+# Hello, <Chart />
+
+\`\`\`js
+import { a } from "./a";
+\`\`\`
+
+\`\`\`bash
+export PATH="$HOME/bin"
+\`\`\`
+
+export default Layout;`;
+
+      const regions = findMdxScripts(code);
+
+      expect(slices(code, regions)).toEqual([
+        `import { Chart } from "../components/chart";
+import Layout from "../components/layout";`,
+        `export const meta = {
+  title: "Hello"
+};`,
+        `import { a } from "./a";\n`,
+        `export default Layout;`
+      ]);
+    });
+  });
+});
+
+function slices(code: Code, regions: ScriptRegion[]): Code[] {
+  return regions.map(({ start, end }) => code.slice(start, end));
+}
@@ -0,0 +1,98 @@
+import { Code } from "./editor";
+import { ScriptRegion } from "./embedded-script";
+
+export { findFencedCodeBlocks, findMdxScripts };
+
+/**
+ * Info strings we can refactor, with the `lang` they stand for.
+ */
+const FENCE_LANGUAGES = new Map([
+  ["js", "js"],
+  ["javascript", "js"],
+  ["mjs", "js"],
+  ["cjs", "js"],
+  ["jsx", "jsx"],
+  ["ts", "ts"],
+  ["typescript", "ts"],
+  ["tsx", "tsx"]
+]);
+
+/**
+ * Code blocks are between ``` (or ~~~) fences, e.g. ```ts
+ * Other languages, or blocks without language, are ignored.
+ */
+function findFencedCodeBlocks(code: Code): ScriptRegion[] {
+  const regions: ScriptRegion[] = [];
+
+  findFences(code).forEach(({ start, end, info }) => {
+    const lang = FENCE_LANGUAGES.get(info);
+    if (lang) regions.push({ start, end, lang });
+  });
+
+  return regions;
+}
+
+/**
+ * MDX also have top-level `import` and `export` statements, until the next
+ * blank line.
+ */
+function findMdxScripts(code: Code): ScriptRegion[] {
+  const fences = findFences(code);
+  const isInFence = (offset: number) =>
+    fences.some(({ fenceStart, end }) => fenceStart <= offset && offset <= end);
+
+  const statements: ScriptRegion[] = [];
+  const statement = /^(?:import|export)\b[\s\S]*?(?=\n[ \t]*\n|\s*$(?![\s\S]))/gm;
+
+  let match = statement.exec(code);
+  while (match) {
+    if (!isInFence(match.index)) {
+      const start = match.index;
+      statements.push({ start, end: start + match[0].length });
+    }
+    match = statement.exec(code);
+  }
+
+  return [...statements, ...findFencedCodeBlocks(code)].sort(
+    (a, b) => a.start - b.start
+  );
+}
+
+type Fence = {
+  fenceStart: number;
+  start: number;
+  end: number;
+  info: string;
+};
+
+function findFences(code: Code): Fence[] {
+  const fences: Fence[] = [];
+  const openingFence = /^[ \t]*(`{3,}|~{3,})[ \t]*([^\s`]*).*$/gm;
+
+  let match = openingFence.exec(code);
+  while (match) {
+    const [openingLine, fence, info] = match;
+    const start = match.index + openingLine.length + 1;
+
+    // Closing fence is at least as long as the opening one.
+    const closingFence = new RegExp(
+      `^[ \\t]*${fence[0]}{${fence.length},}[ \\t]*$`,
+      "gm"
+    );
+    closingFence.lastIndex = start;
+    const closingMatch = closingFence.exec(code);
+    if (!closingMatch) break;
+
+    fences.push({
+      fenceStart: match.index,
+      start,
+      end: closingMatch.index,
+      info: info.toLowerCase()
+    });
+
+    openingFence.lastIndex = closingMatch.index + closingMatch[0].length;
+    match = openingFence.exec(code);
+  }
+
+  return fences;
+}
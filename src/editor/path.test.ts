@@ -7,6 +7,12 @@ describe("Path", () => {
     expect(path.withoutExtension).toBe("../path/to/some-file");
   });
 
+  it("should get the extension", () => {
+    const path = new Path("../path/to/some-file.ts");
+
+    expect(path.extension).toBe(".ts");
+  });
+
   it("should trim the path", () => {
     const path = new Path("../path/to/some-file.ts");
 
@@ -78,6 +84,14 @@ describe("RelativePath", () => {
     expect(() => new RelativePath("/Users/some/file.ts")).toThrow();
   });
 
+  it("detects when it's the source of an import", () => {
+    const path = new RelativePath("./some/file.ts");
+
+    expect(path.isImportedFrom("./some/file.ts")).toBe(true);
+    expect(path.isImportedFrom("./some/file")).toBe(true);
+    expect(path.isImportedFrom("./some/other-file")).toBe(false);
+  });
+
   it("resolves relative path from another one", () => {
     const originalPath = new RelativePath("../constants.ts");
     const newPath = new RelativePath("./nested/file.ts");
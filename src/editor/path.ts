@@ -17,6 +17,10 @@ class Path {
     return this.value.replace(/\.\w+$/, "");
   }
 
+  get extension(): string {
+    return path.extname(this.value);
+  }
+
   get fileName(): string {
     return path.basename(this.value);
   }
@@ -63,6 +67,11 @@ class RelativePath extends Path {
     }
   }
 
+  isImportedFrom(source: string): boolean {
+    // Imports usually omit the extension.
+    return source === this.value || source === this.withoutExtension;
+  }
+
   absoluteFrom(value: string): AbsolutePath {
     const absoluteValue = path.join(path.dirname(value), this.value);
     return new AbsolutePath(absoluteValue);
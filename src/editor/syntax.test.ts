@@ -0,0 +1,90 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { AbsolutePath } from "./path";
+import { detectSyntax, SyntaxDetector } from "./syntax";
+
+describe("Detect Syntax", () => {
+  let folder: string;
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), "abracadabra-syntax-"));
+    fs.mkdirSync(path.join(folder, "src"));
+  });
+
+  afterEach(() => {
+    fs.rmdirSync(folder, { recursive: true });
+  });
+
+  it("should detect TypeScript files", () => {
+    fs.writeFileSync(path.join(folder, ".flowconfig"), "");
+
+    const syntax = detectSyntax(filePath("src/hello.tsx"), folder);
+
+    expect(syntax).toBe("typescript");
+  });
+
+  it("should detect JavaScript files", () => {
+    const syntax = detectSyntax(filePath("src/hello.js"), folder);
+
+    expect(syntax).toBe("javascript");
+  });
+
+  it("should detect Flow files from a .flowconfig in a parent folder", () => {
+    fs.writeFileSync(path.join(folder, ".flowconfig"), "");
+
+    const syntax = detectSyntax(filePath("src/hello.js"), folder);
+
+    expect(syntax).toBe("flow");
+  });
+
+  it("should not look for a .flowconfig above the root folder", () => {
+    fs.writeFileSync(path.join(folder, ".flowconfig"), "");
+
+    const syntax = detectSyntax(
+      filePath("src/hello.js"),
+      path.join(folder, "src")
+    );
+
+    expect(syntax).toBe("javascript");
+  });
+
+  describe("Syntax Detector", () => {
+    it("should keep the detected syntax of the root folder", () => {
+      const detector = new SyntaxDetector();
+      detector.detect(filePath("src/hello.js"), folder);
+
+      fs.writeFileSync(path.join(folder, ".flowconfig"), "");
+      const syntax = detector.detect(filePath("src/hello.js"), folder);
+
+      expect(syntax).toBe("javascript");
+    });
+
+    it("should detect syntax again once root folder is cleared", () => {
+      const detector = new SyntaxDetector();
+      detector.detect(filePath("src/hello.js"), folder);
+
+      fs.writeFileSync(path.join(folder, ".flowconfig"), "");
+      detector.clear(folder);
+      const syntax = detector.detect(filePath("src/hello.js"), folder);
+
+      expect(syntax).toBe("flow");
+    });
+
+    it("should detect syntax again once everything is cleared", () => {
+      const detector = new SyntaxDetector();
+      detector.detect(filePath("src/hello.js"), folder);
+
+      fs.writeFileSync(path.join(folder, ".flowconfig"), "");
+      detector.clear();
+      const syntax = detector.detect(filePath("src/hello.js"), folder);
+
+      expect(syntax).toBe("flow");
+    });
+  });
+
+  function filePath(relativePath: string): AbsolutePath {
+    return new AbsolutePath(path.join(folder, relativePath));
+  }
+});
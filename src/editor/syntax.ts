@@ -0,0 +1,79 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import { Syntax } from "../ast";
+import { AbsolutePath } from "./path";
+
+export { detectSyntax, SyntaxDetector };
+
+/**
+ * TypeScript files can't have Flow annotations. Other files use Flow
+ * if there is a `.flowconfig` in their folder, or a parent one.
+ */
+function detectSyntax(
+  filePath: AbsolutePath,
+  rootPath: string,
+  flowConfigs: Map<string, boolean> = new Map()
+): Syntax {
+  if (/\.tsx?$/.test(filePath.fileName)) return "typescript";
+
+  return hasFlowConfig(
+    path.dirname(filePath.value),
+    path.resolve(rootPath),
+    flowConfigs
+  )
+    ? "flow"
+    : "javascript";
+}
+
+function hasFlowConfig(
+  folder: string,
+  rootPath: string,
+  flowConfigs: Map<string, boolean>
+): boolean {
+  const cachedResult = flowConfigs.get(folder);
+  if (cachedResult !== undefined) return cachedResult;
+
+  const parentFolder = path.dirname(folder);
+  const result = fs.existsSync(path.join(folder, ".flowconfig"))
+    ? true
+    : folder === rootPath || parentFolder === folder
+    ? false
+    : hasFlowConfig(parentFolder, rootPath, flowConfigs);
+
+  flowConfigs.set(folder, result);
+  return result;
+}
+
+/**
+ * Editors are created every time VS Code asks for quick fixes. We don't
+ * want to look for a `.flowconfig` on the file system each time.
+ *
+ * Results are cached per root folder, until a `.flowconfig` changes in it.
+ */
+class SyntaxDetector {
+  private flowConfigsByRoot = new Map<string, Map<string, boolean>>();
+
+  detect(filePath: AbsolutePath, rootPath: string): Syntax {
+    const root = path.resolve(rootPath);
+    let flowConfigs = this.flowConfigsByRoot.get(root);
+    if (!flowConfigs) {
+      flowConfigs = new Map();
+      this.flowConfigsByRoot.set(root, flowConfigs);
+    }
+
+    return detectSyntax(filePath, root, flowConfigs);
+  }
+
+  /**
+   * Without a root folder, all cached results are cleared.
+   */
+  clear(rootPath?: string) {
+    if (rootPath === undefined) {
+      this.flowConfigsByRoot.clear();
+      return;
+    }
+
+    this.flowConfigsByRoot.delete(path.resolve(rootPath));
+  }
+}
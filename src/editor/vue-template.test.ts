@@ -0,0 +1,54 @@
+import {
+  findTemplateExpressions,
+  findTemplateScopedVariables
+} from "./vue-template";
+
+describe("Vue Template", () => {
+  const code = `<script setup>
+const items = [];
+</script>
+
+<template>
+  <ul v-if="items.length > 0" :class='{ empty: !items.length }'>
+    <li v-for="(item, index) in items" :key="item.id" @click="select(item)">
+      {{ index + 1 }}. {{ item.name }}
+    </li>
+  </ul>
+  <template v-else>
+    <MyList>
+      <template #item="{ label }">{{ label }}</template>
+    </MyList>
+  </template>
+</template>`;
+
+  it("should find expressions of the template", () => {
+    const regions = findTemplateExpressions(code);
+
+    expect(regions.map(({ start, end }) => code.slice(start, end))).toEqual([
+      "items.length > 0",
+      "{ empty: !items.length }",
+      "item.id",
+      "select(item)",
+      " index + 1 ",
+      " item.name ",
+      " label "
+    ]);
+  });
+
+  it("should not find expressions outside of the template", () => {
+    const code = `<script>
+const template = "{{ message }}";
+</script>`;
+
+    expect(findTemplateExpressions(code)).toEqual([]);
+  });
+
+  it("should find variables that only exist in the template", () => {
+    expect(findTemplateScopedVariables(code)).toEqual([
+      "$event",
+      "item",
+      "index",
+      "label"
+    ]);
+  });
+});
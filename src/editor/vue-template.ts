@@ -0,0 +1,103 @@
+import { Code } from "./editor";
+import { ScriptRegion } from "./embedded-script";
+
+export { findTemplateExpressions, findTemplateScopedVariables };
+
+const OPENING_TAG = /<template\b[^>]*>/;
+const CLOSING_TAG = "</template>";
+
+/**
+ * Expressions of the template are JavaScript too: `{{ }}` interpolations
+ * and values of directives, e.g. `v-if="isVisible"` or `:title="title"`.
+ *
+ * `v-for` and `v-slot` values declare variables, they're not expressions.
+ */
+function findTemplateExpressions(code: Code): ScriptRegion[] {
+  const template = findTemplate(code);
+  if (!template) return [];
+
+  const regions: ScriptRegion[] = [];
+
+  const interpolation = /\{\{([\s\S]*?)\}\}/g;
+  forEachMatch(interpolation, template, (match) => {
+    const start = match.index + "{{".length;
+    regions.push({ start, end: start + match[1].length });
+  });
+
+  forEachDirective(template, (name, value, start) => {
+    if (isDeclaringVariables(name)) return;
+    regions.push({ start, end: start + value.length });
+  });
+
+  return regions.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Variables that only exist in the template, e.g. `item` in
+ * `v-for="item in items"`, or `$event` in event handlers.
+ */
+function findTemplateScopedVariables(code: Code): string[] {
+  const template = findTemplate(code);
+  if (!template) return [];
+
+  const variables = ["$event"];
+  forEachDirective(template, (name, value) => {
+    if (!isDeclaringVariables(name)) return;
+
+    const declaration =
+      name === "v-for" ? value.split(/\s+(?:in|of)\s+/)[0] : value;
+    variables.push(...(declaration.match(/[A-Za-z_$][\w$]*/g) || []));
+  });
+
+  return variables;
+}
+
+function isDeclaringVariables(directiveName: string): boolean {
+  return (
+    directiveName === "v-for" ||
+    directiveName === "slot-scope" ||
+    directiveName.startsWith("v-slot") ||
+    directiveName.startsWith("#")
+  );
+}
+
+type Template = { code: Code; index: number };
+
+function findTemplate(code: Code): Template | null {
+  const openingTag = OPENING_TAG.exec(code);
+  if (!openingTag) return null;
+
+  // Templates can be nested, e.g. `<template v-if="isVisible">`.
+  const start = openingTag.index + openingTag[0].length;
+  const end = code.lastIndexOf(CLOSING_TAG);
+  if (end < start) return null;
+
+  return { code: code.slice(0, end), index: start };
+}
+
+function forEachDirective(
+  template: Template,
+  callback: (name: string, value: Code, start: number) => void
+) {
+  const directive = /\s(v-[\w-]+(?::[^\s=>]+)?|slot-scope|[:@#][^\s=>]+)\s*=\s*("[^"]*"|'[^']*')/g;
+
+  forEachMatch(directive, template, (match) => {
+    const [attribute, name, quotedValue] = match;
+    const start = match.index + attribute.length - quotedValue.length + 1;
+    callback(name, quotedValue.slice(1, -1), start);
+  });
+}
+
+function forEachMatch(
+  regExp: RegExp,
+  template: Template,
+  callback: (match: RegExpExecArray) => void
+) {
+  regExp.lastIndex = template.index;
+
+  let match = regExp.exec(template.code);
+  while (match) {
+    callback(match);
+    match = regExp.exec(template.code);
+  }
+}
@@ -0,0 +1,114 @@
+import { RelativePath } from "./path";
+import {
+  isVueFile,
+  transformVueScripts,
+  findVueRegions,
+  findVueScript
+} from "./vue";
+
+describe("Vue", () => {
+  const code = `<template>
+  <div>{{ message }}</div>
+</template>
+
+<script>
+export default { data: () => ({ message: "Hello" }) };
+</script>`;
+
+  it("should tell if a file is a Vue file", () => {
+    expect(isVueFile(new RelativePath("./Hello.vue"))).toBe(true);
+    expect(isVueFile(new RelativePath("./hello.ts"))).toBe(false);
+  });
+
+  it("should transform the script of a Vue file", () => {
+    const result = transformVueScripts(code, () => `\nexport default {};\n`);
+
+    expect(result).toBe(`<template>
+  <div>{{ message }}</div>
+</template>
+
+<script>
+export default {};
+</script>`);
+  });
+
+  it("should transform all the scripts of a Vue file", () => {
+    const code = `<script lang="ts">
+export const name = "Hello";
+</script>
+
+<script setup lang="ts">
+const message: string = "Hello";
+</script>
+
+<template>
+  <div>{{ message }}</div>
+</template>`;
+
+    const result = transformVueScripts(code, (script) =>
+      script.replace(/Hello/g, "Bonjour le monde")
+    );
+
+    expect(result).toBe(`<script lang="ts">
+export const name = "Bonjour le monde";
+</script>
+
+<script setup lang="ts">
+const message: string = "Bonjour le monde";
+</script>
+
+<template>
+  <div>{{ message }}</div>
+</template>`);
+  });
+
+  it("should not transform anything if there is no script", () => {
+    const code = `<template><div /></template>`;
+
+    expect(transformVueScripts(code, () => "const a = 1;")).toBe(code);
+  });
+
+  it("should find scripts first, then expressions of the template", () => {
+    const code = `<template>
+  <div v-if="isVisible">{{ message }}</div>
+</template>
+
+<script setup>
+const message = "Hello";
+</script>`;
+
+    const regions = findVueRegions(code);
+
+    expect(regions.map(({ start, end }) => code.slice(start, end))).toEqual([
+      `\nconst message = "Hello";\n`,
+      "isVisible",
+      " message "
+    ]);
+  });
+
+  it("should find the script where the component is declared", () => {
+    const code = `<script lang="ts">
+export const name = "Hello";
+</script>
+
+<script setup lang="ts">
+const message = "Hello";
+</script>`;
+
+    const script = findVueScript(code);
+
+    expect(script && script.isSetup).toBe(true);
+    expect(script && code.slice(script.start, script.end)).toBe(
+      `\nconst message = "Hello";\n`
+    );
+  });
+
+  it("should find the script of components without <script setup>", () => {
+    const script = findVueScript(code);
+
+    expect(script && script.isSetup).toBe(false);
+    expect(script && code.slice(script.start, script.end)).toBe(`
+export default { data: () => ({ message: "Hello" }) };
+`);
+  });
+});
@@ -0,0 +1,86 @@
+import { Code, Editor } from "./editor";
+import { Path } from "./path";
+import { ScriptRegion, findScriptTags } from "./embedded-script";
+import { findTemplateExpressions } from "./vue-template";
+
+export {
+  isVueFile,
+  transformVueScripts,
+  findVueRegions,
+  findVueScript,
+  VueScriptRegion,
+  VueScript,
+  VueComponentEditor,
+  isVueComponentEditor
+};
+
+function isVueFile(path: Path): boolean {
+  return path.extension === ".vue";
+}
+
+/**
+ * Single-file components have their code in `<script>` tags, e.g. a
+ * `<script>` and a `<script setup lang="ts">`.
+ * That's the only part we can refactor.
+ */
+function transformVueScripts(
+  code: Code,
+  transform: (script: Code) => Code
+): Code {
+  // Start from the end, so updated scripts don't shift the next offsets.
+  return findScriptTags(code)
+    .reverse()
+    .reduce(
+      (result, { start, end }) =>
+        result.slice(0, start) +
+        transform(result.slice(start, end)) +
+        result.slice(end),
+      code
+    );
+}
+
+/**
+ * Scripts come first, so the default region is a script.
+ */
+function findVueRegions(code: Code): ScriptRegion[] {
+  return [...findScriptTags(code), ...findTemplateExpressions(code)];
+}
+
+interface VueScriptRegion extends ScriptRegion {
+  isSetup: boolean;
+}
+
+/**
+ * Where the component is declared: `<script setup>` if there is one.
+ */
+function findVueScript(code: Code): VueScriptRegion | null {
+  const scripts = findScriptTags(code).map((region) => {
+    const openingTag = code.slice(
+      code.lastIndexOf("<script", region.start),
+      region.start
+    );
+    return { ...region, isSetup: /\ssetup\b/.test(openingTag) };
+  });
+
+  return scripts.find(({ isSetup }) => isSetup) || scripts[0] || null;
+}
+
+/**
+ * Editors of components can refactor the template too.
+ * Then, `code` is the template expression that contains the selection.
+ */
+interface VueComponentEditor extends Editor {
+  readonly isInTemplate: boolean;
+  readonly templateScopedVariables: string[];
+  readonly script: VueScript | null;
+  writeScript(code: Code): Promise<void>;
+}
+
+type VueScript = {
+  code: Code;
+  isSetup: boolean;
+};
+
+function isVueComponentEditor(editor: Editor): editor is VueComponentEditor {
+  return "isInTemplate" in editor;
+}
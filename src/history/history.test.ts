@@ -0,0 +1,147 @@
+import { InMemoryEditor } from "../editor/adapters/in-memory-editor";
+import { Selection } from "../editor/selection";
+import { testEach } from "../tests-helpers";
+import extract from "../refactorings/extract";
+import flipIfElse from "../refactorings/flip-if-else";
+
+import {
+  RefactoringHistory,
+  HistoryEntry,
+  HistoryStorage,
+  createEntry,
+  exportHistory,
+  parseHistory,
+  replayHistory
+} from "./history";
+
+describe("Refactoring History", () => {
+  const anEntry = (key: string): HistoryEntry =>
+    createEntry(
+      key,
+      "src/a.ts",
+      new Selection([0, 4], [0, 11]),
+      { inputs: ["greeting"], choices: [] },
+      new Date("2021-01-01T12:00:00.000Z")
+    );
+
+  describe("storage", () => {
+    it("should record entries in order", async () => {
+      const history = new RefactoringHistory(new InMemoryStorage());
+
+      await history.record(anEntry("flipIfElse"));
+      await history.record(anEntry("extract"));
+
+      expect(history.entries.map(({ key }) => key)).toEqual([
+        "flipIfElse",
+        "extract"
+      ]);
+    });
+
+    it("should only keep the most recent entries", async () => {
+      const history = new RefactoringHistory(new InMemoryStorage());
+
+      for (let i = 0; i < 201; i++) {
+        await history.record(anEntry(`refactoring-${i}`));
+      }
+
+      expect(history.entries).toHaveLength(200);
+      expect(history.entries[0].key).toBe("refactoring-1");
+    });
+
+    it("should clear entries", async () => {
+      const history = new RefactoringHistory(new InMemoryStorage());
+      await history.record(anEntry("flipIfElse"));
+
+      await history.clear();
+
+      expect(history.entries).toEqual([]);
+    });
+  });
+
+  it("should create serializable entries", () => {
+    expect(anEntry("extract")).toEqual({
+      key: "extract",
+      file: "src/a.ts",
+      selection: {
+        start: { line: 0, character: 4 },
+        end: { line: 0, character: 11 }
+      },
+      answers: { inputs: ["greeting"], choices: [] },
+      timestamp: "2021-01-01T12:00:00.000Z"
+    });
+  });
+
+  it("should parse exported entries", () => {
+    const entries = [anEntry("flipIfElse"), anEntry("extract")];
+
+    expect(parseHistory(exportHistory(entries))).toEqual(entries);
+  });
+
+  testEach<{ json: string }>(
+    "should throw when parsing an invalid history",
+    [
+      { description: "missing fields", json: `[{ "key": "extract" }]` },
+      { description: "not a list", json: `{ "key": "extract" }` },
+      { description: "null entry", json: `[null]` },
+      {
+        description: "invalid selection",
+        json: `[{ "key": "extract", "file": "a.ts", "selection": { "start": null }, "answers": { "inputs": [], "choices": [] } }]`
+      }
+    ],
+    ({ json }) => {
+      expect(() => parseHistory(json)).toThrow("Invalid refactoring history");
+    }
+  );
+
+  describe("replay", () => {
+    it("should replay entries in order, with their answers", async () => {
+      const editor = new InMemoryEditor(`if (!isValid) {
+  doSomething();
+} else {
+  console.log("Hello");
+}
+console.log("Hello");`);
+      const entries = [
+        createEntry("flipIfElse", "a.ts", Selection.cursorAt(0, 4), {
+          inputs: [],
+          choices: []
+        }),
+        createEntry("extract", "a.ts", new Selection([1, 14], [1, 21]), {
+          inputs: [],
+          choices: ["Replace this occurrence only"]
+        })
+      ];
+
+      await replayHistory(entries, [flipIfElse, extract], () => editor);
+
+      expect(editor.code).toBe(`if (isValid) {
+  const hello = "Hello";
+  console.log(hello);
+} else {
+  doSomething();
+}
+console.log("Hello");`);
+    });
+
+    it("should throw on an unknown refactoring", async () => {
+      const editor = new InMemoryEditor("");
+      const entries = [anEntry("unknown")];
+
+      await expect(
+        replayHistory(entries, [flipIfElse], () => editor)
+      ).rejects.toThrow(`Unknown refactoring "unknown"`);
+    });
+  });
+});
+
+class InMemoryStorage implements HistoryStorage {
+  private values = new Map<string, unknown>();
+
+  get<T>(key: string): T | undefined {
+    return this.values.get(key) as T | undefined;
+  }
+
+  async update(key: string, value: unknown) {
+    this.values.set(key, value);
+  }
+}
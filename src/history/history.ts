@@ -0,0 +1,165 @@
+import { Editor } from "../editor/editor";
+import { Selection } from "../editor/selection";
+import { Answers } from "../editor/adapters/file-system-editor";
+import { ReplayingEditor } from "../editor/adapters/replaying-editor";
+import { Refactoring } from "../types";
+
+export {
+  RefactoringHistory,
+  HistoryEntry,
+  HistoryStorage,
+  createEntry,
+  selectionOf,
+  exportHistory,
+  parseHistory,
+  replayHistory
+};
+
+const STORAGE_KEY = "abracadabra.refactoringHistory";
+const MAX_ENTRIES = 200;
+
+type HistoryEntry = {
+  key: string;
+  // Relative to the workspace root.
+  file: string;
+  // Lines and characters start at 0, like `Selection`.
+  selection: {
+    start: { line: number; character: number };
+    end: { line: number; character: number };
+  };
+  answers: Required<Answers>;
+  timestamp: string;
+};
+
+/**
+ * Where entries are persisted, e.g. the workspace state of VS Code.
+ */
+interface HistoryStorage {
+  get<T>(key: string): T | undefined;
+  update(key: string, value: unknown): PromiseLike<void>;
+}
+
+class RefactoringHistory {
+  constructor(private storage: HistoryStorage) {}
+
+  get entries(): HistoryEntry[] {
+    return this.storage.get<HistoryEntry[]>(STORAGE_KEY) || [];
+  }
+
+  async record(entry: HistoryEntry) {
+    const entries = [...this.entries, entry].slice(-MAX_ENTRIES);
+    await this.storage.update(STORAGE_KEY, entries);
+  }
+
+  async clear() {
+    await this.storage.update(STORAGE_KEY, []);
+  }
+}
+
+function createEntry(
+  key: string,
+  file: string,
+  selection: Selection,
+  answers: Required<Answers>,
+  date: Date = new Date()
+): HistoryEntry {
+  const { start, end } = selection;
+
+  return {
+    key,
+    file,
+    selection: {
+      start: { line: start.line, character: start.character },
+      end: { line: end.line, character: end.character }
+    },
+    answers: {
+      inputs: [...answers.inputs],
+      choices: [...answers.choices]
+    },
+    timestamp: date.toISOString()
+  };
+}
+
+function selectionOf(entry: HistoryEntry): Selection {
+  const { start, end } = entry.selection;
+  return new Selection(
+    [start.line, start.character],
+    [end.line, end.character]
+  );
+}
+
+function exportHistory(entries: HistoryEntry[]): string {
+  return JSON.stringify(entries, null, 2);
+}
+
+function parseHistory(json: string): HistoryEntry[] {
+  const entries: unknown = JSON.parse(json);
+  if (!Array.isArray(entries) || !entries.every(isHistoryEntry)) {
+    throw new Error(
+      "Invalid refactoring history. Expected a list of entries exported from VS Code."
+    );
+  }
+
+  return entries;
+}
+
+function isHistoryEntry(value: unknown): value is HistoryEntry {
+  if (!isObject(value)) return false;
+
+  const { key, file, selection, answers } = value;
+  return (
+    typeof key === "string" &&
+    typeof file === "string" &&
+    isObject(selection) &&
+    isPosition(selection.start) &&
+    isPosition(selection.end) &&
+    isObject(answers) &&
+    isListOfStrings(answers.inputs) &&
+    isListOfStrings(answers.choices)
+  );
+}
+
+function isPosition(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    typeof value.line === "number" &&
+    typeof value.character === "number"
+  );
+}
+
+function isListOfStrings(value: unknown): boolean {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Runs the recorded refactorings again, in order.
+ *
+ * `createEditor` gives the editor of the entry's file. Entries are played at
+ * their selection, with their recorded answers.
+ */
+async function replayHistory(
+  entries: HistoryEntry[],
+  refactorings: Refactoring[],
+  createEditor: (entry: HistoryEntry) => Editor | Promise<Editor>
+): Promise<void> {
+  for (const entry of entries) {
+    const refactoring = refactorings.find(
+      ({ command }) => command.key === entry.key
+    );
+    if (!refactoring) {
+      throw new Error(`Unknown refactoring "${entry.key}".`);
+    }
+
+    const editor = await createEditor(entry);
+    await editor.select(selectionOf(entry));
+    await refactoring.command.operation(
+      new ReplayingEditor(editor, entry.answers)
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import * as vscode from "vscode";
+
+import { RefactoringHistory, HistoryEntry, exportHistory } from "./history";
+
+export { showRefactoringHistory };
+
+type Item = vscode.QuickPickItem & { action: () => Promise<void> };
+
+async function showRefactoringHistory(history: RefactoringHistory) {
+  const entries = history.entries;
+  if (entries.length === 0) {
+    await vscode.window.showInformationMessage(
+      "No refactoring was executed in this workspace yet."
+    );
+    return;
+  }
+
+  const items: Item[] = [
+    {
+      label: "$(save) Export as JSON…",
+      description: `${entries.length} refactorings`,
+      action: () => exportToFile(entries)
+    },
+    {
+      label: "$(trash) Clear history",
+      action: () => history.clear()
+    },
+    ...[...entries].reverse().map((entry) => ({
+      label: entry.key,
+      description: `${entry.file}:${entry.selection.start.line + 1}`,
+      detail: describe(entry),
+      action: () => copyToClipboard(entry)
+    }))
+  ];
+
+  const item = await vscode.window.showQuickPick(items, {
+    placeHolder: "Pick a refactoring to copy it as JSON, most recent first",
+    matchOnDescription: true
+  });
+  if (!item) return;
+
+  await item.action();
+}
+
+function describe(entry: HistoryEntry): string {
+  const { inputs, choices } = entry.answers;
+  const answers = [...choices, ...inputs].map((answer) => `"${answer}"`);
+  const date = new Date(entry.timestamp).toLocaleString();
+
+  return answers.length > 0 ? `${date} — ${answers.join(", ")}` : date;
+}
+
+async function exportToFile(entries: HistoryEntry[]) {
+  const [workspaceFolder] = vscode.workspace.workspaceFolders || [];
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: workspaceFolder
+      ? vscode.Uri.joinPath(workspaceFolder.uri, "abracadabra-history.json")
+      : undefined,
+    filters: { JSON: ["json"] }
+  });
+  if (!uri) return;
+
+  await vscode.workspace.fs.writeFile(
+    uri,
+    Buffer.from(exportHistory(entries), "utf-8")
+  );
+  await vscode.window.showInformationMessage(
+    `Refactoring history exported to ${vscode.workspace.asRelativePath(uri)}`
+  );
+}
+
+async function copyToClipboard(entry: HistoryEntry) {
+  await vscode.env.clipboard.writeText(exportHistory([entry]));
+  await vscode.window.showInformationMessage(
+    `"${entry.key}" copied to the clipboard, as JSON`
+  );
+}
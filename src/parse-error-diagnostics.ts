@@ -0,0 +1,60 @@
+import * as vscode from "vscode";
+
+import * as t from "./ast";
+import { Position } from "./editor/position";
+import { VSCodeEditor } from "./editor/adapters/vscode-editor";
+import { shouldShowParseErrors } from "./vscode-configuration";
+
+export { ParseErrorDiagnostics };
+
+/**
+ * When we can't parse the code, no refactoring is proposed.
+ * If users want to know why, we tell them where Babel failed.
+ */
+class ParseErrorDiagnostics implements vscode.Disposable {
+  private diagnostics = vscode.languages.createDiagnosticCollection(
+    "abracadabra"
+  );
+  private outputChannel = vscode.window.createOutputChannel("Abracadabra");
+  private reportedMessages = new Map<string, string>();
+
+  report(editor: VSCodeEditor, error: Error) {
+    if (!(error instanceof t.ParseError)) return;
+
+    if (!shouldShowParseErrors()) {
+      this.clear(editor);
+      return;
+    }
+
+    const position = editor.toDocumentPosition(
+      error.location ? Position.fromAST(error.location) : new Position(0, 0)
+    );
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(position, position),
+      error.message,
+      vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.source = "Abracadabra";
+    this.diagnostics.set(editor.uri, [diagnostic]);
+
+    // Quick fixes are computed on every cursor move, don't log the same error.
+    const uri = editor.uri.toString();
+    const message = `${editor.uri.fsPath}:${position.line + 1}:${
+      position.character + 1
+    } ${error.message}`;
+    if (this.reportedMessages.get(uri) === message) return;
+
+    this.reportedMessages.set(uri, message);
+    this.outputChannel.appendLine(message);
+  }
+
+  clear(editor: VSCodeEditor) {
+    this.diagnostics.delete(editor.uri);
+    this.reportedMessages.delete(editor.uri.toString());
+  }
+
+  dispose() {
+    this.diagnostics.dispose();
+    this.outputChannel.dispose();
+  }
+}
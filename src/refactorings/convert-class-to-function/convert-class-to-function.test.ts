@@ -0,0 +1,191 @@
+import { ErrorReason, Code } from "../../editor/editor";
+import { InMemoryEditor } from "../../editor/adapters/in-memory-editor";
+import { testEach } from "../../tests-helpers";
+
+import { convertClassToFunction } from "./convert-class-to-function";
+
+describe("Convert Class To Function", () => {
+  testEach<{ code: Code; expected: Code }>(
+    "should convert class to function",
+    [
+      {
+        description: "a class with a constructor and methods",
+        code: `class [cursor]Person {
+  constructor(name) {
+    this.name = name;
+  }
+
+  greet(greeting) {
+    return greeting + " " + this.name;
+  }
+}`,
+        expected: `function Person(name) {
+  this.name = name;
+}
+
+Person.prototype.greet = function(greeting) {
+  return greeting + " " + this.name;
+};`
+      },
+      {
+        description: "a class without constructor",
+        code: `class [cursor]Logger {
+  log(message) {
+    console.log(message);
+  }
+}`,
+        expected: `function Logger() {}
+
+Logger.prototype.log = function(message) {
+  console.log(message);
+};`
+      },
+      {
+        description: "static methods and properties",
+        code: `class [cursor]Point {
+  static ORIGIN = new Point();
+
+  static create() {
+    return new Point();
+  }
+
+  toString() {
+    return "Point";
+  }
+}`,
+        expected: `function Point() {}
+
+Point.create = function() {
+  return new Point();
+};
+
+Point.prototype.toString = function() {
+  return "Point";
+};
+
+Point.ORIGIN = new Point();`
+      },
+      {
+        description: "instance properties",
+        code: `class [cursor]Counter {
+  count = 0;
+
+  constructor(step) {
+    this.step = step;
+  }
+}`,
+        expected: `function Counter(step) {
+  this.count = 0;
+  this.step = step;
+}`
+      },
+      {
+        description: "async, generator and computed methods",
+        code: `class [cursor]Collection {
+  async load() {
+    this.items = await fetchItems();
+  }
+
+  *[Symbol.iterator]() {
+    yield* this.items;
+  }
+}`,
+        expected: `function Collection() {}
+
+Collection.prototype.load = async function() {
+  this.items = await fetchItems();
+};
+
+Collection.prototype[Symbol.iterator] = function*() {
+  yield* this.items;
+};`
+      },
+      {
+        description: "an exported class",
+        code: `export class [cursor]Logger {
+  log(message) {
+    console.log(message);
+  }
+}
+
+const logger = new Logger();`,
+        expected: `export function Logger() {}
+
+Logger.prototype.log = function(message) {
+  console.log(message);
+};
+
+const logger = new Logger();`
+      }
+    ],
+    async ({ code, expected }) => {
+      const editor = new InMemoryEditor(code);
+
+      await convertClassToFunction(editor);
+
+      expect(editor.code).toBe(expected);
+    }
+  );
+
+  testEach<{ code: Code }>(
+    "should not convert",
+    [
+      {
+        description: "if cursor is not on the class name",
+        code: `class Logger {
+  log(message) {[cursor]
+    console.log(message);
+  }
+}`
+      },
+      {
+        description: "a class that extends another one",
+        code: `class [cursor]Logger extends Base {
+  log(message) {
+    super.log(message);
+  }
+}`
+      },
+      {
+        description: "a class with getters",
+        code: `class [cursor]Person {
+  get name() {
+    return "Jane";
+  }
+}`
+      },
+      {
+        description: "a class with private members",
+        code: `class [cursor]Counter {
+  #count = 0;
+}`
+      },
+      {
+        description: "a class with parameter properties",
+        code: `class [cursor]Person {
+  constructor(private name: string) {}
+}`
+      }
+    ],
+    async ({ code }) => {
+      const editor = new InMemoryEditor(code);
+      const originalCode = editor.code;
+
+      await convertClassToFunction(editor);
+
+      expect(editor.code).toBe(originalCode);
+    }
+  );
+
+  it("should show an error message if refactoring can't be made", async () => {
+    const code = `// This is a comment, can't be refactored`;
+    const editor = new InMemoryEditor(code);
+    jest.spyOn(editor, "showError");
+
+    await convertClassToFunction(editor);
+
+    expect(editor.showError).toBeCalledWith(
+      ErrorReason.DidNotFindClassToConvert
+    );
+  });
+});
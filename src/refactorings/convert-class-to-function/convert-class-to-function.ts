@@ -0,0 +1,151 @@
+import { Editor, ErrorReason } from "../../editor/editor";
+import { Selection } from "../../editor/selection";
+import * as t from "../../ast";
+
+export { convertClassToFunction, createVisitor as canConvertClassToFunction };
+
+async function convertClassToFunction(editor: Editor) {
+  const { code, selection } = editor;
+  const updatedCode = updateCode(t.parse(code), selection);
+
+  if (!updatedCode.hasCodeChanged) {
+    editor.showError(ErrorReason.DidNotFindClassToConvert);
+    return;
+  }
+
+  await editor.write(updatedCode.code);
+}
+
+function updateCode(ast: t.AST, selection: Selection): t.Transformed {
+  return t.transformAST(
+    ast,
+    createVisitor(selection, (path, id) => {
+      const members: ClassMember[] = path.node.body.body;
+      const constructor = members.find(isConstructor);
+      const properties = members.filter(
+        (member): member is t.ClassProperty =>
+          t.isClassProperty(member) && !member.static
+      );
+      const methods = members.filter(
+        (member): member is t.ClassMethod =>
+          t.isClassMethod(member) && member.kind === "method"
+      );
+      const staticProperties = members.filter(
+        (member): member is t.ClassProperty =>
+          t.isClassProperty(member) && member.static
+      );
+
+      // Class properties are initialized before the constructor runs.
+      const initializations = properties
+        .filter((property) => property.value)
+        .map((property) =>
+          assignTo(
+            t.memberExpression(
+              t.thisExpression(),
+              property.key,
+              property.computed
+            ),
+            property.value as t.Expression
+          )
+        );
+      const constructorBody = constructor
+        ? constructor.body.body
+        : ([] as t.Statement[]);
+      const functionDeclaration = t.functionDeclaration(
+        id,
+        constructor ? constructor.params : [],
+        t.blockStatement([...initializations, ...constructorBody])
+      );
+      // @ts-expect-error Recast does use a `comments` attribute.
+      functionDeclaration.comments = path.node.comments;
+
+      // Methods are defined before static properties are initialized.
+      const methodAssignments = methods.map((method) => {
+        const target = method.static ? id : prototypeOf(id);
+        const functionExpression = t.functionExpression(
+          null,
+          method.params,
+          method.body,
+          method.generator,
+          method.async
+        );
+        functionExpression.returnType = method.returnType;
+        functionExpression.typeParameters = method.typeParameters;
+
+        const assignment = assignTo(
+          t.memberExpression(target, method.key, method.computed),
+          functionExpression
+        );
+        // @ts-expect-error Recast does use a `comments` attribute.
+        assignment.comments = method.comments;
+        return assignment;
+      });
+      const staticAssignments = staticProperties.map((property) =>
+        assignTo(
+          t.memberExpression(id, property.key, property.computed),
+          property.value || t.identifier("undefined")
+        )
+      );
+
+      const statementPath = path.parentPath.isExportDeclaration()
+        ? path.parentPath
+        : path;
+      statementPath.insertAfter([...methodAssignments, ...staticAssignments]);
+      path.replaceWith(functionDeclaration);
+      path.stop();
+    })
+  );
+}
+
+function createVisitor(
+  selection: Selection,
+  onMatch: (path: t.NodePath<t.ClassDeclaration>, id: t.Identifier) => void
+): t.Visitor {
+  return {
+    ClassDeclaration(path) {
+      const { superClass, decorators } = path.node;
+      const id: t.Identifier | null = path.node.id;
+      if (!id || !selection.isInsideNode(id)) return;
+
+      // Inheritance would need `super` calls to be rewritten.
+      if (superClass) return;
+      if (decorators && decorators.length > 0) return;
+
+      const members: ClassMember[] = path.node.body.body;
+      if (!members.every(canBeConverted)) return;
+
+      onMatch(path, id);
+    }
+  };
+}
+
+function canBeConverted(member: ClassMember): boolean {
+  if (t.isClassProperty(member)) {
+    return !member.decorators || member.decorators.length === 0;
+  }
+
+  if (!t.isClassMethod(member)) return false;
+  if (member.decorators && member.decorators.length > 0) return false;
+
+  // Getters and setters would need `Object.defineProperty()`.
+  if (member.kind === "get" || member.kind === "set") return false;
+
+  return member.params.every((param) => !t.isTSParameterProperty(param));
+}
+
+function isConstructor(member: ClassMember): member is t.ClassMethod {
+  return t.isClassMethod(member) && member.kind === "constructor";
+}
+
+function prototypeOf(id: t.Identifier): t.MemberExpression {
+  return t.memberExpression(id, t.identifier("prototype"));
+}
+
+function assignTo(
+  left: t.MemberExpression,
+  right: t.Expression
+): t.ExpressionStatement {
+  return t.expressionStatement(t.assignmentExpression("=", left, right));
+}
+
+type ClassMember = t.ClassBody["body"][number];
@@ -0,0 +1,20 @@
+import {
+  convertClassToFunction,
+  canConvertClassToFunction
+} from "./convert-class-to-function";
+
+import { RefactoringWithActionProvider } from "../../types";
+
+const config: RefactoringWithActionProvider = {
+  command: {
+    key: "convertClassToFunction",
+    operation: convertClassToFunction,
+    title: "Convert Class to Function"
+  },
+  actionProvider: {
+    message: "Convert to constructor function",
+    createVisitor: canConvertClassToFunction
+  }
+};
+
+export default config;
@@ -0,0 +1,271 @@
+import { ErrorReason, Code } from "../../editor/editor";
+import { InMemoryEditor } from "../../editor/adapters/in-memory-editor";
+import { testEach } from "../../tests-helpers";
+
+import { convertFunctionToClass } from "./convert-function-to-class";
+
+describe("Convert Function To Class", () => {
+  testEach<{ code: Code; expected: Code }>(
+    "should convert function to class",
+    [
+      {
+        description: "a constructor with prototype methods",
+        code: `function [cursor]Person(name) {
+  this.name = name;
+}
+
+Person.prototype.greet = function (greeting) {
+  return greeting + " " + this.name;
+};
+
+Person.prototype.walk = function () {
+  console.log("walking");
+};`,
+        expected: `class Person {
+  constructor(name) {
+    this.name = name;
+  }
+
+  greet(greeting) {
+    return greeting + " " + this.name;
+  }
+
+  walk() {
+    console.log("walking");
+  }
+}`
+      },
+      {
+        description: "an empty constructor",
+        code: `function [cursor]Logger() {}
+
+Logger.prototype.log = function (message) {
+  console.log(message);
+};`,
+        expected: `class Logger {
+  log(message) {
+    console.log(message);
+  }
+}`
+      },
+      {
+        description: "static methods",
+        code: `function [cursor]Point(x, y) {
+  this.x = x;
+  this.y = y;
+}
+
+Point.prototype.toString = function () {
+  return this.x + ", " + this.y;
+};
+
+Point.origin = function () {
+  return new Point(0, 0);
+};`,
+        expected: `class Point {
+  constructor(x, y) {
+    this.x = x;
+    this.y = y;
+  }
+
+  toString() {
+    return this.x + ", " + this.y;
+  }
+
+  static origin() {
+    return new Point(0, 0);
+  }
+}`
+      },
+      {
+        description: "async, generator and computed methods",
+        code: `function [cursor]Collection() {
+  this.items = [];
+}
+
+Collection.prototype.load = async function () {
+  this.items = await fetchItems();
+};
+
+Collection.prototype[Symbol.iterator] = function* () {
+  yield* this.items;
+};`,
+        expected: `class Collection {
+  constructor() {
+    this.items = [];
+  }
+
+  async load() {
+    this.items = await fetchItems();
+  }
+
+  *[Symbol.iterator]() {
+    yield* this.items;
+  }
+}`
+      },
+      {
+        description: "with comments",
+        code: `// Logs messages
+function [cursor]Logger() {}
+
+// Logs with the current date
+Logger.prototype.log = function (message) {
+  console.log(new Date(), message);
+};`,
+        expected: `// Logs messages
+class Logger {
+  // Logs with the current date
+  log(message) {
+    console.log(new Date(), message);
+  }
+}`
+      },
+      {
+        description: "an exported function",
+        code: `export function [cursor]Logger() {}
+
+Logger.prototype.log = function (message) {
+  console.log(message);
+};`,
+        expected: `export class Logger {
+  log(message) {
+    console.log(message);
+  }
+}`
+      },
+      {
+        description: "with unrelated code in between",
+        code: `function [cursor]Logger() {}
+
+const logger = new Logger();
+
+Logger.prototype.log = function (message) {
+  console.log(message);
+};`,
+        expected: `class Logger {
+  log(message) {
+    console.log(message);
+  }
+}
+
+const logger = new Logger();`
+      },
+      {
+        description: "without assignments that are not methods",
+        code: `function [cursor]Logger() {}
+
+Logger.prototype.log = function (message) {
+  console.log(message);
+};
+
+Logger.prototype.level = "info";
+Logger.prototype.debug = (message) => console.log(message);`,
+        expected: `class Logger {
+  log(message) {
+    console.log(message);
+  }
+}
+
+Logger.prototype.level = "info";
+Logger.prototype.debug = (message) => console.log(message);`
+      }
+    ],
+    async ({ code, expected }) => {
+      const editor = new InMemoryEditor(code);
+
+      await convertFunctionToClass(editor);
+
+      expect(editor.code).toBe(expected);
+    }
+  );
+
+  testEach<{ code: Code }>(
+    "should not convert",
+    [
+      {
+        description: "a function without prototype methods",
+        code: `function [cursor]sayHello() {
+  console.log("Hello");
+}`
+      },
+      {
+        description: "if cursor is not on the function name",
+        code: `function Logger() {[cursor]}
+
+Logger.prototype.log = function (message) {
+  console.log(message);
+};`
+      },
+      {
+        description: "a function called without new",
+        code: `function [cursor]Logger() {}
+
+Logger.prototype.log = function (message) {
+  console.log(message);
+};
+
+function ConsoleLogger() {
+  Logger.call(this);
+}`
+      },
+      {
+        description: "a function which prototype is replaced",
+        code: `function [cursor]Logger() {}
+
+Logger.prototype = Object.create(Base.prototype);
+Logger.prototype.log = function (message) {
+  console.log(message);
+};`
+      },
+      {
+        description: "a generator function",
+        code: `function* [cursor]Logger() {}
+
+Logger.prototype.log = function (message) {
+  console.log(message);
+};`
+      }
+    ],
+    async ({ code }) => {
+      const editor = new InMemoryEditor(code);
+      const originalCode = editor.code;
+
+      await convertFunctionToClass(editor);
+
+      expect(editor.code).toBe(originalCode);
+    }
+  );
+
+  it("should show an error message if refactoring can't be made", async () => {
+    const code = `// This is a comment, can't be refactored`;
+    const editor = new InMemoryEditor(code);
+    jest.spyOn(editor, "showError");
+
+    await convertFunctionToClass(editor);
+
+    expect(editor.showError).toBeCalledWith(
+      ErrorReason.DidNotFindConstructorFunctionToConvert
+    );
+  });
+
+  it("should show an error message if function is used before its declaration", async () => {
+    const code = `const logger = new Logger();
+
+function [cursor]Logger() {}
+
+Logger.prototype.log = function (message) {
+  console.log(message);
+};`;
+    const editor = new InMemoryEditor(code);
+    const originalCode = editor.code;
+    jest.spyOn(editor, "showError");
+
+    await convertFunctionToClass(editor);
+
+    expect(editor.showError).toBeCalledWith(
+      ErrorReason.CantConvertFunctionDeclarationBecauseUsedBefore
+    );
+    expect(editor.code).toBe(originalCode);
+  });
+});
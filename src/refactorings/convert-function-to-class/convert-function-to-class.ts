@@ -0,0 +1,240 @@
+import { Editor, ErrorReason } from "../../editor/editor";
+import { Selection } from "../../editor/selection";
+import * as t from "../../ast";
+
+export { convertFunctionToClass, createVisitor as canConvertFunctionToClass };
+
+async function convertFunctionToClass(editor: Editor) {
+  const { code, selection } = editor;
+  const { updatedCode, hasReferenceBefore } = updateCode(
+    t.parse(code),
+    selection
+  );
+
+  if (!updatedCode.hasCodeChanged) {
+    editor.showError(ErrorReason.DidNotFindConstructorFunctionToConvert);
+    return;
+  }
+
+  if (hasReferenceBefore) {
+    editor.showError(
+      ErrorReason.CantConvertFunctionDeclarationBecauseUsedBefore
+    );
+    return;
+  }
+
+  await editor.write(updatedCode.code);
+}
+
+function updateCode(
+  ast: t.AST,
+  selection: Selection
+): { updatedCode: t.Transformed; hasReferenceBefore: boolean } {
+  let hasReferenceBefore = false;
+
+  const updatedCode = t.transformAST(
+    ast,
+    createVisitor(selection, (path, id, methods) => {
+      const { params, body } = path.node;
+
+      // Classes are not hoisted, they can't be used before they're declared.
+      const start = path.node.start || 0;
+      hasReferenceBefore = getReferences(path, id).some(
+        (reference) => (reference.node.start || 0) < start
+      );
+
+      const members: ClassMember[] = [];
+      if (params.length > 0 || body.body.length > 0) {
+        members.push(
+          t.classMethod(
+            "constructor",
+            t.identifier("constructor"),
+            params,
+            body
+          )
+        );
+      }
+
+      methods.forEach(({ path: methodPath, isStatic }) => {
+        const { left, right } = methodPath.node.expression;
+        const method = t.classMethod(
+          "method",
+          left.property,
+          right.params,
+          right.body,
+          left.computed,
+          isStatic,
+          right.generator,
+          right.async
+        );
+        // @ts-expect-error Recast does use a `comments` attribute.
+        method.comments = methodPath.node.comments;
+        members.push(method);
+
+        methodPath.remove();
+      });
+
+      const classDeclaration = t.classDeclaration(
+        id,
+        null,
+        t.classBody(members),
+        []
+      );
+      // @ts-expect-error Recast does use a `comments` attribute.
+      classDeclaration.comments = path.node.comments;
+
+      path.replaceWith(classDeclaration);
+      path.stop();
+    })
+  );
+
+  return { updatedCode, hasReferenceBefore };
+}
+
+function createVisitor(
+  selection: Selection,
+  onMatch: (
+    path: t.NodePath<t.FunctionDeclaration>,
+    id: t.Identifier,
+    methods: Method[]
+  ) => void
+): t.Visitor {
+  return {
+    FunctionDeclaration(path) {
+      const { id, async, generator } = path.node;
+      if (!id || !selection.isInsideNode(id)) return;
+
+      // Async and generator functions can't be called with `new`.
+      if (async || generator) return;
+
+      const references = getReferences(path, id);
+      if (references.some(isNotUsedAsConstructor)) return;
+
+      const methods = getMethods(path, id);
+      const hasPrototypeMethod = methods.some(({ isStatic }) => !isStatic);
+      if (!hasPrototypeMethod) return;
+
+      onMatch(path, id, methods);
+    }
+  };
+}
+
+function getReferences(
+  path: t.NodePath<t.FunctionDeclaration>,
+  id: t.Identifier
+): t.NodePath[] {
+  const binding = path.parentPath.scope.getBinding(id.name);
+  if (!binding) return [];
+
+  // Exported declarations are referenced by the export statement itself.
+  return binding.referencePaths.filter((reference) => reference.isIdentifier());
+}
+
+/**
+ * Classes throw when they're called without `new`, so we can't convert
+ * `Parent.call(this)` or `Parent.prototype = Object.create(…)` patterns.
+ */
+function isNotUsedAsConstructor(reference: t.NodePath): boolean {
+  const { parent, parentPath } = reference;
+
+  if (t.isCallExpression(parent) && parent.callee === reference.node) {
+    return true;
+  }
+
+  if (!t.isMemberExpression(parent) || parent.object !== reference.node) {
+    return false;
+  }
+
+  const property = getPropertyName(parent);
+  if (property === "call" || property === "apply" || property === "bind") {
+    return true;
+  }
+
+  const isPrototypeAssignment =
+    property === "prototype" &&
+    t.isAssignmentExpression(parentPath.parent) &&
+    parentPath.parent.left === parent;
+  return isPrototypeAssignment;
+}
+
+function getMethods(
+  path: t.NodePath<t.FunctionDeclaration>,
+  id: t.Identifier
+): Method[] {
+  const binding = path.parentPath.scope.getBinding(id.name);
+  const statementPath = path.parentPath.isExportDeclaration()
+    ? path.parentPath
+    : path;
+
+  return statementPath
+    .getAllNextSiblings()
+    .filter((sibling): sibling is t.NodePath<MethodAssignment> => {
+      if (!sibling.isExpressionStatement()) return false;
+
+      const { expression } = sibling.node;
+      if (!t.isAssignmentExpression(expression, { operator: "=" })) {
+        return false;
+      }
+
+      const { left, right } = expression;
+      if (!t.isMemberExpression(left)) return false;
+      if (!t.isFunctionExpression(right)) return false;
+      if (isReferencingItsOwnName(right)) return false;
+
+      const object = isPrototype(left.object)
+        ? left.object.object
+        : left.object;
+      return (
+        t.isIdentifier(object, { name: id.name }) &&
+        sibling.scope.getBinding(id.name) === binding
+      );
+    })
+    .map((methodPath) => ({
+      path: methodPath,
+      isStatic: !isPrototype(methodPath.node.expression.left.object)
+    }));
+}
+
+function isPrototype(node: t.Node): node is t.MemberExpression {
+  return (
+    t.isMemberExpression(node) &&
+    t.isIdentifier(node.object) &&
+    getPropertyName(node) === "prototype"
+  );
+}
+
+// Methods don't bind their name, it would reference the class instead.
+function isReferencingItsOwnName(node: t.FunctionExpression): boolean {
+  if (!node.id) return false;
+
+  let result = false;
+  t.traverseFast(node.body, (child) => {
+    if (t.isIdentifier(child) && child.name === node.id?.name) {
+      result = true;
+    }
+  });
+
+  return result;
+}
+
+function getPropertyName(node: t.MemberExpression): string | null {
+  if (!node.computed && t.isIdentifier(node.property)) {
+    return node.property.name;
+  }
+
+  return t.isStringLiteral(node.property) ? node.property.value : null;
+}
+
+type ClassMember = t.ClassBody["body"][number];
+
+type Method = {
+  path: t.NodePath<MethodAssignment>;
+  isStatic: boolean;
+};
+
+type MethodAssignment = t.ExpressionStatement & {
+  expression: t.AssignmentExpression & {
+    left: t.MemberExpression;
+    right: t.FunctionExpression;
+  };
+};
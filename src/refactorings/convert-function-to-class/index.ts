@@ -0,0 +1,20 @@
+import {
+  convertFunctionToClass,
+  canConvertFunctionToClass
+} from "./convert-function-to-class";
+
+import { RefactoringWithActionProvider } from "../../types";
+
+const config: RefactoringWithActionProvider = {
+  command: {
+    key: "convertFunctionToClass",
+    operation: convertFunctionToClass,
+    title: "Convert Function to Class"
+  },
+  actionProvider: {
+    message: "Convert to class",
+    createVisitor: canConvertFunctionToClass
+  }
+};
+
+export default config;
@@ -0,0 +1,166 @@
+import { ErrorReason, Code } from "../../editor/editor";
+import { InMemoryEditor } from "../../editor/adapters/in-memory-editor";
+import { testEach } from "../../tests-helpers";
+
+import { convertToOptionalChaining } from "./convert-to-optional-chaining";
+
+describe("Convert To Optional Chaining", () => {
+  testEach<{ code: Code; expected: Code }>(
+    "should convert to optional chaining",
+    [
+      {
+        description: "a guarded member expression",
+        code: `if ([cursor]a && a.b) {}`,
+        expected: `if (a?.b) {}`
+      },
+      {
+        description: "a chain of guards",
+        code: `if ([cursor]a && a.b && a.b.c()) {}`,
+        expected: `if (a?.b?.c()) {}`
+      },
+      {
+        description: "guards that skip some members",
+        code: `if ([cursor]a && a.b.c && a.b.c.d.e) {}`,
+        expected: `if (a?.b.c?.d.e) {}`
+      },
+      {
+        description: "a guarded function call",
+        code: `if ([cursor]a.onClick && a.onClick(event)) {}`,
+        expected: `if (a.onClick?.(event)) {}`
+      },
+      {
+        description: "a guarded method call",
+        code: `while ([cursor]user && user.greet("Hello")) {}`,
+        expected: `while (user?.greet("Hello")) {}`
+      },
+      {
+        description: "a guarded computed member expression",
+        code: `if ([cursor]items[0] && items[0].name) {}`,
+        expected: `if (items[0]?.name) {}`
+      },
+      {
+        description: "a guard on this",
+        code: `if ([cursor]this.props && this.props.onClick()) {}`,
+        expected: `if (this.props?.onClick()) {}`
+      },
+      {
+        description: "a negated chain",
+        code: `const isEmpty = !([cursor]list && list.items);`,
+        expected: `const isEmpty = !(list?.items);`
+      },
+      {
+        description: "a chain in a ternary test",
+        code: `const name = [cursor]user && user.name ? user.name : "Anonymous";`,
+        expected: `const name = user?.name ? user.name : "Anonymous";`
+      },
+      {
+        description: "a chain on the left side of ||",
+        code: `const name = ([cursor]user && user.name) || "Anonymous";`,
+        expected: `const name = (user?.name) || "Anonymous";`
+      },
+      {
+        description: "the guarded part of a longer logical expression",
+        code: `if ([cursor]a && a.b && isValid) {}`,
+        expected: `if (a?.b && isValid) {}`
+      },
+      {
+        description: "a ternary checking != null",
+        code: `const y = [cursor]x != null ? x.y : undefined;`,
+        expected: `const y = x?.y;`
+      },
+      {
+        description: "a ternary checking == null",
+        code: `const y = [cursor]x == null ? undefined : x.y.z;`,
+        expected: `const y = x?.y.z;`
+      },
+      {
+        description: "a ternary checking undefined, null first",
+        code: `const y = [cursor]undefined != x.y ? x.y.z() : undefined;`,
+        expected: `const y = x.y?.z();`
+      }
+    ],
+    async ({ code, expected }) => {
+      const editor = new InMemoryEditor(code);
+
+      await convertToOptionalChaining(editor);
+
+      expect(editor.code).toBe(expected);
+    }
+  );
+
+  testEach<{ code: Code }>(
+    "should not convert",
+    [
+      {
+        description: "a chain which value is used",
+        code: `const b = [cursor]a && a.b;`
+      },
+      {
+        description: "a chain which value is returned",
+        code: `function getB(a) {
+  return [cursor]a && a.b;
+}`
+      },
+      {
+        description: "a chain used as a statement",
+        code: `[cursor]count && count.toFixed();`
+      },
+      {
+        description: "a chain used with ??",
+        code: `const b = ([cursor]a && a.b) ?? c;`
+      },
+      {
+        description: "operands that don't extend the previous one",
+        code: `if ([cursor]a && b.c) {}`
+      },
+      {
+        description: "a final operand that is not a member access",
+        code: `if ([cursor]a && a.b === 1) {}`
+      },
+      {
+        description: "a guard with a call",
+        code: `if ([cursor]getUser() && getUser().name) {}`
+      },
+      {
+        description: "a guard with a computed call",
+        code: `if ([cursor]a[key()] && a[key()].b) {}`
+      },
+      {
+        description: "a guard that is not the same computed member",
+        code: `if ([cursor]a[b] && a.b.c) {}`
+      },
+      {
+        description: "a ternary with a strict equality",
+        code: `const y = [cursor]x !== null ? x.y : undefined;`
+      },
+      {
+        description: "a ternary that doesn't fallback to undefined",
+        code: `const y = [cursor]x != null ? x.y : null;`
+      },
+      {
+        description: "a ternary that doesn't check the extended object",
+        code: `const y = [cursor]x != null ? z.y : undefined;`
+      }
+    ],
+    async ({ code }) => {
+      const editor = new InMemoryEditor(code);
+      const originalCode = editor.code;
+
+      await convertToOptionalChaining(editor);
+
+      expect(editor.code).toBe(originalCode);
+    }
+  );
+
+  it("should show an error message if refactoring can't be made", async () => {
+    const code = `// This is a comment, can't be refactored`;
+    const editor = new InMemoryEditor(code);
+    jest.spyOn(editor, "showError");
+
+    await convertToOptionalChaining(editor);
+
+    expect(editor.showError).toBeCalledWith(
+      ErrorReason.DidNotFindOptionalChainToConvert
+    );
+  });
+});
@@ -0,0 +1,209 @@
+import { Editor, ErrorReason } from "../../editor/editor";
+import { Selection } from "../../editor/selection";
+import * as t from "../../ast";
+
+export {
+  convertToOptionalChaining,
+  createVisitor as canConvertToOptionalChaining
+};
+
+async function convertToOptionalChaining(editor: Editor) {
+  const { code, selection } = editor;
+  const updatedCode = updateCode(t.parse(code), selection);
+
+  if (!updatedCode.hasCodeChanged) {
+    editor.showError(ErrorReason.DidNotFindOptionalChainToConvert);
+    return;
+  }
+
+  await editor.write(updatedCode.code);
+}
+
+function updateCode(ast: t.AST, selection: Selection): t.Transformed {
+  return t.transformAST(
+    ast,
+    createVisitor(selection, (path, optionalChain) => {
+      path.replaceWith(optionalChain);
+      path.stop();
+    })
+  );
+}
+
+function createVisitor(
+  selection: Selection,
+  onMatch: (
+    path: t.NodePath<t.LogicalExpression | t.ConditionalExpression>,
+    optionalChain: t.Expression
+  ) => void
+): t.Visitor {
+  return {
+    LogicalExpression(path) {
+      if (!selection.isInsidePath(path)) return;
+      if (path.node.operator !== "&&") return;
+
+      // `a && a.b` is `null` or `0` when `a` is, `a?.b` is `undefined`.
+      // That's only the same if we don't use the value of the expression.
+      if (!isUsedAsBoolean(path)) return;
+
+      const operands = getOperands(path.node);
+      const guards = operands.slice(0, -1);
+      const value = operands[operands.length - 1];
+      if (!guards.every(isSafeGuard)) return;
+
+      const isChain = operands.every(
+        (operand, i) => i === 0 || isExtending(operand, operands[i - 1])
+      );
+      if (!isChain) return;
+
+      onMatch(path, toOptionalChain(value, guards));
+    },
+
+    ConditionalExpression(path) {
+      if (!selection.isInsidePath(path)) return;
+
+      const { test, consequent, alternate } = path.node;
+      if (!t.isBinaryExpression(test)) return;
+
+      // Strict equality would throw on the other nullish value.
+      const isNotNullish = test.operator === "!=";
+      const isNullish = test.operator === "==";
+      if (!isNotNullish && !isNullish) return;
+
+      const guard = getNullCheckedExpression(test);
+      if (!guard || !isSafeGuard(guard)) return;
+
+      const [value, fallback] = isNotNullish
+        ? [consequent, alternate]
+        : [alternate, consequent];
+      if (!t.isUndefinedLiteral(fallback)) return;
+      if (!isExtending(value, guard)) return;
+
+      onMatch(path, toOptionalChain(value, [guard]));
+    }
+  };
+}
+
+function isUsedAsBoolean(path: t.NodePath): boolean {
+  const { parentPath, parent, node } = path;
+
+  if (t.isUnaryExpression(parent, { operator: "!" })) return true;
+  if (
+    (t.isIfStatement(parent) ||
+      t.isWhileStatement(parent) ||
+      t.isDoWhileStatement(parent) ||
+      t.isForStatement(parent) ||
+      t.isConditionalExpression(parent)) &&
+    parent.test === node
+  ) {
+    return true;
+  }
+
+  if (t.isLogicalExpression(parent)) {
+    if (parent.operator === "??") return false;
+    // The value would only be used if it's truthy, which doesn't change.
+    if (parent.operator === "||" && parent.left === node) return true;
+
+    return isUsedAsBoolean(parentPath);
+  }
+
+  return false;
+}
+
+function getOperands(node: t.LogicalExpression): t.Expression[] {
+  const leftOperands = t.isLogicalExpression(node.left, { operator: "&&" })
+    ? getOperands(node.left)
+    : [node.left];
+
+  return [...leftOperands, node.right];
+}
+
+function getNullCheckedExpression(
+  test: t.BinaryExpression
+): t.Expression | null {
+  const { left, right } = test;
+  if (isNullOrUndefined(right)) return left;
+  if (isNullOrUndefined(left)) return right;
+  return null;
+}
+
+function isNullOrUndefined(node: t.Node): boolean {
+  return t.isNullLiteral(node) || t.isUndefinedLiteral(node);
+}
+
+/**
+ * Guards are evaluated once in the optional chain instead of twice.
+ * We only convert the ones we can read again without side-effects.
+ */
+function isSafeGuard(node: t.Node): boolean {
+  if (t.isIdentifier(node)) return !t.isUndefinedLiteral(node);
+  if (t.isThisExpression(node)) return true;
+
+  if (t.isMemberExpression(node)) {
+    const isSafeProperty =
+      !node.computed ||
+      t.isIdentifier(node.property) ||
+      t.isStringLiteral(node.property) ||
+      t.isNumericLiteral(node.property);
+
+    return isSafeProperty && isSafeGuard(node.object);
+  }
+
+  return false;
+}
+
+function isExtending(node: t.Node, guard: t.Node): boolean {
+  return getChainedObjects(node).some((object) =>
+    t.areEquivalent(object, guard)
+  );
+}
+
+function getChainedObjects(node: t.Node): t.Node[] {
+  if (t.isMemberExpression(node)) {
+    return [node.object, ...getChainedObjects(node.object)];
+  }
+
+  if (t.isCallExpression(node)) {
+    return [node.callee, ...getChainedObjects(node.callee)];
+  }
+
+  return [];
+}
+
+function toOptionalChain(
+  node: t.Expression,
+  guards: t.Expression[]
+): t.Expression {
+  const isGuarded = (object: t.Node) =>
+    guards.some((guard) => t.areEquivalent(guard, object));
+
+  if (t.isMemberExpression(node)) {
+    const object = toOptionalChain(node.object, guards);
+    const optional = isGuarded(node.object);
+    if (!optional && !isOptionalChain(object)) return node;
+
+    return t.optionalMemberExpression(
+      object,
+      node.property,
+      node.computed,
+      optional
+    );
+  }
+
+  if (t.isCallExpression(node) && t.isExpression(node.callee)) {
+    const callee = toOptionalChain(node.callee, guards);
+    const optional = isGuarded(node.callee);
+    if (!optional && !isOptionalChain(callee)) return node;
+
+    return t.optionalCallExpression(
+      callee,
+      node.arguments as t.OptionalCallExpression["arguments"],
+      optional
+    );
+  }
+
+  return node;
+}
+
+function isOptionalChain(node: t.Node): boolean {
+  return t.isOptionalMemberExpression(node) || t.isOptionalCallExpression(node);
+}
@@ -0,0 +1,20 @@
+import {
+  convertToOptionalChaining,
+  canConvertToOptionalChaining
+} from "./convert-to-optional-chaining";
+
+import { RefactoringWithActionProvider } from "../../types";
+
+const config: RefactoringWithActionProvider = {
+  command: {
+    key: "convertToOptionalChaining",
+    operation: convertToOptionalChaining,
+    title: "Convert to Optional Chaining"
+  },
+  actionProvider: {
+    message: "Convert to optional chaining",
+    createVisitor: canConvertToOptionalChaining
+  }
+};
+
+export default config;
@@ -1,2 +0,0 @@
-export const EXTRACT_CLASS_COMMAND = "extractClass";
-export const ABRACADABRA_EXTRACT_CLASS_COMMAND = `abracadabra.${EXTRACT_CLASS_COMMAND}`;
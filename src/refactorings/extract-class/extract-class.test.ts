@@ -1,17 +1,414 @@
-import { ErrorReason, Code } from "../../editor/editor";
+import { ErrorReason, Code, Choice } from "../../editor/editor";
 import { InMemoryEditor } from "../../editor/adapters/in-memory-editor";
 import { testEach } from "../../tests-helpers";
 
 import { extractClass } from "./extract-class";
 
 describe("Extract Class", () => {
-  testEach<{ code: Code; expected: Code }>(
+  testEach<{ code: Code; fields: string[]; expected: Code }>(
     "should extract class",
     [
-      // TODO: write successful test cases here https://github.com/nicoespeon/abracadabra/issues/180
+      {
+        description: "a method",
+        code: `class [cursor]Source {
+  a(): void {}
+  b(): void {}
+}`,
+        fields: ["a"],
+        expected: `class Source {
+  private extractedClass: ExtractedClass = new ExtractedClass();
+  a(): void {
+    return this.extractedClass.a();
+  }
+  b(): void {}
+}
+
+class ExtractedClass {
+  a(): void {}
+}`
+      },
+      {
+        description: "multiple fields",
+        code: `class [cursor]Source {
+  a() {}
+
+  b() {}
+
+  c() {}
+}`,
+        fields: ["a", "c"],
+        expected: `class Source {
+  extractedClass = new ExtractedClass();
+  a() {
+    return this.extractedClass.a();
+  }
+
+  b() {}
+
+  c() {
+    return this.extractedClass.c();
+  }
+}
+
+class ExtractedClass {
+  a() {}
+
+  c() {}
+}`
+      },
+      {
+        description: "with dependencies, removing unused private ones",
+        code: `class [cursor]Source {
+  a() {
+    this.b();
+  }
+
+  private b() {
+    this.c();
+  }
+
+  private c() {}
+}`,
+        fields: ["a"],
+        expected: `class Source {
+  private extractedClass: ExtractedClass = new ExtractedClass();
+  a() {
+    return this.extractedClass.a();
+  }
+}
+
+class ExtractedClass {
+  a() {
+    this.b();
+  }
+
+  private b() {
+    this.c();
+  }
+
+  private c() {}
+}`
+      },
+      {
+        description: "with dependencies still used in source class",
+        code: `class [cursor]Source {
+  a() {
+    return this.b();
+  }
+
+  d() {
+    return this.b();
+  }
+
+  private b() {}
+}`,
+        fields: ["a"],
+        expected: `class Source {
+  private extractedClass: ExtractedClass = new ExtractedClass();
+  a() {
+    return this.extractedClass.a();
+  }
+
+  d() {
+    return this.b();
+  }
+
+  private b() {
+    return this.extractedClass.b();
+  }
+}
+
+class ExtractedClass {
+  a() {
+    return this.b();
+  }
+
+  b() {}
+}`
+      },
+      {
+        description: "a property, delegated through a getter",
+        code: `class [cursor]Source {
+  private name: string = "Jane";
+
+  greet(): string {
+    return "Hello " + this.name;
+  }
+}`,
+        fields: ["greet"],
+        expected: `class Source {
+  private extractedClass: ExtractedClass = new ExtractedClass();
+
+  greet(): string {
+    return this.extractedClass.greet();
+  }
+}
+
+class ExtractedClass {
+  private name: string = "Jane";
+
+  greet(): string {
+    return "Hello " + this.name;
+  }
+}`
+      },
+      {
+        description: "a public property",
+        code: `class [cursor]Source {
+  name: string = "Jane";
+}`,
+        fields: ["name"],
+        expected: `class Source {
+  private extractedClass: ExtractedClass = new ExtractedClass();
+
+  get name(): string {
+    return this.extractedClass.name;
+  }
+}
+
+class ExtractedClass {
+  name: string = "Jane";
+}`
+      },
+      {
+        description: "with constructor parameter properties",
+        code: `class [cursor]Person {
+  constructor(private name: string, private phone: string) {}
+
+  getPhone(prefix: string): string {
+    return prefix + this.phone;
+  }
+}`,
+        fields: ["getPhone"],
+        expected: `class Person {
+  private extractedClass: ExtractedClass;
+  constructor(private name: string, private phone: string) {
+    this.extractedClass = new ExtractedClass(phone);
+  }
+
+  getPhone(prefix: string): string {
+    return this.extractedClass.getPhone(prefix);
+  }
+}
+
+class ExtractedClass {
+  constructor(private phone: string) {}
+
+  getPhone(prefix: string): string {
+    return prefix + this.phone;
+  }
+}`
+      },
+      {
+        description: "a JavaScript class",
+        code: `class [cursor]Person {
+  constructor(name, phone) {
+    this.name = name;
+    this.phone = phone;
+  }
+
+  getPhone() {
+    return this.phone;
+  }
+
+  getName() {
+    return this.name;
+  }
+}`,
+        fields: ["getPhone"],
+        expected: `class Person {
+  constructor(name, phone) {
+    this.extractedClass = new ExtractedClass(phone);
+    this.name = name;
+  }
+
+  get phone() {
+    return this.extractedClass.phone;
+  }
+
+  getPhone() {
+    return this.extractedClass.getPhone();
+  }
+
+  getName() {
+    return this.name;
+  }
+}
+
+class ExtractedClass {
+  constructor(phone) {
+    this.phone = phone;
+  }
+
+  getPhone() {
+    return this.phone;
+  }
+}`
+      },
+      {
+        description: "a field assigned in the constructor",
+        code: `class [cursor]Person {
+  constructor(name, phone) {
+    this.name = name;
+    this.phone = phone;
+  }
+}`,
+        fields: ["phone"],
+        expected: `class Person {
+  constructor(name, phone) {
+    this.extractedClass = new ExtractedClass(phone);
+    this.name = name;
+  }
+
+  get phone() {
+    return this.extractedClass.phone;
+  }
+}
+
+class ExtractedClass {
+  constructor(phone) {
+    this.phone = phone;
+  }
+}`
+      },
+      {
+        description: "a constructor with other statements",
+        code: `class [cursor]Person {
+  constructor(name, phone) {
+    console.log("New person");
+    this.name = name;
+    this.phone = phone;
+    startTracking(this);
+  }
+
+  getPhone() {
+    return this.phone;
+  }
+}`,
+        fields: ["getPhone"],
+        expected: `class Person {
+  constructor(name, phone) {
+    this.extractedClass = new ExtractedClass(phone);
+    console.log("New person");
+    this.name = name;
+    startTracking(this);
+  }
+
+  get phone() {
+    return this.extractedClass.phone;
+  }
+
+  getPhone() {
+    return this.extractedClass.getPhone();
+  }
+}
+
+class ExtractedClass {
+  constructor(phone) {
+    this.phone = phone;
+  }
+
+  getPhone() {
+    return this.phone;
+  }
+}`
+      },
+      {
+        description: "a field that is still assigned in source class",
+        code: `class [cursor]Counter {
+  constructor(count) {
+    this.count = count;
+  }
+
+  increment() {
+    this.count++;
+  }
+
+  getCount() {
+    return this.count;
+  }
+}`,
+        fields: ["getCount"],
+        expected: `class Counter {
+  constructor(count) {
+    this.extractedClass = new ExtractedClass(count);
+  }
+
+  get count() {
+    return this.extractedClass.count;
+  }
+
+  set count(value) {
+    this.extractedClass.count = value;
+  }
+
+  increment() {
+    this.count++;
+  }
+
+  getCount() {
+    return this.extractedClass.getCount();
+  }
+}
+
+class ExtractedClass {
+  constructor(count) {
+    this.count = count;
+  }
+
+  getCount() {
+    return this.count;
+  }
+}`
+      },
+      {
+        description: "a class that extends another",
+        code: `class [cursor]Source extends Base {
+  constructor() {
+    super();
+  }
+
+  a() {}
+}`,
+        fields: ["a"],
+        expected: `class Source extends Base {
+  constructor() {
+    super();
+    this.extractedClass = new ExtractedClass();
+  }
+
+  a() {
+    return this.extractedClass.a();
+  }
+}
+
+class ExtractedClass {
+  a() {}
+}`
+      },
+      {
+        description: "an exported class",
+        code: `export class [cursor]Source {
+  a() {}
+}`,
+        fields: ["a"],
+        expected: `export class Source {
+  extractedClass = new ExtractedClass();
+  a() {
+    return this.extractedClass.a();
+  }
+}
+
+class ExtractedClass {
+  a() {}
+}`
+      }
     ],
-    async ({ code, expected }) => {
+    async ({ code, fields, expected }) => {
       const editor = new InMemoryEditor(code);
+      jest
+        .spyOn(editor, "askUserChoice")
+        .mockImplementation(pickFields([...fields]));
 
       await extractClass(editor);
 
@@ -19,6 +416,169 @@ describe("Extract Class", () => {
     }
   );
 
+  it("should name the extracted class with user input", async () => {
+    const code = `class [cursor]Person {
+  getPhone() {}
+}`;
+    const editor = new InMemoryEditor(code);
+    jest
+      .spyOn(editor, "askUserChoice")
+      .mockImplementation(pickFields(["getPhone"]));
+    jest.spyOn(editor, "askUserInput").mockResolvedValue("TelephoneNumber");
+
+    await extractClass(editor);
+
+    expect(editor.code).toBe(`class Person {
+  telephoneNumber = new TelephoneNumber();
+  getPhone() {
+    return this.telephoneNumber.getPhone();
+  }
+}
+
+class TelephoneNumber {
+  getPhone() {}
+}`);
+  });
+
+  it("should not override an existing member with the extracted class", async () => {
+    const code = `class [cursor]Person {
+  constructor(phone) {
+    this.phone = phone;
+  }
+
+  getPhone() {
+    return this.phone;
+  }
+}`;
+    const editor = new InMemoryEditor(code);
+    jest
+      .spyOn(editor, "askUserChoice")
+      .mockImplementation(pickFields(["getPhone"]));
+    jest.spyOn(editor, "askUserInput").mockResolvedValue("Phone");
+
+    await extractClass(editor);
+
+    expect(editor.code).toBe(`class Person {
+  constructor(phone) {
+    this.phone2 = new Phone(phone);
+  }
+
+  get phone() {
+    return this.phone2.phone;
+  }
+
+  getPhone() {
+    return this.phone2.getPhone();
+  }
+}
+
+class Phone {
+  constructor(phone) {
+    this.phone = phone;
+  }
+
+  getPhone() {
+    return this.phone;
+  }
+}`);
+  });
+
+  it("should list fields assigned in the constructor", async () => {
+    const code = `class [cursor]Person {
+  constructor(name) {
+    const nickname = name.slice(0, 3);
+    this.name = name;
+    this.nickname = nickname;
+  }
+
+  getName() {
+    return this.name;
+  }
+}`;
+    const editor = new InMemoryEditor(code);
+    jest.spyOn(editor, "askUserChoice").mockResolvedValue(undefined);
+
+    await extractClass(editor);
+
+    expect(editor.askUserChoice).toBeCalledWith(
+      [
+        { value: "getName", label: "+getName()" },
+        { value: "name", label: "+name" }
+      ],
+      "Select a field to extract"
+    );
+  });
+
+  it("should list instance members to extract", async () => {
+    const code = `class [cursor]Person {
+  static count = 0;
+  protected name: string;
+
+  constructor(private phone: string) {}
+
+  getPhone(prefix: string): string {
+    return prefix + this.phone;
+  }
+}`;
+    const editor = new InMemoryEditor(code);
+    jest.spyOn(editor, "askUserChoice").mockResolvedValue(undefined);
+
+    await extractClass(editor);
+
+    expect(editor.askUserChoice).toBeCalledWith(
+      [
+        { value: "name", label: "#name: string" },
+        { value: "phone", label: "-phone: string" },
+        {
+          value: "getPhone",
+          label: "+getPhone(prefix: string): string"
+        }
+      ],
+      "Select a field to extract"
+    );
+  });
+
+  it("should not extract class if user cancels", async () => {
+    const code = `class [cursor]Person {
+  getPhone() {}
+}`;
+    const editor = new InMemoryEditor(code);
+    const originalCode = editor.code;
+    jest.spyOn(editor, "askUserInput").mockResolvedValue(undefined);
+
+    await extractClass(editor);
+
+    expect(editor.code).toBe(originalCode);
+  });
+
+  testEach<{ code: Code }>(
+    "should not extract class",
+    [
+      {
+        description: "if cursor is inside class body",
+        code: `class Person {
+  [cursor]getPhone() {}
+}`
+      },
+      {
+        description: "if class has no instance member",
+        code: `class [cursor]Person {
+  static getPhone() {}
+}`
+      }
+    ],
+    async ({ code }) => {
+      const editor = new InMemoryEditor(code);
+      const originalCode = editor.code;
+      jest.spyOn(editor, "showError");
+
+      await extractClass(editor);
+
+      expect(editor.code).toBe(originalCode);
+      expect(editor.showError).toBeCalledWith(ErrorReason.CanNotExtractClass);
+    }
+  );
+
   it("should show an error message if refactoring can't be made", async () => {
     const code = `// This is a comment, can't be refactored`;
     const editor = new InMemoryEditor(code);
@@ -29,3 +589,11 @@ describe("Extract Class", () => {
     expect(editor.showError).toBeCalledWith(ErrorReason.CanNotExtractClass);
   });
 });
+
+function pickFields(fields: string[]) {
+  return async (choices: Choice<any>[]) => {
+    // Once all fields are picked, confirm the extraction.
+    const field = fields.shift() || null;
+    return choices.find(({ value }) => value === field);
+  };
+}
@@ -1,36 +1,691 @@
-import { Editor, ErrorReason } from "../../editor/editor";
+import { camelCase } from "change-case";
+
+import { Editor, ErrorReason, Choice } from "../../editor/editor";
 import { Selection } from "../../editor/selection";
 import * as t from "../../ast";
 
 export { extractClass, createVisitor };
 
-// REFACTOR: this refactoring wasn't implemented following the usual pattern. See https://github.com/nicoespeon/abracadabra/issues/180
-
 async function extractClass(editor: Editor) {
   const { code, selection } = editor;
-  const updatedCode = updateCode(t.parse(code), selection);
 
-  if (!updatedCode.hasCodeChanged) {
+  let members: InstanceMember[] = [];
+  t.parseAndTraverseCode(
+    code,
+    createVisitor(selection, (path) => {
+      members = getInstanceMembers(path.node);
+    })
+  );
+
+  if (members.length === 0) {
     editor.showError(ErrorReason.CanNotExtractClass);
     return;
   }
 
+  const fieldNames = await askFieldsToExtract(editor, members);
+  if (fieldNames.length === 0) return;
+
+  const className = await editor.askUserInput("ExtractedClass");
+  if (!className) return;
+
+  const updatedCode = updateCode(
+    t.parse(code),
+    selection,
+    fieldNames,
+    className
+  );
+
   await editor.write(updatedCode.code);
 }
 
-function updateCode(ast: t.AST, selection: Selection): t.Transformed {
+async function askFieldsToExtract(
+  editor: Editor,
+  members: InstanceMember[]
+): Promise<string[]> {
+  const fieldNames: string[] = [];
+  let remainingMembers = members;
+
+  while (remainingMembers.length > 0) {
+    const memberChoices: Choice<string | null>[] = remainingMembers.map(
+      (member) => ({
+        value: member.name,
+        label: toUmlNotation(member)
+      })
+    );
+    const choices: Choice<string | null>[] =
+      fieldNames.length === 0
+        ? memberChoices
+        : [
+            {
+              value: null,
+              label: "Extract selected fields",
+              description: fieldNames.join(", ")
+            },
+            ...memberChoices
+          ];
+
+    const choice = await editor.askUserChoice(
+      choices,
+      fieldNames.length === 0
+        ? "Select a field to extract"
+        : "Select another field to extract"
+    );
+    // User cancelled, abort the whole refactoring.
+    if (!choice) return [];
+
+    const fieldName = choice.value;
+    if (fieldName === null) break;
+
+    fieldNames.push(fieldName);
+    remainingMembers = remainingMembers.filter(
+      ({ name }) => name !== fieldName
+    );
+  }
+
+  return fieldNames;
+}
+
+function updateCode(
+  ast: t.AST,
+  selection: Selection,
+  fieldNames: string[],
+  className: string
+): t.Transformed {
   return t.transformAST(
     ast,
-    createVisitor(selection, (_path) => {
-      // TODO: implement the transformation here 🧙 https://github.com/nicoespeon/abracadabra/issues/180‍
+    createVisitor(selection, (path, statementPath) => {
+      const sourceClass = path.node;
+      const extractedNames = getExtractedNames(sourceClass, fieldNames);
+      const extractedClass = createExtractedClass(
+        sourceClass,
+        className,
+        extractedNames
+      );
+
+      delegateToExtractedClass(sourceClass, extractedClass, extractedNames);
+      removeUnusedPrivateMembers(sourceClass, extractedNames);
+
+      // Extracted members that are still used by the source class must be public.
+      const sourceNames = getInstanceMembers(sourceClass).map(
+        ({ name }) => name
+      );
+      getInstanceMembers(extractedClass)
+        .filter(
+          ({ name }) => fieldNames.includes(name) || sourceNames.includes(name)
+        )
+        .forEach(({ node }) => {
+          if (t.isTSParameterProperty(node)) return;
+          if (t.isExpressionStatement(node)) return;
+          node.accessibility = null;
+        });
+
+      statementPath.insertAfter(extractedClass);
     })
   );
 }
 
 function createVisitor(
-  _selection: Selection,
-  _onMatch: (path: t.NodePath) => void
+  selection: Selection,
+  onMatch: (
+    path: t.NodePath<t.ClassDeclaration>,
+    statementPath: t.NodePath
+  ) => void
 ): t.Visitor {
-  // TODO: implement the check here 🧙 https://github.com/nicoespeon/abracadabra/issues/180‍
-  return {};
+  return {
+    ClassDeclaration(path) {
+      // Exported declarations have no LOC, the export statement does.
+      const statementPath = path.parentPath.isExportDeclaration()
+        ? path.parentPath
+        : path;
+      if (!selection.isInsidePath(statementPath)) return;
+
+      // Only match the class declaration, not its body.
+      const { body } = path.node;
+      if (!t.isSelectableNode(body)) return;
+      if (selection.end.isAfter(Selection.fromAST(body.loc).start)) return;
+
+      if (getInstanceMembers(path.node).length === 0) return;
+
+      onMatch(path, statementPath);
+    }
+  };
+}
+
+function getExtractedNames(
+  sourceClass: t.Class,
+  fieldNames: string[]
+): string[] {
+  const members = getInstanceMembers(sourceClass);
+  const extractedNames = new Set<string>();
+
+  // Fields we extract come with the members they depend on.
+  const addWithDependencies = (name: string) => {
+    const member = members.find((member) => member.name === name);
+    if (!member || extractedNames.has(name)) return;
+
+    extractedNames.add(name);
+    getDependencyNames(member.node).forEach(addWithDependencies);
+  };
+  fieldNames.forEach(addWithDependencies);
+
+  return Array.from(extractedNames);
+}
+
+function createExtractedClass(
+  sourceClass: t.Class,
+  className: string,
+  extractedNames: string[]
+): t.ClassDeclaration {
+  const members = sourceClass.body.body
+    .filter((member: ClassMember) => {
+      if (isConstructor(member)) return true;
+
+      const instanceMember = toInstanceMember(member);
+      return instanceMember && extractedNames.includes(instanceMember.name);
+    })
+    .map((member: ClassMember) => t.cloneDeep(member));
+
+  const extractedClass = t.classDeclaration(
+    t.identifier(className),
+    null,
+    t.classBody(members),
+    []
+  );
+
+  const constructor = getConstructor(extractedClass);
+  if (constructor) {
+    // Other statements, like side effects, stay in the source class.
+    constructor.body.body = getFieldAssignments(constructor)
+      .filter(({ name }) => extractedNames.includes(name))
+      .map(({ node }) => node);
+
+    const usedNames = constructor.body.body.flatMap(getReferencedNames);
+    constructor.params = constructor.params.flatMap<ClassMethodParam>(
+      (param) => {
+        if (!t.isTSParameterProperty(param)) {
+          const name = getParameterName(param);
+          return name !== null && usedNames.includes(name) ? [param] : [];
+        }
+
+        const name = getParameterName(param.parameter);
+        if (name === null) return [];
+        if (extractedNames.includes(name)) return [param];
+
+        // Source class keeps the property, but we still need the value.
+        return usedNames.includes(name) ? [param.parameter] : [];
+      }
+    );
+
+    if (constructor.params.length === 0 && constructor.body.body.length === 0) {
+      extractedClass.body.body = extractedClass.body.body.filter(
+        (member: ClassMember) => member !== constructor
+      );
+    }
+  }
+
+  return extractedClass;
+}
+
+function delegateToExtractedClass(
+  sourceClass: t.Class,
+  extractedClass: t.ClassDeclaration,
+  extractedNames: string[]
+) {
+  const className = extractedClass.id.name;
+  const propertyName = getPropertyName(sourceClass, className);
+  const extractedProperty = t.memberExpression(
+    t.thisExpression(),
+    t.identifier(propertyName)
+  );
+
+  // Assignments of extracted fields are moved to the extracted class.
+  const sourceConstructor = getConstructor(sourceClass);
+  const movedFields = sourceConstructor
+    ? getFieldAssignments(sourceConstructor).filter(({ name }) =>
+        extractedNames.includes(name)
+      )
+    : [];
+  if (sourceConstructor) {
+    const movedNodes = movedFields.map(({ node }) => node);
+    sourceConstructor.body.body = sourceConstructor.body.body.filter(
+      (statement) => !movedNodes.includes(statement as FieldAssignment)
+    );
+  }
+
+  const assignedNames = getAssignedFieldNames(sourceClass);
+  const declaredNames = getInstanceMembers(sourceClass).map(({ name }) => name);
+  sourceClass.body.body = sourceClass.body.body.flatMap(
+    (member: ClassMember) => {
+      const undeclaredFields = isConstructor(member)
+        ? movedFields.filter(({ name }) => !declaredNames.includes(name))
+        : [];
+      const delegatedFields = undeclaredFields.flatMap(({ name }) =>
+        delegateProperty(name, extractedProperty, assignedNames.includes(name))
+      );
+
+      const instanceMember = toInstanceMember(member);
+      if (!instanceMember) return [member, ...delegatedFields];
+      if (!extractedNames.includes(instanceMember.name)) return [member];
+
+      return delegate(
+        instanceMember,
+        extractedProperty,
+        assignedNames.includes(instanceMember.name)
+      );
+    }
+  );
+
+  // Instantiate the extracted class with the same arguments.
+  const extractedConstructor = getConstructor(extractedClass);
+  const args = extractedConstructor
+    ? extractedConstructor.params.flatMap<t.Expression | t.SpreadElement>(
+        (param) => {
+          const name = getParameterName(
+            t.isTSParameterProperty(param) ? param.parameter : param
+          );
+          if (name === null) return [];
+
+          return t.isRestElement(param)
+            ? [t.spreadElement(t.identifier(name))]
+            : [t.identifier(name)];
+        }
+      )
+    : [];
+  const instantiation = t.newExpression(t.identifier(className), args);
+  const isTypeScript = usesTypeScript(sourceClass);
+  const typeAnnotation = isTypeScript
+    ? t.tsTypeAnnotation(t.tsTypeReference(t.identifier(className)))
+    : null;
+
+  if (sourceConstructor) {
+    // Arguments are only available in the constructor.
+    // Statements that follow may use the extracted fields.
+    const { body } = sourceConstructor.body;
+    const superCallIndex = body.findIndex(isSuperCall);
+    body.splice(
+      superCallIndex + 1,
+      0,
+      t.expressionStatement(
+        t.assignmentExpression("=", extractedProperty, instantiation)
+      )
+    );
+
+    if (!isTypeScript) return;
+
+    const property = t.classProperty(
+      t.identifier(propertyName),
+      null,
+      typeAnnotation
+    );
+    property.accessibility = "private";
+    sourceClass.body.body.unshift(property);
+    return;
+  }
+
+  const property = t.classProperty(
+    t.identifier(propertyName),
+    instantiation,
+    typeAnnotation
+  );
+  if (isTypeScript) property.accessibility = "private";
+  sourceClass.body.body.unshift(property);
+}
+
+function getPropertyName(sourceClass: t.Class, className: string): string {
+  const usedNames = [
+    ...getInstanceMembers(sourceClass).map(({ name }) => name),
+    ...getDependencyNames(sourceClass)
+  ];
+
+  // E.g. a `Phone` class extracted from a class that has a `phone` field.
+  const name = camelCase(className);
+  let result = name;
+  let index = 2;
+  while (usedNames.includes(result)) {
+    result = `${name}${index}`;
+    index++;
+  }
+
+  return result;
+}
+
+function delegate(
+  { name, node }: InstanceMember,
+  extractedProperty: t.MemberExpression,
+  isAssigned: boolean
+): ClassMember[] {
+  const delegatedMember = t.memberExpression(
+    extractedProperty,
+    t.identifier(name)
+  );
+
+  if (t.isClassProperty(node)) {
+    const accessors = delegateProperty(name, extractedProperty, isAssigned);
+    accessors.forEach((accessor) => {
+      accessor.key = node.key;
+      accessor.accessibility = node.accessibility;
+    });
+    accessors[0].returnType = node.typeAnnotation;
+    if (accessors.length > 1) {
+      const [value] = accessors[1].params;
+      if (t.isIdentifier(value)) value.typeAnnotation = node.typeAnnotation;
+    }
+    return accessors;
+  }
+
+  if (t.isClassMethod(node)) {
+    if (node.kind === "get") {
+      node.body = t.blockStatement([t.returnStatement(delegatedMember)]);
+    } else if (node.kind === "set") {
+      const value = getParameterName(node.params[0]);
+      if (value === null) return [node];
+
+      node.body = t.blockStatement([
+        t.expressionStatement(
+          t.assignmentExpression("=", delegatedMember, t.identifier(value))
+        )
+      ]);
+    } else {
+      const args = node.params.map((param) => {
+        const paramName = getParameterName(
+          t.isRestElement(param) ? param.argument : param
+        );
+        const arg = t.identifier(paramName || "undefined");
+        return t.isRestElement(param) ? t.spreadElement(arg) : arg;
+      });
+
+      node.body = t.blockStatement([
+        t.returnStatement(t.callExpression(delegatedMember, args))
+      ]);
+    }
+  }
+
+  return t.isClassMethod(node) ? [node] : [];
+}
+
+function delegateProperty(
+  name: string,
+  extractedProperty: t.MemberExpression,
+  isAssigned: boolean
+): t.ClassMethod[] {
+  const delegatedMember = t.memberExpression(
+    extractedProperty,
+    t.identifier(name)
+  );
+
+  const getter = t.classMethod(
+    "get",
+    t.identifier(name),
+    [],
+    t.blockStatement([t.returnStatement(delegatedMember)])
+  );
+  if (!isAssigned) return [getter];
+
+  // Source class still assigns it, a getter alone would throw.
+  const setter = t.classMethod(
+    "set",
+    t.identifier(name),
+    [t.identifier("value")],
+    t.blockStatement([
+      t.expressionStatement(
+        t.assignmentExpression("=", delegatedMember, t.identifier("value"))
+      )
+    ])
+  );
+  return [getter, setter];
+}
+
+function removeUnusedPrivateMembers(
+  sourceClass: t.Class,
+  extractedNames: string[]
+) {
+  const members = getInstanceMembers(sourceClass);
+  const usedNames = sourceClass.body.body.flatMap((member: ClassMember) => {
+    const instanceMember = toInstanceMember(member);
+    return getDependencyNames(member).filter(
+      (name) => !instanceMember || name !== instanceMember.name
+    );
+  });
+
+  const unusedMembers = members.filter(
+    (member) =>
+      !t.isTSParameterProperty(member.node) &&
+      getAccessibility(member) === "private" &&
+      extractedNames.includes(member.name) &&
+      !usedNames.includes(member.name)
+  );
+  if (unusedMembers.length === 0) return;
+
+  const unusedNodes = unusedMembers.map(({ node }) => node);
+  sourceClass.body.body = sourceClass.body.body.filter(
+    (member: ClassMember) =>
+      !unusedNodes.includes(member as InstanceMember["node"])
+  );
+
+  // Removed members may have been the only ones using other members.
+  removeUnusedPrivateMembers(sourceClass, extractedNames);
+}
+
+type ClassMember = t.ClassBody["body"][number];
+
+type ClassMethodParam = t.ClassMethod["params"][number];
+
+type InstanceMember = {
+  name: string;
+  node:
+    | t.ClassMethod
+    | t.ClassProperty
+    | t.TSParameterProperty
+    | FieldAssignment;
+};
+
+// E.g. `this.phone = phone;` in the constructor
+type FieldAssignment = t.ExpressionStatement & {
+  expression: t.AssignmentExpression;
+};
+
+function getInstanceMembers(classNode: t.Class): InstanceMember[] {
+  const members: InstanceMember[] = classNode.body.body
+    .flatMap((member: ClassMember) =>
+      // Parameter properties are declared in the constructor.
+      isConstructor(member) && t.isClassMethod(member)
+        ? member.params.map(toInstanceMember)
+        : [toInstanceMember(member)]
+    )
+    .filter(
+      (member: InstanceMember | null): member is InstanceMember =>
+        member !== null
+    );
+
+  // In JavaScript, fields are usually only assigned in the constructor.
+  const constructor = getConstructor(classNode);
+  const declaredNames = members.map(({ name }) => name);
+  const assignedFields = constructor
+    ? getFieldAssignments(constructor).filter(
+        ({ name }) => !declaredNames.includes(name)
+      )
+    : [];
+
+  return [...members, ...assignedFields];
+}
+
+function getFieldAssignments(
+  constructor: t.ClassMethod
+): { name: string; node: FieldAssignment }[] {
+  const { body } = constructor.body;
+  const localNames = body
+    .filter((statement) => t.isDeclaration(statement))
+    .flatMap((statement) => Object.keys(t.getBindingIdentifiers(statement)));
+  const assignedNames = getAssignedFieldNames(constructor);
+
+  return body
+    .filter(
+      (statement): statement is FieldAssignment =>
+        t.isExpressionStatement(statement) &&
+        t.isAssignmentExpression(statement.expression, { operator: "=" })
+    )
+    .flatMap((node) => {
+      const name = getAssignedFieldName(node.expression.left);
+      return name === null ? [] : [{ name, node }];
+    })
+    .filter(
+      ({ name, node }) =>
+        // We can't move a field that is assigned many times,
+        // or that depends on local variables of the constructor.
+        assignedNames.filter((assigned) => assigned === name).length === 1 &&
+        getReferencedNames(node.expression.right).every(
+          (referenced) => !localNames.includes(referenced)
+        )
+    );
+}
+
+function getAssignedFieldNames(node: t.Node): string[] {
+  const names: string[] = [];
+
+  t.traverseFast(node, (child) => {
+    const target = t.isAssignmentExpression(child)
+      ? child.left
+      : t.isUpdateExpression(child)
+      ? child.argument
+      : null;
+    if (!target) return;
+
+    const name = getAssignedFieldName(target);
+    if (name !== null) names.push(name);
+  });
+
+  return names;
+}
+
+function getAssignedFieldName(node: t.Node): string | null {
+  if (!t.isMemberExpression(node)) return null;
+  if (!t.isThisExpression(node.object)) return null;
+  if (node.computed || !t.isIdentifier(node.property)) return null;
+
+  return node.property.name;
+}
+
+function getReferencedNames(node: t.Node): string[] {
+  const names: string[] = [];
+
+  t.traverse(node, (child, ancestors) => {
+    if (!t.isIdentifier(child)) return;
+
+    const [parent, grandparent] = ancestors.slice(-2).reverse();
+    if (parent && !t.isReferenced(child, parent.node, grandparent?.node)) {
+      return;
+    }
+
+    names.push(child.name);
+  });
+
+  return names;
+}
+
+function toInstanceMember(node: t.Node): InstanceMember | null {
+  if (t.isTSParameterProperty(node)) {
+    const name = getParameterName(node.parameter);
+    return name === null ? null : { name, node };
+  }
+
+  if (!t.isClassMethod(node) && !t.isClassProperty(node)) return null;
+  if (isConstructor(node) || node.static || node.computed) return null;
+  if (!t.isIdentifier(node.key)) return null;
+
+  return { name: node.key.name, node };
+}
+
+function getConstructor(classNode: t.Class): t.ClassMethod | undefined {
+  return classNode.body.body.find(
+    (member: ClassMember): member is t.ClassMethod => isConstructor(member)
+  );
+}
+
+function isConstructor(node: t.Node): boolean {
+  return t.isClassMethod(node) && node.kind === "constructor";
+}
+
+function isSuperCall(statement: t.Statement): boolean {
+  return (
+    t.isExpressionStatement(statement) &&
+    t.isCallExpression(statement.expression) &&
+    t.isSuper(statement.expression.callee)
+  );
+}
+
+function getAccessibility({
+  node
+}: InstanceMember): t.ClassMethod["accessibility"] {
+  return t.isExpressionStatement(node) ? null : node.accessibility;
+}
+
+function getParameterName(param: t.Node): string | null {
+  const id = t.isAssignmentPattern(param)
+    ? param.left
+    : t.isRestElement(param)
+    ? param.argument
+    : param;
+  return t.isIdentifier(id) ? id.name : null;
+}
+
+function getDependencyNames(node: t.Node): string[] {
+  const names: string[] = [];
+
+  t.traverseFast(node, (child) => {
+    if (!t.isMemberExpression(child)) return;
+    if (!t.isThisExpression(child.object)) return;
+    if (child.computed || !t.isIdentifier(child.property)) return;
+
+    names.push(child.property.name);
+  });
+
+  return names;
+}
+
+function usesTypeScript(classNode: t.Class): boolean {
+  let result = getInstanceMembers(classNode).some(
+    (member) => !!getAccessibility(member)
+  );
+
+  t.traverseFast(classNode, (child) => {
+    if (child.type.startsWith("TS")) result = true;
+  });
+
+  return result;
+}
+
+function toUmlNotation(member: InstanceMember): string {
+  const { name, node } = member;
+  const accessibility = getAccessibility(member);
+  const scope =
+    accessibility === "private"
+      ? "-"
+      : accessibility === "protected"
+      ? "#"
+      : "+";
+
+  if (t.isExpressionStatement(node)) return `${scope}${name}`;
+
+  if (t.isClassMethod(node)) {
+    const params = node.params.map((param) => t.print(param)).join(", ");
+    return `${scope}${name}(${params})${toTypeNotation(node.returnType)}`;
+  }
+
+  const typeAnnotation = t.isTSParameterProperty(node)
+    ? getTypeAnnotation(node.parameter)
+    : node.typeAnnotation;
+  return `${scope}${name}${toTypeNotation(typeAnnotation)}`;
+}
+
+function getTypeAnnotation(param: t.Node): t.Node | null | undefined {
+  const id = t.isAssignmentPattern(param) ? param.left : param;
+  return t.isIdentifier(id) ? id.typeAnnotation : null;
+}
+
+function toTypeNotation(annotation: t.Node | null | undefined): string {
+  if (!t.isTSTypeAnnotation(annotation) && !t.isTypeAnnotation(annotation)) {
+    return "";
+  }
+
+  return `: ${t.print(annotation.typeAnnotation)}`;
 }
@@ -1,10 +1,10 @@
 import { extractClass, createVisitor } from "./extract-class";
+
 import { RefactoringWithActionProvider } from "../../types";
-import { EXTRACT_CLASS_COMMAND } from "./EXTRACT_CLASS_COMMAND";
 
 const config: RefactoringWithActionProvider = {
   command: {
-    key: EXTRACT_CLASS_COMMAND,
+    key: "extractClass",
     operation: extractClass,
     title: "Extract Class"
   },
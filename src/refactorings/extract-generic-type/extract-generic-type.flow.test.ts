@@ -0,0 +1,115 @@
+import { Code } from "../../editor/editor";
+import { Position } from "../../editor/position";
+import { InMemoryEditor } from "../../editor/adapters/in-memory-editor";
+import { testEach } from "../../tests-helpers";
+
+import { extractGenericType } from "./extract-generic-type";
+
+describe("Extract Generic Type - Flow", () => {
+  testEach<{ code: Code; expected: Code }>(
+    "should extract generic type",
+    [
+      {
+        description: "from a function parameter",
+        code: `// @flow
+function doSomething(message: [cursor]string) {}`,
+        expected: `// @flow
+function doSomething<T: string>(message: T) {}`
+      },
+      {
+        description: "from a function with existing generics",
+        code: `// @flow
+function doSomething<T>(message: [cursor]string): T {}`,
+        expected: `// @flow
+function doSomething<T, U: string>(message: U): T {}`
+      },
+      {
+        description: "from a function return type",
+        code: `// @flow
+function doSomething(message: string): [cursor]boolean {}`,
+        expected: `// @flow
+function doSomething<T: boolean>(message: string): T {}`
+      },
+      {
+        description: "from an interface property",
+        code: `// @flow
+interface Position {
+  x: n[cursor]umber;
+  y: string;
+}`,
+        expected: `// @flow
+interface Position<T = number> {
+  x: T;
+  y: string;
+}`
+      },
+      {
+        description: "from an interface with existing generics",
+        code: `// @flow
+interface Position<T = number> {
+  x: T;
+  y: s[cursor]tring;
+}`,
+        expected: `// @flow
+interface Position<T = number, U = string> {
+  x: T;
+  y: U;
+}`
+      },
+      {
+        description: "from an interface method",
+        code: `// @flow
+interface Position {
+  isEqualTo(position: [cursor]Position): boolean;
+}`,
+        expected: `// @flow
+interface Position<T = Position> {
+  isEqualTo(position: T): boolean;
+}`
+      }
+    ],
+    async ({ code, expected }) => {
+      const editor = new InMemoryEditor(code);
+      jest
+        .spyOn(editor, "askUserChoice")
+        .mockImplementation(([_, selectedOccurrence]) =>
+          Promise.resolve(selectedOccurrence)
+        );
+
+      await extractGenericType(editor);
+
+      expect(editor.code).toBe(expected);
+    }
+  );
+
+  it("should replace all occurrences if user decides to", async () => {
+    const code = `// @flow
+function doSomething(message: [cursor]string, count: number): string {}`;
+    const editor = new InMemoryEditor(code);
+    jest
+      .spyOn(editor, "askUserChoice")
+      .mockImplementation(([allOccurrences]) =>
+        Promise.resolve(allOccurrences)
+      );
+
+    await extractGenericType(editor);
+
+    expect(editor.code).toBe(`// @flow
+function doSomething<T: string>(message: T, count: number): T {}`);
+  });
+
+  it("should put the cursor on extracted symbol", async () => {
+    const code = `// @flow
+function doSomething(message: [cursor]string) {}`;
+    const editor = new InMemoryEditor(code);
+
+    await extractGenericType(editor);
+
+    /**
+     * Produced code =>
+     *
+     * function doSomething<T: string>(message: T) {
+     */
+    expect(editor.position).toEqual(new Position(1, 21));
+  });
+});
@@ -1,4 +1,4 @@
-import { Editor, ErrorReason } from "../../editor/editor";
+import { Code, Editor, ErrorReason } from "../../editor/editor";
 import { Selection } from "../../editor/selection";
 import { Position } from "../../editor/position";
 import * as t from "../../ast";
@@ -75,71 +75,99 @@ function createVisitor(
   onMatch: (occurrence: Occurrence) => void,
   onVisit: (occurrence: Occurrence) => void = () => {}
 ): t.Visitor {
-  return {
-    TSTypeAnnotation(path) {
-      if (!t.isSelectablePath(path)) return;
-
-      const interfaceDeclaration = findParentInterfaceDeclaration(path);
-      const functionDeclaration = findParentFunctionDeclaration(path);
-
-      if (interfaceDeclaration) {
-        if (!interfaceDeclaration.contains(selection)) return;
-
-        onVisit(new Occurrence(path, interfaceDeclaration));
-        if (!selection.isInsidePath(path)) return;
+  const visitType = (path: TypePath) => {
+    const declaration =
+      findParentInterfaceDeclaration(path) ||
+      findParentFunctionDeclaration(path);
+    if (!declaration) return;
+    if (!declaration.contains(selection)) return;
 
-        onMatch(new SelectedOccurrence(path, interfaceDeclaration));
-      } else if (functionDeclaration) {
-        if (!functionDeclaration.contains(selection)) return;
+    onVisit(new Occurrence(path, declaration));
+    if (!selection.isInsidePath(path)) return;
 
-        onVisit(new Occurrence(path, functionDeclaration));
-        if (!selection.isInsidePath(path)) return;
+    onMatch(new SelectedOccurrence(path, declaration));
+  };
 
-        onMatch(new SelectedOccurrence(path, functionDeclaration));
-      }
+  return {
+    TSTypeAnnotation(path) {
+      if (!t.isSelectablePath(path)) return;
+      visitType(path);
+    },
+    FlowType(path) {
+      if (!t.isSelectablePath(path)) return;
+      if (!isAnnotatingFlowType(path)) return;
+      visitType(path);
     }
   };
 }
 
+/**
+ * Flow types aren't always wrapped in a type annotation (e.g. in interfaces).
+ */
+function isAnnotatingFlowType(path: t.NodePath<t.FlowType>): boolean {
+  const { parentPath, key } = path;
+
+  if (parentPath.isTypeAnnotation()) return true;
+  if (parentPath.isObjectTypeProperty()) {
+    // @ts-expect-error Babel does add this information
+    const isMethod: boolean = parentPath.node.method;
+    return key === "value" && !isMethod;
+  }
+  if (parentPath.isFunctionTypeParam()) return key === "typeAnnotation";
+  if (parentPath.isFunctionTypeAnnotation()) return key === "returnType";
+
+  return false;
+}
+
 function findParentInterfaceDeclaration(
-  path: t.SelectablePath<t.TSTypeAnnotation>
-): InterfaceDeclaration | null {
-  const declaration = path.findParent(t.isTSInterfaceDeclaration) as t.NodePath<
-    t.TSInterfaceDeclaration
-  >;
-  return declaration ? new InterfaceDeclaration(declaration) : null;
+  path: TypePath
+): InterfaceDeclaration | FlowInterfaceDeclaration | null {
+  const declaration = path.findParent(
+    ({ node }) =>
+      t.isTSInterfaceDeclaration(node) || t.isInterfaceDeclaration(node)
+  );
+  if (!declaration) return null;
+
+  return t.isTSInterfaceDeclaration(declaration.node)
+    ? new InterfaceDeclaration(
+        declaration as t.NodePath<t.TSInterfaceDeclaration>
+      )
+    : new FlowInterfaceDeclaration(
+        declaration as t.NodePath<t.InterfaceDeclaration>
+      );
 }
 
 function findParentFunctionDeclaration(
-  path: t.SelectablePath<t.TSTypeAnnotation>
+  path: TypePath
 ): FunctionDeclaration | null {
-  const declaration = path.findParent(t.isFunctionDeclaration) as t.NodePath<
-    t.FunctionDeclaration
-  >;
+  const declaration = path.findParent(
+    t.isFunctionDeclaration
+  ) as t.NodePath<t.FunctionDeclaration>;
   return declaration ? new FunctionDeclaration(declaration) : null;
 }
 
+type TypePath = t.SelectablePath<t.TSTypeAnnotation | t.FlowType>;
+
 class Occurrence {
   readonly symbolPosition?: Position;
   protected readonly typeName: string;
 
-  constructor(
-    readonly path: t.SelectablePath<t.TSTypeAnnotation>,
-    protected declaration: Declaration
-  ) {
+  constructor(readonly path: TypePath, protected declaration: Declaration) {
     this.symbolPosition = this.determineSymbolPosition();
     this.typeName = this.computeValidTypeName();
   }
 
-  get node(): t.Selectable<t.TSTypeAnnotation> {
+  get node(): t.Selectable<t.TSTypeAnnotation | t.FlowType> {
     return this.path.node;
   }
 
   transform() {
-    const typeAnnotation = t.tsTypeAnnotation(
-      t.tsTypeReference(t.identifier(this.typeName))
+    const id = t.identifier(this.typeName);
+    this.path.replaceWith(
+      t.isTSTypeAnnotation(this.path.node)
+        ? t.tsTypeAnnotation(t.tsTypeReference(id))
+        : t.genericTypeAnnotation(id)
     );
-    this.path.replaceWith(typeAnnotation);
   }
 
   private determineSymbolPosition(): Position | undefined {
@@ -192,26 +220,21 @@ class SelectedOccurrence extends Occurrence {
   }
 
   private addGenericDeclaration() {
-    const newTypeParameter = t.tsTypeParameter(
-      undefined,
-      this.path.node.typeAnnotation,
-      this.typeName
-    );
-
-    this.declaration.setTypeParameters(
-      t.tsTypeParameterDeclaration([
-        ...this.declaration.existingTypeParameters,
-        newTypeParameter
-      ])
+    const { node } = this.path;
+    this.declaration.addTypeParameter(
+      this.typeName,
+      t.isTSTypeAnnotation(node) ? node.typeAnnotation : node
     );
   }
 }
 
+type TypeParameter = t.TSTypeParameter | t.TypeParameter;
+
 interface Declaration {
-  existingTypeParameters: t.TSTypeParameter[];
+  existingTypeParameters: TypeParameter[];
   id: t.Identifier | null;
   contains(selection: Selection): boolean;
-  setTypeParameters(params: t.TSTypeParameterDeclaration): void;
+  addTypeParameter(name: string, type: t.TSType | t.FlowType): void;
 }
 
 class InterfaceDeclaration implements Declaration {
@@ -233,8 +256,42 @@ class InterfaceDeclaration implements Declaration {
     return selection.isInsidePath(this.declaration);
   }
 
-  setTypeParameters(params: t.TSTypeParameterDeclaration): void {
-    this.declaration.node.typeParameters = params;
+  addTypeParameter(name: string, type: t.TSType | t.FlowType): void {
+    if (!t.isTSType(type)) return;
+
+    this.declaration.node.typeParameters = t.tsTypeParameterDeclaration([
+      ...this.existingTypeParameters,
+      t.tsTypeParameter(undefined, type, name)
+    ]);
+  }
+}
+
+class FlowInterfaceDeclaration implements Declaration {
+  constructor(
+    private readonly declaration: t.NodePath<t.InterfaceDeclaration>
+  ) {}
+
+  get existingTypeParameters(): t.TypeParameter[] {
+    const NO_PARAMS: t.TypeParameter[] = [];
+    const { typeParameters } = this.declaration.node;
+    return (typeParameters && typeParameters.params) || NO_PARAMS;
+  }
+
+  get id(): t.Identifier | null {
+    return this.declaration.node.id;
+  }
+
+  contains(selection: Selection): boolean {
+    return selection.isInsidePath(this.declaration);
+  }
+
+  addTypeParameter(name: string, type: t.TSType | t.FlowType): void {
+    if (!t.isFlowType(type)) return;
+
+    this.declaration.node.typeParameters = t.typeParameterDeclaration([
+      ...this.existingTypeParameters,
+      createFlowTypeParameter(`${name} = ${t.print(type)}`)
+    ]);
   }
 }
 
@@ -243,11 +300,12 @@ class FunctionDeclaration implements Declaration {
     private readonly declaration: t.NodePath<t.FunctionDeclaration>
   ) {}
 
-  get existingTypeParameters(): t.TSTypeParameter[] {
-    const NO_PARAMS: t.TSTypeParameter[] = [];
+  get existingTypeParameters(): TypeParameter[] {
+    const NO_PARAMS: TypeParameter[] = [];
     const { typeParameters } = this.declaration.node;
     return (
-      (t.isTSTypeParameterDeclaration(typeParameters) &&
+      ((t.isTSTypeParameterDeclaration(typeParameters) ||
+        t.isTypeParameterDeclaration(typeParameters)) &&
         typeParameters.params) ||
       NO_PARAMS
     );
@@ -261,7 +319,40 @@ class FunctionDeclaration implements Declaration {
     return selection.isInsidePath(this.declaration);
   }
 
-  setTypeParameters(params: t.TSTypeParameterDeclaration): void {
-    this.declaration.node.typeParameters = params;
+  addTypeParameter(name: string, type: t.TSType | t.FlowType): void {
+    const { node } = this.declaration;
+    const { typeParameters } = node;
+
+    if (t.isTSType(type)) {
+      node.typeParameters = t.tsTypeParameterDeclaration([
+        ...(t.isTSTypeParameterDeclaration(typeParameters)
+          ? typeParameters.params
+          : []),
+        t.tsTypeParameter(undefined, type, name)
+      ]);
+    } else {
+      // Flow doesn't allow defaults on functions, we bound the type instead.
+      node.typeParameters = t.typeParameterDeclaration([
+        ...(t.isTypeParameterDeclaration(typeParameters)
+          ? typeParameters.params
+          : []),
+        createFlowTypeParameter(`${name}: ${t.print(type)}`)
+      ]);
+    }
   }
 }
+
+/**
+ * Recast prints Flow defaults without spaces (`T=number`).
+ * We parse the type parameter so it's printed as we wrote it.
+ */
+function createFlowTypeParameter(code: Code): t.TypeParameter {
+  const ast = t.parse(`type Parsed<${code}> = any;`, "flow");
+  const [typeAlias] = ast.program.body;
+  const typeParameters = t.isTypeAlias(typeAlias)
+    ? typeAlias.typeParameters
+    : null;
+  if (!typeParameters) throw new Error(`Can't parse type parameter ${code}`);
+
+  return typeParameters.params[0];
+}
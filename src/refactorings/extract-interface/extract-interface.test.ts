@@ -1,4 +1,5 @@
 import { ErrorReason, Code } from "../../editor/editor";
+import * as t from "../../ast";
 import { Position } from "../../editor/position";
 import { InMemoryEditor } from "../../editor/adapters/in-memory-editor";
 import { testEach } from "../../tests-helpers";
@@ -66,6 +67,19 @@ interface Extracted {
 
 interface Extracted {
   isEqualTo(position?: Position): boolean;
+}`
+      },
+      {
+        description: "method with default, rest and destructured params",
+        code: `class Position {
+  moveTo({ x, y }: Point, speed = 1, unit: Unit = "px", ...steps: Step[]) {}
+}`,
+        expected: `class Position implements Extracted {
+  moveTo({ x, y }: Point, speed = 1, unit: Unit = "px", ...steps: Step[]) {}
+}
+
+interface Extracted {
+  moveTo(param1: Point, speed?: number, unit?: Unit, ...steps: Step[]);
 }`
       },
       {
@@ -228,4 +242,124 @@ interface Extracted {
 
     expect(editor.moveCursorTo).toBeCalledWith(new Position(10, 10));
   });
+
+  describe("Flow", () => {
+    testEach<{ code: Code; expected: Code }>(
+      "should extract interface",
+      [
+        {
+          description: "class with public method",
+          code: `// @flow
+[cursor]class Position {
+  isEqualTo(position: Position): boolean {
+    return true;
+  }
+}`,
+          expected: `// @flow
+class Position implements Extracted {
+  isEqualTo(position: Position): boolean {
+    return true;
+  }
+}
+
+interface Extracted {
+  isEqualTo(position: Position): boolean;
+}`
+        },
+        {
+          description: "class with properties",
+          code: `// @flow
+[cursor]class Position {
+  +name: string;
+  isValid = true;
+  #x: number;
+  static origin: Position;
+
+  move<T>(x: T, y?: number, z) {}
+}`,
+          expected: `// @flow
+class Position implements Extracted {
+  +name: string;
+  isValid = true;
+  #x: number;
+  static origin: Position;
+
+  move<T>(x: T, y?: number, z) {}
+}
+
+interface Extracted {
+  +name: string;
+  isValid: boolean;
+  move<T>(x: T, y?: number, z: any): any;
+}`
+        },
+        {
+          description: "method with default, rest and destructured params",
+          code: `// @flow
+[cursor]class Position {
+  moveTo({ x, y }: Point, speed = 1, unit: Unit = "px", ...steps: Step[]) {}
+}`,
+          expected: `// @flow
+class Position implements Extracted {
+  moveTo({ x, y }: Point, speed = 1, unit: Unit = "px", ...steps: Step[]) {}
+}
+
+interface Extracted {
+  moveTo(param1: Point, speed?: number, unit?: Unit, ...steps: Step[]): any;
+}`
+        },
+        {
+          description: "class indented with 4 spaces",
+          code: `// @flow
+[cursor]class Position {
+    isEqualTo(position: Position): boolean {
+        return true;
+    }
+}`,
+          expected: `// @flow
+class Position implements Extracted {
+    isEqualTo(position: Position): boolean {
+        return true;
+    }
+}
+
+interface Extracted {
+    isEqualTo(position: Position): boolean;
+}`
+        }
+      ],
+      async ({ code, expected }) => {
+        const editor = new InMemoryEditor(code);
+
+        await extractInterface(editor);
+
+        expect(editor.code).toBe(expected);
+      }
+    );
+  });
+
+  describe("JavaScript", () => {
+    afterEach(() => t.parseCache.close());
+
+    it("should not extract interface", async () => {
+      const code = `class Position {
+  isEqualTo(position) {
+    return true;
+  }
+}`;
+      const editor = new InMemoryEditor(code);
+      t.parseCache.open(
+        { uri: "position.js", version: 1, syntax: "javascript" },
+        editor.code
+      );
+      jest.spyOn(editor, "showError");
+
+      await extractInterface(editor);
+
+      expect(editor.code).toBe(code);
+      expect(editor.showError).toBeCalledWith(
+        ErrorReason.DidNotFindClassToExtractInterface
+      );
+    });
+  });
 });
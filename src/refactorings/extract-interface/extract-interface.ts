@@ -56,13 +56,27 @@ function createVisitor(
   onMatch: (
     path: t.NodePath<t.ClassDeclaration>,
     id: t.Identifier,
-    declaration: t.TSInterfaceDeclaration
+    declaration: t.TSInterfaceDeclaration | t.InterfaceDeclaration
   ) => void
 ): t.Visitor {
   return {
     ClassDeclaration(path) {
       if (!selection.isInsidePath(path)) return;
 
+      const syntax = t.getSyntax(path);
+      // JavaScript can't have interfaces.
+      if (syntax === "javascript") return;
+
+      const interfaceIdentifier = t.identifier("Extracted");
+      if (syntax === "flow") {
+        onMatch(
+          path,
+          interfaceIdentifier,
+          createFlowInterface(path.node, interfaceIdentifier)
+        );
+        return;
+      }
+
       const methods: t.ClassMethod[] = path.node.body.body.filter(
         (method: any): method is t.ClassMethod => t.isClassMethod(method)
       );
@@ -74,9 +88,7 @@ function createVisitor(
           return t.tsMethodSignature(
             method.key,
             null,
-            method.params.filter((param): param is t.Identifier =>
-              t.isIdentifier(param)
-            ),
+            getParameters(method).map(toTSParameter),
             t.isTSTypeAnnotation(method.returnType) ? method.returnType : null
           );
         });
@@ -133,7 +145,6 @@ function createVisitor(
           return result;
         });
 
-      const interfaceIdentifier = t.identifier("Extracted");
       const interfaceDeclaration = t.tsInterfaceDeclaration(
         interfaceIdentifier,
         undefined,
@@ -150,6 +161,160 @@ function createVisitor(
   };
 }
 
+/**
+ * Recast can't print methods of Flow interfaces it didn't parse.
+ * So we write the interface, then parse it.
+ */
+function createFlowInterface(
+  classDeclaration: t.ClassDeclaration,
+  id: t.Identifier
+): t.InterfaceDeclaration {
+  const members: ClassMember[] = classDeclaration.body.body;
+  const isInstanceMember = (member: t.ClassProperty | t.ClassMethod) =>
+    !member.static && !member.computed;
+
+  const properties = members
+    .filter((member): member is t.ClassProperty => t.isClassProperty(member))
+    .filter(isInstanceMember)
+    .map((property) => {
+      // @ts-expect-error Babel does add this information
+      const variance: t.Variance | null = property.variance;
+      const type = t.isTypeAnnotation(property.typeAnnotation)
+        ? t.print(property.typeAnnotation.typeAnnotation)
+        : toFlowType(property.value);
+
+      return `${variance ? t.print(variance) : ""}${t.print(
+        property.key
+      )}: ${type}`;
+    });
+
+  const methods = members
+    .filter((member): member is t.ClassMethod => t.isClassMethod(member))
+    .filter(isInstanceMember)
+    .filter((method) => method.kind === "method")
+    .map((method) => {
+      const typeParameters = method.typeParameters
+        ? t.print(method.typeParameters)
+        : "";
+      const params = getParameters(method).map(
+        ({ name, typeAnnotation, defaultValue, isOptional, isRest }) => {
+          const rest = isRest ? "..." : "";
+          const optional = isOptional ? "?" : "";
+          const type =
+            !t.isTypeAnnotation(typeAnnotation) && defaultValue
+              ? toFlowType(defaultValue)
+              : printFlowType(typeAnnotation);
+
+          return `${rest}${name}${optional}: ${type}`;
+        }
+      );
+
+      return `${t.print(method.key)}${typeParameters}(${params.join(
+        ", "
+      )}): ${printFlowType(method.returnType)}`;
+    });
+
+  const [firstMember] = members;
+  const indentation = " ".repeat(
+    firstMember && firstMember.loc ? firstMember.loc.start.column : 2
+  );
+  const body = [...properties, ...methods]
+    .map((member) => `${indentation}${member};\n`)
+    .join("");
+  const ast = t.parse(
+    `interface ${id.name} {${body ? `\n${body}` : ""}}`,
+    "flow"
+  );
+
+  const declaration = ast.program.body[0] as t.InterfaceDeclaration;
+  // Recast would print it where it was in the parsed code.
+  declaration.loc = null;
+
+  return declaration;
+}
+
+type ClassMember = t.ClassBody["body"][number];
+
+type Parameter = {
+  name: string;
+  typeAnnotation: t.Identifier["typeAnnotation"];
+  defaultValue: t.Expression | null;
+  isOptional: boolean;
+  isRest: boolean;
+};
+
+/**
+ * Signatures can't have default values, nor destructured params.
+ * Default values make params optional. Destructured params get a name.
+ */
+function getParameters(method: t.ClassMethod): Parameter[] {
+  return method.params.reduce<Parameter[]>((memo, param, index) => {
+    if (t.isTSParameterProperty(param)) return memo;
+
+    const binding = t.isAssignmentPattern(param)
+      ? param.left
+      : t.isRestElement(param)
+      ? param.argument
+      : param;
+    if (t.isMemberExpression(binding) || t.isTSParameterProperty(binding)) {
+      return memo;
+    }
+
+    return memo.concat({
+      name: t.isIdentifier(binding) ? binding.name : `param${index + 1}`,
+      typeAnnotation: t.isRestElement(param)
+        ? param.typeAnnotation
+        : binding.typeAnnotation,
+      defaultValue: t.isAssignmentPattern(param) ? param.right : null,
+      isOptional:
+        t.isAssignmentPattern(param) ||
+        (t.isIdentifier(param) && Boolean(param.optional)),
+      isRest: t.isRestElement(param)
+    });
+  }, []);
+}
+
+function toTSParameter({
+  name,
+  typeAnnotation,
+  defaultValue,
+  isOptional,
+  isRest
+}: Parameter): t.Identifier | t.RestElement {
+  const id = t.identifier(name);
+  const tsTypeAnnotation = t.isTSTypeAnnotation(typeAnnotation)
+    ? typeAnnotation
+    : defaultValue
+    ? toTSType(defaultValue)
+    : null;
+
+  if (isRest) {
+    const rest = t.restElement(id);
+    rest.typeAnnotation = tsTypeAnnotation;
+    return rest;
+  }
+
+  id.optional = isOptional;
+  id.typeAnnotation = tsTypeAnnotation;
+  return id;
+}
+
+function printFlowType(
+  typeAnnotation: t.Identifier["typeAnnotation"] | t.ClassMethod["returnType"]
+): string {
+  return t.isTypeAnnotation(typeAnnotation)
+    ? t.print(typeAnnotation.typeAnnotation)
+    : "any";
+}
+
+function toFlowType(value: t.ClassProperty["value"]): string {
+  if (t.isNumericLiteral(value)) return "number";
+  if (t.isStringLiteral(value)) return "string";
+  if (t.isBooleanLiteral(value)) return "boolean";
+
+  return "any";
+}
+
 function isPublic(
   node: t.TSParameterProperty | t.ClassProperty | t.ClassMethod
 ): boolean {
@@ -0,0 +1,257 @@
+import { Code, ErrorReason } from "../../../editor/editor";
+import { InMemoryEditor } from "../../../editor/adapters/in-memory-editor";
+import { VueComponentEditor, VueScript } from "../../../editor/vue";
+import { testEach } from "../../../tests-helpers";
+
+import { extractFromVueTemplate } from "./extract-from-vue-template";
+
+describe("Extract from Vue Template", () => {
+  testEach<{
+    code: Code;
+    script: Code;
+    expected: { code: Code; script: Code };
+  }>(
+    "should extract into a computed property of the component",
+    [
+      {
+        description: "selected expression",
+        code: `[start]items.length > 0[end] && !isLoading`,
+        script: `
+export default {
+  data: () => ({ items: [], isLoading: false })
+};
+`,
+        expected: {
+          code: `extracted && !isLoading`,
+          script: `
+export default {
+  data: () => ({ items: [], isLoading: false }),
+
+  computed: {
+    extracted() {
+      return this.items.length > 0;
+    }
+  }
+};
+`
+        }
+      },
+      {
+        description: "expression at cursor",
+        code: `user.firstName + " " + user.[cursor]lastName`,
+        script: `
+export default {
+  props: ["user"]
+};
+`,
+        expected: {
+          code: `user.firstName + " " + extracted`,
+          script: `
+export default {
+  props: ["user"],
+
+  computed: {
+    extracted() {
+      return this.user.lastName;
+    }
+  }
+};
+`
+        }
+      },
+      {
+        description: "existing computed properties",
+        code: `[start]fullName.toUpperCase()[end]`,
+        script: `
+export default defineComponent({
+  computed: {
+    fullName() {
+      return "Jane Doe";
+    }
+  }
+});
+`,
+        expected: {
+          code: `extracted`,
+          script: `
+export default defineComponent({
+  computed: {
+    fullName() {
+      return "Jane Doe";
+    },
+
+    extracted() {
+      return this.fullName.toUpperCase();
+    }
+  }
+});
+`
+        }
+      },
+      {
+        description: "globals and arrow function parameters",
+        code: `[start]items.map((item) => Math.round(item.price))[end]`,
+        script: `
+export default {};
+`,
+        expected: {
+          code: `extracted`,
+          script: `
+export default {
+  computed: {
+    extracted() {
+      return this.items.map((item) => Math.round(item.price));
+    }
+  }
+};
+`
+        }
+      }
+    ],
+    async ({ code, script, expected }) => {
+      const editor = new InMemoryVueEditor(code, {
+        code: script,
+        isSetup: false
+      });
+
+      await extractFromVueTemplate(editor);
+
+      expect(editor.code).toBe(expected.code);
+      expect(editor.script && editor.script.code).toBe(expected.script);
+    }
+  );
+
+  testEach<{
+    code: Code;
+    script: Code;
+    expected: { code: Code; script: Code };
+  }>(
+    "should extract into a computed binding of <script setup>",
+    [
+      {
+        description: "refs",
+        code: `[start]count * 2[end]`,
+        script: `
+import { ref } from "vue";
+
+const count = ref(0);
+`,
+        expected: {
+          code: `extracted`,
+          script: `
+import { ref, computed } from "vue";
+
+const count = ref(0);
+const extracted = computed(() => count.value * 2);
+`
+        }
+      },
+      {
+        description: "props and other bindings",
+        code: `[start]format(title, { uppercase })[end]`,
+        script: `
+import { format } from "./format";
+
+const props = defineProps(["title"]);
+const uppercase = true;
+`,
+        expected: {
+          code: `extracted`,
+          script: `
+import { computed } from "vue";
+import { format } from "./format";
+
+const props = defineProps(["title"]);
+const uppercase = true;
+const extracted = computed(() => format(props.title, { uppercase }));
+`
+        }
+      }
+    ],
+    async ({ code, script, expected }) => {
+      const editor = new InMemoryVueEditor(code, {
+        code: script,
+        isSetup: true
+      });
+
+      await extractFromVueTemplate(editor);
+
+      expect(editor.code).toBe(expected.code);
+      expect(editor.script && editor.script.code).toBe(expected.script);
+    }
+  );
+
+  it("should show an error message if there is no script", async () => {
+    const editor = new InMemoryVueEditor(`[cursor]isVisible`, null);
+    jest.spyOn(editor, "showError");
+
+    await extractFromVueTemplate(editor);
+
+    expect(editor.showError).toBeCalledWith(
+      ErrorReason.CantExtractFromTemplateWithoutScript
+    );
+  });
+
+  it("should show an error message for variables of the template", async () => {
+    const script = `\nexport default {};\n`;
+    const editor = new InMemoryVueEditor(
+      `[start]item.price * quantity[end]`,
+      { code: script, isSetup: false },
+      ["item"]
+    );
+    jest.spyOn(editor, "showError");
+
+    await extractFromVueTemplate(editor);
+
+    expect(editor.showError).toBeCalledWith(
+      ErrorReason.CantExtractTemplateScopedVariables
+    );
+    expect(editor.script && editor.script.code).toBe(script);
+  });
+
+  it("should show an error message for undeclared variables of <script setup>", async () => {
+    const editor = new InMemoryVueEditor(`[start]title.length[end]`, {
+      code: `\nconst count = 0;\n`,
+      isSetup: true
+    });
+    jest.spyOn(editor, "showError");
+
+    await extractFromVueTemplate(editor);
+
+    expect(editor.showError).toBeCalledWith(
+      ErrorReason.CantExtractUndeclaredTemplateVariables
+    );
+  });
+
+  it("should not extract anything if user cancels the input", async () => {
+    const code = `[start]isVisible && isEnabled[end]`;
+    const script = `\nexport default {};\n`;
+    const editor = new InMemoryVueEditor(code, {
+      code: script,
+      isSetup: false
+    });
+    jest.spyOn(editor, "askUserInput").mockResolvedValue(undefined);
+
+    await extractFromVueTemplate(editor);
+
+    expect(editor.code).toBe(`isVisible && isEnabled`);
+    expect(editor.script && editor.script.code).toBe(script);
+  });
+});
+
+class InMemoryVueEditor extends InMemoryEditor implements VueComponentEditor {
+  readonly isInTemplate = true;
+
+  constructor(
+    code: Code,
+    public script: VueScript | null,
+    readonly templateScopedVariables: string[] = ["$event"]
+  ) {
+    super(code);
+  }
+
+  async writeScript(code: Code) {
+    if (!this.script) return;
+    this.script = { ...this.script, code };
+  }
+}
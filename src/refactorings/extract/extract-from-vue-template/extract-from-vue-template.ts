@@ -0,0 +1,355 @@
+import { Code, ErrorReason } from "../../../editor/editor";
+import { Selection } from "../../../editor/selection";
+import { VueComponentEditor } from "../../../editor/vue";
+import * as t from "../../../ast";
+
+export { extractFromVueTemplate };
+
+/**
+ * Template expressions can only use what the component exposes.
+ * Extracted code becomes a computed property of the component, or a
+ * `computed()` binding in `<script setup>`.
+ */
+async function extractFromVueTemplate(editor: VueComponentEditor) {
+  const { code, selection, script } = editor;
+
+  const expression = findSelectedExpression(code, selection);
+  if (!expression) {
+    editor.showError(ErrorReason.DidNotFindExtractableCode);
+    return;
+  }
+
+  if (!script) {
+    editor.showError(ErrorReason.CantExtractFromTemplateWithoutScript);
+    return;
+  }
+
+  const expressionCode = code.slice(expression.start || 0, expression.end || 0);
+  const variables = findReferencedVariables(expressionCode);
+  if (variables.some((name) => editor.templateScopedVariables.includes(name))) {
+    editor.showError(ErrorReason.CantExtractTemplateScopedVariables);
+    return;
+  }
+
+  const scriptAST = t.parse(script.code);
+  const component = script.isSetup
+    ? findSetupBindings(scriptAST, variables)
+    : findComponentOptions(scriptAST);
+  if (!component) {
+    editor.showError(ErrorReason.CantExtractFromTemplateWithoutScript);
+    return;
+  }
+  if (isSetupBindings(component) && component.undeclared.length > 0) {
+    editor.showError(ErrorReason.CantExtractUndeclaredTemplateVariables);
+    return;
+  }
+
+  const name = await editor.askUserInput("extracted");
+  if (!name) return;
+
+  const computedExpression = isSetupBindings(component)
+    ? toScriptExpression(expressionCode, component.accessors)
+    : toScriptExpression(
+        expressionCode,
+        new Map(variables.map((name) => [name, thisAccessor(name)]))
+      );
+
+  const updatedScript = t.transformAST(scriptAST, {
+    Program(path) {
+      if (isSetupBindings(component)) {
+        addComputedBinding(path, name, computedExpression);
+      } else {
+        addComputedProperty(component, name, computedExpression);
+      }
+      path.stop();
+    }
+  });
+
+  await editor.readThenWrite(selection, () => [
+    {
+      code: name,
+      selection: Selection.fromAST(expression.loc)
+    }
+  ]);
+  await editor.writeScript(updatedScript.code);
+}
+
+function findSelectedExpression(
+  code: Code,
+  selection: Selection
+): t.SelectableNode | null {
+  let result: t.SelectableNode | null = null;
+
+  try {
+    t.parseAndTraverseCode(code, {
+      Expression(path) {
+        if (!selection.isInsidePath(path)) return;
+        // E.g. `name` in `user.name` is not an expression on its own.
+        if (path.isIdentifier() && !path.isReferencedIdentifier()) return;
+
+        result = path.node;
+      }
+    });
+  } catch {
+    // Not all template expressions are valid scripts (e.g. Vue 2 filters).
+    return null;
+  }
+
+  return result;
+}
+
+/**
+ * Variables the template reads from the component.
+ * Globals like `Math` or `Date` are allowed in templates too.
+ */
+function findReferencedVariables(expressionCode: Code): string[] {
+  const variables = new Set<string>();
+
+  t.parseAndTraverseCode(`(${expressionCode})`, {
+    Identifier(path) {
+      if (!path.isReferencedIdentifier()) return;
+
+      const { name } = path.node;
+      if (path.scope.hasBinding(name, true)) return;
+      if (TEMPLATE_GLOBALS.includes(name)) return;
+
+      variables.add(name);
+    }
+  });
+
+  return Array.from(variables);
+}
+
+const TEMPLATE_GLOBALS = [
+  "Infinity",
+  "undefined",
+  "NaN",
+  "isFinite",
+  "isNaN",
+  "parseFloat",
+  "parseInt",
+  "decodeURI",
+  "decodeURIComponent",
+  "encodeURI",
+  "encodeURIComponent",
+  "Math",
+  "Number",
+  "Date",
+  "Array",
+  "Object",
+  "Boolean",
+  "String",
+  "RegExp",
+  "Map",
+  "Set",
+  "JSON",
+  "Intl",
+  "BigInt",
+  "console"
+];
+
+type Accessor = (variable: t.Identifier) => t.Expression;
+
+function thisAccessor(name: string): Accessor {
+  return () => t.memberExpression(t.thisExpression(), t.identifier(name));
+}
+
+function toScriptExpression(
+  expressionCode: Code,
+  accessors: Map<string, Accessor>
+): t.Expression {
+  const ast = t.parseAndTraverseCode(`(${expressionCode})`, {
+    Identifier(path) {
+      if (!path.isReferencedIdentifier()) return;
+      if (path.scope.hasBinding(path.node.name, true)) return;
+
+      const accessor = accessors.get(path.node.name);
+      if (!accessor) return;
+
+      if (t.isObjectProperty(path.parent) && path.parent.shorthand) {
+        path.parent.shorthand = false;
+      }
+      path.replaceWith(accessor(path.node));
+      path.skip();
+    }
+  });
+
+  const [statement] = ast.program.body;
+  return t.isExpressionStatement(statement)
+    ? statement.expression
+    : t.identifier("undefined");
+}
+
+type SetupBindings = {
+  accessors: Map<string, Accessor>;
+  undeclared: string[];
+};
+
+function isSetupBindings(
+  component: SetupBindings | t.ObjectExpression
+): component is SetupBindings {
+  return "accessors" in component;
+}
+
+/**
+ * Templates unwrap refs and read props directly, `<script setup>` doesn't.
+ */
+function findSetupBindings(ast: t.File, variables: string[]): SetupBindings {
+  const accessors = new Map<string, Accessor>();
+  const undeclared: string[] = [];
+
+  t.traverseAST(ast, {
+    Program(path) {
+      const propsName = findPropsName(path);
+
+      variables.forEach((name) => {
+        const binding = path.scope.getBinding(name);
+        if (binding) {
+          if (isRef(binding.path.node)) {
+            accessors.set(name, (id) =>
+              t.memberExpression(id, t.identifier("value"))
+            );
+          }
+          return;
+        }
+
+        if (!propsName) {
+          undeclared.push(name);
+          return;
+        }
+
+        accessors.set(name, () =>
+          t.memberExpression(t.identifier(propsName), t.identifier(name))
+        );
+      });
+
+      path.stop();
+    }
+  });
+
+  return { accessors, undeclared };
+}
+
+const REF_FUNCTIONS = ["ref", "shallowRef", "computed", "toRef", "customRef"];
+
+function isRef(node: t.Node): boolean {
+  return (
+    t.isVariableDeclarator(node) &&
+    t.isCallExpression(node.init) &&
+    t.isIdentifier(node.init.callee) &&
+    REF_FUNCTIONS.includes(node.init.callee.name)
+  );
+}
+
+function findPropsName(programPath: t.NodePath<t.Program>): string | null {
+  let result: string | null = null;
+
+  programPath.node.body.forEach((statement) => {
+    if (!t.isVariableDeclaration(statement)) return;
+
+    statement.declarations.forEach(({ id, init }) => {
+      if (!t.isIdentifier(id)) return;
+      if (!isDefineProps(init)) return;
+      result = id.name;
+    });
+  });
+
+  return result;
+}
+
+function isDefineProps(node: t.Node | null): boolean {
+  if (!t.isCallExpression(node)) return false;
+  if (!t.isIdentifier(node.callee)) return false;
+
+  // `withDefaults(defineProps<Props>(), { … })`
+  return (
+    node.callee.name === "defineProps" ||
+    (node.callee.name === "withDefaults" && isDefineProps(node.arguments[0]))
+  );
+}
+
+/**
+ * `export default { … }`, or `export default defineComponent({ … })`.
+ */
+function findComponentOptions(ast: t.File): t.ObjectExpression | null {
+  const exportDefault = ast.program.body.find(
+    (statement): statement is t.ExportDefaultDeclaration =>
+      t.isExportDefaultDeclaration(statement)
+  );
+  if (!exportDefault) return null;
+
+  const { declaration } = exportDefault;
+  if (t.isObjectExpression(declaration)) return declaration;
+
+  if (
+    t.isCallExpression(declaration) &&
+    t.isObjectExpression(declaration.arguments[0])
+  ) {
+    return declaration.arguments[0];
+  }
+
+  return null;
+}
+
+function addComputedBinding(
+  programPath: t.NodePath<t.Program>,
+  name: string,
+  expression: t.Expression
+) {
+  const hasComputedImport = t
+    .getImportDeclarations(programPath)
+    .some(
+      ({ source, specifiers }) =>
+        source.value === "vue" &&
+        specifiers.some(
+          (specifier) =>
+            t.isImportSpecifier(specifier) &&
+            specifier.local.name === "computed"
+        )
+    );
+  if (!hasComputedImport) {
+    t.addImportDeclaration(programPath, t.identifier("computed"), "vue");
+  }
+
+  programPath.node.body.push(
+    t.variableDeclaration("const", [
+      t.variableDeclarator(
+        t.identifier(name),
+        t.callExpression(t.identifier("computed"), [
+          t.arrowFunctionExpression([], expression)
+        ])
+      )
+    ])
+  );
+}
+
+function addComputedProperty(
+  options: t.ObjectExpression,
+  name: string,
+  expression: t.Expression
+) {
+  const computedProperty = t.objectMethod(
+    "method",
+    t.identifier(name),
+    [],
+    t.blockStatement([t.returnStatement(expression)])
+  );
+
+  const computedOption = options.properties.find(
+    (property): property is t.ObjectProperty =>
+      t.isObjectProperty(property) &&
+      t.isIdentifier(property.key, { name: "computed" })
+  );
+
+  if (computedOption && t.isObjectExpression(computedOption.value)) {
+    computedOption.value.properties.push(computedProperty);
+    return;
+  }
+
+  options.properties.push(
+    t.objectProperty(
+      t.identifier("computed"),
+      t.objectExpression([computedProperty])
+    )
+  );
+}
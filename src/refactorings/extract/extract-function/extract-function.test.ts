@@ -0,0 +1,471 @@
+import { Code, Command, ErrorReason } from "../../../editor/editor";
+import { InMemoryEditor } from "../../../editor/adapters/in-memory-editor";
+import { Position } from "../../../editor/position";
+import { testEach } from "../../../tests-helpers";
+
+import { extractFunction } from "./extract-function";
+
+describe("Extract Function", () => {
+  testEach<{ code: Code; expected: Code }>(
+    "should extract selected statements into a function",
+    [
+      {
+        description: "statements without dependencies",
+        code: `[start]console.log("Hello");
+console.log("World");[end]`,
+        expected: `extracted();
+
+function extracted() {
+  console.log("Hello");
+  console.log("World");
+}`
+      },
+      {
+        description: "statements that use free variables",
+        code: `function sayHello(name, greeting) {
+  [start]const message = greeting + " " + name;
+  console.log(message);[end]
+}`,
+        expected: `function sayHello(name, greeting) {
+  extracted(greeting, name);
+}
+
+function extracted(greeting, name) {
+  const message = greeting + " " + name;
+  console.log(message);
+}`
+      },
+      {
+        description: "statements that use typed variables",
+        code: `function sayHello(name: string, times?: number) {
+  [start]const message = name.repeat(times || 1);
+  console.log(message);[end]
+}`,
+        expected: `function sayHello(name: string, times?: number) {
+  extracted(name, times);
+}
+
+function extracted(name: string, times: number | undefined) {
+  const message = name.repeat(times || 1);
+  console.log(message);
+}`
+      },
+      {
+        description: "statements that use module-level variables",
+        code: `const PREFIX = "Hello";
+
+function sayHello(name) {
+  [start]console.log(PREFIX, name);
+  console.log("!");[end]
+}`,
+        expected: `const PREFIX = "Hello";
+
+function sayHello(name) {
+  extracted(name);
+}
+
+function extracted(name) {
+  console.log(PREFIX, name);
+  console.log("!");
+}`
+      },
+      {
+        description: "a declared variable used after selection",
+        code: `function sayHello(name) {
+  [start]const upperName = name.toUpperCase();
+  console.log(upperName);[end]
+  return upperName;
+}`,
+        expected: `function sayHello(name) {
+  const upperName = extracted(name);
+  return upperName;
+}
+
+function extracted(name) {
+  const upperName = name.toUpperCase();
+  console.log(upperName);
+  return upperName;
+}`
+      },
+      {
+        description: "many declared variables used after selection",
+        code: `function compute(a) {
+  [start]let b = a + 1;
+  const c = b * 2;[end]
+  return b + c;
+}`,
+        expected: `function compute(a) {
+  let {
+    b,
+    c
+  } = extracted(a);
+
+  return b + c;
+}
+
+function extracted(a) {
+  let b = a + 1;
+  const c = b * 2;
+
+  return {
+    b,
+    c
+  };
+}`
+      },
+      {
+        description: "a mutated variable used after selection",
+        code: `function count(items) {
+  let total = 0;
+  [start]for (const item of items) {
+    total += item;
+  }[end]
+  return total;
+}`,
+        expected: `function count(items) {
+  let total = 0;
+  total = extracted(items, total);
+  return total;
+}
+
+function extracted(items, total) {
+  for (const item of items) {
+    total += item;
+  }
+  return total;
+}`
+      },
+      {
+        description: "many mutated variables used after selection",
+        code: `function count(items) {
+  let total = 0;
+  let count = 0;
+  [start]total += items.length;
+  count++;[end]
+  return total / count;
+}`,
+        expected: `function count(items) {
+  let total = 0;
+  let count = 0;
+
+  ({
+    total,
+    count
+  } = extracted(total, items, count));
+
+  return total / count;
+}
+
+function extracted(total, items, count) {
+  total += items.length;
+  count++;
+
+  return {
+    total,
+    count
+  };
+}`
+      },
+      {
+        description: "declared and mutated variables used after selection",
+        code: `function count(items) {
+  let total = 0;
+  [start]total += items.length;
+  const average = total / 2;[end]
+  return total + average;
+}`,
+        expected: `function count(items) {
+  let total = 0;
+  let average;
+
+  ({
+    average,
+    total
+  } = extracted(total, items));
+
+  return total + average;
+}
+
+function extracted(total, items) {
+  total += items.length;
+  const average = total / 2;
+
+  return {
+    average,
+    total
+  };
+}`
+      },
+      {
+        description: "a mutated variable not used after selection",
+        code: `function count(items) {
+  let total = 0;
+  [start]total += items.length;
+  console.log(total);[end]
+}`,
+        expected: `function count(items) {
+  let total = 0;
+  extracted(total, items);
+}
+
+function extracted(total, items) {
+  total += items.length;
+  console.log(total);
+}`
+      },
+      {
+        description: "statements that await",
+        code: `async function fetchData(url) {
+  [start]const response = await fetch(url);
+  console.log(response);[end]
+}`,
+        expected: `async function fetchData(url) {
+  await extracted(url);
+}
+
+async function extracted(url) {
+  const response = await fetch(url);
+  console.log(response);
+}`
+      },
+      {
+        description: "statements in a class method",
+        code: `class Logger {
+  log(message) {
+    [start]const prefix = this.prefix;
+    console.log(prefix, message);[end]
+  }
+}`,
+        expected: `class Logger {
+  log(message) {
+    this.extracted(message);
+  }
+
+  extracted(message) {
+    const prefix = this.prefix;
+    console.log(prefix, message);
+  }
+}`
+      },
+      {
+        description: "statements in a nested function",
+        code: `export function run(items) {
+  return items.map((item) => {
+    [start]const value = item * 2;
+    console.log(value);[end]
+  });
+}`,
+        expected: `export function run(items) {
+  return items.map((item) => {
+    extracted(item);
+  });
+}
+
+function extracted(item) {
+  const value = item * 2;
+  console.log(value);
+}`
+      },
+      {
+        description: "statements with a return in a nested function",
+        code: `function run(items) {
+  [start]const doubled = items.map((item) => {
+    return item * 2;
+  });
+  console.log(doubled);[end]
+}`,
+        expected: `function run(items) {
+  extracted(items);
+}
+
+function extracted(items) {
+  const doubled = items.map((item) => {
+    return item * 2;
+  });
+  console.log(doubled);
+}`
+      },
+      {
+        description: "statements with a break inside a selected loop",
+        code: `function run(items) {
+  [start]for (const item of items) {
+    if (item) break;
+  }[end]
+}`,
+        expected: `function run(items) {
+  extracted(items);
+}
+
+function extracted(items) {
+  for (const item of items) {
+    if (item) break;
+  }
+}`
+      },
+      {
+        description: "statements with `arguments` in a nested function",
+        code: `function run(items) {
+  [start]const log = function () {
+    console.log(arguments);
+  };
+  log(items);[end]
+}`,
+        expected: `function run(items) {
+  extracted(items);
+}
+
+function extracted(items) {
+  const log = function () {
+    console.log(arguments);
+  };
+  log(items);
+}`
+      },
+      {
+        description: "params in order of first usage",
+        code: `function run(name, greeting) {
+  [start]console.log("Message:", greeting);
+  console.log(name);[end]
+}`,
+        expected: `function run(name, greeting) {
+  extracted(greeting, name);
+}
+
+function extracted(greeting, name) {
+  console.log("Message:", greeting);
+  console.log(name);
+}`
+      },
+      {
+        description: "a single statement",
+        code: `function run(items) {
+  [start]if (items.length > 0) {
+    console.log(items);
+  }[end]
+}`,
+        expected: `function run(items) {
+  extracted(items);
+}
+
+function extracted(items) {
+  if (items.length > 0) {
+    console.log(items);
+  }
+}`
+      },
+      {
+        description: "with a name that doesn't conflict",
+        code: `const extracted = "hello";
+[start]console.log("Hello");
+console.log("World");[end]`,
+        expected: `const extracted = "hello";
+extracted1();
+
+function extracted1() {
+  console.log("Hello");
+  console.log("World");
+}`
+      }
+    ],
+    async ({ code, expected }) => {
+      const editor = new InMemoryEditor(code);
+
+      await extractFunction(editor);
+
+      expect(editor.code).toBe(expected);
+    }
+  );
+
+  it("should put the cursor on the function call and rename it", async () => {
+    const editor = new InMemoryEditor(`function sayHello(name) {
+  [start]console.log("Hello");
+  console.log(name);[end]
+}`);
+    jest.spyOn(editor, "delegate");
+
+    await extractFunction(editor);
+
+    expect(editor.selection.start).toEqual(new Position(1, 2));
+    expect(editor.delegate).toBeCalledWith(Command.RenameSymbol);
+  });
+
+  testEach<{ code: Code; expectedError: ErrorReason }>(
+    "should not extract",
+    [
+      {
+        description: "if selection is a single expression",
+        code: `console.log([start]"Hello"[end]);`,
+        expectedError: ErrorReason.DidNotFindStatementsToExtract
+      },
+      {
+        description: "if statement is the selected expression",
+        code: `[start]console.log("Hello")[end];`,
+        expectedError: ErrorReason.DidNotFindStatementsToExtract
+      },
+      {
+        description: "if selection is a cursor",
+        code: `console.log([cursor]"Hello");`,
+        expectedError: ErrorReason.DidNotFindStatementsToExtract
+      },
+      {
+        description: "if a statement is partially selected",
+        code: `console.log("Hello");
+[start]console.log("World");
+console.log([end]"!");`,
+        expectedError: ErrorReason.DidNotFindStatementsToExtract
+      },
+      {
+        description: "if selected statements return",
+        code: `function run(items) {
+  [start]console.log(items);
+  return items;[end]
+}`,
+        expectedError: ErrorReason.CantExtractFunctionWithReturn
+      },
+      {
+        description: "if selected statements yield",
+        code: `function* run(items) {
+  [start]console.log(items);
+  yield items;[end]
+}`,
+        expectedError: ErrorReason.CantExtractFunctionWithYield
+      },
+      {
+        description: "if selected statements break an outer loop",
+        code: `function run(items) {
+  for (const item of items) {
+    [start]console.log(item);
+    if (item) break;[end]
+  }
+}`,
+        expectedError: ErrorReason.CantExtractFunctionWithBreakOrContinue
+      },
+      {
+        description: "if selected statements use `this` outside of a class",
+        code: `function run() {
+  [start]console.log(this.items);
+  console.log("done");[end]
+}`,
+        expectedError: ErrorReason.CantExtractFunctionUsingThis
+      },
+      {
+        description: "if selected statements use `arguments`",
+        code: `function run() {
+  [start]console.log(arguments[0]);
+  console.log("done");[end]
+}`,
+        expectedError: ErrorReason.CantExtractFunctionUsingArguments
+      }
+    ],
+    async ({ code, expectedError }) => {
+      const editor = new InMemoryEditor(code);
+      const originalCode = editor.code;
+      jest.spyOn(editor, "showError");
+
+      await extractFunction(editor);
+
+      expect(editor.code).toBe(originalCode);
+      expect(editor.showError).toBeCalledWith(expectedError);
+    }
+  );
+});
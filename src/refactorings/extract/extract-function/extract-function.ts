@@ -0,0 +1,566 @@
+import { Editor, Code, ErrorReason } from "../../../editor/editor";
+import { Selection } from "../../../editor/selection";
+import { Position } from "../../../editor/position";
+import * as t from "../../../ast";
+import { last } from "../../../array";
+
+import { renameSymbol } from "../../rename-symbol/rename-symbol";
+
+export { extractFunction };
+
+async function extractFunction(editor: Editor) {
+  const { code, selection } = editor;
+  const updatedCode = updateCode(t.parse(code), selection);
+
+  if (updatedCode.error !== null) {
+    editor.showError(updatedCode.error);
+    return;
+  }
+
+  if (!updatedCode.hasCodeChanged) {
+    editor.showError(ErrorReason.DidNotFindStatementsToExtract);
+    return;
+  }
+
+  await editor.write(
+    updatedCode.code,
+    findCallPosition(updatedCode.code, updatedCode.functionName)
+  );
+
+  // Extracted function call is located at cursor => just trigger a rename.
+  await renameSymbol(editor);
+}
+
+function updateCode(
+  ast: t.AST,
+  selection: Selection
+): t.Transformed & { functionName: string; error: ErrorReason | null } {
+  let functionName = "";
+  let error: ErrorReason | null = null;
+
+  const result = t.transformAST(
+    ast,
+    createVisitor(selection, (statements) => {
+      const extraction = new Extraction(statements);
+
+      error = extraction.error;
+      if (error !== null) return;
+
+      functionName = extraction.functionName;
+      extraction.apply();
+    })
+  );
+
+  return { ...result, functionName, error };
+}
+
+function createVisitor(
+  selection: Selection,
+  onMatch: (statements: t.NodePath<t.Statement>[]) => void
+): t.Visitor {
+  // We want the deepest block that contains the selected statements.
+  // Traversal goes from the top to the bottom, so we keep the last match.
+  let selectedStatements: t.NodePath<t.Statement>[] = [];
+
+  const visitBlock = (path: t.NodePath<t.Program | t.BlockStatement>) => {
+    if (selection.isEmpty()) return;
+    if (!selection.isInsidePath(path)) return;
+
+    const statements = findSelectedStatements(path, selection);
+    if (statements.length === 0) return;
+
+    selectedStatements = statements;
+  };
+
+  return {
+    Program: {
+      enter: visitBlock,
+      exit() {
+        if (selectedStatements.length === 0) return;
+        onMatch(selectedStatements);
+      }
+    },
+    BlockStatement: visitBlock
+  };
+}
+
+function findSelectedStatements(
+  path: t.NodePath<t.Program | t.BlockStatement>,
+  selection: Selection
+): t.NodePath<t.Statement>[] {
+  const statements = (path.get(
+    "body"
+  ) as t.NodePath<t.Statement>[]).filter((statement) =>
+    t.isSelectablePath(statement)
+  );
+
+  const selectedStatements = statements.filter((statement) =>
+    isInside(statement.node, selection)
+  );
+
+  const hasPartiallySelectedStatement = statements.some(
+    (statement) =>
+      !selectedStatements.includes(statement) &&
+      overlaps(statement.node, selection)
+  );
+  if (hasPartiallySelectedStatement) return [];
+
+  // If a single expression is selected, it's a variable we want to extract.
+  const [firstStatement] = selectedStatements;
+  if (
+    selectedStatements.length === 1 &&
+    firstStatement.isExpressionStatement() &&
+    isInside(firstStatement.node.expression, selection) &&
+    selection.isInsideNode(firstStatement.node.expression)
+  ) {
+    return [];
+  }
+
+  return selectedStatements;
+}
+
+class Extraction {
+  private range: Selection;
+  private usedBindings: t.Binding[] = [];
+  private declaredBindings: t.Binding[] = [];
+  private mutatedBindings: t.Binding[] = [];
+  private _error: ErrorReason | null = null;
+  private isAsync = false;
+  private usesThis = false;
+  private classMethod: t.NodePath<t.ClassMethod> | null;
+
+  constructor(private statements: t.NodePath<t.Statement>[]) {
+    this.range = Selection.fromPositions(
+      Selection.fromAST(statements[0].node.loc as t.SourceLocation).start,
+      Selection.fromAST(last(statements)?.node.loc as t.SourceLocation).end
+    );
+    this.classMethod = this.findParentClassMethod();
+
+    this.analyzeControlFlow();
+    this.analyzeBindings();
+
+    if (this.usesThis && !this.classMethod) {
+      this._error = ErrorReason.CantExtractFunctionUsingThis;
+    }
+  }
+
+  get error(): ErrorReason | null {
+    return this._error;
+  }
+
+  get functionName(): string {
+    let name = "extracted";
+
+    const namesInScope = [
+      ...t.bindingNamesInScope(this.statements[0]),
+      ...this.classMemberNames
+    ];
+    let i = 1;
+    while (namesInScope.includes(name)) {
+      name = `extracted${i}`;
+      i++;
+    }
+
+    return name;
+  }
+
+  apply() {
+    const name = this.functionName;
+    const params = this.params;
+    const body = t.blockStatement([
+      ...this.statements.map(({ node }) => node),
+      ...this.returnStatement
+    ]);
+
+    if (this.classMethod) {
+      const method = t.classMethod(
+        "method",
+        t.identifier(name),
+        params,
+        body,
+        false,
+        this.classMethod.node.static
+      );
+      method.async = this.isAsync;
+      this.classMethod.insertAfter(method);
+    } else {
+      const declaration = t.functionDeclaration(
+        t.identifier(name),
+        params,
+        body,
+        false,
+        this.isAsync
+      );
+      this.topLevelStatement.insertAfter(declaration);
+    }
+
+    const [firstStatement, ...otherStatements] = this.statements;
+    firstStatement.replaceWithMultiple(this.callStatements(name));
+    otherStatements.forEach((statement) => statement.remove());
+  }
+
+  private get params(): t.Identifier[] {
+    return this.usedBindings.map(({ identifier }) => {
+      const param = t.identifier(identifier.name);
+      param.typeAnnotation = typeAnnotationOf(identifier);
+      return param;
+    });
+  }
+
+  private get args(): t.Identifier[] {
+    return this.usedBindings.map(({ identifier }) =>
+      t.identifier(identifier.name)
+    );
+  }
+
+  private get returnedBindings(): t.Binding[] {
+    return [...this.declaredBindings, ...this.mutatedBindings];
+  }
+
+  private get returnStatement(): t.Statement[] {
+    const returned = this.returnedBindings.map(({ identifier }) =>
+      t.identifier(identifier.name)
+    );
+
+    if (returned.length === 0) return [];
+    if (returned.length === 1) return [t.returnStatement(returned[0])];
+
+    return [
+      t.returnStatement(
+        t.objectExpression(
+          returned.map((id) => t.objectProperty(id, id, false, true))
+        )
+      )
+    ];
+  }
+
+  private callStatements(name: string): t.Statement[] {
+    const callee = this.classMethod
+      ? t.memberExpression(t.thisExpression(), t.identifier(name))
+      : t.identifier(name);
+    const call = t.callExpression(callee, this.args);
+    const value = this.isAsync ? t.awaitExpression(call) : call;
+
+    const returned = this.returnedBindings;
+    if (returned.length === 0) {
+      return [t.expressionStatement(value)];
+    }
+
+    const declaredIds = this.declaredBindings.map(({ identifier }) =>
+      t.identifier(identifier.name)
+    );
+    const mutatedIds = this.mutatedBindings.map(({ identifier }) =>
+      t.identifier(identifier.name)
+    );
+
+    if (returned.length === 1) {
+      return declaredIds.length === 1
+        ? [this.declare(declaredIds[0], value)]
+        : [
+            t.expressionStatement(
+              t.assignmentExpression("=", mutatedIds[0], value)
+            )
+          ];
+    }
+
+    const pattern = t.objectPattern(
+      returned.map(({ identifier }) => {
+        const id = t.identifier(identifier.name);
+        return t.objectProperty(id, id, false, true);
+      })
+    );
+
+    if (mutatedIds.length === 0) {
+      return [this.declare(pattern, value)];
+    }
+
+    const assignment = t.expressionStatement(
+      t.assignmentExpression("=", pattern, value)
+    );
+    if (declaredIds.length === 0) {
+      return [assignment];
+    }
+
+    return [
+      t.variableDeclaration(
+        "let",
+        declaredIds.map((id) => t.variableDeclarator(id))
+      ),
+      assignment
+    ];
+  }
+
+  private declare(
+    id: t.Identifier | t.ObjectPattern,
+    value: t.Expression
+  ): t.VariableDeclaration {
+    const isReassignable = this.declaredBindings.some(
+      ({ kind }) => kind === "let" || kind === "var"
+    );
+
+    return t.variableDeclaration(isReassignable ? "let" : "const", [
+      t.variableDeclarator(id, value)
+    ]);
+  }
+
+  private analyzeControlFlow() {
+    this.forEachSelectedPath((path) => {
+      if (this._error !== null) return;
+
+      if (path.isReturnStatement() && !this.isInsideNestedFunction(path)) {
+        this._error = ErrorReason.CantExtractFunctionWithReturn;
+      }
+
+      if (path.isYieldExpression() && !this.isInsideNestedFunction(path)) {
+        this._error = ErrorReason.CantExtractFunctionWithYield;
+      }
+
+      if (path.isBreakStatement() || path.isContinueStatement()) {
+        if (!this.isTargetSelected(path)) {
+          this._error = ErrorReason.CantExtractFunctionWithBreakOrContinue;
+        }
+      }
+
+      if (path.isAwaitExpression() && !this.isInsideNestedFunction(path)) {
+        this.isAsync = true;
+      }
+
+      if (
+        path.isThisExpression() &&
+        !this.isInsideNestedNonArrowFunction(path)
+      ) {
+        this.usesThis = true;
+      }
+
+      // The extracted function would have its own `arguments`.
+      if (
+        path.isIdentifier({ name: "arguments" }) &&
+        path.isReferencedIdentifier() &&
+        !this.isInsideNestedNonArrowFunction(path)
+      ) {
+        this._error = ErrorReason.CantExtractFunctionUsingArguments;
+      }
+    });
+  }
+
+  private analyzeBindings() {
+    const bindings = Object.values(
+      this.statements[0].scope.getAllBindings()
+    ) as t.Binding[];
+
+    bindings.forEach((binding) => {
+      if (this.isSelected(binding.identifier)) {
+        if (this.isUsedOutside(binding)) {
+          this.declaredBindings.push(binding);
+        }
+        return;
+      }
+
+      const isReferenced = binding.referencePaths.some(({ node }) =>
+        this.isSelected(node)
+      );
+      const isMutated = binding.constantViolations.some(({ node }) =>
+        this.isSelected(node)
+      );
+      if (!isReferenced && !isMutated) return;
+
+      // Module-level bindings are accessible from the extracted function.
+      if (binding.scope.path.isProgram()) return;
+
+      this.usedBindings.push(binding);
+      if (isMutated && this.isReadAfter(binding)) {
+        this.mutatedBindings.push(binding);
+      }
+    });
+
+    this.usedBindings.sort((bindingA, bindingB) => {
+      const usageA = this.firstUsage(bindingA);
+      const usageB = this.firstUsage(bindingB);
+
+      return usageA.line - usageB.line || usageA.character - usageB.character;
+    });
+  }
+
+  private isUsedOutside(binding: t.Binding): boolean {
+    return [...binding.referencePaths, ...binding.constantViolations].some(
+      ({ node }) => t.isSelectableNode(node) && !this.isSelected(node)
+    );
+  }
+
+  private isReadAfter(binding: t.Binding): boolean {
+    // In a loop, next iteration may read the value before the selection.
+    const loop = this.statements[0].findParent(
+      (parentPath) =>
+        parentPath.isLoop() && isDescendantOf(parentPath, binding.scope.path)
+    );
+
+    return binding.referencePaths.some((path) => {
+      if (!t.isSelectableNode(path.node)) return false;
+      if (this.isSelected(path.node)) return false;
+
+      const isAfter = Position.fromAST(path.node.loc.start).isAfter(
+        this.range.end
+      );
+      return isAfter || (!!loop && isDescendantOf(path, loop));
+    });
+  }
+
+  private firstUsage(binding: t.Binding): Position {
+    const positions = [...binding.referencePaths, ...binding.constantViolations]
+      .map(({ node }) => node)
+      .filter((node): node is t.SelectableNode => this.isSelected(node))
+      .map(({ loc }) => Position.fromAST(loc.start));
+
+    return positions.reduce((first, position) =>
+      position.isBefore(first) ? position : first
+    );
+  }
+
+  private isTargetSelected(
+    path: t.NodePath<t.BreakStatement | t.ContinueStatement>
+  ): boolean {
+    const { label } = path.node;
+    const target = path.findParent((parentPath) => {
+      if (label) {
+        return (
+          parentPath.isLabeledStatement() &&
+          parentPath.node.label.name === label.name
+        );
+      }
+
+      return (
+        parentPath.isLoop() ||
+        (path.isBreakStatement() && parentPath.isSwitchStatement())
+      );
+    });
+
+    return !!target && this.isSelected(target.node);
+  }
+
+  private isInsideNestedFunction(path: t.NodePath): boolean {
+    const functionPath = path.getFunctionParent();
+    return !!functionPath && this.isSelected(functionPath.node);
+  }
+
+  private isInsideNestedNonArrowFunction(path: t.NodePath): boolean {
+    const functionPath = path.findParent(
+      (parentPath) =>
+        parentPath.isFunction() && !parentPath.isArrowFunctionExpression()
+    );
+    return !!functionPath && this.isSelected(functionPath.node);
+  }
+
+  private findParentClassMethod(): t.NodePath<t.ClassMethod> | null {
+    const functionPath = this.statements[0].findParent(
+      (parentPath) =>
+        parentPath.isFunction() && !parentPath.isArrowFunctionExpression()
+    );
+    if (!functionPath || !functionPath.isClassMethod()) return null;
+
+    return functionPath;
+  }
+
+  private get classMemberNames(): string[] {
+    if (!this.classMethod) return [];
+
+    const classBody = this.classMethod.parentPath.node as t.ClassBody;
+    return classBody.body
+      .map((member) =>
+        (t.isClassMethod(member) || t.isClassProperty(member)) &&
+        t.isIdentifier(member.key)
+          ? member.key.name
+          : ""
+      )
+      .filter(Boolean);
+  }
+
+  private get topLevelStatement(): t.NodePath {
+    const path = this.statements[0];
+    if (path.parentPath.isProgram()) return last(this.statements) || path;
+
+    return findTopLevelStatement(path) || path;
+  }
+
+  private forEachSelectedPath(fn: (path: t.NodePath) => void) {
+    this.statements.forEach((statement) => {
+      fn(statement);
+      statement.traverse({ enter: fn });
+    });
+  }
+
+  private isSelected(node: t.Node): boolean {
+    return isInside(node, this.range);
+  }
+}
+
+function findTopLevelStatement(path: t.NodePath): t.NodePath | null {
+  const ancestor = t.findAncestorThatCanHaveVariableDeclaration(path);
+  if (!ancestor) return null;
+  if (ancestor.parentPath.isProgram()) return ancestor;
+
+  return findTopLevelStatement(ancestor.parentPath);
+}
+
+function isDescendantOf(path: t.NodePath, ancestor: t.NodePath): boolean {
+  return !!path.findParent((parentPath) => parentPath.node === ancestor.node);
+}
+
+/**
+ * Optional params, e.g. `times?: number`, may be `undefined` when passed
+ * to the extracted function.
+ */
+function typeAnnotationOf(
+  identifier: t.Identifier
+): t.Identifier["typeAnnotation"] {
+  const { typeAnnotation, optional } = identifier;
+
+  if (t.isTSTypeAnnotation(typeAnnotation)) {
+    const type = t.cloneDeep(typeAnnotation.typeAnnotation);
+    return t.tsTypeAnnotation(
+      optional ? t.tsUnionType([type, t.tsUndefinedKeyword()]) : type
+    );
+  }
+
+  if (t.isTypeAnnotation(typeAnnotation)) {
+    const type = t.cloneDeep(typeAnnotation.typeAnnotation);
+    return t.typeAnnotation(optional ? t.nullableTypeAnnotation(type) : type);
+  }
+
+  return null;
+}
+
+function findCallPosition(code: Code, functionName: string): Position {
+  let result = new Position(0, 0);
+
+  t.parseAndTraverseCode(code, {
+    CallExpression(path) {
+      const { callee } = path.node;
+      const id = t.isMemberExpression(callee) ? callee.property : callee;
+      if (!t.isSelectableIdentifier(id)) return;
+      if (id.name !== functionName) return;
+
+      result = Position.fromAST(id.loc.start);
+      path.stop();
+    }
+  });
+
+  return result;
+}
+
+function isInside(node: t.Node, selection: Selection): boolean {
+  return (
+    t.isSelectableNode(node) && Selection.fromAST(node.loc).isInside(selection)
+  );
+}
+
+function overlaps(node: t.Node, selection: Selection): boolean {
+  if (!t.isSelectableNode(node)) return false;
+
+  const nodeSelection = Selection.fromAST(node.loc);
+  return (
+    nodeSelection.start.isBefore(selection.end) &&
+    selection.start.isBefore(nodeSelection.end) &&
+    !nodeSelection.end.isEqualTo(selection.start) &&
+    !nodeSelection.start.isEqualTo(selection.end)
+  );
+}
@@ -0,0 +1,57 @@
+import { Code, ErrorReason } from "../../editor/editor";
+import { InMemoryEditor } from "../../editor/adapters/in-memory-editor";
+import { testEach } from "../../tests-helpers";
+
+import extract from ".";
+
+describe("Extract", () => {
+  testEach<{ code: Code; expected: Code }>(
+    "should fallback on Extract Variable",
+    [
+      {
+        description: "a selected expression",
+        code: `console.log([start]"Hello"[end]);`,
+        expected: `const hello = "Hello";
+console.log(hello);`
+      },
+      {
+        description:
+          "selected statements that can't be extracted in a function",
+        code: `const names = items.map((item) => {
+  [start]return item.name;[end]
+});`,
+        expected: `const extracted = (item) => {
+  return item.name;
+};
+const names = items.map(extracted);`
+      }
+    ],
+    async ({ code, expected }) => {
+      const editor = new InMemoryEditor(code);
+      jest
+        .spyOn(editor, "askUserChoice")
+        .mockImplementation(async ([choice]) => choice);
+
+      await extract.command.operation(editor);
+
+      expect(editor.code).toBe(expected);
+    }
+  );
+
+  it("should explain why statements can't be extracted in a function", async () => {
+    const code = `function add(a, b) {
+  [start]return a + b;[end]
+}`;
+    const editor = new InMemoryEditor(code);
+    const originalCode = editor.code;
+    jest.spyOn(editor, "showError");
+
+    await extract.command.operation(editor);
+
+    expect(editor.code).toBe(originalCode);
+    expect(editor.showError).toBeCalledTimes(1);
+    expect(editor.showError).toBeCalledWith(
+      ErrorReason.CantExtractFunctionWithReturn
+    );
+  });
+});
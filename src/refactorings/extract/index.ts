@@ -1,11 +1,12 @@
 import { extractVariable } from "./extract-variable/extract-variable";
 import { extractType } from "./extract-type/extract-type";
+import { extractFunction } from "./extract-function/extract-function";
+import { extractFromVueTemplate } from "./extract-from-vue-template/extract-from-vue-template";
 
 import { Refactoring } from "../../types";
-import { executeSafely } from "../../commands";
-import { ErrorReason } from "../../editor/editor";
+import { Editor, ErrorReason } from "../../editor/editor";
 import { AttemptingEditor } from "../../editor/adapters/attempting-editor";
-import { createVSCodeEditor } from "../../editor/adapters/create-vscode-editor";
+import { isVueComponentEditor } from "../../editor/vue";
 
 const config: Refactoring = {
   command: {
@@ -16,20 +17,47 @@ const config: Refactoring = {
 
 export default config;
 
-async function extract() {
-  const vscodeEditor = createVSCodeEditor();
-  if (!vscodeEditor) return;
+async function extract(editor: Editor) {
+  if (isVueComponentEditor(editor) && editor.isInTemplate) {
+    await extractFromVueTemplate(editor);
+    return;
+  }
 
   const attemptingEditor = new AttemptingEditor(
-    vscodeEditor,
+    editor,
     ErrorReason.DidNotFindTypeToExtract
   );
+  await extractType(attemptingEditor);
+  if (attemptingEditor.attemptSucceeded) return;
+
+  const attemptingFunctionEditor = new AttemptingEditor(editor, [
+    ErrorReason.DidNotFindStatementsToExtract,
+    ErrorReason.CantExtractFunctionWithReturn,
+    ErrorReason.CantExtractFunctionWithYield,
+    ErrorReason.CantExtractFunctionWithBreakOrContinue,
+    ErrorReason.CantExtractFunctionUsingThis,
+    ErrorReason.CantExtractFunctionUsingArguments
+  ]);
+  await extractFunction(attemptingFunctionEditor);
+  const { attemptSucceeded, failedReason } = attemptingFunctionEditor;
+  if (attemptSucceeded) return;
 
-  await executeSafely(async () => {
-    await extractType(attemptingEditor);
+  if (
+    failedReason === null ||
+    failedReason === ErrorReason.DidNotFindStatementsToExtract
+  ) {
+    await extractVariable(editor);
+    return;
+  }
+
+  // Statements we can't extract may still be part of a variable to extract.
+  // If there is none, explaining why we can't extract a function helps more.
+  const attemptingVariableEditor = new AttemptingEditor(
+    editor,
+    ErrorReason.DidNotFindExtractableCode
+  );
+  await extractVariable(attemptingVariableEditor);
+  if (attemptingVariableEditor.attemptSucceeded) return;
 
-    if (!attemptingEditor.attemptSucceeded) {
-      await extractVariable(vscodeEditor);
-    }
-  });
+  await editor.showError(failedReason);
 }
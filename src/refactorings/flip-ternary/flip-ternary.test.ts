@@ -45,6 +45,40 @@ describe("Flip Ternary", () => {
         description: "with instanceof operator",
         code: `const hello = day inst[cursor]anceof Morning ? "Good morning" : "Hello";`,
         expected: `const hello = !(day instanceof Morning) ? "Hello" : "Good morning";`
+      },
+      {
+        description: "JSX conditional rendering",
+        code: `<div>{isO[cursor]pen ? <Modal /> : null}</div>;`,
+        expected: `<div>{!isOpen ? null : <Modal />}</div>;`
+      },
+      {
+        description: "multi-lines JSX conditional rendering",
+        code: `function Page() {
+  return (
+    <main>
+      {isLo[cursor]ading ? (
+        <Spinner />
+      ) : (
+        <section>
+          <h1>Title</h1>
+        </section>
+      )}
+    </main>
+  );
+}`,
+        expected: `function Page() {
+  return (
+    <main>
+      {!isLoading ? (
+        <section>
+          <h1>Title</h1>
+        </section>
+      ) : (
+        <Spinner />
+      )}
+    </main>
+  );
+}`
       }
     ],
     async ({ code, expected }) => {
@@ -4,7 +4,7 @@ import * as t from "../../ast";
 
 import { getNegatedBinaryOperator } from "../negate-expression/negate-expression";
 
-export { flipTernary, createVisitor as hasTernaryToFlip };
+export { flipTernary, createVisitor as hasTernaryToFlip, getNegatedIfTest };
 
 async function flipTernary(editor: Editor) {
   const { code, selection } = editor;
@@ -0,0 +1,170 @@
+import { Refactoring, RefactoringWithActionProvider } from "../types";
+import { Syntax } from "../ast";
+
+import addBracesToArrowFunction from "./add-braces-to-arrow-function";
+import addBracesToIfStatement from "./add-braces-to-if-statement";
+import convertClassToFunction from "./convert-class-to-function";
+import convertForToForeach from "./convert-for-to-foreach";
+import convertFunctionToClass from "./convert-function-to-class";
+import convertIfElseToSwitch from "./convert-if-else-to-switch";
+import convertSwitchToIfElse from "./convert-switch-to-if-else";
+import convertIfElseToTernary from "./convert-if-else-to-ternary";
+import convertTernaryToIfElse from "./convert-ternary-to-if-else";
+import convertToArrowFunction from "./convert-to-arrow-function";
+import convertToOptionalChaining from "./convert-to-optional-chaining";
+import convertToTemplateLiteral from "./convert-to-template-literal";
+import convertLetToConst from "./convert-let-to-const";
+import extract from "./extract";
+import extractClass from "./extract-class";
+import extractGenericType from "./extract-generic-type";
+import extractInterface from "./extract-interface";
+import flipIfElse from "./flip-if-else";
+import flipTernary from "./flip-ternary";
+import inline from "./inline";
+import liftUpConditional from "./lift-up-conditional";
+import mergeIfStatements from "./merge-if-statements";
+import mergeWithPreviousIfStatement from "./merge-with-previous-if-statement";
+import moveStatementDown from "./move-statement-down";
+import moveStatementUp from "./move-statement-up";
+import moveToExistingFile from "./move-to-existing-file";
+import moveToNewFile from "./move-to-new-file";
+import negateExpression from "./negate-expression";
+import reactConvertToPureComponent from "./react/convert-to-pure-component";
+import reactExtractComponent from "./react/extract-component";
+import reactExtractCustomHook from "./react/extract-custom-hook";
+import reactInlineHook from "./react/inline-hook";
+import reactConvertToFunctionComponent from "./react/convert-to-function-component";
+import reactAddBracesToJsxAttribute from "./react/add-braces-to-jsx-attribute";
+import reactRemoveBracesFromJsxAttribute from "./react/remove-braces-from-jsx-attribute";
+import reactWrapJsx from "./react/wrap-jsx";
+import reactUnwrapJsxElement from "./react/unwrap-jsx-element";
+import reactConvertAndToTernary from "./react/convert-and-to-ternary";
+import reactConvertTernaryToAnd from "./react/convert-ternary-to-and";
+import reactConvertIfReturnToTernary from "./react/convert-if-return-to-ternary";
+import removeBracesFromArrowFunction from "./remove-braces-from-arrow-function";
+import removeBracesFromIfStatement from "./remove-braces-from-if-statement";
+import removeDeadCode from "./remove-dead-code";
+import removeRedundantElse from "./remove-redundant-else";
+import renameSymbol from "./rename-symbol";
+import replaceBinaryWithAssignment from "./replace-binary-with-assignment";
+import simplifyTernary from "./simplify-ternary";
+import splitDeclarationAndInitialization from "./split-declaration-and-initialization";
+import splitIfStatement from "./split-if-statement";
+import splitMultipleDeclarations from "./split-multiple-declarations";
+
+export { refactorings, ConfiguredRefactoring };
+
+const refactorings: { [key: string]: ConfiguredRefactoring } = {
+  typedCodeOnly: {
+    // JavaScript files can be written with Flow
+    languages: [
+      "javascript",
+      "javascriptreact",
+      "typescript",
+      "typescriptreact"
+    ],
+    syntaxes: ["typescript", "flow"],
+    withoutActionProvider: [],
+    withActionProvider: [extractGenericType, extractInterface]
+  },
+  reactOnly: {
+    languages: ["javascriptreact", "typescriptreact"],
+    withoutActionProvider: [
+      reactConvertToPureComponent,
+      reactExtractComponent,
+      reactExtractCustomHook,
+      reactInlineHook
+    ],
+    withActionProvider: [
+      reactConvertToFunctionComponent,
+      reactAddBracesToJsxAttribute,
+      reactRemoveBracesFromJsxAttribute,
+      reactWrapJsx,
+      reactUnwrapJsxElement,
+      reactConvertAndToTernary,
+      reactConvertTernaryToAnd,
+      reactConvertIfReturnToTernary
+    ]
+  },
+  allButVue: {
+    languages: [
+      "javascript",
+      "javascriptreact",
+      "typescript",
+      "typescriptreact"
+    ],
+    withoutActionProvider: [],
+    withActionProvider: [moveToNewFile]
+  },
+  allButDocumentation: {
+    languages: [
+      "javascript",
+      "javascriptreact",
+      "typescript",
+      "typescriptreact",
+      "vue",
+      "svelte",
+      "astro"
+    ],
+    withoutActionProvider: [],
+    withActionProvider: [moveToExistingFile]
+  },
+  allLanguages: {
+    languages: [
+      "javascript",
+      "javascriptreact",
+      "typescript",
+      "typescriptreact",
+      "vue",
+      "svelte",
+      "astro",
+      "markdown",
+      "mdx"
+    ],
+    withoutActionProvider: [
+      extract,
+      inline,
+      moveStatementDown,
+      moveStatementUp,
+      renameSymbol
+    ],
+    withActionProvider: [
+      addBracesToArrowFunction,
+      addBracesToIfStatement,
+      convertClassToFunction,
+      convertForToForeach,
+      convertFunctionToClass,
+      convertIfElseToSwitch,
+      convertIfElseToTernary,
+      convertLetToConst,
+      convertSwitchToIfElse,
+      convertTernaryToIfElse,
+      convertToArrowFunction,
+      convertToOptionalChaining,
+      convertToTemplateLiteral,
+      extractClass,
+      flipIfElse,
+      flipTernary,
+      liftUpConditional,
+      mergeIfStatements,
+      mergeWithPreviousIfStatement,
+      negateExpression,
+      removeBracesFromArrowFunction,
+      removeBracesFromIfStatement,
+      removeDeadCode,
+      removeRedundantElse,
+      replaceBinaryWithAssignment,
+      simplifyTernary,
+      splitDeclarationAndInitialization,
+      splitIfStatement,
+      splitMultipleDeclarations
+    ]
+  }
+};
+
+type ConfiguredRefactoring = {
+  languages: string[];
+  syntaxes?: Syntax[];
+  withoutActionProvider: Refactoring[];
+  withActionProvider: RefactoringWithActionProvider[];
+};
@@ -1,11 +1,9 @@
 import { inlineFunction } from "./inline-function/inline-function";
 import { inlineVariable } from "./inline-variable/inline-variable";
 
-import { executeSafely } from "../../commands";
-import { ErrorReason } from "../../editor/editor";
+import { Editor, ErrorReason } from "../../editor/editor";
 import { AttemptingEditor } from "../../editor/adapters/attempting-editor";
 import { Refactoring } from "../../types";
-import { createVSCodeEditor } from "../../editor/adapters/create-vscode-editor";
 
 const config: Refactoring = {
   command: {
@@ -16,20 +14,15 @@ const config: Refactoring = {
 
 export default config;
 
-async function inline() {
-  const vscodeEditor = createVSCodeEditor();
-  if (!vscodeEditor) return;
-
+async function inline(editor: Editor) {
   const attemptingEditor = new AttemptingEditor(
-    vscodeEditor,
+    editor,
     ErrorReason.DidNotFindInlinableCode
   );
 
-  await executeSafely(async () => {
-    await inlineVariable(attemptingEditor);
+  await inlineVariable(attemptingEditor);
 
-    if (!attemptingEditor.attemptSucceeded) {
-      await inlineFunction(vscodeEditor);
-    }
-  });
+  if (!attemptingEditor.attemptSucceeded) {
+    await inlineFunction(editor);
+  }
 }
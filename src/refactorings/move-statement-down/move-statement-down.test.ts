@@ -1,5 +1,6 @@
-import { Code, ErrorReason } from "../../editor/editor";
+import { Code } from "../../editor/editor";
 import { Position } from "../../editor/position";
+import { Selection } from "../../editor/selection";
 import { InMemoryEditor } from "../../editor/adapters/in-memory-editor";
 import { testEach } from "../../tests-helpers";
 
@@ -411,6 +412,137 @@ function sayByeBye() {
     }
   );
 
+  testEach<{
+    code: Code;
+    expected: Code;
+    expectedSelection: Selection;
+  }>(
+    "should move selected statements down",
+    [
+      {
+        description: "single-line statements",
+        code: `[start]console.log("First");
+console.log("Second");[end]
+console.log("Third");`,
+        expected: `console.log("Third");
+console.log("First");
+console.log("Second");`,
+        expectedSelection: new Selection([1, 0], [2, 22])
+      },
+      {
+        description: "statements partially selected",
+        code: `const a = 1;
+const b[start] = 2;
+const c[end] = 3;
+const d = 4;`,
+        expected: `const a = 1;
+const d = 4;
+const b = 2;
+const c = 3;`,
+        expectedSelection: new Selection([2, 7], [3, 7])
+      },
+      {
+        description: "whole lines selection",
+        code: `[start]console.log("First");
+console.log("Second");
+[end]console.log("Third");`,
+        expected: `console.log("Third");
+console.log("First");
+console.log("Second");`,
+        expectedSelection: new Selection([1, 0], [3, 0])
+      },
+      {
+        description: "multi-lines statements",
+        code: `[start]if (isValid) {
+  doSomething();
+}
+doSomethingElse();[end]
+console.log("Down");`,
+        expected: `console.log("Down");
+if (isValid) {
+  doSomething();
+}
+doSomethingElse();`,
+        expectedSelection: new Selection([1, 0], [4, 18])
+      },
+      {
+        description: "statements in a function",
+        code: `function doSomething() {
+  [start]console.log("Hello");
+  console.log("World");[end]
+  console.log("Down");
+}`,
+        expected: `function doSomething() {
+  console.log("Down");
+  console.log("Hello");
+  console.log("World");
+}`,
+        expectedSelection: new Selection([2, 2], [3, 23])
+      },
+      {
+        description: "object properties",
+        code: `const data = {
+  [start]foo: "foo",
+  bar: "bar",[end]
+  baz: "baz"
+};`,
+        expected: `const data = {
+  baz: "baz",
+  foo: "foo",
+  bar: "bar"
+};`,
+        expectedSelection: new Selection([2, 2], [3, 13])
+      },
+      {
+        description:
+          "statements above a blank line and a multi-lines statement",
+        code: `[start]const b = 1;
+const c = 2;[end]
+
+const d = {
+  foo: "bar"
+};`,
+        expected: `const d = {
+  foo: "bar"
+};
+const b = 1;
+
+const c = 2;`,
+        expectedSelection: new Selection([3, 0], [5, 12])
+      },
+      {
+        description: "statements above a blank line and a function",
+        code: `const a = 1;
+[start]const b = 1;
+const c = 2;[end]
+
+function d() {
+  return 1;
+}
+const e = 3;`,
+        expected: `const a = 1;
+
+function d() {
+  return 1;
+}
+
+const b = 1;
+const c = 2;
+
+const e = 3;`,
+        expectedSelection: new Selection([6, 0], [7, 12])
+      }
+    ],
+    async ({ code, expected, expectedSelection }) => {
+      const editor = new InMemoryEditor(code);
+
+      await moveStatementDown(editor);
+
+      expect(editor.code).toBe(expected);
+      expect(editor.selection).toStrictEqual(expectedSelection);
+    }
+  );
+
   it("should do nothing, nor show an error message if selected statement is at the bottom of the file", async () => {
     const code = `console.log(
   "nothing below this statement"
@@ -449,17 +581,17 @@ class Path {
     expect(editor.code).toBe(originalCode);
   });
 
-  it("should show an error message for multi-lines selections", async () => {
+  it("should do nothing, nor show an error message if selected statements are at the bottom of the file", async () => {
     const code = `console.log("First");
 [start]console.log("Second");
-[end]console.log("Third")`;
+console.log("Third");[end]`;
     const editor = new InMemoryEditor(code);
+    const originalCode = editor.code;
     jest.spyOn(editor, "showError");
 
     await moveStatementDown(editor);
 
-    expect(editor.showError).toBeCalledWith(
-      ErrorReason.CantMoveMultiLinesStatementDown
-    );
+    expect(editor.code).toBe(originalCode);
+    expect(editor.showError).not.toBeCalled();
   });
 });
@@ -3,18 +3,15 @@ import { Selection } from "../../editor/selection";
 import { Position } from "../../editor/position";
 import * as t from "../../ast";
 
+import { getSiblingsInSelection, selectMovedBlock } from "../move-statements";
+
 export { moveStatementDown };
 
 async function moveStatementDown(editor: Editor) {
   const { code, selection } = editor;
-  if (selection.isMultiLines) {
-    // This should be implemented.
-    // But it requires collecting all statements to move down to update the AST.
-    editor.showError(ErrorReason.CantMoveMultiLinesStatementDown);
-    return;
-  }
-
-  const updatedCode = updateCode(code, selection);
+  const updatedCode = selection.isMultiLines
+    ? updateCodeOfBlock(code, selection)
+    : updateCode(code, selection);
 
   if (!updatedCode.hasCodeChanged) {
     // Don't bother the user with an error message for this.
@@ -25,6 +22,9 @@ async function moveStatementDown(editor: Editor) {
   }
 
   await editor.write(updatedCode.code, updatedCode.newStatementPosition);
+  if (selection.isMultiLines) {
+    await editor.select(updatedCode.newSelection);
+  }
 }
 
 function updateCode(
@@ -33,6 +33,7 @@ function updateCode(
 ): t.Transformed & {
   isLastStatement: boolean;
   newStatementPosition: Position;
+  newSelection: Selection;
 } {
   let isLastStatement = false;
   let newStatementPosition = selection.start;
@@ -47,7 +48,12 @@ function updateCode(
     Literal: visitPath
   });
 
-  return { ...result, isLastStatement, newStatementPosition };
+  return {
+    ...result,
+    isLastStatement,
+    newStatementPosition,
+    newSelection: Selection.cursorAtPosition(newStatementPosition)
+  };
 
   function visitPath(path: t.NodePath) {
     if (!matchesSelection(path, selection)) return;
@@ -119,6 +125,70 @@ function updateCode(
   }
 }
 
+function updateCodeOfBlock(
+  code: Code,
+  selection: Selection
+): t.Transformed & {
+  isLastStatement: boolean;
+  newStatementPosition: Position;
+  newSelection: Selection;
+} {
+  let isLastStatement = false;
+  let block: t.NodePath[] = [];
+
+  const result = t.transform(code, {
+    Statement: visitPath,
+    ObjectProperty: visitPath,
+    ObjectMethod: visitPath,
+    ClassMethod: visitPath,
+    ClassProperty: visitPath,
+    ArrayExpression: visitPath,
+    Literal: visitPath,
+    Program: {
+      exit() {
+        moveBlockDown();
+      }
+    }
+  });
+
+  const newSelection = result.hasCodeChanged
+    ? selectMovedBlock(result.code, block, selection)
+    : selection;
+
+  return {
+    ...result,
+    isLastStatement,
+    newStatementPosition: newSelection.start,
+    newSelection
+  };
+
+  function visitPath(path: t.NodePath) {
+    const siblings = getSiblingsInSelection(path, selection);
+    if (siblings.length === 0) return;
+
+    // Since we visit nodes from parent to children, the last block we find
+    // is the closest to the selection.
+    block = siblings;
+  }
+
+  function moveBlockDown() {
+    if (block.length === 0) return;
+
+    const [firstPath] = block;
+    const [pathBelow] = block[block.length - 1].getAllNextSiblings();
+    if (!pathBelow) {
+      isLastStatement = true;
+      return;
+    }
+
+    if (!t.isSelectableNode(pathBelow.node)) return;
+
+    // The node below goes above the block: reset its `loc`.
+    firstPath.insertBefore({ ...pathBelow.node, loc: null });
+    pathBelow.remove();
+  }
+}
+
 function hasChildWhichMatchesSelection(
   path: t.NodePath,
   selection: Selection
@@ -1,5 +1,6 @@
-import { Code, ErrorReason } from "../../editor/editor";
+import { Code } from "../../editor/editor";
 import { Position } from "../../editor/position";
+import { Selection } from "../../editor/selection";
 import { InMemoryEditor } from "../../editor/adapters/in-memory-editor";
 import { testEach } from "../../tests-helpers";
 
@@ -404,6 +405,155 @@ function sayByeBye() {
     }
   );
 
+  testEach<{
+    code: Code;
+    expected: Code;
+    expectedSelection: Selection;
+  }>(
+    "should move selected statements up",
+    [
+      {
+        description: "single-line statements",
+        code: `console.log("First");
+[start]console.log("Second");
+console.log("Third");[end]`,
+        expected: `console.log("Second");
+console.log("Third");
+console.log("First");`,
+        expectedSelection: new Selection([0, 0], [1, 21])
+      },
+      {
+        description: "statements partially selected",
+        code: `const a = 1;
+const b[start] = 2;
+const c[end] = 3;
+const d = 4;`,
+        expected: `const b = 2;
+const c = 3;
+const a = 1;
+const d = 4;`,
+        expectedSelection: new Selection([0, 7], [1, 7])
+      },
+      {
+        description: "whole lines selection",
+        code: `console.log("First");
+[start]console.log("Second");
+console.log("Third");
+[end]console.log("Fourth");`,
+        expected: `console.log("Second");
+console.log("Third");
+console.log("First");
+console.log("Fourth");`,
+        expectedSelection: new Selection([0, 0], [2, 0])
+      },
+      {
+        description: "multi-lines statements",
+        code: `console.log("Up");
+
+[start]if (isValid) {
+  doSomething();
+}
+doSomethingElse();[end]`,
+        expected: `if (isValid) {
+  doSomething();
+}
+doSomethingElse();
+console.log("Up");`,
+        expectedSelection: new Selection([0, 0], [3, 18])
+      },
+      {
+        description: "statements with comments",
+        code: `console.log("Up");
+// Say hello
+[start]console.log("Hello");
+console.log("World");[end]`,
+        expected: `// Say hello
+console.log("Hello");
+console.log("World");
+console.log("Up");`,
+        expectedSelection: new Selection([1, 0], [2, 21])
+      },
+      {
+        description: "statements in a function",
+        code: `function doSomething() {
+  console.log("Up");
+  [start]console.log("Hello");
+  console.log("World");[end]
+}`,
+        expected: `function doSomething() {
+  console.log("Hello");
+  console.log("World");
+  console.log("Up");
+}`,
+        expectedSelection: new Selection([1, 2], [2, 23])
+      },
+      {
+        description: "class members",
+        code: `class Node {
+  size = 1;
+
+  [start]getSize() {
+    return this.size;
+  }
+
+  getName() {
+    return "foo";
+  }[end]
+}`,
+        expected: `class Node {
+  getSize() {
+    return this.size;
+  }
+
+  getName() {
+    return "foo";
+  }
+  size = 1;
+}`,
+        expectedSelection: new Selection([1, 2], [7, 3])
+      },
+      {
+        description: "object properties",
+        code: `const data = {
+  foo: "foo",
+  [start]bar: "bar",
+  baz: "baz"[end]
+};`,
+        expected: `const data = {
+  bar: "bar",
+  baz: "baz",
+  foo: "foo"
+};`,
+        expectedSelection: new Selection([1, 2], [2, 12])
+      },
+      {
+        description:
+          "statements below a multi-lines statement and a blank line",
+        code: `const d = {
+  foo: "bar"
+};
+
+[start]const b = 1;
+const c = 2;[end]`,
+        expected: `const b = 1;
+
+const c = 2;
+const d = {
+  foo: "bar"
+};`,
+        expectedSelection: new Selection([0, 0], [2, 12])
+      }
+    ],
+    async ({ code, expected, expectedSelection }) => {
+      const editor = new InMemoryEditor(code);
+
+      await moveStatementUp(editor);
+
+      expect(editor.code).toBe(expected);
+      expect(editor.selection).toStrictEqual(expectedSelection);
+    }
+  );
+
   it("should do nothing, nor show an error message if selected statement is at the top of the file", async () => {
     const code = `console.log(
   "nothing up this statement"
@@ -444,17 +594,17 @@ class Path {
     expect(editor.code).toBe(originalCode);
   });
 
-  it("should show an error message for multi-lines selections", async () => {
-    const code = `console.log("First");
-[start]console.log("Second");
-[end]console.log("Third")`;
+  it("should do nothing, nor show an error message if selected statements are at the top of the file", async () => {
+    const code = `[start]console.log("First");
+console.log("Second");[end]
+console.log("Third");`;
     const editor = new InMemoryEditor(code);
+    const originalCode = editor.code;
     jest.spyOn(editor, "showError");
 
     await moveStatementUp(editor);
 
-    expect(editor.showError).toBeCalledWith(
-      ErrorReason.CantMoveMultiLinesStatementUp
-    );
+    expect(editor.code).toBe(originalCode);
+    expect(editor.showError).not.toBeCalled();
   });
 });
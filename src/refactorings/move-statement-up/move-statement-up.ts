@@ -3,18 +3,15 @@ import { Selection } from "../../editor/selection";
 import { Position } from "../../editor/position";
 import * as t from "../../ast";
 
+import { getSiblingsInSelection, selectMovedBlock } from "../move-statements";
+
 export { moveStatementUp };
 
 async function moveStatementUp(editor: Editor) {
   const { code, selection } = editor;
-  if (selection.isMultiLines) {
-    // This should be implemented.
-    // But it requires collecting all statements to move up to update the AST.
-    editor.showError(ErrorReason.CantMoveMultiLinesStatementUp);
-    return;
-  }
-
-  const updatedCode = updateCode(code, selection);
+  const updatedCode = selection.isMultiLines
+    ? updateCodeOfBlock(code, selection)
+    : updateCode(code, selection);
 
   if (!updatedCode.hasCodeChanged) {
     // Don't bother the user with an error message for this.
@@ -25,6 +22,9 @@ async function moveStatementUp(editor: Editor) {
   }
 
   await editor.write(updatedCode.code, updatedCode.newStatementPosition);
+  if (selection.isMultiLines) {
+    await editor.select(updatedCode.newSelection);
+  }
 }
 
 function updateCode(
@@ -33,6 +33,7 @@ function updateCode(
 ): t.Transformed & {
   isFirstStatement: boolean;
   newStatementPosition: Position;
+  newSelection: Selection;
 } {
   let isFirstStatement = false;
   let newStatementPosition = selection.start;
@@ -47,7 +48,12 @@ function updateCode(
     Literal: visitPath
   });
 
-  return { ...result, isFirstStatement, newStatementPosition };
+  return {
+    ...result,
+    isFirstStatement,
+    newStatementPosition,
+    newSelection: Selection.cursorAtPosition(newStatementPosition)
+  };
 
   function visitPath(path: t.NodePath) {
     if (!matchesSelection(path, selection)) return;
@@ -106,6 +112,71 @@ function updateCode(
   }
 }
 
+function updateCodeOfBlock(
+  code: Code,
+  selection: Selection
+): t.Transformed & {
+  isFirstStatement: boolean;
+  newStatementPosition: Position;
+  newSelection: Selection;
+} {
+  let isFirstStatement = false;
+  let block: t.NodePath[] = [];
+
+  const result = t.transform(code, {
+    Statement: visitPath,
+    ObjectProperty: visitPath,
+    ObjectMethod: visitPath,
+    ClassMethod: visitPath,
+    ClassProperty: visitPath,
+    ArrayExpression: visitPath,
+    Literal: visitPath,
+    Program: {
+      exit() {
+        moveBlockUp();
+      }
+    }
+  });
+
+  const newSelection = result.hasCodeChanged
+    ? selectMovedBlock(result.code, block, selection)
+    : selection;
+
+  return {
+    ...result,
+    isFirstStatement,
+    newStatementPosition: newSelection.start,
+    newSelection
+  };
+
+  function visitPath(path: t.NodePath) {
+    const siblings = getSiblingsInSelection(path, selection);
+    if (siblings.length === 0) return;
+
+    // Since we visit nodes from parent to children, the last block we find
+    // is the closest to the selection.
+    block = siblings;
+  }
+
+  function moveBlockUp() {
+    if (block.length === 0) return;
+
+    const [firstPath] = block;
+    const [pathAbove] = firstPath.getAllPrevSiblings();
+    if (!pathAbove) {
+      isFirstStatement = true;
+      return;
+    }
+
+    if (!t.isSelectableNode(pathAbove.node)) return;
+
+    // The node above goes below the block: reset its `loc`.
+    const lastPath = block[block.length - 1];
+    lastPath.insertAfter({ ...pathAbove.node, loc: null });
+    pathAbove.remove();
+  }
+}
+
 function hasComments<T extends t.NodePath>(
   path: T
 ): path is T & { node: { leadingComments: t.Comment[] } } {
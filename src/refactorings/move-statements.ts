@@ -0,0 +1,105 @@
+import { Code } from "../editor/editor";
+import { Selection } from "../editor/selection";
+import { Position } from "../editor/position";
+import * as t from "../ast";
+import { last } from "../array";
+
+export { getSiblingsInSelection, selectMovedBlock };
+
+/**
+ * Statements selected together, if the selection starts with `path`.
+ */
+function getSiblingsInSelection(
+  path: t.NodePath,
+  selection: Selection
+): t.NodePath[] {
+  if (!path.inList) return [];
+
+  const siblings = [
+    ...path.getAllPrevSiblings().reverse(),
+    path,
+    ...path.getAllNextSiblings()
+  ].filter((sibling) => isTouchedBySelection(sibling, selection));
+
+  const [firstSibling] = siblings;
+  const lastSibling = last(siblings);
+  if (!firstSibling || firstSibling.node !== path.node) return [];
+  if (!lastSibling || !t.isSelectableNode(lastSibling.node)) return [];
+
+  const blockSelection = Selection.fromPositions(
+    new Position(startLineWithComments(firstSibling), 0),
+    Position.fromAST(lastSibling.node.loc.end)
+  ).extendToStartOfNextLine();
+  if (!selection.isInside(blockSelection)) return [];
+
+  return siblings;
+}
+
+/**
+ * Recast may add or move blank lines around the moved statements.
+ * We look for them in the printed code to select them again.
+ */
+function selectMovedBlock(
+  code: Code,
+  block: t.NodePath[],
+  selection: Selection
+): Selection {
+  const [firstPath] = block;
+  const lastPath = last(block);
+  if (!firstPath || !t.isSelectableNode(firstPath.node)) return selection;
+  if (!lastPath || !t.isSelectableNode(lastPath.node)) return selection;
+
+  const firstLocation = firstPath.getPathLocation();
+  const lastLocation = lastPath.getPathLocation();
+  const printed: { first?: t.Node; last?: t.Node } = {};
+
+  t.parseAndTraverseCode(code, {
+    enter(path) {
+      const location = path.getPathLocation();
+      if (location === firstLocation) printed.first = path.node;
+      if (location === lastLocation) {
+        printed.last = path.node;
+        path.stop();
+      }
+    }
+  });
+
+  if (!printed.first || !t.isSelectableNode(printed.first)) return selection;
+  if (!printed.last || !t.isSelectableNode(printed.last)) return selection;
+
+  const startLinesMoved =
+    Selection.fromAST(printed.first.loc).start.line -
+    Selection.fromAST(firstPath.node.loc).start.line;
+  const endLinesMoved =
+    Selection.fromAST(printed.last.loc).end.line -
+    Selection.fromAST(lastPath.node.loc).end.line;
+
+  return Selection.fromPositions(
+    selection.start.addLines(startLinesMoved),
+    selection.end.addLines(endLinesMoved)
+  );
+}
+
+function isTouchedBySelection(path: t.NodePath, selection: Selection): boolean {
+  const { node } = path;
+  if (!t.isSelectableNode(node)) return false;
+
+  // Selecting whole lines ends the selection at the start of the next one.
+  const endLine =
+    selection.end.character === 0 ? selection.end.line - 1 : selection.end.line;
+
+  const nodeSelection = Selection.fromAST(node.loc);
+  return (
+    nodeSelection.start.line <= endLine &&
+    nodeSelection.end.line >= selection.start.line
+  );
+}
+
+function startLineWithComments(path: t.NodePath): number {
+  const { node } = path;
+  if (node.leadingComments && node.leadingComments.length > 0) {
+    return Selection.fromAST(node.leadingComments[0].loc).start.line;
+  }
+
+  return t.isSelectableNode(node) ? Selection.fromAST(node.loc).start.line : 0;
+}
@@ -129,6 +129,62 @@ export function sayHello() {
   console.log(HELLO, WORLD);
 }`
         }
+      },
+      {
+        description: "an exported function declaration",
+        setup: {
+          currentFile: `export function [cursor]doNothing() {}
+
+doNothing();`,
+          otherFile: "",
+          path: new RelativePath("./other-file.ts")
+        },
+        expected: {
+          currentFile: `import { doNothing } from "./other-file";
+
+doNothing();`,
+          otherFile: `export function doNothing() {}`
+        }
+      },
+      {
+        description: "a default exported function declaration",
+        setup: {
+          currentFile: `export default function [cursor]doNothing() {}`,
+          otherFile: "",
+          path: new RelativePath("./other-file.ts")
+        },
+        expected: {
+          currentFile: `import { doNothing } from "./other-file";`,
+          otherFile: `export function doNothing() {}`
+        }
+      },
+      {
+        description: "in another file that imports it",
+        setup: {
+          currentFile: `export function [cursor]doNothing() {}`,
+          otherFile: `import { doNothing } from "./abracadabra";
+
+doNothing();`,
+          path: new RelativePath("./other-file.ts")
+        },
+        expected: {
+          currentFile: `import { doNothing } from "./other-file";`,
+          otherFile: `doNothing();
+export function doNothing() {}`
+        }
+      },
+      {
+        description: "in another file that re-exports it",
+        setup: {
+          currentFile: `export function [cursor]doNothing() {}`,
+          otherFile: `export { doNothing as noop } from "./abracadabra";`,
+          path: new RelativePath("./other-file.ts")
+        },
+        expected: {
+          currentFile: `import { doNothing } from "./other-file";`,
+          otherFile: `export { doNothing as noop };
+export function doNothing() {}`
+        }
       }
     ],
     async ({ setup, expected }) => {
@@ -155,12 +211,10 @@ export function sayHello() {
 sayHello();`
       },
       {
-        description: "if function is directly exported",
-        code: `export function [cursor]sayHello() {
+        description: "if cursor is inside exported function body",
+        code: `export function sayHello() {[cursor]
   console.log("hello");
-}
-
-sayHello();`
+}`
       },
       {
         description: "a nested function declaration",
@@ -201,6 +255,46 @@ function referencedHere() {}`
     }
   );
 
+  it("should update imports in other files of the workspace", async () => {
+    const code = `export function [cursor]doNothing() {}`;
+    const editor = new InMemoryEditor(code);
+    const destination = new RelativePath("./destination.ts");
+    const importingFile = new RelativePath("./nested/importing-file.ts");
+    editor.writeIn(destination, "");
+    editor.writeIn(
+      importingFile,
+      `import { doNothing } from "../abracadabra";`
+    );
+    jest.spyOn(editor, "showInformation");
+
+    await moveToExistingFile(editor);
+
+    const importingFileCode = await editor.codeOf(importingFile);
+    expect(importingFileCode).toBe(
+      `import { doNothing } from "../destination";`
+    );
+    expect(editor.showInformation).toBeCalledWith(
+      "Updated imports in 1 file: ./nested/importing-file.ts"
+    );
+  });
+
+  it("should undo the whole refactoring in one step", async () => {
+    const code = `export function [cursor]doNothing() {}`;
+    const editor = new InMemoryEditor(code);
+    const destination = new RelativePath("./destination.ts");
+    const importingFile = new RelativePath("./importing-file.ts");
+    const importingFileCode = `import { doNothing } from "./abracadabra";`;
+    editor.writeIn(destination, "");
+    editor.writeIn(importingFile, importingFileCode);
+
+    await moveToExistingFile(editor);
+    await editor.undo();
+
+    expect(editor.code).toBe(`export function doNothing() {}`);
+    expect(await editor.codeOf(destination)).toBe("");
+    expect(await editor.codeOf(importingFile)).toBe(importingFileCode);
+  });
+
   it("should ask user to select among other files", async () => {
     const code = `function [cursor]doSomething() {}`;
     const editor = new InMemoryEditor(code);
@@ -208,6 +302,7 @@ function referencedHere() {}`
     editor.writeIn(new RelativePath("./yet-another-file.js"), "");
     editor.writeIn(new RelativePath("../../another-react-file.tsx"), "");
     editor.writeIn(new RelativePath("./yet-another-react-file.jsx"), "");
+    editor.writeIn(new RelativePath("./some-component.vue"), "");
     jest.spyOn(editor, "askUserChoice");
 
     await moveToExistingFile(editor);
@@ -1,13 +1,23 @@
 import { Editor, ErrorReason, RelativePath } from "../../editor/editor";
 import { Selection } from "../../editor/selection";
+import { isVueFile } from "../../editor/vue";
 import * as t from "../../ast";
+import {
+  updateImportsInWorkspace,
+  showUpdatedImportsSummary,
+  createUpdateImportsVisitor,
+  MovedSymbol
+} from "../update-imports-in-workspace";
 
 export { moveToExistingFile, createVisitor };
 
 async function moveToExistingFile(editor: Editor) {
   const { code, selection } = editor;
 
-  const files = await editor.workspaceFiles();
+  // We can't move code into the script of Vue files yet.
+  const files = (await editor.workspaceFiles()).filter(
+    (path) => !isVueFile(path)
+  );
   if (files.length === 0) {
     editor.showError(ErrorReason.DidNotFindOtherFiles);
     return;
@@ -29,6 +39,7 @@ async function moveToExistingFile(editor: Editor) {
     updatedCode,
     hasReferencesThatCantBeImported,
     movedNode,
+    movedSymbol,
     declarationsToImport
   } = updateCode(t.parse(code), selection, relativePath);
 
@@ -42,15 +53,30 @@ async function moveToExistingFile(editor: Editor) {
     return;
   }
 
-  const otherFileCode = await editor.codeOf(relativePath);
-  const otherFileUpdatedCode = updateOtherFileCode(
-    t.parse(otherFileCode),
-    movedNode,
-    declarationsToImport
-  );
-
-  await editor.writeIn(relativePath, otherFileUpdatedCode.code);
-  await editor.write(updatedCode.code);
+  let updatedFiles: RelativePath[] = [];
+  await editor.transaction(async (editor) => {
+    updatedFiles = await updateImportsInWorkspace(
+      editor,
+      movedSymbol,
+      relativePath
+    );
+
+    const otherFileCode = await editor.codeOf(relativePath);
+    const otherFileUpdatedCode = updateOtherFileCode(
+      t.parse(otherFileCode, t.syntaxOfFile(relativePath.value, otherFileCode)),
+      movedNode,
+      declarationsToImport,
+      createUpdateImportsVisitor(
+        movedSymbol,
+        new RelativePath(editor.fileName).relativeTo(relativePath),
+        null
+      )
+    );
+
+    await editor.writeIn(relativePath, otherFileUpdatedCode.code);
+    await editor.write(updatedCode.code);
+  });
+  await showUpdatedImportsSummary(editor, updatedFiles);
 }
 
 function updateCode(
@@ -61,16 +87,22 @@ function updateCode(
   updatedCode: t.Transformed;
   hasReferencesThatCantBeImported: boolean;
   movedNode: t.Node;
+  movedSymbol: MovedSymbol;
   declarationsToImport: t.ImportDeclaration[];
 } {
   let hasReferencesThatCantBeImported = false;
   let movedNode: t.Node = t.emptyStatement();
+  let movedSymbol: MovedSymbol = { name: "", isDefaultExport: false };
   let declarationsToImport: t.ImportDeclaration[] = [];
 
   const updatedCode = t.transformAST(
     ast,
     createVisitor(selection, (path, importIdentifier, programPath) => {
       movedNode = path.node;
+      movedSymbol = {
+        name: importIdentifier.name,
+        isDefaultExport: path.parentPath.isExportDefaultDeclaration()
+      };
 
       hasReferencesThatCantBeImported = t.hasReferencesDefinedInSameScope(
         path,
@@ -99,7 +131,10 @@ function updateCode(
         relativePath.withoutExtension
       );
 
-      path.remove();
+      const statementPath = path.parentPath.isProgram()
+        ? path
+        : path.parentPath;
+      statementPath.remove();
     })
   );
 
@@ -107,6 +142,7 @@ function updateCode(
     updatedCode,
     hasReferencesThatCantBeImported,
     movedNode,
+    movedSymbol,
     declarationsToImport
   };
 }
@@ -114,9 +150,11 @@ function updateCode(
 function updateOtherFileCode(
   ast: t.AST,
   movedNode: t.Node,
-  declarationsToImport: t.ImportDeclaration[]
+  declarationsToImport: t.ImportDeclaration[],
+  updateImportsVisitor: t.Visitor
 ): t.Transformed {
   return t.transformAST(ast, {
+    ...updateImportsVisitor,
     Program(path) {
       declarationsToImport.forEach((declaration) => {
         declaration.specifiers.forEach((specifier) => {
@@ -146,9 +184,14 @@ function createVisitor(
 ): t.Visitor {
   return {
     FunctionDeclaration(path) {
-      if (!path.parentPath.isProgram()) return;
+      const statementPath = path.parentPath.isExportDeclaration()
+        ? path.parentPath
+        : path;
+      const programPath = statementPath.parentPath;
+      if (!programPath.isProgram()) return;
       if (!path.node.id) return;
-      if (!selection.isInsidePath(path)) return;
+      // Exported declarations have no LOC, the export statement does.
+      if (!selection.isInsidePath(statementPath)) return;
 
       const body = path.get("body");
       if (!t.isSelectablePath(body)) return;
@@ -156,7 +199,7 @@ function createVisitor(
       const bodySelection = Selection.fromAST(body.node.loc);
       if (selection.end.isAfter(bodySelection.start)) return;
 
-      onMatch(path, path.node.id, path.parentPath);
+      onMatch(path, path.node.id, programPath);
     }
   };
 }
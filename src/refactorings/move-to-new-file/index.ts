@@ -0,0 +1,17 @@
+import { moveToNewFile, createVisitor } from "./move-to-new-file";
+
+import { RefactoringWithActionProvider } from "../../types";
+
+const config: RefactoringWithActionProvider = {
+  command: {
+    key: "moveToNewFile",
+    operation: moveToNewFile,
+    title: "Move to New File"
+  },
+  actionProvider: {
+    message: "Move to a new file",
+    createVisitor
+  }
+};
+
+export default config;
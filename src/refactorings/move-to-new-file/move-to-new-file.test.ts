@@ -0,0 +1,372 @@
+import { ErrorReason, Code, RelativePath } from "../../editor/editor";
+import { InMemoryEditor } from "../../editor/adapters/in-memory-editor";
+import { testEach } from "../../tests-helpers";
+
+import { moveToNewFile } from "./move-to-new-file";
+
+describe("Move To New File", () => {
+  testEach<{
+    code: Code;
+    expected: { currentFile: Code; newFile: Code; path: RelativePath };
+  }>(
+    "should move to new file",
+    [
+      {
+        description: "a root-level function declaration",
+        code: `import { someValue } from "lib";
+
+function [cursor]doNothing() {}
+
+doNothing();`,
+        expected: {
+          currentFile: `import { doNothing } from "./doNothing";
+import { someValue } from "lib";
+
+doNothing();`,
+          newFile: `export function doNothing() {}`,
+          path: new RelativePath("./doNothing.ts")
+        }
+      },
+      {
+        description: "an exported function declaration",
+        code: `export function [cursor]sayHello(name) {
+  console.log("Hello " + name);
+}`,
+        expected: {
+          currentFile: `import { sayHello } from "./sayHello";`,
+          newFile: `export function sayHello(name) {
+  console.log("Hello " + name);
+}`,
+          path: new RelativePath("./sayHello.ts")
+        }
+      },
+      {
+        description: "a default exported class declaration",
+        code: `export default class [cursor]Greeter {}`,
+        expected: {
+          currentFile: `import { Greeter } from "./Greeter";
+export default Greeter;`,
+          newFile: `export class Greeter {}`,
+          path: new RelativePath("./Greeter.ts")
+        }
+      },
+      {
+        description: "a default exported function declaration",
+        code: `export default function [cursor]greet() {}
+
+greet();`,
+        expected: {
+          currentFile: `import { greet } from "./greet";
+export default greet;
+
+greet();`,
+          newFile: `export function greet() {}`,
+          path: new RelativePath("./greet.ts")
+        }
+      },
+      {
+        description: "a class declaration",
+        code: `class [cursor]Greeter {
+  greet() {
+    return "Hello";
+  }
+}
+
+new Greeter();`,
+        expected: {
+          currentFile: `import { Greeter } from "./Greeter";
+
+new Greeter();`,
+          newFile: `export class Greeter {
+  greet() {
+    return "Hello";
+  }
+}`,
+          path: new RelativePath("./Greeter.ts")
+        }
+      },
+      {
+        description: "a variable declaration",
+        code: `const [cursor]GREETING = "Hello";
+
+console.log(GREETING);`,
+        expected: {
+          currentFile: `import { GREETING } from "./GREETING";
+
+console.log(GREETING);`,
+          newFile: `export const GREETING = "Hello";`,
+          path: new RelativePath("./GREETING.ts")
+        }
+      },
+      {
+        description: "a type alias",
+        code: `type [cursor]Name = string;
+
+const name: Name = "Jane";`,
+        expected: {
+          currentFile: `import { Name } from "./Name";
+
+const name: Name = "Jane";`,
+          newFile: `export type Name = string;`,
+          path: new RelativePath("./Name.ts")
+        }
+      },
+      {
+        description: "an interface",
+        code: `interface [cursor]Person {
+  name: string;
+}
+
+const jane: Person = { name: "Jane" };`,
+        expected: {
+          currentFile: `import { Person } from "./Person";
+
+const jane: Person = { name: "Jane" };`,
+          newFile: `export interface Person {
+  name: string;
+}`,
+          path: new RelativePath("./Person.ts")
+        }
+      },
+      {
+        description: "with imported references",
+        code: `import { HELLO, WORLD } from "../constants";
+import log from "./logger";
+
+function [cursor]sayHello() {
+  log(HELLO, WORLD);
+}
+
+sayHello();`,
+        expected: {
+          currentFile: `import { sayHello } from "./sayHello";
+import { HELLO, WORLD } from "../constants";
+import log from "./logger";
+
+sayHello();`,
+          newFile: `import { HELLO, WORLD } from "../constants";
+import log from "./logger";
+
+export function sayHello() {
+  log(HELLO, WORLD);
+}`,
+          path: new RelativePath("./sayHello.ts")
+        }
+      },
+      {
+        description: "with imported packages",
+        code: `import React from "react";
+import { render } from "react-dom";
+
+function [cursor]mount() {
+  render(React.createElement("main"), document.body);
+}
+
+mount();`,
+        expected: {
+          currentFile: `import { mount } from "./mount";
+import React from "react";
+import { render } from "react-dom";
+
+mount();`,
+          newFile: `import React from "react";
+import { render } from "react-dom";
+
+export function mount() {
+  render(React.createElement("main"), document.body);
+}`,
+          path: new RelativePath("./mount.ts")
+        }
+      },
+      {
+        description: "a recursive function",
+        code: `function [cursor]countDown(n) {
+  if (n > 0) countDown(n - 1);
+}`,
+        expected: {
+          currentFile: `import { countDown } from "./countDown";`,
+          newFile: `export function countDown(n) {
+  if (n > 0) countDown(n - 1);
+}`,
+          path: new RelativePath("./countDown.ts")
+        }
+      }
+    ],
+    async ({ code, expected }) => {
+      const editor = new InMemoryEditor(code);
+
+      await moveToNewFile(editor);
+
+      expect(editor.code).toBe(expected.currentFile);
+      const newFileCode = await editor.codeOf(expected.path);
+      expect(newFileCode).toBe(expected.newFile);
+    }
+  );
+
+  testEach<{
+    setup: { otherFile: Code; path: RelativePath };
+    expected: Code;
+  }>(
+    "should update imports of other files",
+    [
+      {
+        description: "import of the moved symbol only",
+        setup: {
+          otherFile: `import { doNothing } from "./abracadabra";`,
+          path: new RelativePath("./other-file.ts")
+        },
+        expected: `import { doNothing } from "./doNothing";`
+      },
+      {
+        description: "aliased import",
+        setup: {
+          otherFile: `import { doNothing as noop } from "./abracadabra";`,
+          path: new RelativePath("./other-file.ts")
+        },
+        expected: `import { doNothing as noop } from "./doNothing";`
+      },
+      {
+        description: "import with other specifiers",
+        setup: {
+          otherFile: `import { doSomething, doNothing } from "./abracadabra";`,
+          path: new RelativePath("./other-file.ts")
+        },
+        expected: `import { doSomething } from "./abracadabra";
+import { doNothing } from "./doNothing";`
+      },
+      {
+        description: "import from a nested file",
+        setup: {
+          otherFile: `import { doNothing } from "../abracadabra";`,
+          path: new RelativePath("./nested/other-file.ts")
+        },
+        expected: `import { doNothing } from "../doNothing";`
+      },
+      {
+        description: "re-export",
+        setup: {
+          otherFile: `export { doNothing } from "./abracadabra";`,
+          path: new RelativePath("./other-file.ts")
+        },
+        expected: `export { doNothing } from "./doNothing";`
+      },
+      {
+        description: "import from another module with the same symbol",
+        setup: {
+          otherFile: `import { doNothing } from "./another-module";`,
+          path: new RelativePath("./other-file.ts")
+        },
+        expected: `import { doNothing } from "./another-module";`
+      }
+    ],
+    async ({ setup, expected }) => {
+      const editor = new InMemoryEditor(`export function [cursor]doNothing() {}
+export function doSomething() {}`);
+      editor.writeIn(setup.path, setup.otherFile);
+
+      await moveToNewFile(editor);
+
+      const otherFileCode = await editor.codeOf(setup.path);
+      expect(otherFileCode).toBe(expected);
+    }
+  );
+
+  testEach<{ code: Code }>(
+    "should not move",
+    [
+      {
+        description: "if cursor is inside exported function body",
+        code: `export function sayHello() {[cursor]
+  console.log("hello");
+}`
+      },
+      {
+        description: "if cursor is inside function body",
+        code: `function sayHello() {[cursor]
+  console.log("hello");
+}`
+      },
+      {
+        description: "a nested function declaration",
+        code: `function doSomething() {
+  function [cursor]doNothing() {}
+
+  doNothing();
+}`
+      },
+      {
+        description: "multiple variable declarations",
+        code: `const [cursor]hello = "Hello", world = "World";`
+      },
+      {
+        description: "a reassigned variable",
+        code: `let [cursor]count = 0;
+count++;`
+      },
+      {
+        description: "a declaration with references defined in the same file",
+        code: `const someVariable = "world";
+
+function [cursor]doSomething() {
+  console.log(someVariable);
+}`
+      },
+      {
+        description: "a type with references defined in the same file",
+        code: `type Name = string;
+
+interface [cursor]Person {
+  name: Name;
+}`
+      }
+    ],
+    async ({ code }) => {
+      const editor = new InMemoryEditor(code);
+      const originalCode = editor.code;
+
+      await moveToNewFile(editor);
+
+      expect(editor.code).toBe(originalCode);
+      expect(await editor.workspaceFiles()).toEqual([]);
+    }
+  );
+
+  it("should undo the whole refactoring in one step", async () => {
+    const code = `export function [cursor]doNothing() {}`;
+    const editor = new InMemoryEditor(code);
+    const importingFile = new RelativePath("./importing-file.ts");
+    const importingFileCode = `import { doNothing } from "./abracadabra";`;
+    editor.writeIn(importingFile, importingFileCode);
+
+    await moveToNewFile(editor);
+    await editor.undo();
+
+    expect(editor.code).toBe(`export function doNothing() {}`);
+    expect(await editor.codeOf(importingFile)).toBe(importingFileCode);
+    expect(await editor.workspaceFiles()).toEqual([importingFile]);
+  });
+
+  it("should show an error message if refactoring can't be made", async () => {
+    const code = `// This is a comment, can't be refactored`;
+    const editor = new InMemoryEditor(code);
+    jest.spyOn(editor, "showError");
+
+    await moveToNewFile(editor);
+
+    expect(editor.showError).toBeCalledWith(ErrorReason.DidNotFindCodeToMove);
+  });
+
+  it("should show an error message if the new file already exists", async () => {
+    const code = `function [cursor]doSomething() {}`;
+    const editor = new InMemoryEditor(code);
+    editor.writeIn(new RelativePath("./doSomething.ts"), "// Existing file");
+    jest.spyOn(editor, "showError");
+
+    await moveToNewFile(editor);
+
+    expect(editor.showError).toBeCalledWith(
+      ErrorReason.CantMoveToNewFileThatAlreadyExists
+    );
+    expect(editor.code).toBe(code.replace("[cursor]", ""));
+  });
+});
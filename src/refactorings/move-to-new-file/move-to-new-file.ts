@@ -0,0 +1,251 @@
+import { Editor, ErrorReason, RelativePath } from "../../editor/editor";
+import { Selection } from "../../editor/selection";
+import * as t from "../../ast";
+import {
+  updateImportsInWorkspace,
+  showUpdatedImportsSummary,
+  MovedSymbol
+} from "../update-imports-in-workspace";
+
+export { moveToNewFile, createVisitor };
+
+async function moveToNewFile(editor: Editor) {
+  const { code, selection } = editor;
+  const extension = new RelativePath(editor.fileName).extension;
+
+  const {
+    updatedCode,
+    hasReferencesThatCantBeImported,
+    movedNode,
+    movedSymbol,
+    declarationsToImport,
+    relativePath
+  } = updateCode(t.parse(code), selection, extension);
+
+  if (!updatedCode.hasCodeChanged || !relativePath) {
+    editor.showError(ErrorReason.DidNotFindCodeToMove);
+    return;
+  }
+
+  if (hasReferencesThatCantBeImported) {
+    editor.showError(ErrorReason.CantImportReferences);
+    return;
+  }
+
+  const files = await editor.workspaceFiles();
+  if (files.some((path) => path.equals(relativePath.value))) {
+    editor.showError(ErrorReason.CantMoveToNewFileThatAlreadyExists);
+    return;
+  }
+
+  let updatedFiles: RelativePath[] = [];
+  await editor.transaction(async (editor) => {
+    updatedFiles = await updateImportsInWorkspace(
+      editor,
+      movedSymbol,
+      relativePath
+    );
+
+    const newFileCode = createNewFileCode(movedNode, declarationsToImport);
+    await editor.writeIn(relativePath, newFileCode);
+    await editor.write(updatedCode.code);
+  });
+  await showUpdatedImportsSummary(editor, updatedFiles);
+}
+
+function updateCode(
+  ast: t.AST,
+  selection: Selection,
+  extension: string
+): {
+  updatedCode: t.Transformed;
+  hasReferencesThatCantBeImported: boolean;
+  movedNode: t.Statement;
+  movedSymbol: MovedSymbol;
+  declarationsToImport: t.ImportDeclaration[];
+  relativePath: RelativePath | null;
+} {
+  let hasReferencesThatCantBeImported = false;
+  let movedNode: t.Statement = t.emptyStatement();
+  let movedSymbol: MovedSymbol = { name: "", isDefaultExport: false };
+  let declarationsToImport: t.ImportDeclaration[] = [];
+  let relativePath: RelativePath | null = null;
+
+  const updatedCode = t.transformAST(
+    ast,
+    createVisitor(
+      selection,
+      (path, declarationPath, importIdentifier, programPath) => {
+        const newFilePath = new RelativePath(
+          `${importIdentifier.name}${extension}`
+        );
+        relativePath = newFilePath;
+        movedNode = declarationPath.node;
+        movedSymbol = {
+          name: importIdentifier.name,
+          isDefaultExport: path.isExportDefaultDeclaration()
+        };
+
+        hasReferencesThatCantBeImported = t.hasReferencesDefinedInSameScope(
+          declarationPath,
+          programPath
+        );
+
+        declarationsToImport = t
+          .getReferencedImportDeclarations(declarationPath, programPath)
+          .map((declaration) => {
+            // Packages are imported the same way from any file.
+            if (!declaration.source.value.startsWith(".")) return declaration;
+
+            const importRelativePath = new RelativePath(
+              declaration.source.value
+            ).relativeTo(newFilePath);
+
+            return {
+              ...declaration,
+              source: {
+                ...declaration.source,
+                value: importRelativePath.value
+              }
+            };
+          });
+
+        t.addImportDeclaration(
+          programPath,
+          importIdentifier,
+          newFilePath.withoutExtension
+        );
+
+        if (path.isExportDefaultDeclaration()) {
+          // Keep the default export for modules that import this file.
+          path.replaceWith(t.exportDefaultDeclaration(importIdentifier));
+          return;
+        }
+
+        path.remove();
+      }
+    )
+  );
+
+  return {
+    updatedCode,
+    hasReferencesThatCantBeImported,
+    movedNode,
+    movedSymbol,
+    declarationsToImport,
+    relativePath
+  };
+}
+
+function createNewFileCode(
+  movedNode: t.Statement,
+  declarationsToImport: t.ImportDeclaration[]
+): string {
+  const specifiersBySource = new Map<
+    string,
+    t.ImportDeclaration["specifiers"]
+  >();
+  // Keep imports in the same order than in the original file.
+  const sortedDeclarations = [...declarationsToImport].sort(
+    (a, b) => (a.start || 0) - (b.start || 0)
+  );
+  sortedDeclarations.forEach(({ source, specifiers }) => {
+    const existingSpecifiers = specifiersBySource.get(source.value) || [];
+    const newSpecifiers = specifiers.filter(
+      (specifier) => !existingSpecifiers.includes(specifier)
+    );
+    specifiersBySource.set(source.value, [
+      ...existingSpecifiers,
+      ...newSpecifiers
+    ]);
+  });
+
+  const importStatements = Array.from(
+    specifiersBySource.entries()
+  ).map(([source, specifiers]) =>
+    t.importDeclaration(specifiers, t.stringLiteral(source))
+  );
+  const exportedStatement = t.toStatement(t.exportNamedDeclaration(movedNode));
+
+  return t.print(t.program([...importStatements, exportedStatement]));
+}
+
+function createVisitor(
+  selection: Selection,
+  onMatch: (
+    path: t.NodePath<t.Statement>,
+    declarationPath: t.NodePath<t.Statement>,
+    importIdentifier: t.Identifier,
+    program: t.NodePath<t.Program>
+  ) => void
+): t.Visitor {
+  return {
+    Statement(path) {
+      if (!path.parentPath.isProgram()) return;
+      if (!selection.isInsidePath(path)) return;
+
+      const declarationPath: t.NodePath =
+        path.isExportNamedDeclaration() || path.isExportDefaultDeclaration()
+          ? (path.get("declaration") as t.NodePath)
+          : path;
+      if (!declarationPath.isStatement()) return;
+
+      const identifier = getDeclaredIdentifier(declarationPath);
+      if (!identifier) return;
+
+      const body = getBody(declarationPath);
+      if (body) {
+        const bodySelection = Selection.fromAST(body.loc);
+        if (selection.end.isAfter(bodySelection.start)) return;
+      }
+
+      onMatch(path, declarationPath, identifier, path.parentPath);
+    }
+  };
+}
+
+function getDeclaredIdentifier(
+  path: t.NodePath<t.Statement>
+): t.Identifier | null {
+  const { node } = path;
+
+  if (t.isFunctionDeclaration(node) || t.isClassDeclaration(node)) {
+    return node.id;
+  }
+
+  if (t.isTSTypeAliasDeclaration(node) || t.isTSInterfaceDeclaration(node)) {
+    return node.id;
+  }
+
+  if (t.isVariableDeclaration(node)) {
+    if (node.declarations.length !== 1) return null;
+
+    const { id } = node.declarations[0];
+    if (!t.isIdentifier(id)) return null;
+
+    // Imported bindings are read-only, we can't move reassigned variables.
+    const binding = path.scope.getBinding(id.name);
+    if (binding && !binding.constant) return null;
+
+    return id;
+  }
+
+  return null;
+}
+
+function getBody(path: t.NodePath<t.Statement>): t.SelectableNode | null {
+  const { node } = path;
+  let body: t.Node | null = null;
+
+  if (t.isFunctionDeclaration(node) || t.isClassDeclaration(node)) {
+    body = node.body;
+  } else if (t.isTSInterfaceDeclaration(node)) {
+    body = node.body;
+  } else if (t.isTSTypeAliasDeclaration(node)) {
+    body = node.typeAnnotation;
+  } else if (t.isVariableDeclaration(node)) {
+    body = node.declarations[0].init;
+  }
+
+  return body && t.isSelectableNode(body) ? body : null;
+}
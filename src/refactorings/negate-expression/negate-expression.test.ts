@@ -156,6 +156,11 @@ describe("Negate Expression", () => {
           "whole logical expression if cursor is on negated identifier",
         code: "if (!isVal[cursor]id || b == c) {}",
         expected: "if (!(isValid && b != c)) {}"
+      },
+      {
+        description: "condition of a JSX conditional rendering",
+        code: "<div>{count [cursor]> 0 && <Badge />}</div>",
+        expected: "<div>{!(count <= 0) && <Badge />}</div>"
       }
     ],
     async ({ code, expected }) => {
@@ -179,6 +184,18 @@ describe("Negate Expression", () => {
     );
   });
 
+  it("should not negate a JSX conditional rendering", async () => {
+    const code = `<div>{isOpen &[cursor]& <Modal />}</div>`;
+    const editor = new InMemoryEditor(code);
+    jest.spyOn(editor, "showError");
+
+    await negateExpression(editor);
+
+    expect(editor.showError).toBeCalledWith(
+      ErrorReason.DidNotFindNegatableExpression
+    );
+  });
+
   it("should not negate a logical `||` used to fallback a variable declaration", async () => {
     const code = `const foo = bar |[cursor]| "default";`;
     const editor = new InMemoryEditor(code);
@@ -136,7 +136,17 @@ function isNegatable(
   return (
     (t.isUnaryExpression(node) && node.operator === "!") ||
     ((t.isBinaryExpression(node) || t.isLogicalExpression(node)) &&
-      hasNegatableOperator(node.operator))
+      hasNegatableOperator(node.operator) &&
+      !hasJsxOperand(node))
+  );
+}
+
+function hasJsxOperand(
+  node: t.BinaryExpression | t.LogicalExpression
+): boolean {
+  // E.g. `{isOpen && <Modal />}` is JSX conditional rendering, not a boolean
+  return [node.left, node.right].some(
+    (operand) => t.isJSXElement(operand) || t.isJSXFragment(operand)
   );
 }
 
@@ -0,0 +1,114 @@
+import { Code, ErrorReason } from "../../../editor/editor";
+import { InMemoryEditor } from "../../../editor/adapters/in-memory-editor";
+import { testEach } from "../../../tests-helpers";
+
+import { convertAndToTernary } from "./convert-and-to-ternary";
+
+describe("Convert && to Ternary", () => {
+  testEach<{ code: Code; expected: Code }>(
+    "should convert && to ternary",
+    [
+      {
+        description: "element rendered conditionally",
+        code: `<div>{isO[cursor]pen && <Modal />}</div>;`,
+        expected: `<div>{isOpen ? <Modal /> : null}</div>;`
+      },
+      {
+        description: "fragment rendered conditionally",
+        code: `<div>{isO[cursor]pen && <><Modal /></>}</div>;`,
+        expected: `<div>{isOpen ? <><Modal /></> : null}</div>;`
+      },
+      {
+        description: "cursor on the rendered element",
+        code: `<div>{isOpen && <Mo[cursor]dal />}</div>;`,
+        expected: `<div>{isOpen ? <Modal /> : null}</div>;`
+      },
+      {
+        description: "complex condition",
+        code: `<div>{items.length > 0 &[cursor]& !isLoading && <List />}</div>;`,
+        expected: `<div>{items.length > 0 && !isLoading ? <List /> : null}</div>;`
+      },
+      {
+        description: "double-negated condition",
+        code: `<div>{!!cou[cursor]nt && <Badge count={count} />}</div>;`,
+        expected: `<div>{count ? <Badge count={count} /> : null}</div>;`
+      },
+      {
+        description: "returned conditional",
+        code: `function Title({ title }) {
+  return tit[cursor]le && <h1>{title}</h1>;
+}`,
+        expected: `function Title({ title }) {
+  return title ? <h1>{title}</h1> : null;
+}`
+      },
+      {
+        description: "multi-lines element",
+        code: `function Page({ user }) {
+  return (
+    <main>
+      {us[cursor]er && (
+        <section>
+          <h1>{user.name}</h1>
+        </section>
+      )}
+    </main>
+  );
+}`,
+        expected: `function Page({ user }) {
+  return (
+    <main>
+      {user ? (
+        <section>
+          <h1>{user.name}</h1>
+        </section>
+      ) : null}
+    </main>
+  );
+}`
+      },
+      {
+        description: "nested conditional, cursor on nested one",
+        code: `<div>{isOpen && <Modal>{hasTitle && <h1>[cursor]Title</h1>}</Modal>}</div>;`,
+        expected: `<div>{isOpen && <Modal>{hasTitle ? <h1>Title</h1> : null}</Modal>}</div>;`
+      }
+    ],
+    async ({ code, expected }) => {
+      const editor = new InMemoryEditor(code);
+
+      await convertAndToTernary(editor);
+
+      expect(editor.code).toBe(expected);
+    }
+  );
+
+  testEach<{ code: Code }>(
+    "should not convert",
+    [
+      {
+        description: "a logical expression that doesn't render JSX",
+        code: `if (isOpen &[cursor]& isVisible) {}`
+      },
+      {
+        description: "a `||` rendering JSX",
+        code: `<div>{title |[cursor]| <Placeholder />}</div>;`
+      },
+      {
+        description: "JSX that is not rendered conditionally",
+        code: `<div>[cursor]<Modal /></div>;`
+      }
+    ],
+    async ({ code }) => {
+      const editor = new InMemoryEditor(code);
+      const originalCode = editor.code;
+      jest.spyOn(editor, "showError");
+
+      await convertAndToTernary(editor);
+
+      expect(editor.showError).toBeCalledWith(
+        ErrorReason.DidNotFindJsxAndToConvert
+      );
+      expect(editor.code).toBe(originalCode);
+    }
+  );
+});
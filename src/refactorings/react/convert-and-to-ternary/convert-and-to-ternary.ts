@@ -0,0 +1,98 @@
+import { Editor, Code, ErrorReason } from "../../../editor/editor";
+import { Selection } from "../../../editor/selection";
+import * as t from "../../../ast";
+
+import { isJsx, sourceOf } from "../jsx";
+
+export { convertAndToTernary, createVisitor as hasAndToConvert };
+
+async function convertAndToTernary(editor: Editor) {
+  const { code, selection } = editor;
+  const expression = findJsxAnd(t.parse(code), selection);
+
+  if (!expression) {
+    editor.showError(ErrorReason.DidNotFindJsxAndToConvert);
+    return;
+  }
+
+  // We write the code ourselves to keep the JSX as it's formatted.
+  const expressionSelection = Selection.fromAST(expression.loc);
+  await editor.readThenWrite(expressionSelection, () => [
+    {
+      code: convert(code, expression),
+      selection: expressionSelection
+    }
+  ]);
+}
+
+function findJsxAnd(
+  ast: t.AST,
+  selection: Selection
+): t.Selectable<t.LogicalExpression> | undefined {
+  let result: t.Selectable<t.LogicalExpression> | undefined;
+
+  t.traverseAST(
+    ast,
+    createVisitor(selection, (path) => {
+      const { node } = path;
+      if (!t.isSelectableNode(node)) return;
+
+      result = node;
+      path.stop();
+    })
+  );
+
+  return result;
+}
+
+function createVisitor(
+  selection: Selection,
+  onMatch: (path: t.NodePath<t.LogicalExpression>) => void
+): t.Visitor {
+  return {
+    LogicalExpression(path) {
+      if (!isJsxAnd(path.node)) return;
+      if (!selection.isInsidePath(path)) return;
+
+      // Since we visit nodes from parent to children, first check
+      // if a child would match the selection closer.
+      if (hasChildWhichMatchesSelection(path, selection)) return;
+
+      onMatch(path);
+    }
+  };
+}
+
+function hasChildWhichMatchesSelection(
+  path: t.NodePath,
+  selection: Selection
+): boolean {
+  let result = false;
+
+  path.traverse({
+    LogicalExpression(childPath) {
+      if (!isJsxAnd(childPath.node)) return;
+      if (!selection.isInsidePath(childPath)) return;
+
+      result = true;
+      childPath.stop();
+    }
+  });
+
+  return result;
+}
+
+function isJsxAnd(node: t.LogicalExpression): boolean {
+  return node.operator === "&&" && isJsx(node.right);
+}
+
+function convert(code: Code, { left, right }: t.LogicalExpression): Code {
+  // `!!` was only there to render nothing instead of `0` or `""`.
+  const test =
+    t.isUnaryExpression(left, { operator: "!" }) &&
+    t.isUnaryExpression(left.argument, { operator: "!" })
+      ? left.argument.argument
+      : left;
+
+  return `${sourceOf(code, test)} ? ${sourceOf(code, right)} : null`;
+}
@@ -0,0 +1,17 @@
+import { convertAndToTernary, hasAndToConvert } from "./convert-and-to-ternary";
+
+import { RefactoringWithActionProvider } from "../../../types";
+
+const config: RefactoringWithActionProvider = {
+  command: {
+    key: "react.convertAndToTernary",
+    operation: convertAndToTernary,
+    title: "Convert && to Ternary"
+  },
+  actionProvider: {
+    message: "Convert to ternary",
+    createVisitor: hasAndToConvert
+  }
+};
+
+export default config;
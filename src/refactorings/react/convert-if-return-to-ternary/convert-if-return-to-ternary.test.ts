@@ -0,0 +1,188 @@
+import { Code, ErrorReason } from "../../../editor/editor";
+import { InMemoryEditor } from "../../../editor/adapters/in-memory-editor";
+import { testEach } from "../../../tests-helpers";
+
+import { convertIfReturnToTernary } from "./convert-if-return-to-ternary";
+
+describe("Convert If/Return to Ternary", () => {
+  testEach<{ code: Code; expected: Code }>(
+    "should convert if/return to ternary",
+    [
+      {
+        description: "early return of JSX",
+        code: `function List({ items }) {
+  if (items.len[cursor]gth === 0) {
+    return <p>No items</p>;
+  }
+
+  return <ul>{items}</ul>;
+}`,
+        expected: `function List({ items }) {
+  return items.length === 0 ? <p>No items</p> : <ul>{items}</ul>;
+}`
+      },
+      {
+        description: "early return of null",
+        code: `function Modal({ isOpen }) {
+  if (!isO[cursor]pen) return null;
+  return <div className="modal" />;
+}`,
+        expected: `function Modal({ isOpen }) {
+  return !isOpen ? null : <div className="modal" />;
+}`
+      },
+      {
+        description: "multi-lines JSX",
+        code: `function Page({ isLoading, user }) {
+  const title = user.name;
+
+  if (isLo[cursor]ading) {
+    return (
+      <div>
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <section>
+      <h1>{title}</h1>
+    </section>
+  );
+}`,
+        expected: `function Page({ isLoading, user }) {
+  const title = user.name;
+
+  return isLoading ? (
+    <div>
+      <Spinner />
+    </div>
+  ) : (
+    <section>
+      <h1>{title}</h1>
+    </section>
+  );
+}`
+      },
+      {
+        description: "cursor on the early return",
+        code: `const Title = ({ title }) => {
+  if (!title) {
+    return <h1>[cursor]Untitled</h1>;
+  }
+
+  return <h1>{title}</h1>;
+};`,
+        expected: `const Title = ({ title }) => {
+  return !title ? <h1>Untitled</h1> : <h1>{title}</h1>;
+};`
+      },
+      {
+        description: "condition that needs parentheses",
+        code: `function Title({ title }) {
+  if (i[cursor]sShort ? title.length < 5 : title.length < 20) {
+    return <h1>{title}</h1>;
+  }
+
+  return <h2>{title}</h2>;
+}`,
+        expected: `function Title({ title }) {
+  return (isShort ? title.length < 5 : title.length < 20) ? <h1>{title}</h1> : <h2>{title}</h2>;
+}`
+      }
+    ],
+    async ({ code, expected }) => {
+      const editor = new InMemoryEditor(code);
+
+      await convertIfReturnToTernary(editor);
+
+      expect(editor.code).toBe(expected);
+    }
+  );
+
+  testEach<{ code: Code }>(
+    "should not convert",
+    [
+      {
+        description: "an if that doesn't return JSX",
+        code: `function getLabel(count) {
+  if (co[cursor]unt === 0) {
+    return "None";
+  }
+
+  return "Some";
+}`
+      },
+      {
+        description: "an if with an else branch",
+        code: `function Title({ title }) {
+  if (!ti[cursor]tle) {
+    return <h1>Untitled</h1>;
+  } else {
+    console.log(title);
+  }
+
+  return <h1>{title}</h1>;
+}`
+      },
+      {
+        description: "an if with other statements",
+        code: `function Title({ title }) {
+  if (!ti[cursor]tle) {
+    console.log("No title");
+    return <h1>Untitled</h1>;
+  }
+
+  return <h1>{title}</h1>;
+}`
+      },
+      {
+        description: "an if that is not followed by a return",
+        code: `function Title({ title }) {
+  if (!ti[cursor]tle) {
+    return <h1>Untitled</h1>;
+  }
+
+  console.log(title);
+  return <h1>{title}</h1>;
+}`
+      },
+      {
+        description: "an if nested in another statement",
+        code: `function Title({ title }) {
+  for (const word of title) {
+    if (!wo[cursor]rd) {
+      return <h1>Untitled</h1>;
+    }
+
+    return <h1>{word}</h1>;
+  }
+}`
+      },
+      {
+        description: "an if with comments that would be lost",
+        code: `function Title({ title }) {
+  // Some titles can be empty
+  if (!ti[cursor]tle) {
+    // Render a placeholder
+    return <h1>Untitled</h1>;
+  }
+
+  return <h1>{title}</h1>;
+}`
+      }
+    ],
+    async ({ code }) => {
+      const editor = new InMemoryEditor(code);
+      const originalCode = editor.code;
+      jest.spyOn(editor, "showError");
+
+      await convertIfReturnToTernary(editor);
+
+      expect(editor.showError).toBeCalledWith(
+        ErrorReason.DidNotFindIfReturnToConvert
+      );
+      expect(editor.code).toBe(originalCode);
+    }
+  );
+});
@@ -0,0 +1,179 @@
+import { Editor, Code, ErrorReason } from "../../../editor/editor";
+import { Selection } from "../../../editor/selection";
+import * as t from "../../../ast";
+
+import { isJsx, sourceOf, indentationOfLine } from "../jsx";
+
+export { convertIfReturnToTernary, createVisitor as hasIfReturnToConvert };
+
+async function convertIfReturnToTernary(editor: Editor) {
+  const { code, selection } = editor;
+  const ifReturn = findIfReturn(t.parse(code), code, selection);
+
+  if (!ifReturn) {
+    editor.showError(ErrorReason.DidNotFindIfReturnToConvert);
+    return;
+  }
+
+  // We write the code ourselves to keep the JSX as it's formatted.
+  const { ifStatement, returnStatement } = ifReturn;
+  const ifReturnSelection = Selection.fromPositions(
+    Selection.fromAST(ifStatement.loc).start,
+    Selection.fromAST(returnStatement.loc).end
+  );
+  await editor.readThenWrite(ifReturnSelection, () => [
+    {
+      code: convert(code, ifReturn),
+      selection: ifReturnSelection
+    }
+  ]);
+}
+
+type IfReturn = {
+  ifStatement: t.Selectable<t.IfStatement>;
+  returnStatement: t.Selectable<t.ReturnStatement>;
+};
+
+function findIfReturn(
+  ast: t.AST,
+  code: Code,
+  selection: Selection
+): IfReturn | undefined {
+  let result: IfReturn | undefined;
+
+  t.traverseAST(
+    ast,
+    createVisitor(selection, (path, returnPath) => {
+      const ifStatement = path.node;
+      const returnStatement = returnPath.node;
+      if (!t.isSelectableNode(ifStatement)) return;
+      if (!t.isSelectableNode(returnStatement)) return;
+
+      // We can't keep comments that are outside of the returned values.
+      const ifReturn = { ifStatement, returnStatement };
+      if (hasCommentsToLose(code, ifReturn)) return;
+
+      result = ifReturn;
+    })
+  );
+
+  return result;
+}
+
+function createVisitor(
+  selection: Selection,
+  onMatch: (
+    path: t.NodePath<t.IfStatement>,
+    returnPath: t.NodePath<t.ReturnStatement>
+  ) => void
+): t.Visitor {
+  return {
+    IfStatement(path) {
+      if (!selection.isInsidePath(path)) return;
+
+      // We only convert early returns at the top level of a component.
+      const { parentPath } = path;
+      if (!parentPath.isBlockStatement()) return;
+      if (!parentPath.parentPath.isFunction()) return;
+
+      const { node } = path;
+      if (node.alternate) return;
+
+      const consequent = getSingleReturnedValue(node.consequent);
+      if (!consequent) return;
+
+      const [returnPath] = path.getAllNextSiblings();
+      if (!returnPath || !returnPath.isReturnStatement()) return;
+
+      const alternate = returnPath.node.argument;
+      if (!alternate) return;
+
+      if (!isJsx(consequent) && !isJsx(alternate)) return;
+
+      onMatch(path, returnPath);
+    }
+  };
+}
+
+function getSingleReturnedValue(node: t.Statement): t.Expression | null {
+  const statement = getSingleReturn(node);
+  return statement && statement.argument;
+}
+
+function getSingleReturn(node: t.Statement): t.ReturnStatement | null {
+  const statements = t.isBlockStatement(node) ? node.body : [node];
+  if (statements.length !== 1) return null;
+
+  const [statement] = statements;
+  return t.isReturnStatement(statement) ? statement : null;
+}
+
+function convert(code: Code, { ifStatement, returnStatement }: IfReturn): Code {
+  const { test } = ifStatement;
+  const earlyReturn = getSingleReturn(ifStatement.consequent);
+  const consequent = earlyReturn && earlyReturn.argument;
+  const alternate = returnStatement.argument;
+  if (!earlyReturn || !consequent || !alternate) {
+    return sourceOf(code, ifStatement);
+  }
+
+  const testCode = needsParentheses(test)
+    ? `(${sourceOf(code, test)})`
+    : sourceOf(code, test);
+
+  // The returned value of the `if` is moved out of its block.
+  const consequentCode = dedent(
+    sourceOf(code, consequent),
+    indentationOfLine(code, lineOf(earlyReturn)).length -
+      indentationOfLine(code, lineOf(returnStatement)).length
+  );
+
+  return `return ${testCode} ? ${consequentCode} : ${sourceOf(
+    code,
+    alternate
+  )};`;
+}
+
+function needsParentheses(test: t.Expression): boolean {
+  return (
+    t.isAssignmentExpression(test) ||
+    t.isSequenceExpression(test) ||
+    t.isConditionalExpression(test)
+  );
+}
+
+function hasCommentsToLose(
+  code: Code,
+  { ifStatement, returnStatement }: IfReturn
+): boolean {
+  const keptNodes = [
+    ifStatement.test,
+    getSingleReturnedValue(ifStatement.consequent),
+    returnStatement.argument
+  ];
+
+  let removedCode = code.slice(
+    ifStatement.start || 0,
+    returnStatement.end || 0
+  );
+  keptNodes.forEach((node) => {
+    if (!node) return;
+    removedCode = removedCode.replace(sourceOf(code, node), "");
+  });
+
+  return removedCode.includes("//") || removedCode.includes("/*");
+}
+
+function dedent(code: Code, width: number): Code {
+  const [firstLine, ...otherLines] = code.split("\n");
+  const indentation = new RegExp(`^\\s{0,${width}}`);
+
+  return [
+    firstLine,
+    ...otherLines.map((line) => line.replace(indentation, ""))
+  ].join("\n");
+}
+
+function lineOf(node: t.Node): number {
+  return node.loc ? node.loc.start.line : 0;
+}
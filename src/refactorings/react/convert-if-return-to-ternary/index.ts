@@ -0,0 +1,20 @@
+import {
+  convertIfReturnToTernary,
+  hasIfReturnToConvert
+} from "./convert-if-return-to-ternary";
+
+import { RefactoringWithActionProvider } from "../../../types";
+
+const config: RefactoringWithActionProvider = {
+  command: {
+    key: "react.convertIfReturnToTernary",
+    operation: convertIfReturnToTernary,
+    title: "Convert If/Return to Ternary"
+  },
+  actionProvider: {
+    message: "Convert if/return to ternary",
+    createVisitor: hasIfReturnToConvert
+  }
+};
+
+export default config;
@@ -0,0 +1,115 @@
+import { Code, ErrorReason } from "../../../editor/editor";
+import { InMemoryEditor } from "../../../editor/adapters/in-memory-editor";
+import { testEach } from "../../../tests-helpers";
+
+import { convertTernaryToAnd } from "./convert-ternary-to-and";
+
+describe("Convert Ternary to &&", () => {
+  testEach<{ code: Code; expected: Code }>(
+    "should convert ternary to &&",
+    [
+      {
+        description: "boolean condition",
+        code: `<div>{isO[cursor]pen ? <Modal /> : null}</div>;`,
+        expected: `<div>{!!isOpen && <Modal />}</div>;`
+      },
+      {
+        description: "comparison condition",
+        code: `<div>{count [cursor]> 0 ? <Badge /> : null}</div>;`,
+        expected: `<div>{count > 0 && <Badge />}</div>;`
+      },
+      {
+        description: "negated condition",
+        code: `<div>{!is[cursor]Loading ? <List /> : null}</div>;`,
+        expected: `<div>{!isLoading && <List />}</div>;`
+      },
+      {
+        description: "logical condition of comparisons",
+        code: `<div>{a > 0 && b [cursor]> 0 ? <List /> : null}</div>;`,
+        expected: `<div>{a > 0 && b > 0 && <List />}</div>;`
+      },
+      {
+        description: "null rendered if condition is true",
+        code: `<div>{isLo[cursor]ading ? null : <List />}</div>;`,
+        expected: `<div>{!isLoading && <List />}</div>;`
+      },
+      {
+        description: "null rendered if comparison is true",
+        code: `<div>{items.length =[cursor]== 0 ? null : <List />}</div>;`,
+        expected: `<div>{items.length !== 0 && <List />}</div>;`
+      },
+      {
+        description: "null rendered if negated condition is true",
+        code: `<div>{!us[cursor]er ? null : <Profile />}</div>;`,
+        expected: `<div>{!!user && <Profile />}</div>;`
+      },
+      {
+        description: "fragment",
+        code: `<div>{isO[cursor]pen ? <><Modal /></> : null}</div>;`,
+        expected: `<div>{!!isOpen && <><Modal /></>}</div>;`
+      },
+      {
+        description: "multi-lines element",
+        code: `function Page({ user }) {
+  return (
+    <main>
+      {user !=[cursor]= null ? (
+        <section>
+          <h1>{user.name}</h1>
+        </section>
+      ) : null}
+    </main>
+  );
+}`,
+        expected: `function Page({ user }) {
+  return (
+    <main>
+      {user !== null && (
+        <section>
+          <h1>{user.name}</h1>
+        </section>
+      )}
+    </main>
+  );
+}`
+      }
+    ],
+    async ({ code, expected }) => {
+      const editor = new InMemoryEditor(code);
+
+      await convertTernaryToAnd(editor);
+
+      expect(editor.code).toBe(expected);
+    }
+  );
+
+  testEach<{ code: Code }>(
+    "should not convert",
+    [
+      {
+        description: "a ternary that doesn't render JSX",
+        code: `const hello = is[cursor]Morning ? "Good morning" : null;`
+      },
+      {
+        description: "a ternary that renders JSX in both branches",
+        code: `<div>{isLo[cursor]ading ? <Spinner /> : <List />}</div>;`
+      },
+      {
+        description: "a ternary that renders something else than null",
+        code: `<div>{isLo[cursor]ading ? <Spinner /> : undefined}</div>;`
+      }
+    ],
+    async ({ code }) => {
+      const editor = new InMemoryEditor(code);
+      const originalCode = editor.code;
+      jest.spyOn(editor, "showError");
+
+      await convertTernaryToAnd(editor);
+
+      expect(editor.showError).toBeCalledWith(
+        ErrorReason.DidNotFindJsxTernaryToConvert
+      );
+      expect(editor.code).toBe(originalCode);
+    }
+  );
+});
@@ -0,0 +1,144 @@
+import { Editor, Code, ErrorReason } from "../../../editor/editor";
+import { Selection } from "../../../editor/selection";
+import * as t from "../../../ast";
+
+import { getNegatedIfTest } from "../../flip-ternary/flip-ternary";
+import { isJsx, sourceOf } from "../jsx";
+
+export { convertTernaryToAnd, createVisitor as hasTernaryToConvert };
+
+async function convertTernaryToAnd(editor: Editor) {
+  const { code, selection } = editor;
+  const expression = findJsxTernary(t.parse(code), selection);
+
+  if (!expression) {
+    editor.showError(ErrorReason.DidNotFindJsxTernaryToConvert);
+    return;
+  }
+
+  // We write the code ourselves to keep the JSX as it's formatted.
+  const expressionSelection = Selection.fromAST(expression.loc);
+  await editor.readThenWrite(expressionSelection, () => [
+    {
+      code: convert(code, expression),
+      selection: expressionSelection
+    }
+  ]);
+}
+
+function findJsxTernary(
+  ast: t.AST,
+  selection: Selection
+): t.Selectable<t.ConditionalExpression> | undefined {
+  let result: t.Selectable<t.ConditionalExpression> | undefined;
+
+  t.traverseAST(
+    ast,
+    createVisitor(selection, (path) => {
+      const { node } = path;
+      if (!t.isSelectableNode(node)) return;
+
+      result = node;
+      path.stop();
+    })
+  );
+
+  return result;
+}
+
+function createVisitor(
+  selection: Selection,
+  onMatch: (path: t.NodePath<t.ConditionalExpression>) => void
+): t.Visitor {
+  return {
+    ConditionalExpression(path) {
+      if (!isJsxTernary(path.node)) return;
+      if (!selection.isInsidePath(path)) return;
+
+      // Since we visit nodes from parent to children, first check
+      // if a child would match the selection closer.
+      if (hasChildWhichMatchesSelection(path, selection)) return;
+
+      onMatch(path);
+    }
+  };
+}
+
+function hasChildWhichMatchesSelection(
+  path: t.NodePath,
+  selection: Selection
+): boolean {
+  let result = false;
+
+  path.traverse({
+    ConditionalExpression(childPath) {
+      if (!isJsxTernary(childPath.node)) return;
+      if (!selection.isInsidePath(childPath)) return;
+
+      result = true;
+      childPath.stop();
+    }
+  });
+
+  return result;
+}
+
+function isJsxTernary({ consequent, alternate }: t.ConditionalExpression) {
+  return (
+    (isJsx(consequent) && t.isNullLiteral(alternate)) ||
+    (t.isNullLiteral(consequent) && isJsx(alternate))
+  );
+}
+
+function convert(code: Code, node: t.ConditionalExpression): Code {
+  const isRenderedIfTrue = t.isNullLiteral(node.alternate);
+  const rendered = isRenderedIfTrue ? node.consequent : node.alternate;
+
+  const test = printTest(code, node.test, isRenderedIfTrue);
+
+  return `${test} && ${sourceOf(code, rendered)}`;
+}
+
+function printTest(
+  code: Code,
+  test: t.Expression,
+  isRenderedIfTrue: boolean
+): Code {
+  const condition = isRenderedIfTrue ? test : getNegatedIfTest(test);
+
+  // React would render `0` or `""` if they were the test of `&&`.
+  if (!isBoolean(condition)) {
+    return t.print(t.unaryExpression("!", t.unaryExpression("!", condition)));
+  }
+
+  return isRenderedIfTrue ? sourceOf(code, condition) : t.print(condition);
+}
+
+function isBoolean(node: t.Node): boolean {
+  if (t.isBooleanLiteral(node)) return true;
+
+  if (t.isUnaryExpression(node)) return node.operator === "!";
+
+  if (t.isBinaryExpression(node)) {
+    return [
+      "==",
+      "!=",
+      "===",
+      "!==",
+      ">",
+      ">=",
+      "<",
+      "<=",
+      "instanceof",
+      "in"
+    ].includes(node.operator);
+  }
+
+  if (t.isLogicalExpression(node)) {
+    return (
+      node.operator !== "??" && isBoolean(node.left) && isBoolean(node.right)
+    );
+  }
+
+  return false;
+}
@@ -0,0 +1,20 @@
+import {
+  convertTernaryToAnd,
+  hasTernaryToConvert
+} from "./convert-ternary-to-and";
+
+import { RefactoringWithActionProvider } from "../../../types";
+
+const config: RefactoringWithActionProvider = {
+  command: {
+    key: "react.convertTernaryToAnd",
+    operation: convertTernaryToAnd,
+    title: "Convert Ternary to &&"
+  },
+  actionProvider: {
+    message: "Convert to &&",
+    createVisitor: hasTernaryToConvert
+  }
+};
+
+export default config;
@@ -0,0 +1,683 @@
+import { ErrorReason, Code } from "../../../editor/editor";
+import { InMemoryEditor } from "../../../editor/adapters/in-memory-editor";
+import { testEach } from "../../../tests-helpers";
+
+import { convertToFunctionComponent } from "./convert-to-function-component";
+
+describe("(React) Convert To Function Component", () => {
+  testEach<{ code: Code; expected: Code }>(
+    "should convert class component to function component",
+    [
+      {
+        description: "state and setState",
+        code: `import React from "react";
+
+class [cursor]Counter extends React.Component {
+  state = { count: 0 };
+
+  render() {
+    return (
+      <button onClick={() => this.setState({ count: this.state.count + 1 })}>
+        {this.state.count}
+      </button>
+    );
+  }
+}`,
+        expected: `import React, { useState } from "react";
+
+function Counter() {
+  const [count, setCount] = useState(0);
+  return (
+    <button onClick={() => setCount(count => count + 1)}>
+      {count}
+    </button>
+  );
+}`
+      },
+      {
+        description: "constructor, props and bound methods",
+        code: `import React, { Component } from "react";
+
+class [cursor]Form extends Component {
+  constructor(props) {
+    super(props);
+    this.state = { value: props.initialValue };
+    this.handleChange = this.handleChange.bind(this);
+  }
+
+  handleChange(event) {
+    this.setState({ value: event.target.value });
+    this.props.onChange(event.target.value);
+  }
+
+  render() {
+    return <input value={this.state.value} onChange={this.handleChange} />;
+  }
+}`,
+        expected: `import React, { useState, useCallback } from "react";
+
+function Form(props) {
+  const [value, setValue] = useState(props.initialValue);
+
+  const handleChange = useCallback(event => {
+    setValue(event.target.value);
+    props.onChange(event.target.value);
+  }, [props.onChange]);
+
+  return <input value={value} onChange={handleChange} />;
+}`
+      },
+      {
+        description: "mount and unmount lifecycles, and instance fields",
+        code: `class [cursor]Clock extends React.Component {
+  state = { date: new Date() };
+
+  componentDidMount() {
+    this.timer = setInterval(() => this.tick(), 1000);
+  }
+
+  componentWillUnmount() {
+    clearInterval(this.timer);
+  }
+
+  tick() {
+    this.setState({ date: new Date() });
+  }
+
+  render() {
+    return <p>{this.state.date.toLocaleTimeString()}</p>;
+  }
+}`,
+        expected: `import { useState, useRef, useEffect } from "react";
+
+function Clock() {
+  const [date, setDate] = useState(new Date());
+  const timer = useRef();
+
+  function tick() {
+    setDate(new Date());
+  }
+
+  useEffect(() => {
+    timer.current = setInterval(() => tick(), 1000);
+
+    return () => {
+      clearInterval(timer.current);
+    };
+  }, []);
+
+  return <p>{date.toLocaleTimeString()}</p>;
+}`
+      },
+      {
+        description: "timer updating state from the previous one",
+        code: `class [cursor]Counter extends React.Component {
+  state = { count: 0 };
+
+  componentDidMount() {
+    this.timer = setInterval(() => this.tick(), 1000);
+  }
+
+  componentWillUnmount() {
+    clearInterval(this.timer);
+  }
+
+  tick() {
+    this.setState({ count: this.state.count + 1 });
+  }
+
+  render() {
+    return <p>{this.state.count}</p>;
+  }
+}`,
+        expected: `import { useState, useRef, useEffect } from "react";
+
+function Counter() {
+  const [count, setCount] = useState(0);
+  const timer = useRef();
+
+  function tick() {
+    setCount(count => count + 1);
+  }
+
+  useEffect(() => {
+    timer.current = setInterval(() => tick(), 1000);
+
+    return () => {
+      clearInterval(timer.current);
+    };
+  }, []);
+
+  return <p>{count}</p>;
+}`
+      },
+      {
+        description: "update lifecycle comparing previous props",
+        code: `class [cursor]User extends React.Component {
+  componentDidUpdate(prevProps) {
+    if (prevProps.id !== this.props.id) {
+      this.props.load(this.props.id);
+    }
+  }
+
+  render() {
+    return <p>{this.props.id}</p>;
+  }
+}`,
+        expected: `import { useRef, useEffect } from "react";
+
+function User(props) {
+  const hasMounted = useRef(false);
+
+  useEffect(() => {
+    if (!hasMounted.current) {
+      hasMounted.current = true;
+      return;
+    }
+
+    props.load(props.id);
+  }, [props.id]);
+
+  return <p>{props.id}</p>;
+}`
+      },
+      {
+        description: "update lifecycle without previous values",
+        code: `class [cursor]Title extends React.Component {
+  componentDidUpdate() {
+    document.title = this.props.title;
+  }
+
+  render() {
+    return <h1>{this.props.title}</h1>;
+  }
+}`,
+        expected: `import { useRef, useEffect } from "react";
+
+function Title(props) {
+  const hasMounted = useRef(false);
+
+  useEffect(() => {
+    if (!hasMounted.current) {
+      hasMounted.current = true;
+      return;
+    }
+
+    document.title = props.title;
+  });
+
+  return <h1>{props.title}</h1>;
+}`
+      },
+      {
+        description: "async mount lifecycle",
+        code: `class [cursor]Users extends React.Component {
+  state = { users: [] };
+
+  async componentDidMount() {
+    const users = await fetchUsers();
+    this.setState({ users });
+  }
+
+  render() {
+    return <List items={this.state.users} />;
+  }
+}`,
+        expected: `import { useState, useEffect } from "react";
+
+function Users() {
+  const [users, setUsers] = useState([]);
+
+  useEffect(() => {
+    (async () => {
+      const users = await fetchUsers();
+      setUsers(users);
+    })();
+  }, []);
+
+  return <List items={users} />;
+}`
+      },
+      {
+        description: "state updater function",
+        code: `class [cursor]Counter extends React.Component {
+  state = { count: 0 };
+
+  increment = () => {
+    this.setState((state, props) => ({ count: state.count + props.step }));
+  };
+
+  render() {
+    return <button onClick={this.increment}>{this.state.count}</button>;
+  }
+}`,
+        expected: `import { useState, useCallback } from "react";
+
+function Counter(props) {
+  const [count, setCount] = useState(0);
+
+  const increment = useCallback(() => {
+    setCount(count => count + props.step);
+  }, [props.step]);
+
+  return <button onClick={increment}>{count}</button>;
+}`
+      },
+      {
+        description: "destructured state and multiple updates",
+        code: `class [cursor]Toggle extends React.Component {
+  state = { isOn: false, count: 0 };
+
+  render() {
+    const { isOn, count } = this.state;
+    const toggle = () => this.setState({ isOn: !isOn, count: count + 1 });
+
+    return <button onClick={toggle}>{isOn ? "On" : "Off"}</button>;
+  }
+}`,
+        expected: `import { useState } from "react";
+
+function Toggle() {
+  const [isOn, setIsOn] = useState(false);
+  const [count, setCount] = useState(0);
+  const toggle = () => (setIsOn(!isOn), setCount(count + 1));
+
+  return <button onClick={toggle}>{isOn ? "On" : "Off"}</button>;
+}`
+      },
+      {
+        description: "refs and TypeScript types",
+        code: `class [cursor]Search extends React.Component<Props, State> {
+  input = React.createRef<HTMLInputElement>();
+  state: State = { query: "" };
+
+  focus = () => {
+    this.input.current.focus();
+  };
+
+  render() {
+    return <input ref={this.input} value={this.state.query} onFocus={this.focus} />;
+  }
+}`,
+        expected: `import { useState, useRef, useCallback } from "react";
+
+function Search() {
+  const [query, setQuery] = useState<State["query"]>("");
+  const input = useRef<HTMLInputElement>(null);
+
+  const focus = useCallback(() => {
+    input.current.focus();
+  }, []);
+
+  return <input ref={input} value={query} onFocus={focus} />;
+}`
+      },
+      {
+        description: "namespace import of React",
+        code: `import * as React from "react";
+
+class [cursor]Counter extends React.Component {
+  state = { count: 0 };
+
+  render() {
+    return <p>{this.state.count}</p>;
+  }
+}`,
+        expected: `import * as React from "react";
+
+function Counter() {
+  const [count, setCount] = React.useState(0);
+  return <p>{count}</p>;
+}`
+      },
+      {
+        description: "static members and default export",
+        code: `export default class [cursor]Greeting extends React.Component {
+  static defaultProps = { name: "World" };
+
+  render() {
+    return <h1>Hello {this.props.name}</h1>;
+  }
+}`,
+        expected: `export default function Greeting(props) {
+  return <h1>Hello {props.name}</h1>;
+}
+Greeting.defaultProps = { name: "World" };`
+      }
+    ],
+    async ({ code, expected }) => {
+      const editor = new InMemoryEditor(code);
+
+      await convertToFunctionComponent(editor);
+
+      expect(editor.code).toBe(expected);
+    }
+  );
+
+  testEach<{ code: Code; expectedReason: ErrorReason }>(
+    "should show a precise error if component can't be converted",
+    [
+      {
+        description: "error boundary",
+        code: `class [cursor]Boundary extends React.Component {
+  componentDidCatch(error) {
+    log(error);
+  }
+
+  render() {
+    return this.props.children;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertErrorBoundary
+      },
+      {
+        description: "legacy lifecycle",
+        code: `class [cursor]User extends React.Component {
+  componentWillReceiveProps(nextProps) {
+    this.setState({ name: nextProps.name });
+  }
+
+  render() {
+    return <p>{this.state.name}</p>;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertComponentWithLegacyLifecycle
+      },
+      {
+        description: "shouldComponentUpdate",
+        code: `class [cursor]List extends React.Component {
+  shouldComponentUpdate(nextProps) {
+    return nextProps.items !== this.props.items;
+  }
+
+  render() {
+    return <ul />;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertComponentThatSkipsRenders
+      },
+      {
+        description: "pure component",
+        code: `class [cursor]List extends React.PureComponent {
+  render() {
+    return <ul />;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertComponentThatSkipsRenders
+      },
+      {
+        description: "getDerivedStateFromProps",
+        code: `class [cursor]User extends React.Component {
+  static getDerivedStateFromProps(props) {
+    return { name: props.name };
+  }
+
+  render() {
+    return <p>{this.state.name}</p>;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertComponentWithDerivedState
+      },
+      {
+        description: "getSnapshotBeforeUpdate",
+        code: `class [cursor]Chat extends React.Component {
+  getSnapshotBeforeUpdate() {
+    return this.list.scrollHeight;
+  }
+
+  render() {
+    return <ul />;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertComponentWithSnapshot
+      },
+      {
+        description: "timer calling a method that reads props",
+        code: `class [cursor]Counter extends React.Component {
+  state = { count: 0 };
+
+  componentDidMount() {
+    this.timer = setInterval(() => this.tick(), 1000);
+  }
+
+  tick() {
+    this.setState({ count: this.state.count + this.props.step });
+  }
+
+  render() {
+    return <p>{this.state.count}</p>;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertMountEffectReadingStaleValues
+      },
+      {
+        description: "mount lifecycle passing a method that reads state",
+        code: `class [cursor]Logger extends React.Component {
+  state = { count: 0 };
+
+  componentDidMount() {
+    window.addEventListener("click", this.log);
+  }
+
+  log = () => {
+    console.log(this.state.count);
+  };
+
+  render() {
+    return <p>{this.state.count}</p>;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertMountEffectReadingStaleValues
+      },
+      {
+        description: "unmount lifecycle reading props",
+        code: `class [cursor]Page extends React.Component {
+  componentWillUnmount() {
+    this.props.onLeave(this.props.id);
+  }
+
+  render() {
+    return <p>{this.props.id}</p>;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertMountEffectReadingStaleValues
+      },
+      {
+        description: "componentDidUpdate with a hasMounted field",
+        code: `class [cursor]Title extends React.Component {
+  hasMounted = false;
+
+  componentDidUpdate() {
+    document.title = this.props.title;
+  }
+
+  render() {
+    return <h1>{this.props.title}</h1>;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertComponentWithConflictingNames
+      },
+      {
+        description: "componentDidUpdate using previous props",
+        code: `class [cursor]Chat extends React.Component {
+  componentDidUpdate(prevProps) {
+    if (prevProps.messages.length < this.props.messages.length) {
+      scrollToBottom();
+    }
+  }
+
+  render() {
+    return <ul />;
+  }
+}`,
+        expectedReason:
+          ErrorReason.CantConvertComponentDidUpdateUsingPreviousValues
+      },
+      {
+        description: "setState callback",
+        code: `class [cursor]Counter extends React.Component {
+  state = { count: 0 };
+
+  render() {
+    return (
+      <button onClick={() => this.setState({ count: 1 }, () => log("done"))} />
+    );
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertSetStateCallback
+      },
+      {
+        description: "state that is not an object literal",
+        code: `class [cursor]Counter extends React.Component {
+  state = initialState;
+
+  render() {
+    return <p>{this.state.count}</p>;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertDynamicState
+      },
+      {
+        description: "state updater using other states",
+        code: `class [cursor]Counter extends React.Component {
+  state = { count: 0, step: 1 };
+
+  render() {
+    return (
+      <button
+        onClick={() =>
+          this.setState((state) => ({ count: state.count + state.step }))
+        }
+      />
+    );
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertDynamicState
+      },
+      {
+        description: "constructor with side effects",
+        code: `class [cursor]Counter extends React.Component {
+  constructor(props) {
+    super(props);
+    track("counter");
+  }
+
+  render() {
+    return <p />;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertComponentConstructor
+      },
+      {
+        description: "getter",
+        code: `class [cursor]User extends React.Component {
+  get fullName() {
+    return this.props.firstName + " " + this.props.lastName;
+  }
+
+  render() {
+    return <p>{this.fullName}</p>;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertComponentMember
+      },
+      {
+        description: "forceUpdate",
+        code: `class [cursor]Clock extends React.Component {
+  render() {
+    return <button onClick={() => this.forceUpdate()} />;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertComponentThisUsage
+      },
+      {
+        description: "this passed around",
+        code: `class [cursor]Clock extends React.Component {
+  componentDidMount() {
+    register(this);
+  }
+
+  render() {
+    return <p />;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertComponentThisUsage
+      },
+      {
+        description: "local variable with the same name as a state",
+        code: `class [cursor]Counter extends React.Component {
+  state = { count: 0 };
+
+  render() {
+    const count = this.state.count * 2;
+    return <p>{count}</p>;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertComponentWithConflictingNames
+      },
+      {
+        description: "module variable with the same name as a method",
+        code: `import { format } from "./format";
+
+class [cursor]Price extends React.Component {
+  format() {
+    return format(this.props.value);
+  }
+
+  render() {
+    return <p>{this.format()}</p>;
+  }
+}`,
+        expectedReason: ErrorReason.CantConvertComponentWithConflictingNames
+      }
+    ],
+    async ({ code, expectedReason }) => {
+      const editor = new InMemoryEditor(code);
+      const originalCode = editor.code;
+      jest.spyOn(editor, "showError");
+
+      await convertToFunctionComponent(editor);
+
+      expect(editor.showError).toBeCalledWith(expectedReason);
+      expect(editor.code).toBe(originalCode);
+    }
+  );
+
+  testEach<{ code: Code }>(
+    "should not convert",
+    [
+      {
+        description: "class that doesn't extend React.Component",
+        code: `class [cursor]Counter extends Base {
+  render() {
+    return <p />;
+  }
+}`
+      },
+      {
+        description: "class without render method",
+        code: `class [cursor]Counter extends React.Component {}`
+      },
+      {
+        description: "cursor outside of class declaration",
+        code: `class Counter extends React.Component {
+  render() {
+    return [cursor]<p />;
+  }
+}`
+      }
+    ],
+    async ({ code }) => {
+      const editor = new InMemoryEditor(code);
+      const originalCode = editor.code;
+      jest.spyOn(editor, "showError");
+
+      await convertToFunctionComponent(editor);
+
+      expect(editor.code).toBe(originalCode);
+      expect(editor.showError).toBeCalledWith(
+        ErrorReason.DidNotFindReactClassComponent
+      );
+    }
+  );
+});
@@ -0,0 +1,1742 @@
+import { Editor, ErrorReason } from "../../../editor/editor";
+import { Selection } from "../../../editor/selection";
+import * as t from "../../../ast";
+
+export {
+  convertToFunctionComponent,
+  createVisitor as hasClassComponentToConvert
+};
+
+async function convertToFunctionComponent(editor: Editor) {
+  const { code, selection } = editor;
+  const updatedCode = updateCode(t.parse(code), selection);
+
+  if (updatedCode.error !== null) {
+    editor.showError(updatedCode.error);
+    return;
+  }
+
+  if (!updatedCode.hasCodeChanged) {
+    editor.showError(ErrorReason.DidNotFindReactClassComponent);
+    return;
+  }
+
+  await editor.write(updatedCode.code);
+}
+
+function updateCode(
+  ast: t.AST,
+  selection: Selection
+): t.Transformed & { error: ErrorReason | null } {
+  let error: ErrorReason | null = null;
+
+  const result = t.transformAST(
+    ast,
+    createVisitor(
+      selection,
+      (path, conversion) => {
+        conversion.apply();
+        path.stop();
+      },
+      (reason) => (error = reason)
+    )
+  );
+
+  return { ...result, error };
+}
+
+function createVisitor(
+  selection: Selection,
+  onMatch: (
+    path: t.NodePath<t.ClassDeclaration>,
+    conversion: Conversion
+  ) => void,
+  onError: (reason: ErrorReason) => void = () => {}
+): t.Visitor {
+  return {
+    ClassDeclaration(path) {
+      const { id, superClass } = path.node;
+      if (!id || !superClass) return;
+      if (!selection.isInsideNode(id) && !selection.isInsideNode(superClass)) {
+        return;
+      }
+
+      const superClassName = getReactSuperClassName(superClass);
+      if (!superClassName) return;
+
+      if (superClassName === "PureComponent") {
+        onError(ErrorReason.CantConvertComponentThatSkipsRenders);
+        return;
+      }
+
+      const conversion = new Conversion(path, id);
+      if (conversion.error !== null) {
+        onError(conversion.error);
+        return;
+      }
+
+      if (!conversion.hasRender) return;
+
+      onMatch(path, conversion);
+    }
+  };
+}
+
+function getReactSuperClassName(superClass: t.Expression): string | null {
+  const id = t.isMemberExpression(superClass)
+    ? t.isIdentifier(superClass.object, { name: "React" }) &&
+      !superClass.computed &&
+      superClass.property
+    : superClass;
+
+  if (!t.isIdentifier(id)) return null;
+  if (id.name !== "Component" && id.name !== "PureComponent") return null;
+
+  return id.name;
+}
+
+/**
+ * Lifecycle methods that can't be translated into hooks, and why.
+ */
+const UNSUPPORTED_LIFECYCLES = new Map([
+  ["componentDidCatch", ErrorReason.CantConvertErrorBoundary],
+  ["getDerivedStateFromError", ErrorReason.CantConvertErrorBoundary],
+  ["componentWillMount", ErrorReason.CantConvertComponentWithLegacyLifecycle],
+  [
+    "componentWillReceiveProps",
+    ErrorReason.CantConvertComponentWithLegacyLifecycle
+  ],
+  ["componentWillUpdate", ErrorReason.CantConvertComponentWithLegacyLifecycle],
+  [
+    "UNSAFE_componentWillMount",
+    ErrorReason.CantConvertComponentWithLegacyLifecycle
+  ],
+  [
+    "UNSAFE_componentWillReceiveProps",
+    ErrorReason.CantConvertComponentWithLegacyLifecycle
+  ],
+  [
+    "UNSAFE_componentWillUpdate",
+    ErrorReason.CantConvertComponentWithLegacyLifecycle
+  ],
+  ["shouldComponentUpdate", ErrorReason.CantConvertComponentThatSkipsRenders],
+  [
+    "getDerivedStateFromProps",
+    ErrorReason.CantConvertComponentWithDerivedState
+  ],
+  ["getSnapshotBeforeUpdate", ErrorReason.CantConvertComponentWithSnapshot]
+]);
+
+/**
+ * Members of `this` that have no equivalent in a function component.
+ */
+const UNSUPPORTED_INSTANCE_MEMBERS = [
+  "context",
+  "forceUpdate",
+  "refs",
+  "replaceState",
+  "isMounted"
+];
+
+const HAS_MOUNTED = "hasMounted";
+
+/**
+ * Converts a class component into a function component:
+ *
+ * - state fields become `useState()`
+ * - `componentDidMount`, `componentDidUpdate` and `componentWillUnmount`
+ *   become `useEffect()`
+ * - instance fields become `useRef()`
+ * - methods passed around (e.g. event handlers) become `useCallback()`,
+ *   other methods become plain functions
+ *
+ * Everything is analysed first, so we don't change anything if some part
+ * can't be converted.
+ */
+class Conversion {
+  private _error: ErrorReason | null = null;
+  private members: t.NodePath<ClassMember>[];
+  private state: StateField[] = [];
+  private fields: InstanceField[] = [];
+  private methods: Method[] = [];
+  private staticMembers: t.NodePath<ClassMember>[] = [];
+  private constructorPath: t.NodePath<t.ClassMethod> | null = null;
+  private render: t.NodePath<t.ClassMethod> | null = null;
+  private didMount: t.NodePath<t.ClassMethod> | null = null;
+  private willUnmount: t.NodePath<t.ClassMethod> | null = null;
+  private didUpdate: t.NodePath<t.ClassMethod> | null = null;
+  private didUpdateDependencies: string[] | null = null;
+  private usesProps = false;
+  private rewrites: (() => void)[] = [];
+  private ignoredThis = new Set<t.Node>();
+  private removedBindings = new Set<t.Node>();
+  private previousStateReads = new Set<t.Node>();
+
+  constructor(
+    private path: t.NodePath<t.ClassDeclaration>,
+    private id: t.Identifier
+  ) {
+    this.members = path.get("body.body") as t.NodePath<ClassMember>[];
+
+    this.analyzeMembers();
+    if (this._error !== null || !this.render) return;
+
+    this.analyzeInstanceUsages();
+    if (this._error !== null) return;
+
+    this.analyzeMountEffect();
+    if (this._error !== null) return;
+
+    this.analyzeDidUpdate();
+    if (this._error !== null) return;
+
+    this.analyzeNameConflicts();
+  }
+
+  get error(): ErrorReason | null {
+    return this._error;
+  }
+
+  get hasRender(): boolean {
+    return this.render !== null;
+  }
+
+  apply() {
+    // Rewrites are collected top-down, inner nodes must be rewritten first.
+    [...this.rewrites].reverse().forEach((rewrite) => rewrite());
+
+    const statements = [
+      ...this.stateDeclarations,
+      ...this.fieldDeclarations,
+      ...this.methodDeclarations,
+      ...this.effects,
+      ...(this.render ? this.render.node.body.body : [])
+    ];
+
+    const functionDeclaration = t.functionDeclaration(
+      this.id,
+      this.usesProps ? [this.propsParam] : [],
+      t.blockStatement(statements)
+    );
+    functionDeclaration.typeParameters = this.path.node.typeParameters;
+    // @ts-expect-error Recast does use a `comments` attribute.
+    functionDeclaration.comments = this.path.node.comments;
+
+    this.updateImports();
+
+    const statementPath = this.path.parentPath.isExportDeclaration()
+      ? this.path.parentPath
+      : this.path;
+    const staticAssignments = this.staticAssignments;
+    if (staticAssignments.length > 0) {
+      statementPath.insertAfter(staticAssignments);
+    }
+    this.path.replaceWith(functionDeclaration);
+  }
+
+  private fail(reason: ErrorReason) {
+    if (this._error === null) this._error = reason;
+  }
+
+  private analyzeMembers() {
+    this.members.forEach((member) => {
+      if (this._error !== null) return;
+
+      const { node } = member;
+      if (t.isClassMethod(node) && node.kind === "constructor") {
+        this.constructorPath = member as t.NodePath<t.ClassMethod>;
+        this.analyzeConstructor(this.constructorPath);
+        return;
+      }
+
+      if (!t.isClassMethod(node) && !t.isClassProperty(node)) {
+        this.fail(ErrorReason.CantConvertComponentMember);
+        return;
+      }
+
+      if (node.computed || !t.isIdentifier(node.key)) {
+        this.fail(ErrorReason.CantConvertComponentMember);
+        return;
+      }
+
+      const name = node.key.name;
+      const unsupportedLifecycle = UNSUPPORTED_LIFECYCLES.get(name);
+      if (unsupportedLifecycle !== undefined) {
+        this.fail(unsupportedLifecycle);
+        return;
+      }
+
+      if (node.static) {
+        this.staticMembers.push(member);
+        return;
+      }
+
+      if (t.isClassProperty(node)) {
+        this.analyzeProperty(member as t.NodePath<t.ClassProperty>, name);
+        return;
+      }
+
+      if (node.kind !== "method") {
+        this.fail(ErrorReason.CantConvertComponentMember);
+        return;
+      }
+
+      const method = member as t.NodePath<t.ClassMethod>;
+      switch (name) {
+        case "render":
+          this.render = method;
+          break;
+        case "componentDidMount":
+          this.didMount = method;
+          break;
+        case "componentWillUnmount":
+          this.willUnmount = method;
+          break;
+        case "componentDidUpdate":
+          this.didUpdate = method;
+          break;
+        default:
+          this.methods.push({
+            name,
+            path: method,
+            isCallback: false,
+            dependencies: []
+          });
+      }
+    });
+  }
+
+  private analyzeConstructor(path: t.NodePath<t.ClassMethod>) {
+    const statements = path.get("body.body") as t.NodePath<t.Statement>[];
+
+    statements.forEach((statement) => {
+      if (this._error !== null) return;
+      const { node } = statement;
+
+      if (
+        t.isExpressionStatement(node) &&
+        t.isCallExpression(node.expression) &&
+        t.isSuper(node.expression.callee)
+      ) {
+        return;
+      }
+
+      const assignment = t.isExpressionStatement(node) ? node.expression : null;
+      if (
+        !t.isAssignmentExpression(assignment) ||
+        assignment.operator !== "=" ||
+        !isThisMember(assignment.left)
+      ) {
+        this.fail(ErrorReason.CantConvertComponentConstructor);
+        return;
+      }
+
+      const name = assignment.left.property.name;
+      const value = statement.get(
+        "expression.right"
+      ) as t.NodePath<t.Expression>;
+
+      if (name === "state") {
+        this.declareState(value);
+        return;
+      }
+
+      // this.handleClick = this.handleClick.bind(this)
+      if (isBoundMethod(assignment.right, name)) return;
+
+      this.declareField(name, value, null);
+    });
+  }
+
+  private analyzeProperty(path: t.NodePath<t.ClassProperty>, name: string) {
+    const value = path.get("value") as t.NodePath<t.Expression | null>;
+
+    if (name === "state") {
+      if (value.node) {
+        this.declareState(value as t.NodePath<t.Expression>);
+      }
+      return;
+    }
+
+    if (
+      t.isArrowFunctionExpression(value.node) ||
+      t.isFunctionExpression(value.node)
+    ) {
+      this.methods.push({ name, path, isCallback: false, dependencies: [] });
+      return;
+    }
+
+    const typeAnnotation = t.isTSTypeAnnotation(path.node.typeAnnotation)
+      ? path.node.typeAnnotation.typeAnnotation
+      : null;
+    this.declareField(
+      name,
+      value.node ? (value as t.NodePath<t.Expression>) : null,
+      typeAnnotation
+    );
+  }
+
+  private declareState(path: t.NodePath<t.Expression>) {
+    if (!t.isObjectExpression(path.node)) {
+      this.fail(ErrorReason.CantConvertDynamicState);
+      return;
+    }
+
+    const properties = path.get("properties") as t.NodePath[];
+    properties.forEach((property) => {
+      const { node } = property;
+      if (
+        !t.isObjectProperty(node) ||
+        node.computed ||
+        !t.isIdentifier(node.key)
+      ) {
+        this.fail(ErrorReason.CantConvertDynamicState);
+        return;
+      }
+
+      this.state.push({
+        name: node.key.name,
+        initialValue: property.get("value") as t.NodePath<t.Expression>
+      });
+    });
+  }
+
+  private declareField(
+    name: string,
+    value: t.NodePath<t.Expression> | null,
+    typeAnnotation: t.TSType | null
+  ) {
+    const existingField = this.findField(name);
+    if (existingField) {
+      this.fail(ErrorReason.CantConvertComponentConstructor);
+      return;
+    }
+
+    const isRefObject = !!value && isCreateRef(value.node);
+    this.fields.push({
+      name,
+      initialValue: value,
+      isRefObject,
+      typeAnnotation:
+        isRefObject && value && t.isCallExpression(value.node)
+          ? getFirstTypeParameter(value.node)
+          : typeAnnotation
+    });
+  }
+
+  private analyzeInstanceUsages() {
+    // Initial values run in the constructor: they use props, not `this`.
+    const initialValues = [
+      ...this.state.map(({ initialValue }) => initialValue),
+      ...this.fields.map(({ initialValue }) => initialValue)
+    ];
+    initialValues.forEach((value) => {
+      if (value) this.analyzeThisIn(value, null);
+    });
+
+    if (this.constructorPath) {
+      this.analyzeConstructorProps(this.constructorPath);
+    }
+
+    [this.render, this.didMount, this.willUnmount, this.didUpdate].forEach(
+      (method) => method && this.analyzeThisIn(method, null)
+    );
+
+    this.methods.forEach((method) => this.analyzeThisIn(method.path, method));
+  }
+
+  private analyzeConstructorProps(path: t.NodePath<t.ClassMethod>) {
+    const [param] = path.node.params;
+    if (!t.isIdentifier(param)) return;
+
+    const binding = path.scope.getBinding(param.name);
+    if (!binding || !binding.referenced) return;
+
+    this.usesProps = true;
+    if (param.name !== "props") {
+      this.rewrites.push(() => path.scope.rename(param.name, "props"));
+    }
+  }
+
+  private analyzeThisIn(root: t.NodePath, owner: Method | null) {
+    const visitThis = (path: t.NodePath<t.ThisExpression>) => {
+      if (this._error !== null) return;
+      if (this.ignoredThis.has(path.node)) return;
+      if (!refersToInstance(path, root)) return;
+
+      this.analyzeThis(path, owner);
+    };
+
+    if (root.isThisExpression()) {
+      visitThis(root);
+      return;
+    }
+
+    root.traverse({ ThisExpression: visitThis });
+  }
+
+  private analyzeThis(
+    path: t.NodePath<t.ThisExpression>,
+    owner: Method | null
+  ) {
+    const member = path.parentPath;
+    if (
+      !member.isMemberExpression() ||
+      member.node.object !== path.node ||
+      member.node.computed ||
+      !t.isIdentifier(member.node.property)
+    ) {
+      this.fail(ErrorReason.CantConvertComponentThisUsage);
+      return;
+    }
+
+    const name = member.node.property.name;
+    if (UNSUPPORTED_INSTANCE_MEMBERS.includes(name)) {
+      this.fail(ErrorReason.CantConvertComponentThisUsage);
+      return;
+    }
+
+    switch (name) {
+      case "props":
+        this.analyzeProps(member, owner);
+        return;
+      case "state":
+        this.analyzeState(member, owner);
+        return;
+      case "setState":
+        this.analyzeSetState(member, owner);
+        return;
+    }
+
+    const method = this.methods.find((method) => method.name === name);
+    if (method) {
+      this.analyzeMethodUsage(member, method, owner);
+      return;
+    }
+
+    this.analyzeFieldUsage(member, name);
+  }
+
+  private analyzeProps(
+    member: t.NodePath<t.MemberExpression>,
+    owner: Method | null
+  ) {
+    this.usesProps = true;
+    this.replaceWithIdentifier(member, "props");
+
+    const parent = member.parentPath;
+    const isPropertyAccess =
+      parent.isMemberExpression() &&
+      parent.node.object === member.node &&
+      !parent.node.computed &&
+      t.isIdentifier(parent.node.property);
+
+    this.addDependency(
+      owner,
+      isPropertyAccess
+        ? `props.${(parent.node as t.MemberExpression).property.name}`
+        : "props"
+    );
+  }
+
+  private analyzeState(
+    member: t.NodePath<t.MemberExpression>,
+    owner: Method | null
+  ) {
+    const parent = member.parentPath;
+
+    // this.state.count
+    if (
+      parent.isMemberExpression() &&
+      parent.node.object === member.node &&
+      !parent.node.computed &&
+      t.isIdentifier(parent.node.property)
+    ) {
+      if (isAssigned(parent)) {
+        this.fail(ErrorReason.CantConvertDynamicState);
+        return;
+      }
+
+      const name = parent.node.property.name;
+      this.ensureState(name);
+      this.replaceWithIdentifier(parent, name);
+      // Previous state is given to the functional update, it's no dependency.
+      if (!this.previousStateReads.has(member.node)) {
+        this.addDependency(owner, name);
+      }
+      return;
+    }
+
+    if (isAssigned(member)) {
+      this.fail(ErrorReason.CantConvertDynamicState);
+      return;
+    }
+
+    // const { count } = this.state;
+    if (
+      parent.isVariableDeclarator() &&
+      parent.node.init === member.node &&
+      t.isObjectPattern(parent.node.id)
+    ) {
+      const names = getShorthandNames(parent.node.id);
+      if (names) {
+        names.forEach((name) => {
+          this.ensureState(name);
+          this.addDependency(owner, name);
+        });
+        this.removedBindings.add(parent.node);
+        this.rewrites.push(() => parent.remove());
+        return;
+      }
+    }
+
+    // Any other use gets all the state, as an object.
+    this.rewrites.push(() =>
+      member.replaceWith(
+        t.objectExpression(
+          this.state.map(({ name }) =>
+            t.objectProperty(
+              t.identifier(name),
+              t.identifier(name),
+              false,
+              true
+            )
+          )
+        )
+      )
+    );
+    this.state.forEach(({ name }) => this.addDependency(owner, name));
+  }
+
+  private analyzeSetState(
+    member: t.NodePath<t.MemberExpression>,
+    owner: Method | null
+  ) {
+    const call = member.parentPath;
+    if (!call.isCallExpression() || call.node.callee !== member.node) {
+      this.fail(ErrorReason.CantConvertComponentThisUsage);
+      return;
+    }
+
+    const args = call.get("arguments") as t.NodePath[];
+    if (args.length > 1) {
+      this.fail(ErrorReason.CantConvertSetStateCallback);
+      return;
+    }
+
+    const [arg] = args;
+    if (!arg) {
+      this.fail(ErrorReason.CantConvertDynamicState);
+      return;
+    }
+
+    if (arg.isObjectExpression()) {
+      const names = getPropertyNames(arg.node);
+      if (!names) {
+        this.fail(ErrorReason.CantConvertDynamicState);
+        return;
+      }
+
+      // this.setState({ count: this.state.count + 1 }) reads the previous
+      // state: it becomes a functional update, e.g. `setCount(count => …)`.
+      const values = (arg.get("properties") as t.NodePath[]).map(
+        (property) => property.get("value") as t.NodePath
+      );
+      const previousStateReadsPerValue = values.map((value, index) =>
+        findStateReads(value, names[index])
+      );
+      previousStateReadsPerValue.forEach((reads) =>
+        reads.forEach((read) => this.previousStateReads.add(read))
+      );
+
+      names.forEach((name) => this.ensureState(name));
+      this.rewrites.push(() => {
+        const updates = (arg.node as t.ObjectExpression).properties.map(
+          (property, index) => {
+            const { key, value } = property as t.ObjectProperty;
+            const name = (key as t.Identifier).name;
+            const newValue = value as t.Expression;
+            if (previousStateReadsPerValue[index].length === 0) {
+              return this.callSetter(name, [newValue]);
+            }
+
+            return this.callSetter(name, [
+              t.arrowFunctionExpression([t.identifier(name)], newValue)
+            ]);
+          }
+        );
+        replaceWithUpdates(call, updates);
+      });
+      return;
+    }
+
+    if (arg.isArrowFunctionExpression() || arg.isFunctionExpression()) {
+      this.analyzeStateUpdater(call, arg, owner);
+      return;
+    }
+
+    this.fail(ErrorReason.CantConvertDynamicState);
+  }
+
+  private analyzeStateUpdater(
+    call: t.NodePath<t.CallExpression>,
+    updater: t.NodePath<t.ArrowFunctionExpression | t.FunctionExpression>,
+    owner: Method | null
+  ) {
+    const [stateParam, propsParam] = updater.node.params;
+    const returned = getReturnedObject(updater.node);
+    if (
+      !returned ||
+      (stateParam && !t.isIdentifier(stateParam)) ||
+      (propsParam && !t.isIdentifier(propsParam))
+    ) {
+      this.fail(ErrorReason.CantConvertDynamicState);
+      return;
+    }
+
+    const names = getPropertyNames(returned);
+    if (!names) {
+      this.fail(ErrorReason.CantConvertDynamicState);
+      return;
+    }
+
+    // Each value can only depend on its own previous state.
+    const stateName = stateParam ? stateParam.name : null;
+    const usedStatesPerValue = returned.properties.map((property) =>
+      stateName
+        ? getUsedProperties((property as t.ObjectProperty).value, stateName)
+        : []
+    );
+    const isDependingOnOtherStates = usedStatesPerValue.some(
+      (usedStates, index) =>
+        usedStates === null || usedStates.some((name) => name !== names[index])
+    );
+    if (isDependingOnOtherStates) {
+      this.fail(ErrorReason.CantConvertDynamicState);
+      return;
+    }
+
+    if (propsParam) {
+      this.usesProps = true;
+      returned.properties.forEach((property) => {
+        const { value } = property as t.ObjectProperty;
+        const usedProps = getUsedProperties(value, propsParam.name);
+        if (usedProps === null) {
+          this.addDependency(owner, "props");
+        } else {
+          usedProps.forEach((name) =>
+            this.addDependency(owner, `props.${name}`)
+          );
+        }
+      });
+    }
+    names.forEach((name) => this.ensureState(name));
+
+    this.rewrites.push(() => {
+      if (propsParam && propsParam.name !== "props") {
+        updater.scope.rename(propsParam.name, "props");
+      }
+
+      const updates = returned.properties.map((property, index) => {
+        const name = names[index];
+        const { value } = property as t.ObjectProperty;
+        if (!stateName || (usedStatesPerValue[index] || []).length === 0) {
+          return this.callSetter(name, [value as t.Expression]);
+        }
+
+        const previousValue = t.identifier(name);
+        const newValue = replaceStateReads(
+          value as t.Expression,
+          stateName,
+          name
+        );
+        return this.callSetter(name, [
+          t.arrowFunctionExpression([previousValue], newValue)
+        ]);
+      });
+      replaceWithUpdates(call, updates);
+    });
+  }
+
+  private analyzeMethodUsage(
+    member: t.NodePath<t.MemberExpression>,
+    method: Method,
+    owner: Method | null
+  ) {
+    this.addDependency(owner, method.name);
+
+    const parent = member.parentPath;
+    const isCalled =
+      parent.isCallExpression() && parent.node.callee === member.node;
+    if (isCalled) {
+      this.replaceWithIdentifier(member, method.name);
+      return;
+    }
+
+    method.isCallback = true;
+
+    // onClick={this.handleClick.bind(this)}
+    const call = parent.parentPath;
+    if (
+      parent.isMemberExpression() &&
+      t.isIdentifier(parent.node.property, { name: "bind" }) &&
+      call.isCallExpression() &&
+      call.node.arguments.length === 1 &&
+      t.isThisExpression(call.node.arguments[0])
+    ) {
+      this.ignoredThis.add(call.node.arguments[0]);
+      this.replaceWithIdentifier(call, method.name);
+      return;
+    }
+
+    this.replaceWithIdentifier(member, method.name);
+  }
+
+  private analyzeFieldUsage(
+    member: t.NodePath<t.MemberExpression>,
+    name: string
+  ) {
+    // Fields can be declared anywhere, e.g. `this.timer = setInterval()`.
+    const field = this.findField(name) || this.addField(name);
+
+    if (field.isRefObject) {
+      this.replaceWithIdentifier(member, name);
+      return;
+    }
+
+    this.rewrites.push(() =>
+      member.replaceWith(
+        t.memberExpression(t.identifier(name), t.identifier("current"))
+      )
+    );
+    this.checkNameAt(member, name);
+  }
+
+  /**
+   * The effect of `componentDidMount` and `componentWillUnmount` only runs
+   * once, its callbacks keep the props and state of the first render.
+   * Class lifecycles read the current ones through `this` instead.
+   */
+  private analyzeMountEffect() {
+    [this.didMount, this.willUnmount].forEach((lifecycle) => {
+      if (!lifecycle) return;
+
+      lifecycle.traverse({
+        ThisExpression: (path) => {
+          if (this._error !== null) return;
+          if (!refersToInstance(path, lifecycle)) return;
+
+          const member = path.parentPath;
+          if (!isThisMember(member.node)) return;
+          if (this.previousStateReads.has(member.node)) return;
+
+          // The cleanup runs long after the first render too.
+          const functionPath = path.getFunctionParent();
+          const isRunLater =
+            lifecycle === this.willUnmount ||
+            (!!functionPath && functionPath.node !== lifecycle.node);
+
+          const name = member.node.property.name;
+          const method = this.methods.find((method) => method.name === name);
+          const isCalled =
+            member.parentPath.isCallExpression() &&
+            member.parentPath.node.callee === member.node;
+          const readsStaleValues = method
+            ? (isRunLater || !isCalled) && this.readsPropsOrState(method)
+            : isRunLater && (name === "props" || name === "state");
+
+          if (readsStaleValues) {
+            this.fail(ErrorReason.CantConvertMountEffectReadingStaleValues);
+          }
+        }
+      });
+    });
+  }
+
+  private readsPropsOrState(method: Method, visited: Method[] = []): boolean {
+    if (visited.includes(method)) return false;
+
+    return method.dependencies.some((dependency) => {
+      if (dependency === "props" || dependency.startsWith("props.")) {
+        return true;
+      }
+      if (this.state.some(({ name }) => name === dependency)) return true;
+
+      const calledMethod = this.methods.find(({ name }) => name === dependency);
+      return (
+        !!calledMethod &&
+        this.readsPropsOrState(calledMethod, [...visited, method])
+      );
+    });
+  }
+
+  private analyzeDidUpdate() {
+    const didUpdate = this.didUpdate;
+    if (!didUpdate) return;
+
+    const previousNames = didUpdate.node.params.map((param) =>
+      t.isIdentifier(param) ? param.name : null
+    );
+    if (previousNames.some((name) => name === null)) {
+      this.fail(ErrorReason.CantConvertComponentDidUpdateUsingPreviousValues);
+      return;
+    }
+
+    const [prevProps, prevState, snapshot] = previousNames as string[];
+    const isUsed = (name: string | undefined) => {
+      if (!name) return false;
+      const binding = didUpdate.scope.getBinding(name);
+      return !!binding && binding.referenced;
+    };
+    if (!isUsed(prevProps) && !isUsed(prevState)) return;
+    if (isUsed(snapshot)) {
+      this.fail(ErrorReason.CantConvertComponentWithSnapshot);
+      return;
+    }
+
+    // componentDidUpdate(prevProps) { if (prevProps.id !== this.props.id) { … } }
+    const [statement, ...otherStatements] = didUpdate.node.body.body;
+    const dependencies =
+      t.isIfStatement(statement) && !statement.alternate
+        ? getChangedDependencies(statement.test, prevProps, prevState)
+        : null;
+    const consequent = t.isIfStatement(statement) ? statement.consequent : null;
+    const isStillUsingPreviousValues =
+      !!consequent &&
+      [prevProps, prevState].some(
+        (name) => !!name && isReferencedIn(consequent, name)
+      );
+
+    if (
+      !dependencies ||
+      otherStatements.length > 0 ||
+      isStillUsingPreviousValues
+    ) {
+      this.fail(ErrorReason.CantConvertComponentDidUpdateUsingPreviousValues);
+      return;
+    }
+
+    this.didUpdateDependencies = dependencies;
+    dependencies.forEach((dependency) => {
+      if (dependency.startsWith("props.")) {
+        this.usesProps = true;
+      } else {
+        this.ensureState(dependency);
+      }
+    });
+  }
+
+  private analyzeNameConflicts() {
+    if (this._error !== null) return;
+
+    // Names we declare in the component must not shadow the ones it uses.
+    const declaredNames = this.declaredNames;
+    if (new Set(declaredNames).size < declaredNames.length) {
+      this.fail(ErrorReason.CantConvertComponentWithConflictingNames);
+      return;
+    }
+
+    this.path.traverse({
+      Identifier: (path) => {
+        if (!path.isReferencedIdentifier()) return;
+        if (!declaredNames.includes(path.node.name)) return;
+
+        const binding = path.scope.getBinding(path.node.name);
+        if (binding && this.removedBindings.has(binding.path.node)) return;
+        if (binding && isDescendantOf(binding.path, this.path)) return;
+
+        this.fail(ErrorReason.CantConvertComponentWithConflictingNames);
+      }
+    });
+  }
+
+  private get declaredNames(): string[] {
+    return [
+      ...(this.usesProps ? ["props"] : []),
+      ...this.state.map(({ name }) => name),
+      ...this.state.map(({ name }) => setterName(name)),
+      ...this.fields.map(({ name }) => name),
+      ...(this.didUpdate ? [HAS_MOUNTED] : []),
+      ...this.methods.map(({ name }) => name)
+    ];
+  }
+
+  private replaceWithIdentifier(path: t.NodePath, name: string) {
+    this.checkNameAt(path, name);
+    this.rewrites.push(() => path.replaceWith(t.identifier(name)));
+  }
+
+  private checkNameAt(path: t.NodePath, name: string) {
+    const binding = path.scope.getBinding(name);
+    if (!binding || this.removedBindings.has(binding.path.node)) return;
+
+    // A local variable would shadow the one of the component.
+    if (isDescendantOf(binding.path, this.path)) {
+      this.fail(ErrorReason.CantConvertComponentWithConflictingNames);
+    }
+  }
+
+  private addDependency(owner: Method | null, dependency: string) {
+    if (!owner || owner.dependencies.includes(dependency)) return;
+    owner.dependencies.push(dependency);
+  }
+
+  private ensureState(name: string) {
+    if (this.state.some((field) => field.name === name)) return;
+    this.state.push({ name, initialValue: null });
+  }
+
+  private findField(name: string): InstanceField | undefined {
+    return this.fields.find((field) => field.name === name);
+  }
+
+  private addField(name: string): InstanceField {
+    const field = {
+      name,
+      initialValue: null,
+      isRefObject: false,
+      typeAnnotation: null
+    };
+    this.fields.push(field);
+    return field;
+  }
+
+  private get hooks(): string[] {
+    const hooks: string[] = [];
+    if (this.state.length > 0) hooks.push("useState");
+    if (this.fields.length > 0 || this.didUpdate) hooks.push("useRef");
+    if (this.methods.some(({ isCallback }) => isCallback)) {
+      hooks.push("useCallback");
+    }
+    if (this.didMount || this.willUnmount || this.didUpdate) {
+      hooks.push("useEffect");
+    }
+
+    return hooks;
+  }
+
+  private get propsParam(): t.Identifier {
+    const props = t.identifier("props");
+    const superTypeParameters = this.path.node.superTypeParameters;
+    if (!superTypeParameters) return props;
+
+    const [propsType] = superTypeParameters.params;
+    if (t.isTSType(propsType)) {
+      props.typeAnnotation = t.tsTypeAnnotation(propsType);
+    } else if (t.isFlowType(propsType)) {
+      props.typeAnnotation = t.typeAnnotation(propsType);
+    }
+
+    return props;
+  }
+
+  private get stateType(): t.TSType | null {
+    const superTypeParameters = this.path.node.superTypeParameters;
+    if (!superTypeParameters) return null;
+
+    const [, stateType] = superTypeParameters.params;
+    return t.isTSType(stateType) ? stateType : null;
+  }
+
+  private get stateDeclarations(): t.Statement[] {
+    const stateType = this.stateType;
+
+    return this.state.map(({ name, initialValue }) => {
+      const useState = t.callExpression(
+        this.hook("useState"),
+        initialValue ? [initialValue.node] : []
+      );
+      if (stateType) {
+        useState.typeParameters = t.tsTypeParameterInstantiation([
+          t.tsIndexedAccessType(
+            stateType,
+            t.tsLiteralType(t.stringLiteral(name))
+          )
+        ]);
+      }
+
+      return t.variableDeclaration("const", [
+        t.variableDeclarator(
+          t.arrayPattern([t.identifier(name), t.identifier(setterName(name))]),
+          useState
+        )
+      ]);
+    });
+  }
+
+  private get fieldDeclarations(): t.Statement[] {
+    const fields = this.fields.map(
+      ({ name, initialValue, isRefObject, typeAnnotation }) => {
+        const value = isRefObject
+          ? t.nullLiteral()
+          : initialValue && initialValue.node;
+        const useRef = t.callExpression(
+          this.hook("useRef"),
+          value ? [value] : []
+        );
+        if (typeAnnotation) {
+          useRef.typeParameters = t.tsTypeParameterInstantiation([
+            typeAnnotation
+          ]);
+        }
+
+        return t.variableDeclaration("const", [
+          t.variableDeclarator(t.identifier(name), useRef)
+        ]);
+      }
+    );
+
+    if (!this.didUpdate) return fields;
+
+    const hasMounted = t.variableDeclaration("const", [
+      t.variableDeclarator(
+        t.identifier(HAS_MOUNTED),
+        t.callExpression(this.hook("useRef"), [t.booleanLiteral(false)])
+      )
+    ]);
+    return [...fields, hasMounted];
+  }
+
+  private get methodDeclarations(): t.Statement[] {
+    const plainFunctions = this.methods.filter(({ isCallback }) => !isCallback);
+    const callbacks = sortByDependencies(
+      this.methods.filter(({ isCallback }) => isCallback)
+    );
+
+    return [
+      ...plainFunctions.map((method) => this.toPlainFunction(method)),
+      ...callbacks.map((method) => this.toCallback(method))
+    ];
+  }
+
+  private toPlainFunction({ name, path }: Method): t.Statement {
+    const { node } = path;
+    if (t.isClassProperty(node)) {
+      const declaration = t.variableDeclaration("const", [
+        t.variableDeclarator(t.identifier(name), node.value)
+      ]);
+      // @ts-expect-error Recast does use a `comments` attribute.
+      declaration.comments = node.comments;
+      return declaration;
+    }
+
+    const method = node as t.ClassMethod;
+    const declaration = t.functionDeclaration(
+      t.identifier(name),
+      method.params,
+      method.body,
+      method.generator,
+      method.async
+    );
+    declaration.returnType = method.returnType;
+    declaration.typeParameters = method.typeParameters;
+    // @ts-expect-error Recast does use a `comments` attribute.
+    declaration.comments = method.comments;
+    return declaration;
+  }
+
+  private toCallback({ name, path, dependencies }: Method): t.Statement {
+    const { node } = path;
+    const callback = t.isClassProperty(node)
+      ? (node.value as t.Expression)
+      : toFunctionExpression(node as t.ClassMethod);
+
+    const useCallback = t.callExpression(this.hook("useCallback"), [
+      callback,
+      t.arrayExpression(
+        this.toDependencies(
+          dependencies.filter((dependency) => dependency !== name)
+        )
+      )
+    ]);
+    const declaration = t.variableDeclaration("const", [
+      t.variableDeclarator(t.identifier(name), useCallback)
+    ]);
+    // @ts-expect-error Recast does use a `comments` attribute.
+    declaration.comments = node.comments;
+    return declaration;
+  }
+
+  private toDependencies(dependencies: string[]): t.Expression[] {
+    // Refs never change.
+    const stableNames = this.fields.map(({ name }) => name);
+
+    return dependencies
+      .filter((dependency) => !stableNames.includes(dependency))
+      .map((dependency) => {
+        const [object, property] = dependency.split(".");
+        return property
+          ? t.memberExpression(t.identifier(object), t.identifier(property))
+          : t.identifier(object);
+      });
+  }
+
+  private get effects(): t.Statement[] {
+    const effects: t.Statement[] = [];
+
+    if (this.didMount || this.willUnmount) {
+      const statements = this.didMount ? effectBody(this.didMount.node) : [];
+      if (this.willUnmount) {
+        statements.push(
+          t.returnStatement(
+            t.arrowFunctionExpression([], this.willUnmount.node.body)
+          )
+        );
+      }
+
+      effects.push(this.useEffect(statements, t.arrayExpression([])));
+    }
+
+    if (this.didUpdate) {
+      const dependencies = this.didUpdateDependencies;
+      const [statement] = this.didUpdate.node.body.body;
+      const statements =
+        dependencies && t.isIfStatement(statement)
+          ? t.getStatements(statement.consequent)
+          : effectBody(this.didUpdate.node);
+
+      effects.push(
+        this.useEffect(
+          // Effects also run after the first render, `componentDidUpdate` doesn't.
+          [skipFirstRender(), ...statements],
+          dependencies
+            ? t.arrayExpression(this.toDependencies(dependencies))
+            : null
+        )
+      );
+    }
+
+    return effects;
+  }
+
+  private useEffect(
+    statements: t.Statement[],
+    dependencies: t.ArrayExpression | null
+  ): t.Statement {
+    const effect = t.arrowFunctionExpression([], t.blockStatement(statements));
+
+    return t.expressionStatement(
+      t.callExpression(
+        this.hook("useEffect"),
+        dependencies ? [effect, dependencies] : [effect]
+      )
+    );
+  }
+
+  private get staticAssignments(): t.Statement[] {
+    return this.staticMembers.map(({ node }) => {
+      const member = node as t.ClassMethod | t.ClassProperty;
+      const value = t.isClassProperty(member)
+        ? member.value || t.identifier("undefined")
+        : toFunctionExpression(member, false);
+
+      const assignment = t.expressionStatement(
+        t.assignmentExpression(
+          "=",
+          t.memberExpression(this.id, member.key),
+          value
+        )
+      );
+      // @ts-expect-error Recast does use a `comments` attribute.
+      assignment.comments = member.comments;
+      return assignment;
+    });
+  }
+
+  private callSetter(name: string, args: t.Expression[]): t.CallExpression {
+    return t.callExpression(t.identifier(setterName(name)), args);
+  }
+
+  private hook(name: string): t.Identifier | t.MemberExpression {
+    const namespace = this.reactNamespace;
+    return namespace
+      ? t.memberExpression(t.identifier(namespace), t.identifier(name))
+      : t.identifier(name);
+  }
+
+  private get reactImport(): t.ImportDeclaration | undefined {
+    return t
+      .getImportDeclarations(this.programPath)
+      .find(({ source }) => source.value === "react");
+  }
+
+  private get reactNamespace(): string | null {
+    const reactImport = this.reactImport;
+    if (!reactImport) return null;
+
+    const namespace = reactImport.specifiers.find((specifier) =>
+      t.isImportNamespaceSpecifier(specifier)
+    );
+    return namespace ? namespace.local.name : null;
+  }
+
+  private get programPath(): t.NodePath<t.Program> {
+    return this.path.findParent((parent) =>
+      parent.isProgram()
+    ) as t.NodePath<t.Program>;
+  }
+
+  private updateImports() {
+    this.removeUnusedSuperClassImport();
+    if (this.reactNamespace) return;
+
+    const reactImport = this.reactImport;
+    const importedNames = reactImport
+      ? reactImport.specifiers.map(({ local }) => local.name)
+      : [];
+
+    this.hooks
+      .filter((hook) => !importedNames.includes(hook))
+      .forEach((hook) =>
+        t.addImportDeclaration(this.programPath, t.identifier(hook), "react")
+      );
+  }
+
+  private removeUnusedSuperClassImport() {
+    const { superClass } = this.path.node;
+    if (!t.isIdentifier(superClass)) return;
+
+    const binding = this.path.scope.getBinding(superClass.name);
+    if (!binding || !binding.path.isImportSpecifier()) return;
+
+    const isOnlyUsedHere = binding.referencePaths.every((reference) =>
+      isDescendantOf(reference, this.path)
+    );
+    if (!isOnlyUsedHere) return;
+
+    const declaration = binding.path.parentPath;
+    if (
+      declaration.isImportDeclaration() &&
+      declaration.node.specifiers.length === 1
+    ) {
+      declaration.remove();
+      return;
+    }
+
+    binding.path.remove();
+  }
+}
+
+type ClassMember = t.ClassBody["body"][number];
+
+type StateField = {
+  name: string;
+  initialValue: t.NodePath<t.Expression> | null;
+};
+
+type InstanceField = {
+  name: string;
+  initialValue: t.NodePath<t.Expression> | null;
+  // `React.createRef()` is already a ref, it's not wrapped in `.current`.
+  isRefObject: boolean;
+  typeAnnotation: t.TSType | null;
+};
+
+type Method = {
+  name: string;
+  path: t.NodePath<t.ClassMethod | t.ClassProperty>;
+  isCallback: boolean;
+  // E.g. "count", "props.onChange" or "handleClick"
+  dependencies: string[];
+};
+
+function refersToInstance(
+  path: t.NodePath<t.ThisExpression>,
+  root: t.NodePath
+): boolean {
+  let parent: t.NodePath | null = path.parentPath;
+
+  while (parent && parent !== root) {
+    // Arrow functions don't have their own `this`.
+    if (parent.isFunction() && !parent.isArrowFunctionExpression()) {
+      return parent.parentPath.isClassProperty();
+    }
+    parent = parent.parentPath;
+  }
+
+  return true;
+}
+
+/**
+ * Finds the `this.state` of `this.state.<name>` reads, in the value of
+ * `this.setState({ <name>: … })`.
+ */
+function findStateReads(value: t.NodePath, name: string): t.Node[] {
+  const reads: t.Node[] = [];
+
+  value.traverse({
+    ThisExpression(path) {
+      if (!refersToInstance(path, value)) return;
+
+      const member = path.parentPath;
+      const read = member.parentPath;
+      if (!isThisMember(member.node)) return;
+      if (member.node.property.name !== "state") return;
+      if (!isThisMemberRead(read.node, member.node, name)) return;
+
+      reads.push(member.node);
+    }
+  });
+
+  return reads;
+}
+
+function isThisMemberRead(node: t.Node, object: t.Node, name: string): boolean {
+  return (
+    t.isMemberExpression(node) &&
+    node.object === object &&
+    !node.computed &&
+    t.isIdentifier(node.property, { name })
+  );
+}
+
+function isDescendantOf(path: t.NodePath, ancestor: t.NodePath): boolean {
+  return !!path.findParent((parentPath) => parentPath.node === ancestor.node);
+}
+
+function isThisMember(
+  node: t.Node
+): node is t.MemberExpression & { property: t.Identifier } {
+  return (
+    t.isMemberExpression(node) &&
+    t.isThisExpression(node.object) &&
+    !node.computed &&
+    t.isIdentifier(node.property)
+  );
+}
+
+function isBoundMethod(node: t.Expression, name: string): boolean {
+  return (
+    t.isCallExpression(node) &&
+    t.isMemberExpression(node.callee) &&
+    t.isIdentifier(node.callee.property, { name: "bind" }) &&
+    isThisMember(node.callee.object) &&
+    node.callee.object.property.name === name &&
+    node.arguments.length === 1 &&
+    t.isThisExpression(node.arguments[0])
+  );
+}
+
+function isCreateRef(node: t.Node): boolean {
+  if (!t.isCallExpression(node)) return false;
+
+  const { callee } = node;
+  return (
+    t.isIdentifier(callee, { name: "createRef" }) ||
+    (t.isMemberExpression(callee) &&
+      t.isIdentifier(callee.object, { name: "React" }) &&
+      t.isIdentifier(callee.property, { name: "createRef" }))
+  );
+}
+
+function getFirstTypeParameter(node: t.CallExpression): t.TSType | null {
+  const typeParameters = node.typeParameters;
+  if (!t.isTSTypeParameterInstantiation(typeParameters)) return null;
+
+  return typeParameters.params[0] || null;
+}
+
+function isAssigned(path: t.NodePath): boolean {
+  const { parentPath } = path;
+  return (
+    (parentPath.isAssignmentExpression() &&
+      parentPath.node.left === path.node) ||
+    parentPath.isUpdateExpression()
+  );
+}
+
+function getShorthandNames(pattern: t.ObjectPattern): string[] | null {
+  const names: string[] = [];
+
+  for (const property of pattern.properties) {
+    if (
+      !t.isObjectProperty(property) ||
+      !property.shorthand ||
+      !t.isIdentifier(property.value)
+    ) {
+      return null;
+    }
+    names.push(property.value.name);
+  }
+
+  return names;
+}
+
+function getPropertyNames(object: t.ObjectExpression): string[] | null {
+  const names: string[] = [];
+
+  for (const property of object.properties) {
+    if (
+      !t.isObjectProperty(property) ||
+      property.computed ||
+      !t.isIdentifier(property.key)
+    ) {
+      return null;
+    }
+    names.push(property.key.name);
+  }
+
+  return names;
+}
+
+function getReturnedObject(
+  updater: t.ArrowFunctionExpression | t.FunctionExpression
+): t.ObjectExpression | null {
+  if (t.isObjectExpression(updater.body)) return updater.body;
+
+  const body = updater.body as t.BlockStatement;
+  const returned = t.getReturnedStatement(body);
+  if (!returned || body.body.length > 1) return null;
+
+  return t.isObjectExpression(returned.argument) ? returned.argument : null;
+}
+
+/**
+ * Names of the properties read from `objectName`, e.g. `state.count`.
+ * Returns `null` if the object is used in another way.
+ */
+function getUsedProperties(node: t.Node, objectName: string): string[] | null {
+  const usedProperties: string[] = [];
+  let isUsedAsAWhole = false;
+
+  t.traverse(node, {
+    enter(child, ancestors) {
+      if (!t.isIdentifier(child, { name: objectName })) return;
+
+      const parent = ancestors[ancestors.length - 1];
+      if (!parent) return;
+
+      if (
+        t.isMemberExpression(parent.node) &&
+        parent.key === "property" &&
+        !parent.node.computed
+      ) {
+        return;
+      }
+
+      if (
+        t.isMemberExpression(parent.node) &&
+        parent.key === "object" &&
+        !parent.node.computed &&
+        t.isIdentifier(parent.node.property)
+      ) {
+        usedProperties.push(parent.node.property.name);
+        return;
+      }
+
+      if (t.isObjectProperty(parent.node) && parent.key === "key") return;
+
+      isUsedAsAWhole = true;
+    }
+  });
+
+  return isUsedAsAWhole ? null : usedProperties;
+}
+
+function replaceStateReads(
+  node: t.Expression,
+  stateName: string,
+  name: string
+): t.Expression {
+  const isStateRead = (child: t.Node) =>
+    t.isMemberExpression(child) &&
+    t.isIdentifier(child.object, { name: stateName }) &&
+    t.isIdentifier(child.property, { name }) &&
+    !child.computed;
+
+  if (isStateRead(node)) return t.identifier(name);
+
+  t.traverse(node, {
+    enter(child, ancestors) {
+      if (!isStateRead(child)) return;
+
+      const { node: parent, key, index } = ancestors[ancestors.length - 1];
+      const replacement = t.identifier(name);
+      if (index === undefined) {
+        // @ts-expect-error We know `key` is a property of `parent`.
+        parent[key] = replacement;
+      } else {
+        // @ts-expect-error We know `key` is a list of `parent`.
+        parent[key][index] = replacement;
+      }
+    }
+  });
+
+  return node;
+}
+
+function replaceWithUpdates(
+  call: t.NodePath<t.CallExpression>,
+  updates: t.CallExpression[]
+) {
+  if (updates.length === 1) {
+    call.replaceWith(updates[0]);
+    return;
+  }
+
+  const statement = call.parentPath;
+  if (statement.isExpressionStatement()) {
+    statement.replaceWithMultiple(
+      updates.map((update) => t.expressionStatement(update))
+    );
+    return;
+  }
+
+  call.replaceWith(t.sequenceExpression(updates));
+}
+
+/**
+ * `if (prevProps.id !== this.props.id || prevState.page !== this.state.page)`
+ * gives ["props.id", "page"]
+ */
+function getChangedDependencies(
+  test: t.Expression,
+  prevProps: string | undefined,
+  prevState: string | undefined
+): string[] | null {
+  if (t.isLogicalExpression(test) && test.operator === "||") {
+    const left = getChangedDependencies(test.left, prevProps, prevState);
+    const right = getChangedDependencies(test.right, prevProps, prevState);
+    return left && right ? [...left, ...right] : null;
+  }
+
+  if (
+    !t.isBinaryExpression(test) ||
+    (test.operator !== "!==" && test.operator !== "!=")
+  ) {
+    return null;
+  }
+
+  const dependency =
+    getChangedDependency(test.left, test.right, prevProps, prevState) ||
+    getChangedDependency(test.right, test.left, prevProps, prevState);
+  return dependency ? [dependency] : null;
+}
+
+function getChangedDependency(
+  previous: t.Node,
+  current: t.Node,
+  prevProps: string | undefined,
+  prevState: string | undefined
+): string | null {
+  if (
+    !t.isMemberExpression(previous) ||
+    previous.computed ||
+    !t.isIdentifier(previous.object) ||
+    !t.isIdentifier(previous.property)
+  ) {
+    return null;
+  }
+
+  const name = previous.property.name;
+  const isCurrent = (instanceMember: string) =>
+    t.isMemberExpression(current) &&
+    !current.computed &&
+    t.isIdentifier(current.property, { name }) &&
+    isThisMember(current.object) &&
+    current.object.property.name === instanceMember;
+
+  if (previous.object.name === prevProps && isCurrent("props")) {
+    return `props.${name}`;
+  }
+
+  if (previous.object.name === prevState && isCurrent("state")) {
+    return name;
+  }
+
+  return null;
+}
+
+function isReferencedIn(node: t.Node, name: string): boolean {
+  let isReferenced = false;
+
+  t.traverse(node, {
+    enter(child, ancestors) {
+      if (!t.isIdentifier(child, { name })) return;
+
+      const parent = ancestors[ancestors.length - 1];
+      const isProperty =
+        parent &&
+        t.isMemberExpression(parent.node) &&
+        parent.key === "property" &&
+        !parent.node.computed;
+      if (!isProperty) isReferenced = true;
+    }
+  });
+
+  return isReferenced;
+}
+
+function skipFirstRender(): t.Statement {
+  const hasMounted = () =>
+    t.memberExpression(t.identifier(HAS_MOUNTED), t.identifier("current"));
+
+  return t.ifStatement(
+    t.unaryExpression("!", hasMounted()),
+    t.blockStatement([
+      t.expressionStatement(
+        t.assignmentExpression("=", hasMounted(), t.booleanLiteral(true))
+      ),
+      t.returnStatement()
+    ])
+  );
+}
+
+/**
+ * Effects can't be async, nor return something else than a cleanup.
+ */
+function effectBody(method: t.ClassMethod): t.Statement[] {
+  if (!method.async) return [...method.body.body];
+
+  return [
+    t.expressionStatement(
+      t.callExpression(t.arrowFunctionExpression([], method.body, true), [])
+    )
+  ];
+}
+
+function toFunctionExpression(
+  method: t.ClassMethod,
+  useArrow = true
+): t.ArrowFunctionExpression | t.FunctionExpression {
+  const callback =
+    useArrow && !method.generator
+      ? t.arrowFunctionExpression(method.params, method.body, method.async)
+      : t.functionExpression(
+          null,
+          method.params,
+          method.body,
+          method.generator,
+          method.async
+        );
+  callback.returnType = method.returnType;
+  callback.typeParameters = method.typeParameters;
+  return callback;
+}
+
+/**
+ * Callbacks are `const`: they must be declared after the callbacks they
+ * depend on.
+ */
+function sortByDependencies(methods: Method[]): Method[] {
+  const sorted: Method[] = [];
+  const remaining = [...methods];
+
+  while (remaining.length > 0) {
+    const index = remaining.findIndex((method) =>
+      remaining.every(
+        (other) => other === method || !method.dependencies.includes(other.name)
+      )
+    );
+
+    // Circular dependencies: keep the original order.
+    const [next] = remaining.splice(index === -1 ? 0 : index, 1);
+    sorted.push(next);
+  }
+
+  return sorted;
+}
+
+function setterName(name: string): string {
+  return `set${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+}
@@ -0,0 +1,20 @@
+import {
+  convertToFunctionComponent,
+  hasClassComponentToConvert
+} from "./convert-to-function-component";
+
+import { RefactoringWithActionProvider } from "../../../types";
+
+const config: RefactoringWithActionProvider = {
+  command: {
+    key: "react.convertToFunctionComponent",
+    operation: convertToFunctionComponent,
+    title: "Convert to Function Component"
+  },
+  actionProvider: {
+    message: "Convert to function component with hooks",
+    createVisitor: hasClassComponentToConvert
+  }
+};
+
+export default config;
@@ -0,0 +1,550 @@
+import { Code, ErrorReason, RelativePath } from "../../../editor/editor";
+import { InMemoryEditor } from "../../../editor/adapters/in-memory-editor";
+import { testEach } from "../../../tests-helpers";
+
+import { extractComponent, Destination } from "./extract-component";
+
+describe("Extract Component", () => {
+  testEach<{ code: Code; expected: Code }>(
+    "should extract component above the current one",
+    [
+      {
+        description: "an element using local variables",
+        code: `function Greeting({ name }) {
+  const emoji = "👋";
+
+  return (
+    <div>
+      <h1>[cursor]Hello {name} {emoji}</h1>
+    </div>
+  );
+}`,
+        expected: `type ExtractedComponentProps = {
+  name: any,
+  emoji: any
+};
+
+function ExtractedComponent(
+  {
+    name,
+    emoji
+  }: ExtractedComponentProps
+) {
+  return <h1>Hello {name} {emoji}</h1>;
+}
+
+function Greeting({ name }) {
+  const emoji = "👋";
+
+  return (
+    <div>
+      <ExtractedComponent name={name} emoji={emoji} />
+    </div>
+  );
+}`
+      },
+      {
+        description: "an element without free identifiers",
+        code: `function Page() {
+  return (
+    <main>
+      <footer>[cursor]Made with love</footer>
+    </main>
+  );
+}`,
+        expected: `function ExtractedComponent() {
+  return <footer>Made with love</footer>;
+}
+
+function Page() {
+  return (
+    <main>
+      <ExtractedComponent />
+    </main>
+  );
+}`
+      },
+      {
+        description: "an element using module-level bindings",
+        code: `import { Button } from "./button";
+
+const LABEL = "Save";
+
+function Form({ onSave }) {
+  return (
+    <form>
+      <Button[cursor] onClick={onSave}>{LABEL}</Button>
+    </form>
+  );
+}`,
+        expected: `import { Button } from "./button";
+
+const LABEL = "Save";
+
+type ExtractedComponentProps = {
+  onSave: any
+};
+
+function ExtractedComponent(
+  {
+    onSave
+  }: ExtractedComponentProps
+) {
+  return <Button onClick={onSave}>{LABEL}</Button>;
+}
+
+function Form({ onSave }) {
+  return (
+    <form>
+      <ExtractedComponent onSave={onSave} />
+    </form>
+  );
+}`
+      },
+      {
+        description: "an element rendered in a list, keeping the key",
+        code: `function TodoList({ todos }) {
+  return (
+    <ul>
+      {todos.map((todo) => <li key={todo.id}>[cursor]{todo.title}</li>)}
+    </ul>
+  );
+}`,
+        expected: `type ExtractedComponentProps = {
+  todo: any
+};
+
+function ExtractedComponent(
+  {
+    todo
+  }: ExtractedComponentProps
+) {
+  return <li>{todo.title}</li>;
+}
+
+function TodoList({ todos }) {
+  return (
+    <ul>
+      {todos.map((todo) => <ExtractedComponent key={todo.id} todo={todo} />)}
+    </ul>
+  );
+}`
+      },
+      {
+        description: "variables declared inside the element",
+        code: `function TodoList({ todos }) {
+  return (
+    <ul[cursor]>
+      {todos.map((todo) => <li>{todo.title}</li>)}
+    </ul>
+  );
+}`,
+        expected: `type ExtractedComponentProps = {
+  todos: any
+};
+
+function ExtractedComponent(
+  {
+    todos
+  }: ExtractedComponentProps
+) {
+  return (
+    <ul>
+      {todos.map((todo) => <li>{todo.title}</li>)}
+    </ul>
+  );
+}
+
+function TodoList({ todos }) {
+  return <ExtractedComponent todos={todos} />;
+}`
+      },
+      {
+        description: "a fragment",
+        code: `function Title({ title }) {
+  return (
+    <div>
+      <[cursor]>
+        <h1>{title}</h1>
+      </>
+    </div>
+  );
+}`,
+        expected: `type ExtractedComponentProps = {
+  title: any
+};
+
+function ExtractedComponent(
+  {
+    title
+  }: ExtractedComponentProps
+) {
+  return <>
+    <h1>{title}</h1>
+  </>;
+}
+
+function Title({ title }) {
+  return (
+    <div>
+      <ExtractedComponent title={title} />
+    </div>
+  );
+}`
+      },
+      {
+        description: "typed variables and props",
+        code: `type Props = { title: string; count?: number };
+
+export function Badge({ title, count = 0 }: Props) {
+  const label: string = \`\${count}\`;
+
+  return (
+    <div>
+      <span[cursor]>{title}: {label}</span>
+    </div>
+  );
+}`,
+        expected: `type Props = { title: string; count?: number };
+
+type ExtractedComponentProps = {
+  title: Props["title"],
+  label: string
+};
+
+function ExtractedComponent(
+  {
+    title,
+    label
+  }: ExtractedComponentProps
+) {
+  return <span>{title}: {label}</span>;
+}
+
+export function Badge({ title, count = 0 }: Props) {
+  const label: string = \`\${count}\`;
+
+  return (
+    <div>
+      <ExtractedComponent title={title} label={label} />
+    </div>
+  );
+}`
+      },
+      {
+        description: "typed destructured variables",
+        code: `type Session = { user: User };
+
+export function Header() {
+  const { user }: Session = useSession();
+
+  return (
+    <header>
+      <span[cursor]>{user.name}</span>
+    </header>
+  );
+}`,
+        expected: `type Session = { user: User };
+
+type ExtractedComponentProps = {
+  user: Session["user"]
+};
+
+function ExtractedComponent(
+  {
+    user
+  }: ExtractedComponentProps
+) {
+  return <span>{user.name}</span>;
+}
+
+export function Header() {
+  const { user }: Session = useSession();
+
+  return (
+    <header>
+      <ExtractedComponent user={user} />
+    </header>
+  );
+}`
+      }
+    ],
+    async ({ code, expected }) => {
+      const editor = new InMemoryEditor(code);
+
+      await extractComponent(editor);
+
+      expect(editor.code).toBe(expected);
+    }
+  );
+
+  it("should not generate a props type in JavaScript", async () => {
+    const editor = new JavaScriptEditor(`function Greeting({ name }) {
+  return (
+    <div>
+      <h1>[cursor]Hello {name}</h1>
+    </div>
+  );
+}`);
+
+    await extractComponent(editor);
+
+    expect(editor.code).toBe(`function ExtractedComponent(
+  {
+    name
+  }
+) {
+  return <h1>Hello {name}</h1>;
+}
+
+function Greeting({ name }) {
+  return (
+    <div>
+      <ExtractedComponent name={name} />
+    </div>
+  );
+}`);
+  });
+
+  it("should type untyped props so they can be rendered and passed", async () => {
+    const editor = new TypeScriptReactEditor(`function Counter({ count, onIncrement }) {
+  return (
+    <div>
+      <button[cursor] onClick={onIncrement}>
+        <span>{count}</span>
+      </button>
+    </div>
+  );
+}`);
+
+    await extractComponent(editor);
+
+    expect(editor.code).toBe(`type ExtractedComponentProps = {
+  onIncrement: any,
+  count: any
+};
+
+function ExtractedComponent(
+  {
+    onIncrement,
+    count
+  }: ExtractedComponentProps
+) {
+  return (
+    <button onClick={onIncrement}>
+      <span>{count}</span>
+    </button>
+  );
+}
+
+function Counter({ count, onIncrement }) {
+  return (
+    <div>
+      <ExtractedComponent onIncrement={onIncrement} count={count} />
+    </div>
+  );
+}`);
+  });
+
+  it("should use the given name", async () => {
+    const editor = new InMemoryEditor(`function Page() {
+  return (
+    <main>
+      <footer>[cursor]Made with love</footer>
+    </main>
+  );
+}`);
+    jest.spyOn(editor, "askUserInput").mockResolvedValue("Footer");
+
+    await extractComponent(editor);
+
+    expect(editor.code).toBe(`function Footer() {
+  return <footer>Made with love</footer>;
+}
+
+function Page() {
+  return (
+    <main>
+      <Footer />
+    </main>
+  );
+}`);
+  });
+
+  describe("in a new file", () => {
+    it("should extract component in a new file", async () => {
+      const editor = new InMemoryEditor(`import React from "react";
+import { Avatar } from "./avatar";
+import { Card } from "./card";
+
+const SIZE = 32;
+
+export function Profile({ user }) {
+  return (
+    <Card>
+      <Avatar[cursor] src={user.avatarUrl} size={SIZE} />
+    </Card>
+  );
+}`);
+      pickDestination(editor, Destination.NewFile);
+      jest.spyOn(editor, "askUserInput").mockResolvedValue("ProfileAvatar");
+
+      await extractComponent(editor);
+
+      expect(editor.code).toBe(`import { ProfileAvatar } from "./ProfileAvatar";
+import React from "react";
+import { Card } from "./card";
+
+const SIZE = 32;
+
+export function Profile({ user }) {
+  return (
+    <Card>
+      <ProfileAvatar user={user} SIZE={SIZE} />
+    </Card>
+  );
+}`);
+      const newFileCode = await editor.codeOf(
+        new RelativePath("./ProfileAvatar.ts")
+      );
+      expect(newFileCode).toBe(`import React from "react";
+import { Avatar } from "./avatar";
+
+export type ProfileAvatarProps = {
+  user: any,
+  SIZE: any
+};
+
+export function ProfileAvatar(
+  {
+    user,
+    SIZE
+  }: ProfileAvatarProps
+) {
+  return <Avatar src={user.avatarUrl} size={SIZE} />;
+}`);
+    });
+
+    it("should not extract component if the file already exists", async () => {
+      const code = `function Page() {
+  return (
+    <main>
+      <footer>[cursor]Made with love</footer>
+    </main>
+  );
+}`;
+      const editor = new InMemoryEditor(code);
+      editor.writeIn(new RelativePath("./Footer.ts"), "// Existing file");
+      pickDestination(editor, Destination.NewFile);
+      jest.spyOn(editor, "askUserInput").mockResolvedValue("Footer");
+      jest.spyOn(editor, "showError");
+
+      await extractComponent(editor);
+
+      expect(editor.showError).toBeCalledWith(
+        ErrorReason.CantExtractComponentInExistingFile
+      );
+      expect(editor.code).toBe(code.replace("[cursor]", ""));
+    });
+  });
+
+  testEach<{ code: Code; expectedError: ErrorReason }>(
+    "should not extract component",
+    [
+      {
+        description: "if there is no JSX",
+        code: `function [cursor]sayHello() {}`,
+        expectedError: ErrorReason.DidNotFindJsxToExtract
+      },
+      {
+        description: "if it uses `this`",
+        code: `class Greeting extends React.Component {
+  render() {
+    return (
+      <div>
+        <h1>[cursor]Hello {this.props.name}</h1>
+      </div>
+    );
+  }
+}`,
+        expectedError: ErrorReason.CantExtractComponentThatUsesThis
+      },
+      {
+        description: "if it reassigns variables",
+        code: `function Counter() {
+  let count = 0;
+
+  return (
+    <div>
+      <button[cursor] onClick={() => count++}>{count}</button>
+    </div>
+  );
+}`,
+        expectedError: ErrorReason.CantExtractComponentThatReassignsVariables
+      },
+      {
+        description: "if the name is already used",
+        code: `function ExtractedComponent() {}
+
+function Page() {
+  return (
+    <main>
+      <footer>[cursor]Made with love</footer>
+    </main>
+  );
+}`,
+        expectedError: ErrorReason.CantExtractComponentWithExistingName
+      }
+    ],
+    async ({ code, expectedError }) => {
+      const editor = new InMemoryEditor(code);
+      const originalCode = editor.code;
+      jest.spyOn(editor, "showError");
+
+      await extractComponent(editor);
+
+      expect(editor.showError).toBeCalledWith(expectedError);
+      expect(editor.code).toBe(originalCode);
+    }
+  );
+
+  it("should not use `this` of functions declared in the element", async () => {
+    const editor = new JavaScriptEditor(`function List() {
+  return (
+    <div>
+      <button[cursor] onClick={function () { this.blur(); }} />
+    </div>
+  );
+}`);
+
+    await extractComponent(editor);
+
+    expect(editor.code).toBe(`function ExtractedComponent() {
+  return <button onClick={function () { this.blur(); }} />;
+}
+
+function List() {
+  return (
+    <div>
+      <ExtractedComponent />
+    </div>
+  );
+}`);
+  });
+});
+
+class JavaScriptEditor extends InMemoryEditor {
+  readonly fileName: string = "abracadabra.jsx";
+}
+
+class TypeScriptReactEditor extends InMemoryEditor {
+  readonly fileName: string = "abracadabra.tsx";
+}
+
+function pickDestination(editor: InMemoryEditor, destination: Destination) {
+  jest
+    .spyOn(editor, "askUserChoice")
+    .mockImplementation(async (choices) =>
+      choices.find(({ value }) => value === destination)
+    );
+}
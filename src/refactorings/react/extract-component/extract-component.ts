@@ -0,0 +1,459 @@
+import {
+  Editor,
+  Code,
+  ErrorReason,
+  RelativePath
+} from "../../../editor/editor";
+import { Selection } from "../../../editor/selection";
+import * as t from "../../../ast";
+
+export { extractComponent, Destination };
+
+enum Destination {
+  AboveComponent,
+  NewFile
+}
+
+type Options = {
+  name: string;
+  destination: Destination;
+  isTypeScript: boolean;
+};
+
+async function extractComponent(editor: Editor) {
+  const { code, selection } = editor;
+
+  let error: ErrorReason | null = ErrorReason.DidNotFindJsxToExtract;
+  t.parseAndTraverseCode(
+    code,
+    createVisitor(selection, (path) => {
+      error = new Extraction(path).error;
+    })
+  );
+
+  if (error !== null) {
+    editor.showError(error);
+    return;
+  }
+
+  const name = await editor.askUserInput("ExtractedComponent");
+  if (!name) return;
+
+  const choice = await editor.askUserChoice(
+    [
+      {
+        value: Destination.AboveComponent,
+        label: "Above the current component"
+      },
+      {
+        value: Destination.NewFile,
+        label: "In a new file",
+        icon: "file-code"
+      }
+    ],
+    "Where should the new component go?"
+  );
+  if (!choice) return;
+
+  const { extension } = new RelativePath(editor.fileName);
+  const newFilePath = new RelativePath(`${name}${extension}`);
+  const destination = choice.value;
+
+  if (destination === Destination.NewFile) {
+    const files = await editor.workspaceFiles();
+    if (files.some((path) => path.equals(newFilePath.value))) {
+      editor.showError(ErrorReason.CantExtractComponentInExistingFile);
+      return;
+    }
+  }
+
+  const updatedCode = updateCode(t.parse(code), selection, {
+    name,
+    destination,
+    isTypeScript: [".ts", ".tsx"].includes(extension)
+  });
+
+  if (updatedCode.error !== null) {
+    editor.showError(updatedCode.error);
+    return;
+  }
+
+  if (destination === Destination.AboveComponent) {
+    await editor.write(updatedCode.code);
+    return;
+  }
+
+  await editor.transaction(async (editor) => {
+    await editor.writeIn(newFilePath, updatedCode.newFileCode);
+    await editor.write(updatedCode.code);
+  });
+}
+
+function updateCode(
+  ast: t.AST,
+  selection: Selection,
+  options: Options
+): t.Transformed & { newFileCode: Code; error: ErrorReason | null } {
+  let newFileCode = "";
+  let error: ErrorReason | null = null;
+
+  const result = t.transformAST(
+    ast,
+    createVisitor(selection, (path) => {
+      const extraction = new Extraction(path);
+
+      error = extraction.error;
+      if (error !== null) return;
+
+      if (path.scope.hasBinding(options.name)) {
+        error = ErrorReason.CantExtractComponentWithExistingName;
+        return;
+      }
+
+      newFileCode = extraction.apply(options);
+    })
+  );
+
+  return { ...result, newFileCode, error };
+}
+
+function createVisitor(
+  selection: Selection,
+  onMatch: (path: t.NodePath<t.JSXElement | t.JSXFragment>) => void
+): t.Visitor {
+  // We want the deepest element that contains the selection.
+  // Traversal goes from the top to the bottom, so we keep the last match.
+  let selectedPath: t.NodePath<t.JSXElement | t.JSXFragment> | null = null;
+
+  const visitJsx = (path: t.NodePath<t.JSXElement | t.JSXFragment>) => {
+    if (!selection.isInsidePath(path)) return;
+
+    selectedPath = path;
+  };
+
+  return {
+    Program: {
+      exit() {
+        if (!selectedPath) return;
+        onMatch(selectedPath);
+      }
+    },
+    JSXElement: visitJsx,
+    JSXFragment: visitJsx
+  };
+}
+
+class Extraction {
+  private _error: ErrorReason | null = null;
+  private extractedNodes = new Set<t.Node>();
+  private keyAttribute: t.JSXAttribute | null;
+  private usedBindings: t.Binding[] = [];
+
+  constructor(private path: t.NodePath<t.JSXElement | t.JSXFragment>) {
+    this.keyAttribute = findKeyAttribute(path.node);
+    this.collectExtractedNodes();
+    this.analyzeThis();
+    this.analyzeBindings();
+  }
+
+  get error(): ErrorReason | null {
+    return this._error;
+  }
+
+  /**
+   * Returns the code of the new file, if the component goes in a new file.
+   */
+  apply({ name, destination, isTypeScript }: Options): Code {
+    const isInNewFile = destination === Destination.NewFile;
+    const props = this.usedBindings.filter(
+      (binding) =>
+        !binding.scope.path.isProgram() ||
+        (isInNewFile && binding.kind !== "module")
+    );
+
+    const propsTypeName = `${name}Props`;
+    const propsType = t.tsTypeAliasDeclaration(
+      t.identifier(propsTypeName),
+      null,
+      t.tsTypeLiteral(
+        props.map((binding) =>
+          t.tsPropertySignature(
+            t.identifier(binding.identifier.name),
+            t.tsTypeAnnotation(typeOf(binding))
+          )
+        )
+      )
+    );
+    const hasPropsType = isTypeScript && props.length > 0;
+
+    const component = this.createComponent(
+      name,
+      props,
+      hasPropsType ? propsTypeName : null
+    );
+    const declarations: t.Statement[] = hasPropsType
+      ? [propsType, component]
+      : [component];
+
+    // Babel clears the comments of the replaced node. Recast would then print
+    // the extracted JSX from scratch, so we restore them as they were.
+    const extractedNode = this.path.node;
+    const { leadingComments, trailingComments, innerComments } = extractedNode;
+    this.path.replaceWith(this.createElement(name, props));
+    Object.assign(extractedNode, {
+      leadingComments,
+      trailingComments,
+      innerComments
+    });
+
+    if (!isInNewFile) {
+      this.topLevelStatement.insertBefore(declarations);
+      return "";
+    }
+
+    const programPath = this.programPath;
+    const importDeclarations = this.getImportDeclarationsToCopy(programPath);
+    this.removeImportsUsedOnlyInExtraction();
+    t.addImportDeclaration(
+      programPath,
+      t.identifier(name),
+      new RelativePath(name).value
+    );
+
+    const newProgram = t.program([
+      ...importDeclarations,
+      ...declarations.map((declaration) =>
+        t.exportNamedDeclaration(declaration, [])
+      )
+    ]);
+    // Recast guesses the indentation from the location of the printed node.
+    // This way, the new file is indented like the current one.
+    newProgram.loc = programPath.node.loc;
+
+    return t.print(newProgram);
+  }
+
+  private collectExtractedNodes() {
+    t.traverseFast(this.path.node, (node) => {
+      this.extractedNodes.add(node);
+    });
+
+    // The key stays on the element, where the list is rendered.
+    if (this.keyAttribute) {
+      t.traverseFast(this.keyAttribute, (node) => {
+        this.extractedNodes.delete(node);
+      });
+    }
+  }
+
+  private analyzeThis() {
+    this.path.traverse({
+      ThisExpression: (path) => {
+        if (!this.isExtracted(path.node)) return;
+
+        const functionPath = path.findParent(
+          (parentPath) =>
+            parentPath.isFunction() && !parentPath.isArrowFunctionExpression()
+        );
+        if (functionPath && this.isExtracted(functionPath.node)) return;
+
+        this._error = ErrorReason.CantExtractComponentThatUsesThis;
+      }
+    });
+  }
+
+  private analyzeBindings() {
+    const bindings = Object.values(
+      this.path.scope.getAllBindings()
+    ) as t.Binding[];
+
+    bindings.forEach((binding) => {
+      if (this.isExtracted(binding.identifier)) return;
+
+      const isReferenced = binding.referencePaths.some(({ node }) =>
+        this.isExtracted(node)
+      );
+      const isReassigned = binding.constantViolations.some(({ node }) =>
+        this.isExtracted(node)
+      );
+      if (isReassigned) {
+        this._error = ErrorReason.CantExtractComponentThatReassignsVariables;
+      }
+      if (!isReferenced) return;
+
+      this.usedBindings.push(binding);
+    });
+
+    this.usedBindings.sort(
+      (bindingA, bindingB) =>
+        this.firstUsageIndex(bindingA) - this.firstUsageIndex(bindingB)
+    );
+  }
+
+  private createComponent(
+    name: string,
+    props: t.Binding[],
+    propsTypeName: string | null
+  ): t.FunctionDeclaration {
+    const extractedNode = this.path.node;
+    if (this.keyAttribute && t.isJSXElement(extractedNode)) {
+      extractedNode.openingElement.attributes = extractedNode.openingElement.attributes.filter(
+        (attribute) => attribute !== this.keyAttribute
+      );
+    }
+
+    const params: t.ObjectPattern[] = [];
+    if (props.length > 0) {
+      const param = t.objectPattern(
+        props.map(({ identifier }) =>
+          t.objectProperty(
+            t.identifier(identifier.name),
+            t.identifier(identifier.name),
+            false,
+            true
+          )
+        )
+      );
+      if (propsTypeName) {
+        param.typeAnnotation = t.tsTypeAnnotation(
+          t.tsTypeReference(t.identifier(propsTypeName))
+        );
+      }
+      params.push(param);
+    }
+
+    return t.functionDeclaration(
+      t.identifier(name),
+      params,
+      t.blockStatement([t.returnStatement(extractedNode)])
+    );
+  }
+
+  private createElement(name: string, props: t.Binding[]): t.JSXElement {
+    const attributes = props.map(({ identifier }) =>
+      t.jsxAttribute(
+        t.jsxIdentifier(identifier.name),
+        t.jsxExpressionContainer(t.identifier(identifier.name))
+      )
+    );
+    if (this.keyAttribute) attributes.unshift(this.keyAttribute);
+
+    return t.jsxElement(
+      t.jsxOpeningElement(t.jsxIdentifier(name), attributes, true),
+      null,
+      [],
+      true
+    );
+  }
+
+  private getImportDeclarationsToCopy(
+    programPath: t.NodePath<t.Program>
+  ): t.ImportDeclaration[] {
+    const importedNodes = this.usedBindings
+      .filter(({ kind }) => kind === "module")
+      .map(({ path }) => path.node);
+
+    return t
+      .getImportDeclarations(programPath)
+      .map((declaration) => {
+        const specifiers = declaration.specifiers.filter(
+          (specifier) =>
+            importedNodes.includes(specifier) ||
+            // The new file renders JSX, it needs React in scope too.
+            (declaration.source.value === "react" &&
+              !t.isImportSpecifier(specifier))
+        );
+
+        return t.importDeclaration(specifiers, declaration.source);
+      })
+      .filter(({ specifiers }) => specifiers.length > 0);
+  }
+
+  private removeImportsUsedOnlyInExtraction() {
+    this.usedBindings
+      .filter(({ kind }) => kind === "module")
+      .filter(({ referencePaths }) =>
+        referencePaths.every(({ node }) => this.isExtracted(node))
+      )
+      .forEach(({ path }) => {
+        const declarationPath = path.parentPath;
+        if (!declarationPath.isImportDeclaration()) return;
+
+        if (declarationPath.node.specifiers.length === 1) {
+          declarationPath.remove();
+        } else {
+          path.remove();
+        }
+      });
+  }
+
+  private firstUsageIndex(binding: t.Binding): number {
+    return Math.min(
+      ...binding.referencePaths
+        .filter(({ node }) => this.isExtracted(node))
+        .map(({ node }) => node.start || 0)
+    );
+  }
+
+  private get topLevelStatement(): t.NodePath {
+    return (
+      this.path.findParent((parentPath) => parentPath.parentPath.isProgram()) ||
+      this.path
+    );
+  }
+
+  private get programPath(): t.NodePath<t.Program> {
+    return this.path.findParent((parentPath) =>
+      parentPath.isProgram()
+    ) as t.NodePath<t.Program>;
+  }
+
+  private isExtracted(node: t.Node): boolean {
+    return this.extractedNodes.has(node);
+  }
+}
+
+function findKeyAttribute(
+  node: t.JSXElement | t.JSXFragment
+): t.JSXAttribute | null {
+  if (!t.isJSXElement(node)) return null;
+
+  const keyAttribute = node.openingElement.attributes.find(
+    (attribute): attribute is t.JSXAttribute =>
+      t.isJSXAttribute(attribute) &&
+      t.isJSXIdentifier(attribute.name, { name: "key" })
+  );
+  return keyAttribute || null;
+}
+
+function typeOf({ identifier, path }: t.Binding): t.TSType {
+  if (t.isTSTypeAnnotation(identifier.typeAnnotation)) {
+    return identifier.typeAnnotation.typeAnnotation;
+  }
+
+  // Destructured props, e.g. `function Card({ title }: CardProps)`
+  // or variables, e.g. `const { user }: Session = useSession()`
+  const pattern = path.isVariableDeclarator() ? path.node.id : path.node;
+  if (
+    t.isObjectPattern(pattern) &&
+    t.isTSTypeAnnotation(pattern.typeAnnotation)
+  ) {
+    const property = pattern.properties.find(
+      (property): property is t.ObjectProperty =>
+        t.isObjectProperty(property) &&
+        (property.value === identifier ||
+          (t.isAssignmentPattern(property.value) &&
+            property.value.left === identifier))
+    );
+
+    if (property && !property.computed && t.isIdentifier(property.key)) {
+      return t.tsIndexedAccessType(
+        pattern.typeAnnotation.typeAnnotation,
+        t.tsLiteralType(t.stringLiteral(property.key.name))
+      );
+    }
+  }
+
+  // `unknown` props couldn't be rendered, nor passed to other components.
+  return t.tsAnyKeyword();
+}
@@ -0,0 +1,12 @@
+import { extractComponent } from "./extract-component";
+
+import { Refactoring } from "../../../types";
+
+const config: Refactoring = {
+  command: {
+    key: "react.extractComponent",
+    operation: extractComponent
+  }
+};
+
+export default config;
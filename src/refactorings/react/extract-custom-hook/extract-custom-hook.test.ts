@@ -0,0 +1,226 @@
+import { Code, ErrorReason, Command } from "../../../editor/editor";
+import { Position } from "../../../editor/position";
+import { InMemoryEditor } from "../../../editor/adapters/in-memory-editor";
+import { testEach } from "../../../tests-helpers";
+
+import { extractCustomHook } from "./extract-custom-hook";
+
+describe("Extract Custom Hook", () => {
+  testEach<{ code: Code; expected: Code }>(
+    "should extract custom hook",
+    [
+      {
+        description: "hooks used by the component",
+        code: `function Counter() {
+  [start]const [count, setCount] = useState(0);
+  useEffect(() => {
+    document.title = \`Clicked \${count} times\`;
+  }, [count]);[end]
+
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}`,
+        expected: `function Counter() {
+  const {
+    count,
+    setCount
+  } = useExtracted();
+
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}
+
+function useExtracted() {
+  const [count, setCount] = useState(0);
+  useEffect(() => {
+    document.title = \`Clicked \${count} times\`;
+  }, [count]);
+
+  return {
+    count,
+    setCount
+  };
+}`
+      },
+      {
+        description: "a single value used by the component",
+        code: `function Profile({ id }) {
+  [start]const user = useUser(id);[end]
+
+  return <h1>{user.name}</h1>;
+}`,
+        expected: `function Profile({ id }) {
+  const user = useExtracted(id);
+
+  return <h1>{user.name}</h1>;
+}
+
+function useExtracted(id) {
+  const user = useUser(id);
+
+  return user;
+}`
+      },
+      {
+        description:
+          "hooks that return nothing, with variables of the component",
+        code: `const Chat = ({ roomId }) => {
+  const serverUrl = "https://localhost:1234";
+  [start]useEffect(() => {
+    const connection = createConnection(serverUrl, roomId);
+    connection.connect();
+    return () => connection.disconnect();
+  }, [serverUrl, roomId]);[end]
+
+  return <h1>Welcome to {roomId}</h1>;
+};`,
+        expected: `const Chat = ({ roomId }) => {
+  const serverUrl = "https://localhost:1234";
+  useExtracted(serverUrl, roomId);
+
+  return <h1>Welcome to {roomId}</h1>;
+};
+
+function useExtracted(serverUrl, roomId) {
+  useEffect(() => {
+    const connection = createConnection(serverUrl, roomId);
+    connection.connect();
+    return () => connection.disconnect();
+  }, [serverUrl, roomId]);
+}`
+      },
+      {
+        description: "hooks using module-level variables",
+        code: `const INITIAL_COUNT = 0;
+
+function Counter() {
+  [start]const [count, setCount] = React.useState(INITIAL_COUNT);[end]
+
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}`,
+        expected: `const INITIAL_COUNT = 0;
+
+function Counter() {
+  const {
+    count,
+    setCount
+  } = useExtracted();
+
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}
+
+function useExtracted() {
+  const [count, setCount] = React.useState(INITIAL_COUNT);
+
+  return {
+    count,
+    setCount
+  };
+}`
+      },
+      {
+        description: "with a name that doesn't conflict",
+        code: `function Counter() {
+  [start]const [count, setCount] = useState(0);[end]
+
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}
+
+function useExtracted() {}`,
+        expected: `function Counter() {
+  const {
+    count,
+    setCount
+  } = useExtracted1();
+
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}
+
+function useExtracted1() {
+  const [count, setCount] = useState(0);
+
+  return {
+    count,
+    setCount
+  };
+}
+
+function useExtracted() {}`
+      }
+    ],
+    async ({ code, expected }) => {
+      const editor = new InMemoryEditor(code);
+
+      await extractCustomHook(editor);
+
+      expect(editor.code).toBe(expected);
+    }
+  );
+
+  it("should put the cursor on the hook call and rename it", async () => {
+    const editor = new InMemoryEditor(`function Profile({ id }) {
+  [start]const user = useUser(id);[end]
+
+  return <h1>{user.name}</h1>;
+}`);
+    jest.spyOn(editor, "delegate");
+
+    await extractCustomHook(editor);
+
+    expect(editor.selection.start).toEqual(new Position(1, 15));
+    expect(editor.delegate).toBeCalledWith(Command.RenameSymbol);
+  });
+
+  testEach<{ code: Code; expectedError: ErrorReason }>(
+    "should not extract custom hook",
+    [
+      {
+        description: "if selected statements don't call hooks",
+        code: `function Greeting({ name }) {
+  [start]const message = \`Hello \${name}\`;[end]
+
+  return <h1>{message}</h1>;
+}`,
+        expectedError: ErrorReason.DidNotFindHookCallsToExtract
+      },
+      {
+        description: "if selection is a cursor",
+        code: `function Counter() {
+  const [count, setCount] = [cursor]useState(0);
+
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}`,
+        expectedError: ErrorReason.DidNotFindHookCallsToExtract
+      },
+      {
+        description: "if selected statements return",
+        code: `function Profile({ id }) {
+  [start]const user = useUser(id);
+  if (!user) return null;[end]
+
+  return <h1>{user.name}</h1>;
+}`,
+        expectedError: ErrorReason.CantExtractFunctionWithReturn
+      },
+      {
+        description: "if selected statements reassign variables",
+        code: `function Profile({ id }) {
+  let renders = 0;
+  [start]const user = useUser(id);
+  renders++;[end]
+
+  return <h1>{user.name}</h1>;
+}`,
+        expectedError: ErrorReason.CantExtractCustomHookThatReassignsVariables
+      }
+    ],
+    async ({ code, expectedError }) => {
+      const editor = new InMemoryEditor(code);
+      const originalCode = editor.code;
+      jest.spyOn(editor, "showError");
+
+      await extractCustomHook(editor);
+
+      expect(editor.showError).toBeCalledWith(expectedError);
+      expect(editor.code).toBe(originalCode);
+    }
+  );
+});
@@ -0,0 +1,343 @@
+import { Editor, Code, ErrorReason } from "../../../editor/editor";
+import { Selection } from "../../../editor/selection";
+import { Position } from "../../../editor/position";
+import * as t from "../../../ast";
+import { last } from "../../../array";
+
+import { renameSymbol } from "../../rename-symbol/rename-symbol";
+import { isHookCall } from "../hooks";
+
+export { extractCustomHook };
+
+async function extractCustomHook(editor: Editor) {
+  const { code, selection } = editor;
+  const updatedCode = updateCode(t.parse(code), selection);
+
+  if (updatedCode.error !== null) {
+    editor.showError(updatedCode.error);
+    return;
+  }
+
+  if (!updatedCode.hasCodeChanged) {
+    editor.showError(ErrorReason.DidNotFindHookCallsToExtract);
+    return;
+  }
+
+  await editor.write(
+    updatedCode.code,
+    findCallPosition(updatedCode.code, updatedCode.hookName)
+  );
+
+  // Extracted hook call is located at cursor => just trigger a rename.
+  await renameSymbol(editor);
+}
+
+function updateCode(
+  ast: t.AST,
+  selection: Selection
+): t.Transformed & { hookName: string; error: ErrorReason | null } {
+  let hookName = "";
+  let error: ErrorReason | null = null;
+
+  const result = t.transformAST(
+    ast,
+    createVisitor(selection, (statements) => {
+      const extraction = new Extraction(statements);
+
+      error = extraction.error;
+      if (error !== null) return;
+
+      hookName = extraction.hookName;
+      extraction.apply();
+    })
+  );
+
+  return { ...result, hookName, error };
+}
+
+function createVisitor(
+  selection: Selection,
+  onMatch: (statements: t.NodePath<t.Statement>[]) => void
+): t.Visitor {
+  // Hooks are called at the top level of components, so we want the deepest
+  // function body that contains the selected statements.
+  let selectedStatements: t.NodePath<t.Statement>[] = [];
+
+  return {
+    Program: {
+      exit() {
+        if (selectedStatements.length === 0) return;
+        onMatch(selectedStatements);
+      }
+    },
+    BlockStatement(path) {
+      if (!path.parentPath.isFunction()) return;
+      if (selection.isEmpty()) return;
+      if (!selection.isInsidePath(path)) return;
+
+      const statements = findSelectedStatements(path, selection);
+      if (statements.length === 0) return;
+
+      selectedStatements = statements;
+    }
+  };
+}
+
+function findSelectedStatements(
+  path: t.NodePath<t.BlockStatement>,
+  selection: Selection
+): t.NodePath<t.Statement>[] {
+  const statements = (path.get(
+    "body"
+  ) as t.NodePath<t.Statement>[]).filter((statement) =>
+    t.isSelectablePath(statement)
+  );
+
+  const selectedStatements = statements.filter((statement) =>
+    isInside(statement.node, selection)
+  );
+
+  const hasPartiallySelectedStatement = statements.some(
+    (statement) =>
+      !selectedStatements.includes(statement) &&
+      overlaps(statement.node, selection)
+  );
+  if (hasPartiallySelectedStatement) return [];
+
+  return selectedStatements;
+}
+
+class Extraction {
+  private range: Selection;
+  private usedBindings: t.Binding[] = [];
+  private returnedBindings: t.Binding[] = [];
+  private _error: ErrorReason | null = null;
+
+  constructor(private statements: t.NodePath<t.Statement>[]) {
+    this.range = Selection.fromPositions(
+      Selection.fromAST(statements[0].node.loc as t.SourceLocation).start,
+      Selection.fromAST(last(statements)?.node.loc as t.SourceLocation).end
+    );
+
+    this.analyzeHookCalls();
+    if (this._error !== null) return;
+
+    this.analyzeReturns();
+    this.analyzeBindings();
+  }
+
+  get error(): ErrorReason | null {
+    return this._error;
+  }
+
+  get hookName(): string {
+    let name = "useExtracted";
+
+    const namesInScope = t.bindingNamesInScope(this.statements[0]);
+    let i = 1;
+    while (namesInScope.includes(name)) {
+      name = `useExtracted${i}`;
+      i++;
+    }
+
+    return name;
+  }
+
+  apply() {
+    const name = this.hookName;
+    const params = this.usedBindings.map(({ identifier }) =>
+      t.identifier(identifier.name)
+    );
+    const body = t.blockStatement([
+      ...this.statements.map(({ node }) => node),
+      ...this.returnStatement
+    ]);
+
+    this.topLevelStatement.insertAfter(
+      t.functionDeclaration(t.identifier(name), params, body)
+    );
+
+    const [firstStatement, ...otherStatements] = this.statements;
+    firstStatement.replaceWith(this.callStatement(name, params));
+    otherStatements.forEach((statement) => statement.remove());
+  }
+
+  private get returnStatement(): t.Statement[] {
+    const returned = this.returnedIds;
+
+    if (returned.length === 0) return [];
+    if (returned.length === 1) return [t.returnStatement(returned[0])];
+
+    return [
+      t.returnStatement(
+        t.objectExpression(
+          returned.map((id) => t.objectProperty(id, id, false, true))
+        )
+      )
+    ];
+  }
+
+  private callStatement(name: string, params: t.Identifier[]): t.Statement {
+    const call = t.callExpression(t.identifier(name), params);
+
+    const returned = this.returnedIds;
+    if (returned.length === 0) {
+      return t.expressionStatement(call);
+    }
+
+    const id =
+      returned.length === 1
+        ? returned[0]
+        : t.objectPattern(
+            returned.map((id) => t.objectProperty(id, id, false, true))
+          );
+    const isReassignable = this.returnedBindings.some(
+      ({ kind }) => kind === "let" || kind === "var"
+    );
+
+    return t.variableDeclaration(isReassignable ? "let" : "const", [
+      t.variableDeclarator(id, call)
+    ]);
+  }
+
+  private get returnedIds(): t.Identifier[] {
+    return this.returnedBindings.map(({ identifier }) =>
+      t.identifier(identifier.name)
+    );
+  }
+
+  private analyzeHookCalls() {
+    const functionNode = this.statements[0].getFunctionParent()?.node;
+
+    let hasHookCall = false;
+    this.statements.forEach((statement) => {
+      statement.traverse({
+        CallExpression(path) {
+          if (!isHookCall(path.node)) return;
+          if (path.getFunctionParent()?.node !== functionNode) return;
+
+          hasHookCall = true;
+        }
+      });
+    });
+
+    if (!hasHookCall) {
+      this._error = ErrorReason.DidNotFindHookCallsToExtract;
+    }
+  }
+
+  private analyzeReturns() {
+    this.statements.forEach((statement) => {
+      const visit = (path: t.NodePath) => {
+        if (!path.isReturnStatement()) return;
+        if (this.isSelected(path.getFunctionParent()?.node)) return;
+
+        this._error = ErrorReason.CantExtractFunctionWithReturn;
+      };
+
+      visit(statement);
+      statement.traverse({ enter: visit });
+    });
+  }
+
+  private analyzeBindings() {
+    const bindings = Object.values(
+      this.statements[0].scope.getAllBindings()
+    ) as t.Binding[];
+
+    bindings.forEach((binding) => {
+      const isReassignedOutside = binding.constantViolations.some(
+        ({ node }) => t.isSelectableNode(node) && !this.isSelected(node)
+      );
+
+      if (this.isSelected(binding.identifier)) {
+        const isUsedOutside = binding.referencePaths.some(
+          ({ node }) => t.isSelectableNode(node) && !this.isSelected(node)
+        );
+        if (isReassignedOutside) {
+          this._error = ErrorReason.CantExtractCustomHookThatReassignsVariables;
+        }
+        if (isUsedOutside || isReassignedOutside) {
+          this.returnedBindings.push(binding);
+        }
+        return;
+      }
+
+      const isReferenced = binding.referencePaths.some(({ node }) =>
+        this.isSelected(node)
+      );
+      const isReassigned = binding.constantViolations.some(({ node }) =>
+        this.isSelected(node)
+      );
+      if (isReassigned) {
+        this._error = ErrorReason.CantExtractCustomHookThatReassignsVariables;
+      }
+      if (!isReferenced) return;
+
+      // Module-level bindings are accessible from the extracted hook.
+      if (binding.scope.path.isProgram()) return;
+
+      this.usedBindings.push(binding);
+    });
+
+    this.usedBindings.sort(
+      (bindingA, bindingB) =>
+        this.firstUsageIndex(bindingA) - this.firstUsageIndex(bindingB)
+    );
+  }
+
+  private firstUsageIndex(binding: t.Binding): number {
+    return Math.min(
+      ...binding.referencePaths
+        .filter(({ node }) => this.isSelected(node))
+        .map(({ node }) => node.start || 0)
+    );
+  }
+
+  private get topLevelStatement(): t.NodePath {
+    const path = this.statements[0];
+    return (
+      path.findParent((parentPath) => !!parentPath.parentPath?.isProgram()) ||
+      path
+    );
+  }
+
+  private isSelected(node: t.Node | null | undefined): boolean {
+    return !!node && isInside(node, this.range);
+  }
+}
+
+function findCallPosition(code: Code, hookName: string): Position {
+  let result = new Position(0, 0);
+
+  t.parseAndTraverseCode(code, {
+    CallExpression(path) {
+      const id = path.node.callee;
+      if (!t.isSelectableIdentifier(id)) return;
+      if (id.name !== hookName) return;
+
+      result = Position.fromAST(id.loc.start);
+      path.stop();
+    }
+  });
+
+  return result;
+}
+
+function isInside(node: t.Node, selection: Selection): boolean {
+  return (
+    t.isSelectableNode(node) && Selection.fromAST(node.loc).isInside(selection)
+  );
+}
+
+function overlaps(node: t.Node, selection: Selection): boolean {
+  if (!t.isSelectableNode(node)) return false;
+
+  const nodeSelection = Selection.fromAST(node.loc);
+  return (
+    nodeSelection.start.isBefore(selection.end) &&
+    selection.start.isBefore(nodeSelection.end) &&
+    !nodeSelection.end.isEqualTo(selection.start) &&
+    !nodeSelection.start.isEqualTo(selection.end)
+  );
+}
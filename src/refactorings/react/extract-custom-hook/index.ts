@@ -0,0 +1,12 @@
+import { extractCustomHook } from "./extract-custom-hook";
+
+import { Refactoring } from "../../../types";
+
+const config: Refactoring = {
+  command: {
+    key: "react.extractCustomHook",
+    operation: extractCustomHook
+  }
+};
+
+export default config;
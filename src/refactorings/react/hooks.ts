@@ -0,0 +1,24 @@
+import * as t from "../../ast";
+
+export { isHookName, isHookCall };
+
+/**
+ * Hooks are functions whose name starts with `use`, e.g. `useState`.
+ * See https://reactjs.org/docs/hooks-rules.html
+ */
+function isHookName(name: string): boolean {
+  return /^use[A-Z0-9]/.test(name);
+}
+
+/**
+ * Matches `useState()`, but also `React.useState()`.
+ */
+function isHookCall(node: t.Node): node is t.CallExpression {
+  if (!t.isCallExpression(node)) return false;
+
+  const { callee } = node;
+  const id =
+    t.isMemberExpression(callee) && !callee.computed ? callee.property : callee;
+
+  return t.isIdentifier(id) && isHookName(id.name);
+}
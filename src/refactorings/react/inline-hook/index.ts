@@ -0,0 +1,12 @@
+import { inlineHook } from "./inline-hook";
+
+import { Refactoring } from "../../../types";
+
+const config: Refactoring = {
+  command: {
+    key: "react.inlineHook",
+    operation: inlineHook
+  }
+};
+
+export default config;
@@ -0,0 +1,276 @@
+import { Code, ErrorReason } from "../../../editor/editor";
+import { InMemoryEditor } from "../../../editor/adapters/in-memory-editor";
+import { testEach } from "../../../tests-helpers";
+
+import { inlineHook } from "./inline-hook";
+
+describe("Inline Hook", () => {
+  testEach<{ code: Code; expected: Code }>(
+    "should inline hook",
+    [
+      {
+        description: "with returned values destructured by the component",
+        code: `function Counter() {
+  const { count, setCount } = useCounter();
+
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}
+
+[cursor]function useCounter() {
+  const [count, setCount] = useState(0);
+  useEffect(() => {
+    document.title = \`Clicked \${count} times\`;
+  }, [count]);
+
+  return { count, setCount };
+}`,
+        expected: `function Counter() {
+  const [count, setCount] = useState(0);
+  useEffect(() => {
+    document.title = \`Clicked \${count} times\`;
+  }, [count]);
+
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}`
+      },
+      {
+        description: "with returned values renamed by the component",
+        code: `function Counter() {
+  const { count: clicks } = useCounter();
+
+  return <p>{clicks}</p>;
+}
+
+function [cursor]useCounter() {
+  const [count] = useState(0);
+  return { count };
+}`,
+        expected: `function Counter() {
+  const [count] = useState(0);
+  const clicks = count;
+
+  return <p>{clicks}</p>;
+}`
+      },
+      {
+        description: "with arguments",
+        code: `function Profile({ id }) {
+  const user = useUser(id);
+
+  return <h1>{user.name}</h1>;
+}
+
+[cursor]function useUser(userId) {
+  const [user] = useFetch(\`/users/\${userId}\`);
+  return user;
+}`,
+        expected: `function Profile({ id }) {
+  const [user] = useFetch(\`/users/\${id}\`);
+
+  return <h1>{user.name}</h1>;
+}`
+      },
+      {
+        description: "with a returned value of a different shape",
+        code: `function Counter() {
+  const [count, setCount] = useCounter();
+
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}
+
+[cursor]function useCounter() {
+  const state = useState(0);
+  return state;
+}`,
+        expected: `function Counter() {
+  const state = useState(0);
+  const [count, setCount] = state;
+
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}`
+      },
+      {
+        description: "called as a statement",
+        code: `function Chat({ roomId }) {
+  useConnection(roomId);
+
+  return <h1>Welcome to {roomId}</h1>;
+}
+
+[cursor]function useConnection(roomId) {
+  useEffect(() => {
+    const connection = createConnection(roomId);
+    connection.connect();
+    return () => connection.disconnect();
+  }, [roomId]);
+}`,
+        expected: `function Chat({ roomId }) {
+  useEffect(() => {
+    const connection = createConnection(roomId);
+    connection.connect();
+    return () => connection.disconnect();
+  }, [roomId]);
+
+  return <h1>Welcome to {roomId}</h1>;
+}`
+      },
+      {
+        description: "called from different components",
+        code: `function Counter() {
+  const { count } = useCounter();
+  return <p>{count}</p>;
+}
+
+function Clicks() {
+  const { count } = useCounter();
+  return <span>{count}</span>;
+}
+
+[cursor]function useCounter() {
+  const [count] = useState(0);
+  return { count };
+}`,
+        expected: `function Counter() {
+  const [count] = useState(0);
+  return <p>{count}</p>;
+}
+
+function Clicks() {
+  const [count] = useState(0);
+  return <span>{count}</span>;
+}`
+      }
+    ],
+    async ({ code, expected }) => {
+      const editor = new InMemoryEditor(code);
+
+      await inlineHook(editor);
+
+      expect(editor.code).toBe(expected);
+    }
+  );
+
+  it("should keep an exported hook and show an error", async () => {
+    const code = `function Counter() {
+  const { count } = useCounter();
+  return <p>{count}</p>;
+}
+
+[cursor]function useCounter() {
+  const [count] = useState(0);
+  return { count };
+}
+
+export { useCounter };`;
+    const editor = new InMemoryEditor(code);
+    jest.spyOn(editor, "showError");
+
+    await inlineHook(editor);
+
+    expect(editor.code).toBe(`function Counter() {
+  const [count] = useState(0);
+  return <p>{count}</p>;
+}
+
+function useCounter() {
+  const [count] = useState(0);
+  return { count };
+}
+
+export { useCounter };`);
+    expect(editor.showError).toBeCalledWith(
+      ErrorReason.CantRemoveExportedFunction
+    );
+  });
+
+  testEach<{ code: Code; expectedError: ErrorReason }>(
+    "should not inline hook",
+    [
+      {
+        description: "if it's not a hook",
+        code: `function Counter() {
+  const count = getCount();
+  return <p>{count}</p>;
+}
+
+[cursor]function getCount() {
+  return 0;
+}`,
+        expectedError: ErrorReason.DidNotFindHookToInline
+      },
+      {
+        description: "if it's never called",
+        code: `[cursor]function useCounter() {
+  const [count] = useState(0);
+  return { count };
+}`,
+        expectedError: ErrorReason.DidNotFindHookToInline
+      },
+      {
+        description: "if it has multiple returns",
+        code: `function Profile({ id }) {
+  const user = useUser(id);
+  return <h1>{user.name}</h1>;
+}
+
+[cursor]function useUser(id) {
+  const user = useFetch(id);
+  if (!user) return null;
+  return user;
+}`,
+        expectedError: ErrorReason.CantInlineFunctionWithMultipleReturns
+      },
+      {
+        description: "if it's not called at the top level of a function",
+        code: `function Counter() {
+  return <p>{useCounter().count}</p>;
+}
+
+[cursor]function useCounter() {
+  const [count] = useState(0);
+  return { count };
+}`,
+        expectedError: ErrorReason.CantInlineHookCalledOutsideOfComponent
+      },
+      {
+        description: "if its variables conflict with the component ones",
+        code: `function Counter() {
+  const state = "idle";
+  const { count } = useCounter();
+  return <p title={state}>{count}</p>;
+}
+
+[cursor]function useCounter() {
+  const state = useState(0);
+  return { count: state[0] };
+}`,
+        expectedError: ErrorReason.CantInlineHookWithConflictingNames
+      },
+      {
+        description: "if it's called twice in the same component",
+        code: `function Menu() {
+  const [open, toggleOpen] = useToggle(false);
+  const [shown, toggleShown] = useToggle(true);
+  return <p onClick={toggleOpen}>{open && shown}</p>;
+}
+
+[cursor]function useToggle(initial) {
+  const [on, setOn] = useState(initial);
+  const toggle = () => setOn(!on);
+  return [on, toggle];
+}`,
+        expectedError: ErrorReason.CantInlineHookWithConflictingNames
+      }
+    ],
+    async ({ code, expectedError }) => {
+      const editor = new InMemoryEditor(code);
+      const originalCode = editor.code;
+      jest.spyOn(editor, "showError");
+
+      await inlineHook(editor);
+
+      expect(editor.showError).toBeCalledWith(expectedError);
+      expect(editor.code).toBe(originalCode);
+    }
+  );
+});
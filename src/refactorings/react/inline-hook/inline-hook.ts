@@ -0,0 +1,393 @@
+import { Editor, ErrorReason } from "../../../editor/editor";
+import { Selection } from "../../../editor/selection";
+import * as t from "../../../ast";
+import { last } from "../../../array";
+
+import { findParamMatchingId } from "../../inline/inline-function/find-param-matching-id";
+import { findExportedIdNames } from "../../inline/find-exported-id-names";
+import { isHookName } from "../hooks";
+
+export { inlineHook };
+
+async function inlineHook(editor: Editor) {
+  const { code, selection } = editor;
+  const updatedCode = updateCode(t.parse(code), selection);
+
+  if (updatedCode.error !== null) {
+    editor.showError(updatedCode.error);
+    return;
+  }
+
+  if (!updatedCode.hasCodeChanged) {
+    editor.showError(ErrorReason.DidNotFindHookToInline);
+    return;
+  }
+
+  if (updatedCode.isExported) {
+    editor.showError(ErrorReason.CantRemoveExportedFunction);
+    // We don't return because we still want to update the code.
+  }
+
+  await editor.write(updatedCode.code);
+}
+
+function updateCode(
+  ast: t.AST,
+  selection: Selection
+): t.Transformed & { isExported: boolean; error: ErrorReason | null } {
+  let isExported = false;
+  let error: ErrorReason | null = null;
+
+  const result = t.transformAST(
+    ast,
+    createVisitor(selection, (path) => {
+      const inlining = new Inlining(path);
+
+      error = inlining.error;
+      if (error !== null) return;
+
+      isExported = inlining.isExported;
+      inlining.apply();
+    })
+  );
+
+  return { ...result, isExported, error };
+}
+
+function createVisitor(
+  selection: Selection,
+  onMatch: (path: t.NodePath<t.FunctionDeclaration>) => void
+): t.Visitor {
+  return {
+    FunctionDeclaration(path) {
+      const { node } = path;
+      if (!node.id || !isHookName(node.id.name)) return;
+      if (!t.isSelectableNode(node)) return;
+      if (!t.isSelectableNode(node.id)) return;
+
+      // Like "Inline Function", the valid selection is the
+      // `function useSomething` part.
+      const functionStart = Selection.fromAST(node.loc).start;
+      const validSelection = Selection.fromAST(node.id.loc).extendStartToEndOf(
+        Selection.cursorAt(functionStart.line, functionStart.character)
+      );
+      if (!selection.isInside(validSelection)) return;
+
+      onMatch(path);
+    }
+  };
+}
+
+type CallSite = {
+  callPath: t.NodePath<t.CallExpression>;
+  statementPath: t.NodePath<t.ExpressionStatement | t.VariableDeclaration>;
+};
+
+class Inlining {
+  private _error: ErrorReason | null = null;
+  private callSites: CallSite[] = [];
+  private returnStatement: t.ReturnStatement | null = null;
+
+  constructor(private path: t.NodePath<t.FunctionDeclaration>) {
+    this.analyzeReturns();
+    this.analyzeCallSites();
+  }
+
+  get error(): ErrorReason | null {
+    return this._error;
+  }
+
+  get isExported(): boolean {
+    const { id } = this.path.node;
+    const scope = t.getFunctionScopePath(this.path).node;
+
+    return !!id && findExportedIdNames(scope).includes(id.name);
+  }
+
+  apply() {
+    this.callSites.forEach(({ callPath, statementPath }) => {
+      statementPath.replaceWithMultiple(
+        this.inlinedStatements(callPath, statementPath)
+      );
+    });
+
+    if (!this.isExported) {
+      this.path.remove();
+    }
+  }
+
+  private analyzeReturns() {
+    const returns: t.NodePath<t.ReturnStatement>[] = [];
+    this.path.traverse({
+      ReturnStatement: (path) => {
+        if (path.getFunctionParent() !== this.path) return;
+        returns.push(path);
+      }
+    });
+
+    if (returns.length === 0) return;
+
+    const [returnPath] = returns;
+    if (
+      returns.length > 1 ||
+      returnPath.node !== last(this.path.node.body.body)
+    ) {
+      this._error = ErrorReason.CantInlineFunctionWithMultipleReturns;
+      return;
+    }
+
+    this.returnStatement = returnPath.node;
+  }
+
+  private analyzeCallSites() {
+    if (this._error !== null) return;
+
+    const { id } = this.path.node;
+    if (!id) return;
+
+    const binding = this.path.parentPath.scope.getBinding(id.name);
+    if (!binding) return;
+
+    binding.referencePaths.forEach((referencePath) => {
+      // `export { useSomething }` is not a call site.
+      if (referencePath.parentPath.isExportSpecifier()) return;
+
+      const callSite = findCallSite(referencePath);
+      if (!callSite) {
+        this._error = ErrorReason.CantInlineHookCalledOutsideOfComponent;
+        return;
+      }
+
+      if (this.hasConflictingNames(callSite)) {
+        this._error = ErrorReason.CantInlineHookWithConflictingNames;
+        return;
+      }
+
+      this.callSites.push(callSite);
+    });
+
+    if (this.callSites.length === 0 && this._error === null) {
+      this._error = ErrorReason.DidNotFindHookToInline;
+    }
+  }
+
+  private hasConflictingNames({ callPath, statementPath }: CallSite): boolean {
+    const callerScope = statementPath.scope;
+    const replacedNames = Object.keys(
+      t.getBindingIdentifiers(statementPath.node)
+    );
+    const isAvailable = (name: string) =>
+      replacedNames.includes(name) || !callerScope.hasBinding(name);
+
+    // Variables declared in the hook are moved into the caller.
+    // Params are replaced with the arguments, they are not declared.
+    const declaredNames = Object.keys(this.path.scope.bindings).filter(
+      (name) => this.path.scope.bindings[name].path.listKey !== "params"
+    );
+    if (!declaredNames.every(isAvailable)) return true;
+
+    // They would be declared twice if the hook is called twice in the caller.
+    const isCalledAgainInCaller = this.callSites.some(
+      (other) => other.statementPath.scope === callerScope
+    );
+    if (isCalledAgainInCaller && declaredNames.length > 0) return true;
+
+    const assignedNames = this.bindReturnedValue(callPath, statementPath)
+      .map((statement) => Object.keys(t.getBindingIdentifiers(statement)))
+      .reduce((names, statementNames) => [...names, ...statementNames], []);
+    if (assignedNames.some((name) => declaredNames.includes(name))) return true;
+
+    // Variables the hook uses must not be shadowed in the caller.
+    let isShadowed = false;
+    this.path.get("body").traverse({
+      Identifier: (path) => {
+        if (!path.isReferencedIdentifier()) return;
+
+        const { name } = path.node;
+        const hookBinding = path.scope.getBinding(name);
+        if (hookBinding && isDeclaredIn(hookBinding, this.path)) return;
+
+        if (callerScope.getBinding(name) !== hookBinding) {
+          isShadowed = true;
+        }
+      }
+    });
+
+    return isShadowed;
+  }
+
+  private inlinedStatements(
+    callPath: t.NodePath<t.CallExpression>,
+    statementPath: CallSite["statementPath"]
+  ): t.Statement[] {
+    const { params } = this.path.node;
+    const values = callPath.node.arguments;
+
+    const body = t.transformCopy(callPath, this.path.node.body, {
+      Identifier(idPath) {
+        if (!idPath.isReferencedIdentifier()) return;
+
+        const param = findParamMatchingId(idPath.node, params);
+        if (!param.isMatch) return;
+
+        const value = param.resolveValue(values) || t.identifier("undefined");
+        idPath.replaceWith(value);
+      }
+    });
+
+    const statements = this.returnStatement
+      ? body.body.slice(0, -1)
+      : body.body;
+    const returnedValue = this.returnStatement ? last(body.body) : null;
+
+    return [
+      ...statements,
+      ...this.bindReturnedValue(
+        callPath,
+        statementPath,
+        t.isReturnStatement(returnedValue) ? returnedValue.argument : null
+      )
+    ];
+  }
+
+  /**
+   * `const { count } = useCounter()` doesn't need to declare `count` again
+   * if the hook returns `{ count }`.
+   */
+  private bindReturnedValue(
+    callPath: t.NodePath<t.CallExpression>,
+    statementPath: CallSite["statementPath"],
+    value: t.Expression | null = this.returnStatement
+      ? this.returnStatement.argument
+      : null
+  ): t.Statement[] {
+    if (statementPath.isExpressionStatement()) {
+      if (!value || t.isIdentifier(value) || t.isLiteral(value)) return [];
+      return [t.expressionStatement(value)];
+    }
+
+    const declaration = statementPath.node as t.VariableDeclaration;
+    const { id } = callPath.parent as t.VariableDeclarator;
+    const declare = (id: t.LVal, value: t.Expression | null) =>
+      t.variableDeclaration(declaration.kind, [
+        t.variableDeclarator(id, value || t.identifier("undefined"))
+      ]);
+
+    const assignments = matchReturnedValue(id, value);
+    if (!assignments) return [declare(id, value)];
+
+    return assignments
+      .filter(({ id, value }) => !t.isIdentifier(value, { name: id.name }))
+      .map(({ id, value }) => declare(id, value));
+  }
+}
+
+type Assignment = { id: t.Identifier; value: t.Expression };
+
+/**
+ * Returns `null` if the returned value doesn't have the shape of the
+ * declared variables, e.g. `const [a, b] = useSomething()` and the hook
+ * returns `{ a, b }`.
+ */
+function matchReturnedValue(
+  id: t.LVal,
+  value: t.Expression | null
+): Assignment[] | null {
+  if (!value) return null;
+
+  if (t.isIdentifier(id)) {
+    return [{ id, value }];
+  }
+
+  if (t.isObjectPattern(id) && t.isObjectExpression(value)) {
+    const assignments: Assignment[] = [];
+
+    for (const property of id.properties) {
+      if (!t.isObjectProperty(property) || property.computed) return null;
+      if (!t.isIdentifier(property.key) || !t.isIdentifier(property.value)) {
+        return null;
+      }
+
+      const keyName = property.key.name;
+      const returnedProperty = value.properties.find(
+        (returned): returned is t.ObjectProperty =>
+          t.isObjectProperty(returned) &&
+          !returned.computed &&
+          t.isIdentifier(returned.key, { name: keyName })
+      );
+      if (!returnedProperty || !t.isExpression(returnedProperty.value)) {
+        return null;
+      }
+
+      assignments.push({ id: property.value, value: returnedProperty.value });
+    }
+
+    const hasSpread = value.properties.some(
+      (property) => !t.isObjectProperty(property)
+    );
+    return hasSpread ? null : assignments;
+  }
+
+  if (t.isArrayPattern(id) && t.isArrayExpression(value)) {
+    const assignments: Assignment[] = [];
+
+    for (const [index, element] of id.elements.entries()) {
+      if (element === null) continue;
+      if (!t.isIdentifier(element)) return null;
+
+      const returnedElement = value.elements[index];
+      if (!t.isExpression(returnedElement)) return null;
+
+      assignments.push({ id: element, value: returnedElement });
+    }
+
+    const hasSpread = value.elements
+      .slice(0, id.elements.length)
+      .some((element) => t.isSpreadElement(element));
+    return hasSpread ? null : assignments;
+  }
+
+  return null;
+}
+
+/**
+ * Hooks can only be inlined where they are called at the top level of a
+ * function, e.g. `const value = useSomething()` or `useSomething()`.
+ */
+function findCallSite(referencePath: t.NodePath): CallSite | null {
+  const callPath = referencePath.parentPath;
+  if (!callPath.isCallExpression()) return null;
+  if (callPath.node.callee !== referencePath.node) return null;
+
+  const parentPath = callPath.parentPath;
+  const statementPath = parentPath.isVariableDeclarator()
+    ? parentPath.parentPath
+    : parentPath;
+
+  if (
+    !statementPath.isExpressionStatement() &&
+    !(
+      statementPath.isVariableDeclaration() &&
+      statementPath.node.declarations.length === 1
+    )
+  ) {
+    return null;
+  }
+
+  const blockPath = statementPath.parentPath;
+  if (!blockPath.isBlockStatement() || !blockPath.parentPath.isFunction()) {
+    return null;
+  }
+
+  return { callPath, statementPath };
+}
+
+function isDeclaredIn(binding: t.Binding, path: t.NodePath): boolean {
+  let scope: t.NodePath["scope"] | null = binding.scope;
+  while (scope) {
+    if (scope === path.scope) return true;
+    scope = scope.parent;
+  }
+
+  return false;
+}
@@ -0,0 +1,105 @@
+import { Code } from "../../editor/editor";
+import * as t from "../../ast";
+
+export {
+  JsxChild,
+  isJsx,
+  sourceOf,
+  isInsignificantJsxText,
+  indentJsxChildren,
+  indentationOfLine,
+  unparenthesize,
+  keepingComments
+};
+
+type JsxChild = t.JSXElement["children"][number];
+
+function isJsx(node: t.Node | null): node is t.JSXElement | t.JSXFragment {
+  return t.isJSXElement(node) || t.isJSXFragment(node);
+}
+
+/**
+ * Returns the code of the node as it's written, with its parentheses.
+ * E.g. `(\n  <p>Text</p>\n)` for multi-lines JSX.
+ */
+function sourceOf(code: Code, node: t.Node): Code {
+  const { extra } = node as {
+    extra?: { parenthesized?: boolean; parenStart?: number };
+  };
+  const start = node.start || 0;
+  const end = node.end || 0;
+
+  if (!extra || !extra.parenthesized || extra.parenStart === undefined) {
+    return code.slice(start, end);
+  }
+
+  return code.slice(extra.parenStart, code.indexOf(")", end) + 1);
+}
+
+/**
+ * JSX ignores whitespaces that contain a new line, they are only there to
+ * format the code.
+ */
+function isInsignificantJsxText(node: t.Node): node is t.JSXText {
+  return t.isJSXText(node) && /^\s*$/.test(node.value) && /\n/.test(node.value);
+}
+
+/**
+ * Removes the whitespaces around the children and puts each of them on its
+ * own line, with the given indentation.
+ */
+function indentJsxChildren(
+  children: JsxChild[],
+  indentation: string
+): JsxChild[] {
+  const start = children.findIndex((child) => !isInsignificantJsxText(child));
+  if (start === -1) return [];
+
+  const end =
+    children.length -
+    [...children]
+      .reverse()
+      .findIndex((child) => !isInsignificantJsxText(child));
+
+  return children
+    .slice(start, end)
+    .map((child) =>
+      isInsignificantJsxText(child) ? t.jsxText(`\n${indentation}`) : child
+    );
+}
+
+function indentationOfLine(code: Code, line: number): string {
+  const [indentation] = code.split("\n")[line - 1].match(/^\s*/) || [""];
+  return " ".repeat(indentation.length);
+}
+
+/**
+ * Recast would print the parentheses of the original code again around the
+ * node, even if it's moved in JSX where they mean something else.
+ */
+function unparenthesize<T extends t.Node>(node: T): T {
+  const { extra } = node as { extra?: object };
+  if (extra) {
+    Object.assign(node, { extra: { ...extra, parenthesized: false } });
+  }
+
+  return node;
+}
+
+/**
+ * Babel moves the comments of the nodes it replaces. Recast would then print
+ * these nodes from scratch, so we restore them as they were.
+ */
+function keepingComments(nodes: t.Node[], replace: () => void) {
+  const comments = nodes.map(
+    ({ leadingComments, trailingComments, innerComments }) => ({
+      leadingComments,
+      trailingComments,
+      innerComments
+    })
+  );
+
+  replace();
+
+  nodes.forEach((node, index) => Object.assign(node, comments[index]));
+}
@@ -0,0 +1,17 @@
+import { unwrapJsxElement, hasJsxElementToUnwrap } from "./unwrap-jsx-element";
+
+import { RefactoringWithActionProvider } from "../../../types";
+
+const config: RefactoringWithActionProvider = {
+  command: {
+    key: "react.unwrapJsxElement",
+    operation: unwrapJsxElement,
+    title: "Unwrap JSX Element"
+  },
+  actionProvider: {
+    message: "Unwrap JSX element",
+    createVisitor: hasJsxElementToUnwrap
+  }
+};
+
+export default config;
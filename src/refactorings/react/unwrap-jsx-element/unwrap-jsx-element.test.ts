@@ -0,0 +1,181 @@
+import { Code, ErrorReason } from "../../../editor/editor";
+import { InMemoryEditor } from "../../../editor/adapters/in-memory-editor";
+import { testEach } from "../../../tests-helpers";
+
+import { unwrapJsxElement } from "./unwrap-jsx-element";
+
+describe("Unwrap JSX Element", () => {
+  testEach<{ code: Code; expected: Code }>(
+    "should unwrap JSX element",
+    [
+      {
+        description: "element rendered in another one",
+        code: `function Card() {
+  return (
+    <section>
+      <d[cursor]iv>
+        <h1>Title</h1>
+        <p>Text</p>
+      </div>
+      <footer />
+    </section>
+  );
+}`,
+        expected: `function Card() {
+  return (
+    <section>
+      <h1>Title</h1>
+      <p>Text</p>
+      <footer />
+    </section>
+  );
+}`
+      },
+      {
+        description: "element with nested children",
+        code: `function Card() {
+  return (
+    <section>
+      <d[cursor]iv className="content">
+        <p>
+          Text
+        </p>
+      </div>
+    </section>
+  );
+}`,
+        expected: `function Card() {
+  return (
+    <section>
+      <p>
+        Text
+      </p>
+    </section>
+  );
+}`
+      },
+      {
+        description: "element in a text",
+        code: `function Title() {
+  return <h1>Hello <strong>[cursor]world</strong>!</h1>;
+}`,
+        expected: `function Title() {
+  return <h1>Hello world!</h1>;
+}`
+      },
+      {
+        description: "fragment rendered in another element",
+        code: `function Card() {
+  return (
+    <section>
+      <[cursor]>
+        <h1>Title</h1>
+      </>
+    </section>
+  );
+}`,
+        expected: `function Card() {
+  return (
+    <section>
+      <h1>Title</h1>
+    </section>
+  );
+}`
+      },
+      {
+        description: "returned element with one child",
+        code: `function Card() {
+  return (
+    <d[cursor]iv>
+      <section>
+        <h1>Title</h1>
+      </section>
+    </div>
+  );
+}`,
+        expected: `function Card() {
+  return (
+    <section>
+      <h1>Title</h1>
+    </section>
+  );
+}`
+      },
+      {
+        description: "returned element with an expression",
+        code: `function Title({ title }) {
+  return <h1>[cursor]{title}</h1>;
+}`,
+        expected: `function Title({ title }) {
+  return title;
+}`
+      },
+      {
+        description: "returned element with many children",
+        code: `function Card() {
+  return (
+    <[cursor]section>
+      <h1>Title</h1>
+      <p>Text</p>
+    </section>
+  );
+}`,
+        expected: `function Card() {
+  return <>
+    <h1>Title</h1>
+    <p>Text</p>
+  </>;
+}`
+      }
+    ],
+    async ({ code, expected }) => {
+      const editor = new InMemoryEditor(code);
+
+      await unwrapJsxElement(editor);
+
+      expect(editor.code).toBe(expected);
+    }
+  );
+
+  testEach<{ code: Code; expectedError: ErrorReason }>(
+    "should not unwrap JSX element",
+    [
+      {
+        description: "if there's no JSX",
+        code: `function sayHello() {
+  [cursor]console.log("Hello");
+}`,
+        expectedError: ErrorReason.DidNotFindJsxElementToUnwrap
+      },
+      {
+        description: "if element has no children",
+        code: `function Separator() {
+  return <hr [cursor]/>;
+}`,
+        expectedError: ErrorReason.DidNotFindJsxElementToUnwrap
+      },
+      {
+        description: "if children of a returned fragment need a parent",
+        code: `function Card() {
+  return (
+    <[cursor]>
+      <h1>Title</h1>
+      <p>Text</p>
+    </>
+  );
+}`,
+        expectedError: ErrorReason.CantUnwrapJsxThatNeedsAParent
+      }
+    ],
+    async ({ code, expectedError }) => {
+      const editor = new InMemoryEditor(code);
+      const originalCode = editor.code;
+      jest.spyOn(editor, "showError");
+
+      await unwrapJsxElement(editor);
+
+      expect(editor.showError).toBeCalledWith(expectedError);
+      expect(editor.code).toBe(originalCode);
+    }
+  );
+});
@@ -0,0 +1,124 @@
+import { Editor, Code, ErrorReason } from "../../../editor/editor";
+import { Selection } from "../../../editor/selection";
+import * as t from "../../../ast";
+
+import {
+  isInsignificantJsxText,
+  indentJsxChildren,
+  indentationOfLine,
+  unparenthesize,
+  keepingComments
+} from "../jsx";
+
+export { unwrapJsxElement, createVisitor as hasJsxElementToUnwrap };
+
+async function unwrapJsxElement(editor: Editor) {
+  const { code, selection } = editor;
+  const updatedCode = updateCode(t.parse(code), code, selection);
+
+  if (updatedCode.error !== null) {
+    editor.showError(updatedCode.error);
+    return;
+  }
+
+  if (!updatedCode.hasCodeChanged) {
+    editor.showError(ErrorReason.DidNotFindJsxElementToUnwrap);
+    return;
+  }
+
+  await editor.write(updatedCode.code);
+}
+
+function updateCode(
+  ast: t.AST,
+  code: Code,
+  selection: Selection
+): t.Transformed & { error: ErrorReason | null } {
+  let error: ErrorReason | null = null;
+
+  const result = t.transformAST(
+    ast,
+    createVisitor(selection, (path) => {
+      const { node, parentPath } = path;
+
+      if (t.isJSXElement(parentPath.node) || t.isJSXFragment(parentPath.node)) {
+        const { start } = node.loc as t.SourceLocation;
+        const indentation = indentationOfLine(code, start.line);
+
+        const children = indentJsxChildren(node.children, indentation);
+        unparenthesize(parentPath.node);
+        keepingComments(children, () => path.replaceWithMultiple(children));
+        return;
+      }
+
+      const replacement = unwrappedExpression(node);
+      if (t.isJSXFragment(node) && t.isJSXFragment(replacement)) {
+        error = ErrorReason.CantUnwrapJsxThatNeedsAParent;
+        return;
+      }
+
+      keepingComments([replacement], () =>
+        path.replaceWith(unparenthesize(replacement))
+      );
+    })
+  );
+
+  return { ...result, error };
+}
+
+function createVisitor(
+  selection: Selection,
+  onMatch: (path: t.NodePath<t.JSXElement | t.JSXFragment>) => void
+): t.Visitor {
+  // We want the deepest element that contains the selection.
+  // Traversal goes from the top to the bottom, so we keep the last match.
+  let selectedPath: t.NodePath<t.JSXElement | t.JSXFragment> | null = null;
+
+  const visitJsx = (path: t.NodePath<t.JSXElement | t.JSXFragment>) => {
+    if (!selection.isInsidePath(path)) return;
+    if (path.parentPath.isJSXAttribute()) return;
+
+    const hasChildren = path.node.children.some(
+      (child) => !isInsignificantJsxText(child)
+    );
+    if (!hasChildren) return;
+
+    selectedPath = path;
+  };
+
+  return {
+    Program: {
+      exit() {
+        if (!selectedPath) return;
+        onMatch(selectedPath);
+      }
+    },
+    JSXElement: visitJsx,
+    JSXFragment: visitJsx
+  };
+}
+
+/**
+ * Outside of JSX, children can't be siblings. If there's more than one,
+ * they remain in a fragment.
+ */
+function unwrappedExpression(node: t.JSXElement | t.JSXFragment): t.Expression {
+  const children = node.children.filter(
+    (child) => !isInsignificantJsxText(child)
+  );
+  const [child] = children;
+
+  if (children.length === 1) {
+    if (t.isJSXElement(child) || t.isJSXFragment(child)) return child;
+
+    if (t.isJSXExpressionContainer(child) && t.isExpression(child.expression)) {
+      return child.expression;
+    }
+  }
+
+  return t.jsxFragment(
+    t.jsxOpeningFragment(),
+    t.jsxClosingFragment(),
+    node.children
+  );
+}
@@ -0,0 +1,17 @@
+import { wrapJsx, hasJsxToWrap } from "./wrap-jsx";
+
+import { RefactoringWithActionProvider } from "../../../types";
+
+const config: RefactoringWithActionProvider = {
+  command: {
+    key: "react.wrapJsx",
+    operation: wrapJsx,
+    title: "Wrap JSX"
+  },
+  actionProvider: {
+    message: "Wrap JSX",
+    createVisitor: hasJsxToWrap
+  }
+};
+
+export default config;
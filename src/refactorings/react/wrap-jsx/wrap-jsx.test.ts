@@ -0,0 +1,275 @@
+import { Code, ErrorReason } from "../../../editor/editor";
+import { InMemoryEditor } from "../../../editor/adapters/in-memory-editor";
+import { testEach } from "../../../tests-helpers";
+
+import { wrapJsx, Wrapper } from "./wrap-jsx";
+
+describe("Wrap JSX", () => {
+  testEach<{ code: Code; wrapper: Wrapper; expected: Code }>(
+    "should wrap JSX",
+    [
+      {
+        description: "element in a div",
+        wrapper: Wrapper.Div,
+        code: `function Title() {
+  return <h1>[cursor]Hello</h1>;
+}`,
+        expected: `function Title() {
+  return <div><h1>Hello</h1></div>;
+}`
+      },
+      {
+        description: "element in a fragment",
+        wrapper: Wrapper.Fragment,
+        code: `function Title() {
+  return <h1>[cursor]Hello</h1>;
+}`,
+        expected: `function Title() {
+  return <><h1>Hello</h1></>;
+}`
+      },
+      {
+        description: "multi-lines element",
+        wrapper: Wrapper.Div,
+        code: `function Card() {
+  return (
+    <sec[cursor]tion>
+      <h1>Title</h1>
+    </section>
+  );
+}`,
+        expected: `function Card() {
+  return (
+    <div>
+      <section>
+        <h1>Title</h1>
+      </section>
+    </div>
+  );
+}`
+      },
+      {
+        description: "element rendered in another one",
+        wrapper: Wrapper.Div,
+        code: `function Card() {
+  return (
+    <section>
+      <h1>[cursor]Title</h1>
+      <p>Text</p>
+    </section>
+  );
+}`,
+        expected: `function Card() {
+  return (
+    <section>
+      <div><h1>Title</h1></div>
+      <p>Text</p>
+    </section>
+  );
+}`
+      },
+      {
+        description: "selected elements",
+        wrapper: Wrapper.Fragment,
+        code: `function Card() {
+  return (
+    <section>
+      [start]<h1>Title</h1>
+      <p>
+        Text
+      </p>[end]
+      <footer />
+    </section>
+  );
+}`,
+        expected: `function Card() {
+  return (
+    <section>
+      <>
+        <h1>Title</h1>
+        <p>
+          Text
+        </p>
+      </>
+      <footer />
+    </section>
+  );
+}`
+      },
+      {
+        description: "partially selected elements",
+        wrapper: Wrapper.Div,
+        code: `function Card() {
+  return (
+    <section>
+      <h1>Ti[start]tle</h1>
+      <p>Te[end]xt</p>
+      <footer />
+    </section>
+  );
+}`,
+        expected: `function Card() {
+  return (
+    <section>
+      <div>
+        <h1>Title</h1>
+        <p>Text</p>
+      </div>
+      <footer />
+    </section>
+  );
+}`
+      },
+      {
+        description: "element in a conditional",
+        wrapper: Wrapper.Conditional,
+        code: `function Card() {
+  return (
+    <section>
+      <h1>[cursor]Title</h1>
+      <p>Text</p>
+    </section>
+  );
+}`,
+        expected: `function Card() {
+  return (
+    <section>
+      {condition && <h1>Title</h1>}
+      <p>Text</p>
+    </section>
+  );
+}`
+      },
+      {
+        description: "selected elements in a conditional",
+        wrapper: Wrapper.Conditional,
+        code: `function Card() {
+  return (
+    <section>
+      [start]<h1>Title</h1>
+      <p>Text</p>[end]
+    </section>
+  );
+}`,
+        expected: `function Card() {
+  return (
+    <section>
+      {condition && <>
+        <h1>Title</h1>
+        <p>Text</p>
+      </>}
+    </section>
+  );
+}`
+      },
+      {
+        description: "expression in a conditional",
+        wrapper: Wrapper.Conditional,
+        code: `function Card({ title }) {
+  return <h1>{[start]title[end]}</h1>;
+}`,
+        expected: `function Card({ title }) {
+  return <h1>{condition && title}</h1>;
+}`
+      },
+      {
+        description: "returned element in a conditional",
+        wrapper: Wrapper.Conditional,
+        code: `function Title() {
+  return <h1>[cursor]Hello</h1>;
+}`,
+        expected: `function Title() {
+  return condition && <h1>Hello</h1>;
+}`
+      }
+    ],
+    async ({ code, wrapper, expected }) => {
+      const editor = new InMemoryEditor(code);
+      pickWrapper(editor, wrapper);
+
+      await wrapJsx(editor);
+
+      expect(editor.code).toBe(expected);
+    }
+  );
+
+  it("should wrap JSX in a component", async () => {
+    const editor = new InMemoryEditor(`function Card() {
+  return (
+    <section>
+      <h1>[cursor]Title</h1>
+    </section>
+  );
+}`);
+    pickWrapper(editor, Wrapper.Component);
+    jest.spyOn(editor, "askUserInput").mockResolvedValue("Tooltip");
+
+    await wrapJsx(editor);
+
+    expect(editor.code).toBe(`function Card() {
+  return (
+    <section>
+      <Tooltip><h1>Title</h1></Tooltip>
+    </section>
+  );
+}`);
+  });
+
+  it("should wrap JSX indented with tabs", async () => {
+    const editor = new InMemoryEditor(`function Card() {
+\treturn (
+\t\t<section>
+\t\t\t[start]<h1>Title</h1>
+\t\t\t<p>Text</p>[end]
+\t\t</section>
+\t);
+}`);
+    pickWrapper(editor, Wrapper.Div);
+
+    await wrapJsx(editor);
+
+    expect(editor.code).toBe(`function Card() {
+\treturn (
+\t\t<section>
+\t\t\t<div>
+\t\t\t\t<h1>Title</h1>
+\t\t\t\t<p>Text</p>
+\t\t\t</div>
+\t\t</section>
+\t);
+}`);
+  });
+
+  it("should not change the code if user cancels", async () => {
+    const code = `function Title() {
+  return <h1>[cursor]Hello</h1>;
+}`;
+    const editor = new InMemoryEditor(code);
+    const originalCode = editor.code;
+    jest.spyOn(editor, "askUserChoice").mockResolvedValue(undefined);
+
+    await wrapJsx(editor);
+
+    expect(editor.code).toBe(originalCode);
+  });
+
+  it("should show an error message if refactoring can't be made", async () => {
+    const code = `function sayHello() {
+  [cursor]console.log("Hello");
+}`;
+    const editor = new InMemoryEditor(code);
+    jest.spyOn(editor, "showError");
+
+    await wrapJsx(editor);
+
+    expect(editor.showError).toBeCalledWith(ErrorReason.DidNotFindJsxToWrap);
+  });
+});
+
+function pickWrapper(editor: InMemoryEditor, wrapper: Wrapper) {
+  jest
+    .spyOn(editor, "askUserChoice")
+    .mockImplementation(async (choices) =>
+      choices.find(({ value }) => value === wrapper)
+    );
+}
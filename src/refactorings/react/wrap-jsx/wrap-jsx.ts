@@ -0,0 +1,264 @@
+import { Editor, Code, ErrorReason } from "../../../editor/editor";
+import { Selection } from "../../../editor/selection";
+import * as t from "../../../ast";
+import { last } from "../../../array";
+
+import {
+  JsxChild,
+  isInsignificantJsxText,
+  indentJsxChildren,
+  indentationOfLine,
+  unparenthesize,
+  keepingComments
+} from "../jsx";
+
+export { wrapJsx, hasJsxToWrap, Wrapper };
+
+enum Wrapper {
+  Div,
+  Fragment,
+  Component,
+  Conditional
+}
+
+async function wrapJsx(editor: Editor) {
+  const { code, selection } = editor;
+
+  let hasJsxToWrap = false;
+  t.parseAndTraverseCode(
+    code,
+    createVisitor(selection, () => (hasJsxToWrap = true))
+  );
+
+  if (!hasJsxToWrap) {
+    editor.showError(ErrorReason.DidNotFindJsxToWrap);
+    return;
+  }
+
+  const choice = await editor.askUserChoice(
+    [
+      {
+        value: Wrapper.Div,
+        label: "Div",
+        description: "<div>…</div>"
+      },
+      {
+        value: Wrapper.Fragment,
+        label: "Fragment",
+        description: "<>…</>"
+      },
+      {
+        value: Wrapper.Component,
+        label: "Component",
+        description: "<Component>…</Component>"
+      },
+      {
+        value: Wrapper.Conditional,
+        label: "Conditional",
+        description: "{condition && …}"
+      }
+    ],
+    "What should the JSX be wrapped in?"
+  );
+  if (!choice) return;
+
+  let name = "div";
+  if (choice.value === Wrapper.Component) {
+    const input = await editor.askUserInput("Wrapper");
+    if (!input) return;
+    name = input;
+  }
+
+  const updatedCode = updateCode(t.parse(code), code, selection, {
+    wrapper: choice.value,
+    name
+  });
+
+  if (!updatedCode.hasCodeChanged) {
+    editor.showError(ErrorReason.DidNotFindJsxToWrap);
+    return;
+  }
+
+  await editor.write(updatedCode.code);
+}
+
+type Options = {
+  wrapper: Wrapper;
+  name: string;
+};
+
+function updateCode(
+  ast: t.AST,
+  code: Code,
+  selection: Selection,
+  options: Options
+): t.Transformed {
+  // Code indented with tabs is parsed with `tabWidth = 1`.
+  const indentationUnit = t.isUsingTabs(ast) ? " " : "  ";
+
+  return t.transformAST(
+    ast,
+    createVisitor(selection, (paths) => {
+      new Wrapping(paths, code, indentationUnit).apply(options);
+    })
+  );
+}
+
+function createVisitor(
+  selection: Selection,
+  onMatch: (paths: t.NodePath<JsxChild>[]) => void
+): t.Visitor {
+  // We want the deepest element that contains the selection.
+  // Traversal goes from the top to the bottom, so we keep the last match.
+  let selectedPaths: t.NodePath<JsxChild>[] = [];
+
+  const visitJsx = (path: t.NodePath<t.JSXElement | t.JSXFragment>) => {
+    if (!selection.isInsidePath(path)) return;
+
+    // We don't wrap JSX used as an attribute value, like `icon=<Icon />`.
+    if (path.parentPath.isJSXAttribute()) return;
+
+    const isSelected = Selection.fromAST(path.node.loc).isInside(selection);
+    const selectedChildren = isSelected
+      ? []
+      : findSelectedChildren(path, selection);
+    selectedPaths = selectedChildren.length > 0 ? selectedChildren : [path];
+  };
+
+  return {
+    Program: {
+      exit() {
+        if (selectedPaths.length === 0) return;
+        onMatch(selectedPaths);
+      }
+    },
+    JSXElement: visitJsx,
+    JSXFragment: visitJsx
+  };
+}
+
+function hasJsxToWrap(
+  selection: Selection,
+  onMatch: (path: t.NodePath) => void
+): t.Visitor {
+  return createVisitor(selection, ([firstPath]) => onMatch(firstPath));
+}
+
+/**
+ * Returns the children touched by the selection, and everything in between.
+ */
+function findSelectedChildren(
+  path: t.NodePath<t.JSXElement | t.JSXFragment>,
+  selection: Selection
+): t.NodePath<JsxChild>[] {
+  if (selection.isEmpty()) return [];
+
+  const children = path.get("children") as t.NodePath<JsxChild>[];
+  const isSelected = (child: t.NodePath<JsxChild>) =>
+    t.isSelectablePath(child) &&
+    !isInsignificantJsxText(child.node) &&
+    overlaps(Selection.fromAST(child.node.loc), selection);
+
+  const start = children.findIndex(isSelected);
+  if (start === -1) return [];
+
+  const end = children.length - [...children].reverse().findIndex(isSelected);
+  return children.slice(start, end);
+}
+
+class Wrapping {
+  private indentation: string;
+  private isMultiLines: boolean;
+
+  constructor(
+    private paths: t.NodePath<JsxChild>[],
+    code: Code,
+    private indentationUnit: string
+  ) {
+    const { start } = this.paths[0].node.loc as t.SourceLocation;
+    const { end } = last(this.paths)?.node.loc as t.SourceLocation;
+
+    this.indentation = indentationOfLine(code, start.line);
+    this.isMultiLines = start.line !== end.line;
+  }
+
+  apply({ wrapper, name }: Options) {
+    const [firstPath, ...otherPaths] = this.paths;
+    const nodes = this.paths.map(({ node }) => unparenthesize(node));
+
+    const wrapped =
+      wrapper === Wrapper.Conditional
+        ? this.conditional(nodes)
+        : this.element(wrapper === Wrapper.Fragment ? null : name, nodes);
+
+    const { parentPath } = firstPath;
+    const isInJsx =
+      t.isJSXElement(parentPath.node) || t.isJSXFragment(parentPath.node);
+    if (isInJsx) unparenthesize(parentPath.node);
+
+    keepingComments([firstPath.node], () => {
+      firstPath.replaceWith(
+        isInJsx && t.isLogicalExpression(wrapped)
+          ? t.jsxExpressionContainer(wrapped)
+          : wrapped
+      );
+    });
+    otherPaths.forEach((path) => path.remove());
+  }
+
+  private element(
+    name: string | null,
+    nodes: JsxChild[]
+  ): t.JSXElement | t.JSXFragment {
+    const childIndentation = this.indentation + this.indentationUnit;
+    const children = this.isMultiLines
+      ? [
+          t.jsxText(`\n${childIndentation}`),
+          ...indentJsxChildren(nodes, childIndentation),
+          t.jsxText(`\n${this.indentation}`)
+        ]
+      : nodes;
+
+    if (name === null) {
+      return t.jsxFragment(
+        t.jsxOpeningFragment(),
+        t.jsxClosingFragment(),
+        children
+      );
+    }
+
+    return t.jsxElement(
+      t.jsxOpeningElement(t.jsxIdentifier(name), []),
+      t.jsxClosingElement(t.jsxIdentifier(name)),
+      children,
+      false
+    );
+  }
+
+  private conditional(nodes: JsxChild[]): t.LogicalExpression {
+    const [node] = nodes;
+    const isSingleNode = nodes.length === 1;
+
+    let expression: t.Expression;
+    if (isSingleNode && (t.isJSXElement(node) || t.isJSXFragment(node))) {
+      expression = node;
+    } else if (
+      isSingleNode &&
+      t.isJSXExpressionContainer(node) &&
+      t.isExpression(node.expression)
+    ) {
+      expression = node.expression;
+    } else {
+      expression = this.element(null, nodes);
+    }
+
+    return t.logicalExpression("&&", t.identifier("condition"), expression);
+  }
+}
+
+function overlaps(selectionA: Selection, selectionB: Selection): boolean {
+  return (
+    selectionA.start.isBefore(selectionB.end) &&
+    selectionB.start.isBefore(selectionA.end)
+  );
+}
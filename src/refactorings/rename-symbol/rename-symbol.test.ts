@@ -1,5 +1,7 @@
-import { Command, Result } from "../../editor/editor";
+import { Code, Command, Result, RelativePath } from "../../editor/editor";
 import { InMemoryEditor } from "../../editor/adapters/in-memory-editor";
+import { testEach } from "../../tests-helpers";
+import * as t from "../../ast";
 
 import { renameSymbol } from "./rename-symbol";
 
@@ -169,5 +171,238 @@ function sayHello() {
   console.log(hello);
 }`);
     });
+
+    it("renames shorthand object properties", async () => {
+      const editor = new InMemoryEditor(`const [cursor]hello = 'world';
+const data = { hello };`);
+      jest.spyOn(editor, "delegate").mockResolvedValue(Result.NotSupported);
+      jest.spyOn(editor, "askUserInput").mockResolvedValue("aBrandNewName");
+
+      await renameSymbol(editor);
+
+      expect(editor.code).toBe(`const aBrandNewName = 'world';
+const data = { hello: aBrandNewName };`);
+    });
+
+    it("keeps the export declaration of an exported symbol", async () => {
+      const editor = new InMemoryEditor(`export function [cursor]hello() {}
+hello();`);
+      jest.spyOn(editor, "delegate").mockResolvedValue(Result.NotSupported);
+      jest.spyOn(editor, "askUserInput").mockResolvedValue("aBrandNewName");
+
+      await renameSymbol(editor);
+
+      expect(editor.code).toBe(`export function aBrandNewName() {}
+aBrandNewName();`);
+    });
+
+    describe("across the workspace", () => {
+      testEach<{
+        code: Code;
+        otherFile: { path: RelativePath; code: Code };
+        newName?: string;
+        expected: Code;
+      }>(
+        "should rename exported symbol in",
+        [
+          {
+            description: "a named import",
+            code: `export function [cursor]hello() {}`,
+            otherFile: {
+              path: new RelativePath("./other-file.ts"),
+              code: `import { hello } from "./abracadabra";
+hello();`
+            },
+            expected: `import { aBrandNewName } from "./abracadabra";
+aBrandNewName();`
+          },
+          {
+            description: "an import from a nested file",
+            code: `export function [cursor]hello() {}`,
+            otherFile: {
+              path: new RelativePath("./nested/other-file.ts"),
+              code: `import { hello } from "../abracadabra.ts";
+hello();`
+            },
+            expected: `import { aBrandNewName } from "../abracadabra.ts";
+aBrandNewName();`
+          },
+          {
+            description: "an aliased import",
+            code: `export const [cursor]hello = "world";`,
+            otherFile: {
+              path: new RelativePath("./other-file.ts"),
+              code: `import { hello as greeting } from "./abracadabra";
+console.log(greeting);`
+            },
+            expected: `import { aBrandNewName as greeting } from "./abracadabra";
+console.log(greeting);`
+          },
+          {
+            description: "an object shorthand",
+            code: `export const [cursor]hello = "world";`,
+            otherFile: {
+              path: new RelativePath("./other-file.ts"),
+              code: `import { hello } from "./abracadabra";
+const data = { hello };`
+            },
+            expected: `import { aBrandNewName } from "./abracadabra";
+const data = { hello: aBrandNewName };`
+          },
+          {
+            description: "a JSX element",
+            code: `export function [cursor]Hello() {}`,
+            otherFile: {
+              path: new RelativePath("./other-file.tsx"),
+              code: `import { Hello } from "./abracadabra";
+const element = <Hello name="world"></Hello>;`
+            },
+            newName: "Greeting",
+            expected: `import { Greeting } from "./abracadabra";
+const element = <Greeting name="world"></Greeting>;`
+          },
+          {
+            description: "a symbol exported with a specifier",
+            code: `function [cursor]hello() {}
+export { hello };`,
+            otherFile: {
+              path: new RelativePath("./other-file.ts"),
+              code: `import { hello } from "./abracadabra";
+hello();`
+            },
+            expected: `import { aBrandNewName } from "./abracadabra";
+aBrandNewName();`
+          },
+          {
+            description: "an export of the imported symbol",
+            code: `export function [cursor]hello() {}`,
+            otherFile: {
+              path: new RelativePath("./other-file.ts"),
+              code: `import { hello } from "./abracadabra";
+export { hello };`
+            },
+            expected: `import { aBrandNewName } from "./abracadabra";
+export { aBrandNewName as hello };`
+          },
+          {
+            description: "a re-export",
+            code: `export function [cursor]hello() {}`,
+            otherFile: {
+              path: new RelativePath("./other-file.ts"),
+              code: `export { hello } from "./abracadabra";`
+            },
+            expected: `export { aBrandNewName as hello } from "./abracadabra";`
+          },
+          {
+            description: "a Vue single-file component",
+            code: `export function [cursor]hello() {}`,
+            otherFile: {
+              path: new RelativePath("./Hello.vue"),
+              code: `<template>
+  <div>Hello</div>
+</template>
+
+<script>
+import { hello } from "./abracadabra";
+export default { methods: { hello } };
+</script>`
+            },
+            expected: `<template>
+  <div>Hello</div>
+</template>
+
+<script>
+import { aBrandNewName } from "./abracadabra";
+export default { methods: { hello: aBrandNewName } };
+</script>`
+          }
+        ],
+        async ({ code, otherFile, newName = "aBrandNewName", expected }) => {
+          const editor = new InMemoryEditor(code);
+          editor.writeIn(otherFile.path, otherFile.code);
+          jest.spyOn(editor, "delegate").mockResolvedValue(Result.NotSupported);
+          jest.spyOn(editor, "askUserInput").mockResolvedValue(newName);
+
+          await renameSymbol(editor);
+
+          expect(await editor.codeOf(otherFile.path)).toBe(expected);
+        }
+      );
+
+      testEach<{ code: Code; otherFile: Code }>(
+        "should not rename",
+        [
+          {
+            description: "a symbol that is not exported",
+            code: `function [cursor]hello() {}`,
+            otherFile: `import { hello } from "./abracadabra";
+hello();`
+          },
+          {
+            description: "a symbol exported with another name",
+            code: `function [cursor]hello() {}
+export { hello as greet };`,
+            otherFile: `import { hello } from "./abracadabra";
+hello();`
+          },
+          {
+            description: "a default export",
+            code: `export default function [cursor]hello() {}`,
+            otherFile: `import hello from "./abracadabra";
+hello();`
+          },
+          {
+            description: "an import from another module",
+            code: `export function [cursor]hello() {}`,
+            otherFile: `import { hello } from "./another-module";
+hello();`
+          },
+          {
+            description: "a file that can't be parsed",
+            code: `export function [cursor]hello() {}`,
+            otherFile: `import { hello } from "./abracadabra"; (`
+          }
+        ],
+        async ({ code, otherFile }) => {
+          const editor = new InMemoryEditor(code);
+          const path = new RelativePath("./other-file.ts");
+          editor.writeIn(path, otherFile);
+          jest.spyOn(editor, "delegate").mockResolvedValue(Result.NotSupported);
+          jest.spyOn(editor, "askUserInput").mockResolvedValue("aBrandNewName");
+
+          await renameSymbol(editor);
+
+          expect(await editor.codeOf(path)).toBe(otherFile);
+        }
+      );
+
+      describe("from a Flow document", () => {
+        afterEach(() => t.parseCache.close());
+
+        it("should rename in TypeScript files", async () => {
+          const editor = new InMemoryEditor(`// @flow
+export function [cursor]hello() {}`);
+          t.parseCache.open(
+            { uri: "abracadabra.js", version: 1, syntax: "flow" },
+            editor.code
+          );
+          const path = new RelativePath("./other-file.ts");
+          editor.writeIn(
+            path,
+            `import { hello } from "./abracadabra";
+const greeting = hello() as string;`
+          );
+          jest.spyOn(editor, "delegate").mockResolvedValue(Result.NotSupported);
+          jest.spyOn(editor, "askUserInput").mockResolvedValue("aBrandNewName");
+
+          await renameSymbol(editor);
+
+          expect(await editor.codeOf(path)).toBe(
+            `import { aBrandNewName } from "./abracadabra";
+const greeting = aBrandNewName() as string;`
+          );
+        });
+      });
+    });
   });
 });
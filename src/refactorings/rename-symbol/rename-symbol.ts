@@ -1,4 +1,13 @@
-import { Editor, Command, Result } from "../../editor/editor";
+import { Binding } from "@babel/traverse";
+
+import {
+  Code,
+  Editor,
+  Command,
+  Result,
+  RelativePath
+} from "../../editor/editor";
+import { isVueFile, transformVueScripts } from "../../editor/vue";
 import * as t from "../../ast";
 
 export { renameSymbol };
@@ -43,21 +52,27 @@ class Identifier implements Symbol {
     const newName = await this.editor.askUserInput(this.value);
     if (!newName) return;
 
-    const oldName = this.path.node.name;
-    this.path.scope.rename(this.value, newName);
-
     const { parentPath } = this.path;
-    if (parentPath.isObjectProperty()) {
-      if (parentPath.node.shorthand) {
-        parentPath.replaceWith(
-          t.objectProperty(t.identifier(oldName), t.identifier(newName))
-        );
-      } else if (parentPath.node.key === this.path.node) {
-        return;
-      }
+    if (
+      parentPath.isObjectProperty() &&
+      !parentPath.node.shorthand &&
+      parentPath.node.key === this.path.node
+    ) {
+      return;
     }
 
-    await this.editor.write(t.print(this.ast));
+    const oldName = this.value;
+    const binding = this.path.scope.getBinding(oldName);
+    const isExported = !!binding && isExportedWithSameName(binding);
+    renameBinding(this.path.scope, oldName, newName);
+
+    await this.editor.transaction(async (editor) => {
+      await editor.write(t.print(this.ast));
+
+      if (isExported && newName !== oldName) {
+        await renameInWorkspace(editor, oldName, newName);
+      }
+    });
   }
 
   private get value(): string {
@@ -68,3 +83,212 @@ class Identifier implements Symbol {
 class Nothing implements Symbol {
   async rename() {}
 }
+
+/**
+ * Files importing the renamed symbol keep their own API:
+ * aliased imports and re-exports still use the same name.
+ */
+async function renameInWorkspace(
+  editor: Editor,
+  oldName: string,
+  newName: string
+) {
+  const currentPath = new RelativePath(editor.fileName);
+
+  const files = await editor.workspaceFiles();
+  for (const file of files) {
+    const fileCode = await editor.codeOf(file);
+    const renameImports = (code: Code): Code => {
+      if (!code.includes(oldName)) return code;
+
+      try {
+        const updatedCode = t.transformAST(
+          t.parse(code, t.syntaxOfFile(file.value, code)),
+          createRenameImportsVisitor(
+            currentPath.relativeTo(file),
+            oldName,
+            newName
+          )
+        );
+        return updatedCode.hasCodeChanged ? updatedCode.code : code;
+      } catch {
+        // We can't parse this code, there is nothing we can rename.
+        return code;
+      }
+    };
+
+    const updatedFileCode = isVueFile(file)
+      ? transformVueScripts(fileCode, renameImports)
+      : renameImports(fileCode);
+    if (updatedFileCode === fileCode) continue;
+
+    await editor.writeIn(file, updatedFileCode);
+  }
+}
+
+function createRenameImportsVisitor(
+  renamedFilePath: RelativePath,
+  oldName: string,
+  newName: string
+): t.Visitor {
+  return {
+    ImportDeclaration(path) {
+      const { source, specifiers } = path.node;
+      if (!renamedFilePath.isImportedFrom(source.value)) return;
+
+      specifiers.forEach((specifier) => {
+        if (!t.isImportSpecifier(specifier)) return;
+        if (getName(specifier.imported) !== oldName) return;
+
+        if (specifier.local.name === oldName) {
+          renameBinding(path.scope, oldName, newName, {
+            preserveExportedName: true
+          });
+        }
+        specifier.imported = t.identifier(newName);
+      });
+    },
+
+    ExportNamedDeclaration(path) {
+      const { source, specifiers } = path.node;
+      if (!source || !renamedFilePath.isImportedFrom(source.value)) return;
+
+      path.node.specifiers = specifiers.map((specifier) => {
+        if (!t.isExportSpecifier(specifier)) return specifier;
+        if (specifier.local.name !== oldName) return specifier;
+
+        // Local and exported names share the same code, create a new node.
+        return t.exportSpecifier(
+          t.identifier(newName),
+          t.identifier(getName(specifier.exported))
+        );
+      });
+    }
+  };
+}
+
+function renameBinding(
+  scope: t.Scope,
+  oldName: string,
+  newName: string,
+  options: { preserveExportedName: boolean } = { preserveExportedName: false }
+) {
+  const binding = scope.getBinding(oldName);
+  if (!binding) return;
+
+  const shorthandProperties = getShorthandProperties(binding, oldName);
+  const exportSpecifiers = options.preserveExportedName
+    ? getExportSpecifiers(binding)
+    : [];
+  const exportDeclaration = getExportDeclaration(binding);
+
+  scope.rename(oldName, newName);
+
+  // Renamed variables don't change the keys of the objects.
+  shorthandProperties.forEach((property) => {
+    property.shorthand = false;
+    property.key = t.identifier(oldName);
+  });
+
+  // Local and exported names share the same code, replace the whole node.
+  exportSpecifiers.forEach((path) => {
+    path.replaceWith(
+      t.exportSpecifier(t.identifier(newName), t.identifier(oldName))
+    );
+  });
+
+  if (exportDeclaration) {
+    restoreExportDeclaration(binding, exportDeclaration);
+  }
+}
+
+function getShorthandProperties(
+  binding: Binding,
+  name: string
+): t.ObjectProperty[] {
+  const result: t.ObjectProperty[] = [];
+
+  binding.scope.path.traverse({
+    ObjectProperty(path) {
+      if (!path.node.shorthand) return;
+      if (!t.isIdentifier(path.node.value)) return;
+      if (path.node.value.name !== name) return;
+      if (path.scope.getBinding(name) !== binding) return;
+
+      result.push(path.node);
+    }
+  });
+
+  return result;
+}
+
+function getExportSpecifiers(
+  binding: Binding
+): t.NodePath<t.ExportSpecifier>[] {
+  return binding.referencePaths
+    .map(({ parentPath }) => parentPath)
+    .filter((parentPath): parentPath is t.NodePath<t.ExportSpecifier> =>
+      parentPath.isExportSpecifier()
+    );
+}
+
+function isExportedWithSameName(binding: Binding): boolean {
+  if (!binding.scope.path.isProgram()) return false;
+
+  const name = binding.identifier.name;
+  const isExportedDeclaration = t.isExportNamedDeclaration(
+    getExportDeclaration(binding)
+  );
+  const isExportedBySpecifier = getExportSpecifiers(binding).some(
+    ({ node }) => getName(node.exported) === name
+  );
+
+  return isExportedDeclaration || isExportedBySpecifier;
+}
+
+/**
+ * Babel splits `export function hello() {}` into `function renamed() {}`
+ * and `export { renamed as hello }` when renaming it. Since we rename the
+ * imports too, we want to keep the original export declaration instead.
+ */
+function getExportDeclaration(
+  binding: Binding
+): t.ExportNamedDeclaration | t.ExportDefaultDeclaration | null {
+  if (!binding.scope.path.isProgram()) return null;
+
+  const declarationPath = binding.path.isVariableDeclarator()
+    ? binding.path.parentPath
+    : binding.path;
+  const { parent } = declarationPath;
+
+  return t.isExportNamedDeclaration(parent) ||
+    t.isExportDefaultDeclaration(parent)
+    ? parent
+    : null;
+}
+
+function restoreExportDeclaration(
+  binding: Binding,
+  exportDeclaration: t.ExportNamedDeclaration | t.ExportDefaultDeclaration
+) {
+  const programPath = binding.scope.path;
+  if (!programPath.isProgram()) return;
+
+  const statements = programPath.get("body");
+  const declarationPath = statements.find(
+    ({ node }) => node === exportDeclaration.declaration
+  );
+  if (!declarationPath || typeof declarationPath.key !== "number") return;
+
+  // Babel inserted the split export right after the declaration.
+  const splitExportPath = declarationPath.getSibling(declarationPath.key + 1);
+  if (splitExportPath.isExportNamedDeclaration()) {
+    splitExportPath.remove();
+  }
+
+  declarationPath.replaceWith(exportDeclaration);
+}
+
+function getName(node: t.Identifier | t.StringLiteral): string {
+  return t.isIdentifier(node) ? node.name : node.value;
+}
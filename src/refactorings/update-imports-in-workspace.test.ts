@@ -0,0 +1,276 @@
+import { Code, RelativePath } from "../editor/editor";
+import { InMemoryEditor } from "../editor/adapters/in-memory-editor";
+import { testEach } from "../tests-helpers";
+
+import {
+  updateImportsInWorkspace,
+  showUpdatedImportsSummary,
+  MovedSymbol
+} from "./update-imports-in-workspace";
+
+describe("Update Imports In Workspace", () => {
+  const destination = new RelativePath("./destination.ts");
+
+  testEach<{
+    setup: { movedSymbol: MovedSymbol; otherFile: Code; path?: RelativePath };
+    expected: Code;
+  }>(
+    "should update",
+    [
+      {
+        description: "a named import",
+        setup: {
+          movedSymbol: { name: "doNothing", isDefaultExport: false },
+          otherFile: `import { doNothing } from "./abracadabra";`
+        },
+        expected: `import { doNothing } from "./destination";`
+      },
+      {
+        description: "a named import, with the file extension",
+        setup: {
+          movedSymbol: { name: "doNothing", isDefaultExport: false },
+          otherFile: `import { doNothing } from "./abracadabra.ts";`
+        },
+        expected: `import { doNothing } from "./destination";`
+      },
+      {
+        description: "an aliased import",
+        setup: {
+          movedSymbol: { name: "doNothing", isDefaultExport: false },
+          otherFile: `import { doNothing as noop } from "./abracadabra";`
+        },
+        expected: `import { doNothing as noop } from "./destination";`
+      },
+      {
+        description: "a default import",
+        setup: {
+          movedSymbol: { name: "doNothing", isDefaultExport: true },
+          otherFile: `import noop from "./abracadabra";`
+        },
+        expected: `import { doNothing as noop } from "./destination";`
+      },
+      {
+        description: "an import with other specifiers",
+        setup: {
+          movedSymbol: { name: "doNothing", isDefaultExport: false },
+          otherFile: `import { doSomething, doNothing } from "./abracadabra";`
+        },
+        expected: `import { doSomething } from "./abracadabra";
+import { doNothing } from "./destination";`
+      },
+      {
+        description: "a default import with other specifiers",
+        setup: {
+          movedSymbol: { name: "doNothing", isDefaultExport: true },
+          otherFile: `import doNothing, { doSomething } from "./abracadabra";`
+        },
+        expected: `import { doSomething } from "./abracadabra";
+import { doNothing } from "./destination";`
+      },
+      {
+        description: "an import from a nested file",
+        setup: {
+          movedSymbol: { name: "doNothing", isDefaultExport: false },
+          otherFile: `import { doNothing } from "../abracadabra";`,
+          path: new RelativePath("./nested/other-file.ts")
+        },
+        expected: `import { doNothing } from "../destination";`
+      },
+      {
+        description: "a re-export",
+        setup: {
+          movedSymbol: { name: "doNothing", isDefaultExport: false },
+          otherFile: `export { doNothing } from "./abracadabra";`
+        },
+        expected: `export { doNothing } from "./destination";`
+      },
+      {
+        description: "an aliased re-export with other specifiers",
+        setup: {
+          movedSymbol: { name: "doNothing", isDefaultExport: false },
+          otherFile: `export { doSomething, doNothing as noop } from "./abracadabra";`
+        },
+        expected: `export { doSomething } from "./abracadabra";
+export { doNothing as noop } from "./destination";`
+      },
+      {
+        description: "a re-export of the default export",
+        setup: {
+          movedSymbol: { name: "doNothing", isDefaultExport: true },
+          otherFile: `export { default as noop } from "./abracadabra";`
+        },
+        expected: `export { doNothing as noop } from "./destination";`
+      }
+    ],
+    async ({ setup, expected }) => {
+      const editor = new InMemoryEditor("");
+      const path = setup.path || new RelativePath("./other-file.ts");
+      editor.writeIn(path, setup.otherFile);
+
+      await updateImportsInWorkspace(editor, setup.movedSymbol, destination);
+
+      expect(await editor.codeOf(path)).toBe(expected);
+    }
+  );
+
+  testEach<{ movedSymbol: MovedSymbol; otherFile: Code }>(
+    "should not update",
+    [
+      {
+        description: "an import from another module",
+        movedSymbol: { name: "doNothing", isDefaultExport: false },
+        otherFile: `import { doNothing } from "./another-module";`
+      },
+      {
+        description: "an import of another symbol",
+        movedSymbol: { name: "doNothing", isDefaultExport: false },
+        otherFile: `import { doSomething } from "./abracadabra";`
+      },
+      {
+        description:
+          "a default import, if moved symbol wasn't the default export",
+        movedSymbol: { name: "doNothing", isDefaultExport: false },
+        otherFile: `import doNothing from "./abracadabra";`
+      },
+      {
+        description: "a file that can't be parsed",
+        movedSymbol: { name: "doNothing", isDefaultExport: false },
+        otherFile: `import { doNothing } from "./abracadabra"; (`
+      }
+    ],
+    async ({ movedSymbol, otherFile }) => {
+      const editor = new InMemoryEditor("");
+      const path = new RelativePath("./other-file.ts");
+      editor.writeIn(path, otherFile);
+
+      const updatedFiles = await updateImportsInWorkspace(
+        editor,
+        movedSymbol,
+        destination
+      );
+
+      expect(await editor.codeOf(path)).toBe(otherFile);
+      expect(updatedFiles).toEqual([]);
+    }
+  );
+
+  it("should update imports in the script of a Vue file", async () => {
+    const editor = new InMemoryEditor("");
+    const path = new RelativePath("./Hello.vue");
+    editor.writeIn(
+      path,
+      `<template><div /></template>
+
+<script>
+import { doNothing } from "./abracadabra";
+</script>`
+    );
+
+    await updateImportsInWorkspace(
+      editor,
+      { name: "doNothing", isDefaultExport: false },
+      destination
+    );
+
+    expect(await editor.codeOf(path)).toBe(`<template><div /></template>
+
+<script>
+import { doNothing } from "./destination";
+</script>`);
+  });
+
+  it("should update imports in all the scripts of a Vue file", async () => {
+    const editor = new InMemoryEditor("");
+    const path = new RelativePath("./Hello.vue");
+    editor.writeIn(
+      path,
+      `<script lang="ts">
+import { doNothing } from "./abracadabra";
+</script>
+
+<script setup lang="ts">
+import { doNothing } from "./abracadabra";
+const message: string = doNothing();
+</script>`
+    );
+
+    await updateImportsInWorkspace(
+      editor,
+      { name: "doNothing", isDefaultExport: false },
+      destination
+    );
+
+    expect(await editor.codeOf(path)).toBe(`<script lang="ts">
+import { doNothing } from "./destination";
+</script>
+
+<script setup lang="ts">
+import { doNothing } from "./destination";
+const message: string = doNothing();
+</script>`);
+  });
+
+  it("should not update the destination file", async () => {
+    const editor = new InMemoryEditor("");
+    const code = `import { doNothing } from "./abracadabra";`;
+    editor.writeIn(destination, code);
+
+    const updatedFiles = await updateImportsInWorkspace(
+      editor,
+      { name: "doNothing", isDefaultExport: false },
+      destination
+    );
+
+    expect(await editor.codeOf(destination)).toBe(code);
+    expect(updatedFiles).toEqual([]);
+  });
+
+  it("should return updated files", async () => {
+    const editor = new InMemoryEditor("");
+    editor.writeIn(
+      new RelativePath("./some-file.ts"),
+      `import { doNothing } from "./abracadabra";`
+    );
+    editor.writeIn(new RelativePath("./unrelated-file.ts"), "");
+    editor.writeIn(
+      new RelativePath("./nested/other-file.ts"),
+      `import { doNothing } from "../abracadabra";`
+    );
+
+    const updatedFiles = await updateImportsInWorkspace(
+      editor,
+      { name: "doNothing", isDefaultExport: false },
+      destination
+    );
+
+    expect(updatedFiles).toEqual([
+      new RelativePath("./some-file.ts"),
+      new RelativePath("./nested/other-file.ts")
+    ]);
+  });
+});
+
+describe("Show Updated Imports Summary", () => {
+  it("should list updated files", async () => {
+    const editor = new InMemoryEditor("");
+    jest.spyOn(editor, "showInformation");
+
+    await showUpdatedImportsSummary(editor, [
+      new RelativePath("./some-file.ts"),
+      new RelativePath("./nested/other-file.ts")
+    ]);
+
+    expect(editor.showInformation).toBeCalledWith(
+      "Updated imports in 2 files: ./some-file.ts, ./nested/other-file.ts"
+    );
+  });
+
+  it("should not show anything if no file was updated", async () => {
+    const editor = new InMemoryEditor("");
+    jest.spyOn(editor, "showInformation");
+
+    await showUpdatedImportsSummary(editor, []);
+
+    expect(editor.showInformation).not.toBeCalled();
+  });
+});
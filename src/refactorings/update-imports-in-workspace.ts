@@ -0,0 +1,208 @@
+import { Code, Editor, RelativePath } from "../editor/editor";
+import { isVueFile, transformVueScripts } from "../editor/vue";
+import * as t from "../ast";
+
+export {
+  updateImportsInWorkspace,
+  showUpdatedImportsSummary,
+  createUpdateImportsVisitor,
+  MovedSymbol
+};
+
+type MovedSymbol = {
+  name: string;
+  isDefaultExport: boolean;
+};
+
+/**
+ * Rewrite imports and re-exports of the moved symbol, in all the files
+ * of the workspace that were referencing the current file.
+ *
+ * The destination file is skipped: it's updated with the moved code.
+ */
+async function updateImportsInWorkspace(
+  editor: Editor,
+  movedSymbol: MovedSymbol,
+  destination: RelativePath
+): Promise<RelativePath[]> {
+  const currentPath = new RelativePath(editor.fileName);
+  const updatedFiles: RelativePath[] = [];
+
+  const files = await editor.workspaceFiles();
+  for (const file of files) {
+    if (file.equals(destination.value)) continue;
+
+    const fileCode = await editor.codeOf(file);
+    const updateImports = (code: Code): Code => {
+      // Default imports can have any name, we can't filter these files out.
+      if (!movedSymbol.isDefaultExport && !code.includes(movedSymbol.name)) {
+        return code;
+      }
+
+      try {
+        const updatedCode = t.transformAST(
+          t.parse(code, t.syntaxOfFile(file.value, code)),
+          createUpdateImportsVisitor(
+            movedSymbol,
+            currentPath.relativeTo(file),
+            destination.relativeTo(file)
+          )
+        );
+        return updatedCode.hasCodeChanged ? updatedCode.code : code;
+      } catch {
+        // We can't parse this code, there is nothing we can update.
+        return code;
+      }
+    };
+
+    const updatedFileCode = isVueFile(file)
+      ? transformVueScripts(fileCode, updateImports)
+      : updateImports(fileCode);
+    if (updatedFileCode === fileCode) continue;
+
+    await editor.writeIn(file, updatedFileCode);
+    updatedFiles.push(file);
+  }
+
+  return updatedFiles;
+}
+
+async function showUpdatedImportsSummary(
+  editor: Editor,
+  updatedFiles: RelativePath[]
+) {
+  if (updatedFiles.length === 0) return;
+
+  const count = updatedFiles.length;
+  const fileNames = updatedFiles.map(({ value }) => value).join(", ");
+  await editor.showInformation(
+    `Updated imports in ${count} ${
+      count === 1 ? "file" : "files"
+    }: ${fileNames}`
+  );
+}
+
+/**
+ * Without a new path, the visited file is the destination: the moved
+ * symbol is now declared there, so it doesn't need to be imported.
+ */
+function createUpdateImportsVisitor(
+  movedSymbol: MovedSymbol,
+  previousPath: RelativePath,
+  newPath: RelativePath | null
+): t.Visitor {
+  const newSource = newPath && newPath.withoutExtension;
+
+  return {
+    ImportDeclaration(path) {
+      const { source, specifiers } = path.node;
+      if (!previousPath.isImportedFrom(source.value)) return;
+
+      const movedSpecifier = specifiers.find((specifier) =>
+        movedSymbol.isDefaultExport
+          ? t.isImportDefaultSpecifier(specifier)
+          : t.isImportSpecifier(specifier) &&
+            getName(specifier.imported) === movedSymbol.name
+      );
+      if (!movedSpecifier) return;
+
+      const otherSpecifiers = specifiers.filter(
+        (specifier) => specifier !== movedSpecifier
+      );
+
+      if (!newSource) {
+        // Aliased imports are still used with their alias, keep them.
+        if (movedSpecifier.local.name !== movedSymbol.name) return;
+
+        if (otherSpecifiers.length === 0) {
+          path.remove();
+        } else {
+          path.node.specifiers = otherSpecifiers;
+        }
+        return;
+      }
+
+      // Moved symbol is now a named export of the new file.
+      const newSpecifier = t.importSpecifier(
+        movedSpecifier.local,
+        t.identifier(movedSymbol.name)
+      );
+
+      if (otherSpecifiers.length === 0) {
+        path.node.source = t.stringLiteral(newSource);
+        path.node.specifiers = [newSpecifier];
+        return;
+      }
+
+      path.node.specifiers = otherSpecifiers;
+      path.insertAfter({
+        ...t.importDeclaration([newSpecifier], t.stringLiteral(newSource)),
+        importKind: path.node.importKind
+      });
+    },
+
+    ExportNamedDeclaration(path) {
+      const { source, specifiers } = path.node;
+      if (!source || !previousPath.isImportedFrom(source.value)) return;
+
+      const exportedName = movedSymbol.isDefaultExport
+        ? "default"
+        : movedSymbol.name;
+      const movedSpecifier = specifiers.find(
+        (specifier): specifier is t.ExportSpecifier =>
+          t.isExportSpecifier(specifier) &&
+          specifier.local.name === exportedName
+      );
+      if (!movedSpecifier) return;
+
+      const otherSpecifiers = specifiers.filter(
+        (specifier) => specifier !== movedSpecifier
+      );
+
+      if (!newSource) {
+        // Symbol is now declared and exported in this file.
+        const isAliased = getName(movedSpecifier.exported) !== movedSymbol.name;
+        const localExport = t.exportNamedDeclaration(null, [
+          t.exportSpecifier(
+            t.identifier(movedSymbol.name),
+            movedSpecifier.exported
+          )
+        ]);
+
+        if (otherSpecifiers.length > 0) {
+          path.node.specifiers = otherSpecifiers;
+          if (isAliased) path.insertAfter(localExport);
+        } else if (isAliased) {
+          path.replaceWith(localExport);
+        } else {
+          path.remove();
+        }
+        return;
+      }
+
+      const newSpecifier = t.exportSpecifier(
+        t.identifier(movedSymbol.name),
+        movedSpecifier.exported
+      );
+
+      if (otherSpecifiers.length === 0) {
+        path.node.source = t.stringLiteral(newSource);
+        path.node.specifiers = [newSpecifier];
+        return;
+      }
+
+      path.node.specifiers = otherSpecifiers;
+      path.insertAfter(
+        t.exportNamedDeclaration(
+          null,
+          [newSpecifier],
+          t.stringLiteral(newSource)
+        )
+      );
+    }
+  };
+}
+
+function getName(node: t.Identifier | t.StringLiteral): string {
+  return t.isIdentifier(node) ? node.name : node.value;
+}
@@ -1,6 +1,11 @@
 import * as vscode from "vscode";
 
-export { getIgnoredFolders, shouldShowInQuickFix };
+export {
+  getIgnoredFolders,
+  shouldShowInQuickFix,
+  shouldPreviewChanges,
+  shouldShowParseErrors
+};
 
 function getIgnoredFolders(): string[] {
   const result = vscode.workspace
@@ -24,3 +29,19 @@ function shouldShowInQuickFix(refactoringKey: string): boolean {
 
   return typeof result === "boolean" ? result : true;
 }
+
+function shouldPreviewChanges(refactoringKey: string): boolean {
+  const result = vscode.workspace
+    .getConfiguration("abracadabra")
+    .get("previewChanges");
+
+  return Array.isArray(result) && result.includes(refactoringKey);
+}
+
+function shouldShowParseErrors(): boolean {
+  const result = vscode.workspace
+    .getConfiguration("abracadabra")
+    .get("showParseErrors");
+
+  return result === true;
+}
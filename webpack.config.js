@@ -3,9 +3,12 @@
 "use strict";
 
 const path = require("path");
+const webpack = require("webpack");
 
 /** @type {import('webpack').Configuration} */
 const config = {
+  name: "extension",
+
   // vscode extensions run in a Node.js-context
   // => https://webpack.js.org/configuration/node/
   target: "node",
@@ -51,4 +54,25 @@ const config = {
   }
 };
 
-module.exports = config;
+/**
+ * The command line is bundled too, so the `bin` of package.json exists in
+ * the packaged extension.
+ *
+ * @type {import('webpack').Configuration}
+ */
+const cliConfig = {
+  ...config,
+  name: "cli",
+  entry: "./src/cli/index.ts",
+  output: {
+    ...config.output,
+    path: path.resolve(__dirname, "out", "cli"),
+    filename: "index.js"
+  },
+  // Webpack can't parse the shebang, we add it to the bundle instead.
+  plugins: [
+    new webpack.BannerPlugin({ banner: "#!/usr/bin/env node", raw: true })
+  ]
+};
+
+module.exports = [config, cliConfig];